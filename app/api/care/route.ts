@@ -1,8 +1,11 @@
 /* app/api/care/route.ts
    Secure server actions for Care OS:
    - Protocols: listProtocols, addProtocol, updateProtocol, deleteProtocol, assignProtocol, updateProtocolAssignment
+   - Treatment plans: listProtocolAssignments, listProtocolTasks, completeProtocolTask, skipProtocolTask
    - Feeding:   upsertRation, upsertFeedingSchedule, recordFeedingEvent
-   - Monitoring/Alerts: logVitals, createAlert, resolveAlert
+   - Monitoring/Alerts: logVitals (alias of /api/vitals addVital), listAlerts, createAlert, resolveAlert
+   - Alert rules: listAlertRules, upsertAlertRule, deleteAlertRule, evaluateAlertRules
+   - Seed mixes & paddock seeding: listSeedMixes, upsertSeedMix, getPaddockSeeding, savePaddockSeeding, …
 */
 
 export const runtime = "nodejs";          // ensure Node (not Edge)
@@ -10,6 +13,11 @@ export const dynamic = "force-dynamic";   // disable caching for API
 
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { addDays, todayYmd } from "@/lib/dates";
+import { DEFAULT_RULES, validateRule } from "@/lib/alertRules";
+import { runAlertRules } from "@/lib/alertEngine";
+import { buildVitalsRow } from "@/lib/vitals";
+import { clearDates, findProduct, type WithdrawalProduct } from "@/lib/withdrawal";
 
 /* ───────────────── Helpers ───────────────── */
 function ok(data?: any) {
@@ -18,6 +26,33 @@ function ok(data?: any) {
 function err(message = "Request failed", status = 400, details?: any) {
   return NextResponse.json({ ok: false, error: message, details }, { status });
 }
+// Nullable numeric field: undefined/null/"" → null, otherwise Number()
+function numOrNull(v: any): number | null {
+  if (v === undefined || v === null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/* ───────────────── Protocol steps ───────────────── */
+type ProtocolStep = { label: string; day: number; product: string | null; dose: string | null };
+
+// Accepts legacy string steps ("Give vaccine") as day-0 steps
+function normalizeSteps(input: any[]): ProtocolStep[] {
+  return input
+    .map((s: any) =>
+      typeof s === "string"
+        ? { label: s.trim(), day: 0, product: null, dose: null }
+        : {
+            label: String(s?.label ?? "").trim(),
+            day: Math.max(0, Math.round(Number(s?.day ?? 0)) || 0),
+            product: s?.product ? String(s.product).trim() : null,
+            dose: s?.dose ? String(s.dose).trim() : null,
+          }
+    )
+    .filter((s) => s.label !== "");
+}
+
+const ASSIGNMENT_STATUSES = ["pending", "in_progress", "completed", "skipped"];
 
 /* ───────────────── Supabase (SERVER: service key) ───────────────── */
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -27,12 +62,25 @@ const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
   auth: { persistSession: false },
 });
 
+// Confirms a row exists for this tenant before we reference it from another table
+async function ownedBy(table: string, tenant_id: string, id: number) {
+  const { data, error } = await admin
+    .from(table)
+    .select("id")
+    .eq("tenant_id", tenant_id)
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  return Boolean(data);
+}
+
 /* ───────────────── POST Handler ───────────────── */
 export async function POST(req: Request) {
   try {
     const body = await req.json().catch(() => ({}));
     const action = String(body?.action || "");
-    const tenant_id = String(body?.tenant_id || "");
+    // Some clients (FeedingSchedules, HealthMonitor) only send tenant_id inside payload
+    const tenant_id = String(body?.tenant_id || body?.payload?.tenant_id || "");
 
     if (!action) return err("Action is required");
     if (!tenant_id) return err("tenant_id is required");
@@ -46,6 +94,685 @@ export async function POST(req: Request) {
       });
     }
 
+    /* ───────── Protocols ───────── */
+
+    // List protocols for a tenant
+    if (action === "listProtocols") {
+      const { data, error } = await admin
+        .from("agriops_protocols")
+        .select("*")
+        .eq("tenant_id", tenant_id)
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return ok(data);
+    }
+
+    // Add a protocol (fields are sent at the top level of the body)
+    if (action === "addProtocol") {
+      const name = String(body?.name || "").trim();
+      if (!name) return err("name is required");
+      const steps = Array.isArray(body?.steps) ? normalizeSteps(body.steps) : [];
+
+      const { data, error } = await admin
+        .from("agriops_protocols")
+        .insert({
+          tenant_id,
+          name,
+          trigger: body?.trigger ? String(body.trigger) : null,
+          steps,
+          notes: body?.notes ?? null,
+        })
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return ok(data);
+    }
+
+    // Update a protocol (only the fields present in patch are written)
+    if (action === "updateProtocol") {
+      const id = Number(body?.id || 0);
+      if (!id) return err("id is required");
+      const patch = body?.patch || {};
+
+      const up: Record<string, any> = {};
+      if (patch.name !== undefined) {
+        const name = String(patch.name || "").trim();
+        if (!name) return err("patch.name cannot be empty");
+        up.name = name;
+      }
+      if (patch.trigger !== undefined) up.trigger = patch.trigger ? String(patch.trigger) : null;
+      if (patch.steps !== undefined) {
+        if (!Array.isArray(patch.steps)) return err("patch.steps must be an array");
+        up.steps = normalizeSteps(patch.steps);
+      }
+      if (patch.notes !== undefined) up.notes = patch.notes ?? null;
+      if (!Object.keys(up).length) return err("patch is empty");
+
+      const { data, error } = await admin
+        .from("agriops_protocols")
+        .update(up)
+        .eq("tenant_id", tenant_id)
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return err("Protocol not found", 404);
+      return ok(data);
+    }
+
+    // Delete a protocol
+    if (action === "deleteProtocol") {
+      const id = Number(body?.id || 0);
+      if (!id) return err("id is required");
+
+      const { error } = await admin
+        .from("agriops_protocols")
+        .delete()
+        .eq("tenant_id", tenant_id)
+        .eq("id", id);
+
+      if (error) throw error;
+      return ok({ deleted: true });
+    }
+
+    // Assign a protocol to one animal, every animal in a paddock, or the whole active herd.
+    // Creates one assignment per animal plus a dated task per protocol step.
+    if (action === "assignProtocol") {
+      const payload = body?.payload || {};
+      const protocol_id = Number(payload?.protocol_id || 0);
+      if (!protocol_id) return err("payload.protocol_id is required");
+      const scope = String(payload?.scope || "animal");
+      if (!["animal", "paddock", "herd"].includes(scope)) return err(`Invalid scope: ${scope}`);
+      const start_date = String(payload?.start_date || new Date().toISOString().slice(0, 10));
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(start_date)) return err("payload.start_date must be yyyy-mm-dd");
+
+      const { data: protocol, error: pErr } = await admin
+        .from("agriops_protocols")
+        .select("id, name, steps")
+        .eq("tenant_id", tenant_id)
+        .eq("id", protocol_id)
+        .maybeSingle();
+      if (pErr) throw pErr;
+      if (!protocol) return err("Protocol not found for tenant", 404);
+      const steps = normalizeSteps(Array.isArray(protocol.steps) ? protocol.steps : []);
+      if (!steps.length) return err("Protocol has no steps to schedule");
+
+      // Resolve target animals for the scope
+      let group_key: string | null = null;
+      let animal_id = 0;
+      if (scope === "animal") {
+        animal_id = Number(payload?.animal_id || 0);
+        if (!animal_id) return err("payload.animal_id is required for scope 'animal'");
+      } else if (scope === "paddock") {
+        group_key = String(payload?.group_key || "").trim();
+        if (!group_key) return err("payload.group_key (paddock) is required for scope 'paddock'");
+      } else {
+        group_key = "herd";
+      }
+      // PostgREST caps a response at 1000 rows, so page through the herd
+      const animal_ids: number[] = [];
+      for (let from = 0; ; from += 1000) {
+        let q = admin.from("agriops_cattle").select("id").eq("tenant_id", tenant_id);
+        if (scope === "animal") q = q.eq("id", animal_id);
+        else if (scope === "paddock") {
+          // paddock id, or its name (current_paddock mirrors the name of current_paddock_id)
+          q = /^\d+$/.test(group_key!)
+            ? q.eq("current_paddock_id", Number(group_key))
+            : q.ilike("current_paddock", group_key!);
+          q = q.eq("status", "active");
+        } else q = q.eq("status", "active");
+        const { data, error: aErr } = await q.order("id").range(from, from + 999);
+        if (aErr) throw aErr;
+        animal_ids.push(...(data || []).map((a: any) => a.id));
+        if (!data || data.length < 1000) break;
+      }
+      if (!animal_ids.length) return err("No matching animals for this assignment", 404);
+
+      // 200 animals per batch; if any batch fails, everything written so far is removed
+      // (tasks go with their assignments) so no assignment is left without its tasks
+      const created: number[] = [];
+      let taskCount = 0;
+      try {
+        for (let at = 0; at < animal_ids.length; at += 200) {
+          const { data: assignments, error: asErr } = await admin
+            .from("agriops_protocol_assignments")
+            .insert(
+              animal_ids.slice(at, at + 200).map((id) => ({
+                tenant_id,
+                protocol_id,
+                animal_id: id,
+                scope,
+                group_key,
+                start_date,
+                status: "pending",
+                notes: payload.notes ?? null,
+              }))
+            )
+            .select("id, animal_id");
+          if (asErr) throw asErr;
+          created.push(...(assignments || []).map((as: any) => as.id));
+
+          const tasks = (assignments || []).flatMap((as: any) =>
+            steps.map((st, i) => ({
+              tenant_id,
+              assignment_id: as.id,
+              animal_id: as.animal_id,
+              step_index: i,
+              label: st.label,
+              product: st.product,
+              dose: st.dose,
+              due_date: addDays(start_date, st.day),
+              status: "pending",
+            }))
+          );
+          const { error: tErr } = await admin.from("agriops_protocol_tasks").insert(tasks);
+          if (tErr) throw tErr;
+          taskCount += tasks.length;
+        }
+      } catch (e) {
+        for (let i = 0; i < created.length; i += 200) {
+          await admin
+            .from("agriops_protocol_assignments")
+            .delete()
+            .eq("tenant_id", tenant_id)
+            .in("id", created.slice(i, i + 200));
+        }
+        throw e;
+      }
+
+      return ok({ assignments: created.length, tasks: taskCount });
+    }
+
+    // Update an assignment's status / notes. Skipping also skips its open tasks.
+    if (action === "updateProtocolAssignment") {
+      const id = Number(body?.id || 0);
+      if (!id) return err("id is required");
+      const patch = body?.patch || {};
+
+      const up: Record<string, any> = {};
+      if (patch.status !== undefined) {
+        const status = String(patch.status);
+        if (!ASSIGNMENT_STATUSES.includes(status)) return err(`Invalid status: ${status}`);
+        up.status = status;
+        up.completed_at = status === "completed" ? new Date().toISOString() : null;
+      }
+      if (patch.notes !== undefined) up.notes = patch.notes ?? null;
+      if (!Object.keys(up).length) return err("patch is empty");
+
+      const { data, error } = await admin
+        .from("agriops_protocol_assignments")
+        .update(up)
+        .eq("tenant_id", tenant_id)
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return err("Assignment not found", 404);
+
+      if (up.status === "skipped") {
+        const { error: tErr } = await admin
+          .from("agriops_protocol_tasks")
+          .update({ status: "skipped" })
+          .eq("tenant_id", tenant_id)
+          .eq("assignment_id", id)
+          .eq("status", "pending");
+        if (tErr) throw tErr;
+      }
+      return ok(data);
+    }
+
+    // List assignments (optionally for one animal / status) with protocol name and tag
+    if (action === "listProtocolAssignments") {
+      let q = admin
+        .from("agriops_protocol_assignments")
+        .select("*, protocol:agriops_protocols(name), animal:agriops_cattle(tag)")
+        .eq("tenant_id", tenant_id)
+        .order("start_date", { ascending: false });
+      if (body?.animal_id) q = q.eq("animal_id", Number(body.animal_id));
+      if (body?.status) q = q.eq("status", String(body.status));
+
+      const { data, error } = await q;
+      if (error) throw error;
+      return ok(data);
+    }
+
+    // List protocol tasks; defaults to pending tasks due on/before due_before (if given)
+    if (action === "listProtocolTasks") {
+      let q = admin
+        .from("agriops_protocol_tasks")
+        .select("*, animal:agriops_cattle(tag), assignment:agriops_protocol_assignments(protocol:agriops_protocols(name))")
+        .eq("tenant_id", tenant_id)
+        .eq("status", String(body?.status || "pending"))
+        .order("due_date", { ascending: true })
+        .order("step_index", { ascending: true });
+      if (body?.animal_id) q = q.eq("animal_id", Number(body.animal_id));
+      if (body?.assignment_id) q = q.eq("assignment_id", Number(body.assignment_id));
+      if (body?.due_before) q = q.lte("due_date", String(body.due_before));
+
+      const { data, error } = await q;
+      if (error) throw error;
+      return ok(data);
+    }
+
+    // Complete a task: writes a treatment row (same shape as /api/cattle addTreatment)
+    if (action === "completeProtocolTask" || action === "skipProtocolTask") {
+      const id = Number(body?.id || 0);
+      if (!id) return err("id is required");
+
+      const { data: task, error: tErr } = await admin
+        .from("agriops_protocol_tasks")
+        .select("*, assignment:agriops_protocol_assignments(id, status, protocol:agriops_protocols(name))")
+        .eq("tenant_id", tenant_id)
+        .eq("id", id)
+        .maybeSingle();
+      if (tErr) throw tErr;
+      if (!task) return err("Task not found", 404);
+      if (task.status !== "pending") return err(`Task is already ${task.status}`, 409);
+
+      const protocolName = task.assignment?.protocol?.name || "Protocol";
+      const product = body?.product ?? task.product ?? null;
+      let match: WithdrawalProduct | null = null;
+      if (action === "completeProtocolTask") {
+        const { data: catalog, error: cErr } = await admin
+          .from("agriops_vet_products")
+          .select("id, name, meat_withdrawal_days, milk_withdrawal_days")
+          .eq("tenant_id", tenant_id);
+        if (cErr) throw cErr;
+        match = findProduct((catalog || []) as WithdrawalProduct[], null, product);
+      }
+
+      // Claim the task before writing anything, so a double click or a concurrent request can't
+      // record the treatment twice; only the request that flips it from pending carries on.
+      const done_date = String(body?.done_date || new Date().toISOString().slice(0, 10));
+      const up: Record<string, any> =
+        action === "completeProtocolTask"
+          ? { status: "completed", done_date, notes: body?.notes ?? task.notes ?? null }
+          : { status: "skipped", notes: body?.notes ?? task.notes ?? null };
+      const { data: claimed, error: clErr } = await admin
+        .from("agriops_protocol_tasks")
+        .update(up)
+        .eq("tenant_id", tenant_id)
+        .eq("id", id)
+        .eq("status", "pending")
+        .select("id");
+      if (clErr) throw clErr;
+      if (!claimed?.length) return err("Task is no longer pending", 409);
+
+      if (action === "completeProtocolTask") {
+        const { data: treatment, error: trErr } = await admin
+          .from("agriops_cattle_treatments")
+          .insert({
+            tenant_id,
+            animal_id: task.animal_id,
+            treat_date: done_date,
+            product: match?.name ?? product,
+            product_id: match?.id ?? null,
+            ...clearDates(done_date, match),
+            dose: body?.dose ?? task.dose ?? null,
+            notes: [`${protocolName} — ${task.label}`, body?.notes].filter(Boolean).join(" — "),
+          })
+          .select("id")
+          .single();
+        if (trErr) {
+          // hand the task back so it can be completed again
+          await admin
+            .from("agriops_protocol_tasks")
+            .update({ status: "pending", done_date: null, notes: task.notes ?? null })
+            .eq("tenant_id", tenant_id)
+            .eq("id", id);
+          throw trErr;
+        }
+        up.treatment_id = treatment.id;
+        const { error: uErr } = await admin
+          .from("agriops_protocol_tasks")
+          .update({ treatment_id: treatment.id })
+          .eq("tenant_id", tenant_id)
+          .eq("id", id);
+        if (uErr) throw uErr;
+      }
+
+      // Roll the assignment status forward from its tasks (a skipped assignment stays skipped)
+      const { data: siblings, error: sErr } = await admin
+        .from("agriops_protocol_tasks")
+        .select("status")
+        .eq("tenant_id", tenant_id)
+        .eq("assignment_id", task.assignment_id);
+      if (sErr) throw sErr;
+      if (task.assignment?.status !== "skipped") {
+        const open = (siblings || []).some((t: any) => t.status === "pending");
+        const done = (siblings || []).some((t: any) => t.status === "completed");
+        const status = open ? "in_progress" : done ? "completed" : "skipped";
+        const { error: aErr } = await admin
+          .from("agriops_protocol_assignments")
+          .update({ status, completed_at: status === "completed" ? new Date().toISOString() : null })
+          .eq("tenant_id", tenant_id)
+          .eq("id", task.assignment_id);
+        if (aErr) throw aErr;
+      }
+
+      return ok({ id, status: up.status, treatment_id: up.treatment_id ?? null });
+    }
+
+    /* ───────── Feeding ───────── */
+
+    // Upsert a ration (ingredients: [{ name, pct }])
+    if (action === "upsertRation") {
+      const payload = body?.payload || {};
+      const name = String(payload?.name || "").trim();
+      if (!name) return err("payload.name is required");
+      const ingredients = Array.isArray(payload.ingredients)
+        ? payload.ingredients
+            .map((i: any) => ({ name: String(i?.name ?? "").trim(), pct: Number(i?.pct ?? 0) }))
+            .filter((i: { name: string }) => i.name !== "")
+        : [];
+      const pctTotal = ingredients.reduce((a: number, i: { pct: number }) => a + i.pct, 0);
+      if (ingredients.length && Math.abs(pctTotal - 100) > 0.5) {
+        return err(`Ingredient percentages must total 100 (got ${pctTotal})`);
+      }
+
+      const up = {
+        id: payload.id ?? undefined,
+        tenant_id,
+        name,
+        dmi_target_kg: numOrNull(payload.dmi_target_kg),
+        ingredients,
+        notes: payload.notes ?? null,
+      };
+
+      const { data, error } = await admin
+        .from("agriops_feed_rations")
+        .upsert(up, { onConflict: "id" })
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return ok(data);
+    }
+
+    // Upsert a feeding schedule for a group / paddock
+    if (action === "upsertFeedingSchedule") {
+      const payload = body?.payload || {};
+      const group_key = String(payload?.group_key || "").trim();
+      if (!group_key) return err("payload.group_key is required");
+      const ration_id = Number(payload?.ration_id || 0);
+      if (!ration_id) return err("payload.ration_id is required");
+      if (!payload?.start_date) return err("payload.start_date is required");
+      if (payload.end_date && payload.end_date < payload.start_date) {
+        return err("payload.end_date must be on or after start_date");
+      }
+      if (!(await ownedBy("agriops_feed_rations", tenant_id, ration_id))) {
+        return err("Ration not found for tenant", 404);
+      }
+
+      const times = Array.isArray(payload.times)
+        ? payload.times.map((t: any) => String(t).trim()).filter((t: string) => /^\d{2}:\d{2}$/.test(t))
+        : [];
+
+      const up = {
+        id: payload.id ?? undefined,
+        tenant_id,
+        group_key,
+        ration_id,
+        start_date: payload.start_date,
+        end_date: payload.end_date || null,
+        times,
+        notes: payload.notes ?? null,
+      };
+
+      const { data, error } = await admin
+        .from("agriops_feeding_schedule")
+        .upsert(up, { onConflict: "id" })
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return ok(data);
+    }
+
+    // Record an actual feeding against a schedule (or ad-hoc with a ration)
+    if (action === "recordFeedingEvent") {
+      const payload = body?.payload || {};
+      const schedule_id = payload?.schedule_id ? Number(payload.schedule_id) : null;
+      let ration_id = payload?.ration_id ? Number(payload.ration_id) : null;
+      let group_key = payload?.group_key ? String(payload.group_key).trim() : null;
+
+      if (schedule_id) {
+        const { data: sched, error: sErr } = await admin
+          .from("agriops_feeding_schedule")
+          .select("id, ration_id, group_key")
+          .eq("tenant_id", tenant_id)
+          .eq("id", schedule_id)
+          .maybeSingle();
+        if (sErr) throw sErr;
+        if (!sched) return err("Schedule not found for tenant", 404);
+        ration_id = ration_id ?? sched.ration_id;
+        group_key = group_key ?? sched.group_key;
+      }
+      if (!ration_id) return err("payload.schedule_id or payload.ration_id is required");
+      if (!group_key) return err("payload.group_key is required");
+      if (!schedule_id && !(await ownedBy("agriops_feed_rations", tenant_id, ration_id))) {
+        return err("Ration not found for tenant", 404);
+      }
+
+      const amount_kg = numOrNull(payload.amount_kg);
+      if (amount_kg !== null && amount_kg < 0) return err("payload.amount_kg cannot be negative");
+
+      const { data, error } = await admin
+        .from("agriops_feeding_events")
+        .insert({
+          tenant_id,
+          schedule_id,
+          ration_id,
+          group_key,
+          fed_at: payload.fed_at || new Date().toISOString(),
+          amount_kg,
+          notes: payload.notes ?? null,
+        })
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return ok(data);
+    }
+
+    /* ───────── Monitoring / Alerts ───────── */
+
+    // Log a daily vitals reading (kept for older clients; /api/vitals addVital is the main entry point)
+    if (action === "logVitals") {
+      const payload = body?.payload || {};
+      const animal_id = Number(payload?.animal_id || 0);
+      if (!animal_id) return err("payload.animal_id is required");
+      if (!payload?.reading_date) return err("payload.reading_date is required");
+      if (!(await ownedBy("agriops_cattle", tenant_id, animal_id))) {
+        return err("Animal not found for tenant", 404);
+      }
+
+      const { row, error: vErr } = buildVitalsRow(tenant_id, animal_id, payload, "care");
+      if (!row) return err(vErr || "Invalid vitals");
+
+      const { data, error } = await admin
+        .from("agriops_vitals")
+        .insert(row)
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      const alerts = await runAlertRules(admin, tenant_id, [animal_id], data.reading_date);
+      return ok({ ...data, alerts });
+    }
+
+    // List configured rules (falls back to the built-in defaults when none exist)
+    if (action === "listAlertRules") {
+      const { data, error } = await admin
+        .from("agriops_alert_rules")
+        .select("*")
+        .eq("tenant_id", tenant_id)
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return ok({ rules: data?.length ? data : DEFAULT_RULES, usingDefaults: !data?.length });
+    }
+
+    // Upsert a rule (rule.name doubles as the alert type used for de-duplication)
+    if (action === "upsertAlertRule") {
+      const payload = body?.payload || {};
+      const rule = {
+        id: payload.id ?? undefined,
+        tenant_id,
+        name: String(payload.name || "").trim(),
+        metric: payload.metric,
+        kind: payload.kind,
+        operator: payload.kind === "missing" ? null : payload.operator || null,
+        threshold: payload.kind === "missing" ? null : numOrNull(payload.threshold),
+        window_days: payload.kind === "threshold" ? null : numOrNull(payload.window_days),
+        severity: payload.severity || "warn",
+        enabled: payload.enabled !== false,
+      };
+      const invalid = validateRule(rule);
+      if (invalid) return err(invalid);
+
+      const { data, error } = await admin
+        .from("agriops_alert_rules")
+        .upsert(rule, { onConflict: "id" })
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return ok(data);
+    }
+
+    // Delete a rule (existing alerts keep their type/message)
+    if (action === "deleteAlertRule") {
+      const id = Number(body?.id || 0);
+      if (!id) return err("id is required");
+
+      const { error } = await admin
+        .from("agriops_alert_rules")
+        .delete()
+        .eq("tenant_id", tenant_id)
+        .eq("id", id);
+
+      if (error) throw error;
+      return ok({ deleted: true });
+    }
+
+    // Evaluate every rule across the active herd (run on a schedule to catch missing readings)
+    if (action === "evaluateAlertRules") {
+      const as_of = String(body?.as_of || todayYmd());
+      // PostgREST caps a response at 1000 rows, so page through the herd
+      const animal_ids: number[] = [];
+      for (let from = 0; ; from += 1000) {
+        const { data, error } = await admin
+          .from("agriops_cattle")
+          .select("id")
+          .eq("tenant_id", tenant_id)
+          .eq("status", "active")
+          .order("id")
+          .range(from, from + 999);
+        if (error) throw error;
+        animal_ids.push(...(data || []).map((a: any) => a.id));
+        if (!data || data.length < 1000) break;
+      }
+      return ok(await runAlertRules(admin, tenant_id, animal_ids, as_of));
+    }
+
+    // Alerts for the tenant, or one animal's history (open + resolved) for charts
+    if (action === "listAlerts") {
+      let q = admin
+        .from("agriops_alerts")
+        .select("*")
+        .eq("tenant_id", tenant_id)
+        .order("detected_at", { ascending: false })
+        .limit(Math.min(Number(body?.limit) || 500, 2000));
+      if (body?.animal_id) q = q.eq("animal_id", Number(body.animal_id));
+      if (body?.open_only) q = q.is("resolved_at", null);
+      if (body?.since) q = q.gte("detected_at", String(body.since));
+
+      const { data, error } = await q;
+      if (error) throw error;
+      return ok(data || []);
+    }
+
+    // Raise an alert (animal_id optional for herd-level alerts)
+    if (action === "createAlert") {
+      const payload = body?.payload || {};
+      const type = String(payload?.type || "").trim();
+      const message = String(payload?.message || "").trim();
+      if (!type) return err("payload.type is required");
+      if (!message) return err("payload.message is required");
+      const animal_id = payload?.animal_id ? Number(payload.animal_id) : null;
+      if (animal_id && !(await ownedBy("agriops_cattle", tenant_id, animal_id))) {
+        return err("Animal not found for tenant", 404);
+      }
+      const severity = String(payload?.severity || "info");
+      if (!["info", "warn", "high"].includes(severity)) return err(`Invalid severity: ${severity}`);
+      const now = new Date().toISOString();
+
+      // Same de-duplication as rule alerts: one open alert per animal + type
+      if (animal_id) {
+        const { data: existing, error: eErr } = await admin
+          .from("agriops_alerts")
+          .select("id, occurrences")
+          .eq("tenant_id", tenant_id)
+          .eq("animal_id", animal_id)
+          .eq("type", type)
+          .is("resolved_at", null)
+          .maybeSingle();
+        if (eErr) throw eErr;
+        if (existing) {
+          const { data, error } = await admin
+            .from("agriops_alerts")
+            .update({ severity, message, last_seen_at: now, occurrences: Number(existing.occurrences || 1) + 1 })
+            .eq("tenant_id", tenant_id)
+            .eq("id", existing.id)
+            .select("*")
+            .single();
+          if (error) throw error;
+          return ok(data);
+        }
+      }
+
+      const { data, error } = await admin
+        .from("agriops_alerts")
+        .insert({
+          tenant_id,
+          animal_id,
+          type,
+          severity,
+          message,
+          detected_at: now,
+          last_seen_at: now,
+          occurrences: 1,
+        })
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      return ok(data);
+    }
+
+    // Mark an alert resolved
+    if (action === "resolveAlert") {
+      const id = Number(body?.id || 0);
+      if (!id) return err("id is required");
+
+      const { data, error } = await admin
+        .from("agriops_alerts")
+        .update({ resolved_at: new Date().toISOString() })
+        .eq("tenant_id", tenant_id)
+        .eq("id", id)
+        .is("resolved_at", null)
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw error;
+      return ok(data || { resolved: true });
+    }
+
     /* ───────── Seed Mixes ───────── */
 
     // List all mixes for a tenant
@@ -1,6 +1,22 @@
 // app/api/cattle/route.ts
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { withdrawalStatus, clearDates, findProduct, type WithdrawalProduct } from "@/lib/withdrawal";
+import {
+  ancestorTree,
+  animalInbreeding,
+  checkMating,
+  descendants,
+  indexAnimals,
+  isAncestor,
+  type PedigreeAnimal,
+  type PedigreeIndex,
+} from "@/lib/pedigree";
+import { likelySire, seasonSummary, validateBreedingEvent, type BreedingEvent } from "@/lib/breeding";
+import { addDays, isYmd, todayYmd } from "@/lib/dates";
+import { OFF_FARM_STATUSES, recordMovements, resolvePaddock, syncCurrentPaddocks } from "@/lib/movements";
+import { projectWeights, type WeightRow } from "@/lib/herdStats";
+import { animalUnits, type AuAnimal } from "@/lib/animalUnits";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -33,6 +49,128 @@ function bad(status: number, error: string) {
   return NextResponse.json({ ok: false, error }, { status });
 }
 
+type Supa = ReturnType<typeof getSupabase>;
+
+async function listProducts(supa: Supa, tenant_id: string): Promise<WithdrawalProduct[]> {
+  const { data, error } = await supa
+    .from("agriops_vet_products")
+    .select("id, name, meat_withdrawal_days, milk_withdrawal_days")
+    .eq("tenant_id", tenant_id);
+  if (error) throw error;
+  return (data || []) as WithdrawalProduct[];
+}
+
+async function animalWithdrawal(supa: Supa, tenant_id: string, animal_id: number, as_of: string) {
+  const [{ data, error }, products] = await Promise.all([
+    supa
+      .from("agriops_cattle_treatments")
+      .select("id, treat_date, product, product_id, meat_clear_date, milk_clear_date")
+      .eq("tenant_id", tenant_id)
+      .eq("animal_id", animal_id),
+    listProducts(supa, tenant_id),
+  ]);
+  if (error) throw error;
+  return withdrawalStatus(data || [], products, as_of);
+}
+
+/** Every animal of the tenant with its parent links (paged past the 1000-row API limit). */
+async function loadPedigree(supa: Supa, tenant_id: string): Promise<PedigreeIndex> {
+  const rows: PedigreeAnimal[] = [];
+  for (let from = 0; ; from += 1000) {
+    const { data, error } = await supa
+      .from("agriops_cattle")
+      .select("id, tag, name, sex, birth_date, status, dam_id, sire_id")
+      .eq("tenant_id", tenant_id)
+      .order("id")
+      .range(from, from + 999);
+    if (error) throw error;
+    rows.push(...((data || []) as PedigreeAnimal[]));
+    if (!data || data.length < 1000) break;
+  }
+  return indexAnimals(rows);
+}
+
+/** Weights of the given animals on or before as_of (200 ids per query, each paged). */
+async function loadWeights(supa: Supa, tenant_id: string, ids: number[], as_of: string): Promise<WeightRow[]> {
+  const weights: WeightRow[] = [];
+  for (let i = 0; i < ids.length; i += 200) {
+    for (let from = 0; ; from += 1000) {
+      const { data, error } = await supa
+        .from("agriops_cattle_weights")
+        .select("animal_id, weigh_date, weight_lb")
+        .eq("tenant_id", tenant_id)
+        .in("animal_id", ids.slice(i, i + 200))
+        .lte("weigh_date", as_of)
+        .order("id")
+        .range(from, from + 999);
+      if (error) throw error;
+      weights.push(...((data || []) as WeightRow[]));
+      if (!data || data.length < 1000) break;
+    }
+  }
+  return weights;
+}
+
+const findByTag = (index: PedigreeIndex, tag: string) => {
+  const t = tag.trim().toLowerCase();
+  for (const a of Array.from(index.values())) if (a.tag?.trim().toLowerCase() === t) return a;
+  return undefined;
+};
+
+/**
+ * Resolves dam/sire from *_id or *_tag fields of `p` (only the keys present are touched) and
+ * validates them against the child: right sex, not itself, no cycles, born before the child.
+ */
+function resolveParents(
+  index: PedigreeIndex,
+  child: { id?: number | null; birth_date?: string | null },
+  p: Record<string, any>
+): { fields: { dam_id?: number | null; sire_id?: number | null }; error?: string } {
+  const fields: { dam_id?: number | null; sire_id?: number | null } = {};
+  for (const role of ["dam", "sire"] as const) {
+    const idKey = `${role}_id`;
+    const tagKey = `${role}_tag`;
+    if (p[idKey] === undefined && p[tagKey] === undefined) continue;
+
+    let parent: PedigreeAnimal | undefined;
+    if (p[idKey]) parent = index.get(Number(p[idKey]));
+    else if (p[tagKey] && String(p[tagKey]).trim()) parent = findByTag(index, String(p[tagKey]));
+    else {
+      fields[idKey as "dam_id" | "sire_id"] = null;
+      continue;
+    }
+    const ref = p[idKey] || p[tagKey];
+    if (!parent) return { fields, error: `${role} ${ref} not found` };
+    if (child.id && parent.id === Number(child.id)) return { fields, error: `An animal cannot be its own ${role}` };
+    const sex = String(parent.sex || "").toUpperCase();
+    if (role === "dam" && sex === "M") return { fields, error: `Dam ${parent.tag} is recorded as male` };
+    if (role === "sire" && sex === "F") return { fields, error: `Sire ${parent.tag} is recorded as female` };
+    if (child.id && isAncestor(index, Number(child.id), parent.id)) {
+      return { fields, error: `${parent.tag} is a descendant of this animal` };
+    }
+    if (child.birth_date && parent.birth_date && parent.birth_date >= child.birth_date) {
+      return { fields, error: `${role} ${parent.tag} was born after this animal` };
+    }
+    fields[idKey as "dam_id" | "sire_id"] = parent.id;
+  }
+  return { fields };
+}
+
+/**
+ * Paddock requested by a payload: current_paddock_id wins over the legacy current_paddock name.
+ * `undefined` when the payload doesn't mention a paddock at all.
+ */
+async function requestedPaddock(supa: Supa, tenant_id: string, p: Record<string, any>) {
+  if (p.current_paddock_id !== undefined) {
+    return p.current_paddock_id ? resolvePaddock(supa, tenant_id, { id: p.current_paddock_id }) : { id: null, name: null };
+  }
+  if (p.current_paddock !== undefined) return resolvePaddock(supa, tenant_id, { name: p.current_paddock });
+  return undefined;
+}
+
+const hasParentKeys = (p: Record<string, any>) =>
+  ["dam_id", "sire_id", "dam_tag", "sire_tag"].some((k) => p?.[k] !== undefined);
+
 export async function OPTIONS() {
   return NextResponse.json({ ok: true });
 }
@@ -66,6 +204,14 @@ export async function POST(req: Request) {
       case "upsertAnimal": {
         const p = body?.payload || {};
         if (!p?.tenant_id || !p?.tag) return bad(400, "payload.tenant_id and payload.tag are required");
+        let parents = {};
+        if (hasParentKeys(p)) {
+          const r = resolveParents(await loadPedigree(supa, p.tenant_id), { id: p.id, birth_date: p.birth_date }, p);
+          if (r.error) return bad(400, r.error);
+          parents = r.fields;
+        }
+        const paddock = await requestedPaddock(supa, p.tenant_id, p);
+        if (paddock?.error) return bad(400, paddock.error);
         const { data, error } = await supa
           .from("agriops_cattle")
           .upsert(
@@ -75,14 +221,28 @@ export async function POST(req: Request) {
               name: p.name ?? null,
               sex: p.sex ?? null,
               breed: p.breed ?? null,
+              eid: p.eid ? String(p.eid).replace(/\s+/g, "") : null,
+              ...(p.group_name !== undefined ? { group_name: String(p.group_name || "").trim() || null } : {}),
               birth_date: p.birth_date ?? null,
-              current_paddock: p.current_paddock ?? null,
               status: p.status ?? "active",
+              ...parents,
             } as any
           )
           .select()
           .maybeSingle();
         if (error) throw error;
+        // placement goes through the movement log, which also sets current_paddock(_id)
+        if (data && paddock) {
+          await recordMovements(supa, p.tenant_id, [
+            {
+              animal_id: data.id,
+              to_paddock_id: paddock.id,
+              move_date: isYmd(p.move_date) ? p.move_date : todayYmd(),
+              reason: p.move_reason || (p.id ? "edited" : "added to herd"),
+            },
+          ]);
+          Object.assign(data, { current_paddock_id: paddock.id, current_paddock: paddock.name });
+        }
         return NextResponse.json({ ok: true, data });
       }
 
@@ -91,6 +251,14 @@ export async function POST(req: Request) {
         const tenant_id = String(body?.tenant_id || "");
         const patch = body?.patch || {};
         if (!tenant_id || !id) return bad(400, "tenant_id and id are required");
+        let parents = {};
+        if (hasParentKeys(patch)) {
+          const r = resolveParents(await loadPedigree(supa, tenant_id), { id, birth_date: patch.birth_date }, patch);
+          if (r.error) return bad(400, r.error);
+          parents = r.fields;
+        }
+        const paddock = await requestedPaddock(supa, tenant_id, patch);
+        if (paddock?.error) return bad(400, paddock.error);
         const { error } = await supa
           .from("agriops_cattle")
           .update({
@@ -98,15 +266,411 @@ export async function POST(req: Request) {
             sex: patch.sex ?? null,
             breed: patch.breed ?? null,
             birth_date: patch.birth_date ?? null,
-            current_paddock: patch.current_paddock ?? null,
             status: patch.status ?? null,
+            ...(patch.eid !== undefined ? { eid: patch.eid ? String(patch.eid).replace(/\s+/g, "") : null } : {}),
+            ...(patch.group_name !== undefined ? { group_name: String(patch.group_name || "").trim() || null } : {}),
+            ...parents,
           })
           .eq("tenant_id", tenant_id)
           .eq("id", id);
         if (error) throw error;
+
+        // A sold/dead animal leaves its paddock; otherwise a paddock change is logged as a move
+        const leaving = OFF_FARM_STATUSES.includes(String(patch.status || "").toLowerCase());
+        if (paddock || leaving) {
+          await recordMovements(supa, tenant_id, [
+            {
+              animal_id: id,
+              to_paddock_id: leaving ? null : paddock!.id,
+              move_date: isYmd(patch.move_date) ? patch.move_date : todayYmd(),
+              reason: patch.move_reason || (leaving ? String(patch.status) : "edited"),
+            },
+          ]);
+        }
         return NextResponse.json({ ok: true, data: { updated: id } });
       }
 
+      // ─────────────────────────────────────────────
+      // Paddock movements
+      // ─────────────────────────────────────────────
+      case "listMovements": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return bad(400, "tenant_id required");
+        let q = supa
+          .from("agriops_cattle_movements")
+          .select(
+            "*, animal:agriops_cattle(tag), from_paddock:agriops_paddocks!agriops_cattle_movements_from_paddock_id_fkey(name), to_paddock:agriops_paddocks!agriops_cattle_movements_to_paddock_id_fkey(name)"
+          )
+          .eq("tenant_id", tenant_id)
+          .order("move_date", { ascending: false })
+          .order("id", { ascending: false })
+          .limit(Math.min(Number(body?.limit) || 200, 1000));
+        if (body?.animal_id) q = q.eq("animal_id", Number(body.animal_id));
+        if (body?.paddock_id) {
+          const pid = Number(body.paddock_id);
+          q = q.or(`from_paddock_id.eq.${pid},to_paddock_id.eq.${pid}`);
+        }
+        if (body?.from) q = q.gte("move_date", String(body.from));
+        if (body?.to) q = q.lte("move_date", String(body.to));
+        const { data, error } = await q;
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      // Move one animal (to_paddock_id or to_paddock name; empty = off farm)
+      case "moveAnimal": {
+        const tenant_id = String(body?.tenant_id || "");
+        const animal_id = Number(body?.animal_id);
+        const move_date = String(body?.move_date || todayYmd());
+        if (!tenant_id || !animal_id) return bad(400, "tenant_id and animal_id required");
+        if (!isYmd(move_date)) return bad(400, "move_date must be YYYY-MM-DD");
+        const { data: animal, error: aErr } = await supa
+          .from("agriops_cattle")
+          .select("id")
+          .eq("tenant_id", tenant_id)
+          .eq("id", animal_id)
+          .maybeSingle();
+        if (aErr) throw aErr;
+        if (!animal) return bad(404, "Animal not found for tenant");
+        const to = body?.to_paddock_id
+          ? await resolvePaddock(supa, tenant_id, { id: body.to_paddock_id })
+          : await resolvePaddock(supa, tenant_id, { name: body?.to_paddock });
+        if (to.error) return bad(400, to.error);
+        const rows = await recordMovements(supa, tenant_id, [
+          { animal_id, to_paddock_id: to.id, move_date, reason: body?.reason ? String(body.reason) : null },
+        ]);
+        return NextResponse.json({ ok: true, data: { moved: rows.length, movement: rows[0] ?? null } });
+      }
+
+      case "deleteMovement": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return bad(400, "tenant_id and id are required");
+        const { data, error } = await supa
+          .from("agriops_cattle_movements")
+          .delete()
+          .eq("tenant_id", tenant_id)
+          .eq("id", id)
+          .select("animal_id")
+          .maybeSingle();
+        if (error) throw error;
+        if (data) await syncCurrentPaddocks(supa, tenant_id, [data.animal_id]);
+        return NextResponse.json({ ok: true, data: { deleted: id } });
+      }
+
+      // ─────────────────────────────────────────────
+      // Herd stats (GrazingPlanner "build from cattle")
+      // ─────────────────────────────────────────────
+      case "listGroups": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return bad(400, "tenant_id required");
+        const data: { group_name: string | null; status: string | null }[] = [];
+        for (let from = 0; ; from += 1000) {
+          const { data: page, error } = await supa
+            .from("agriops_cattle")
+            .select("group_name, status")
+            .eq("tenant_id", tenant_id)
+            .order("id")
+            .range(from, from + 999);
+          if (error) throw error;
+          data.push(...(page || []));
+          if (!page || page.length < 1000) break;
+        }
+        const uniq = (vals: any[]) =>
+          Array.from(new Set(vals.map((v) => String(v || "").trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+        return NextResponse.json({
+          ok: true,
+          data: { groups: uniq(data.map((r) => r.group_name)), statuses: uniq(data.map((r) => r.status)) },
+        });
+      }
+
+      // Head count + average weight (latest weight projected by each animal's ADG to as_of)
+      case "herdStats": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return bad(400, "tenant_id required");
+        const as_of = isYmd(body?.as_of) ? body.as_of : todayYmd();
+        const status = String(body?.status || "active").trim().toLowerCase();
+        if (OFF_FARM_STATUSES.includes(status)) return bad(400, `Animals with status "${status}" are off the farm`);
+
+        const animals: { id: number; tag: string; status: string | null }[] = [];
+        for (let from = 0; ; from += 1000) {
+          let q = supa.from("agriops_cattle").select("id, tag, status").eq("tenant_id", tenant_id);
+          // animals saved without a status count as active
+          q = status === "active" ? q.or("status.ilike.active,status.is.null") : q.ilike("status", status);
+          if (body?.paddock_id) q = q.eq("current_paddock_id", Number(body.paddock_id));
+          if (body?.group_name) q = q.ilike("group_name", String(body.group_name).replace(/([%_\\])/g, "\\$1"));
+          const { data, error } = await q.order("id").range(from, from + 999);
+          if (error) throw error;
+          animals.push(...(data || []));
+          if (!data || data.length < 1000) break;
+        }
+
+        const weights = await loadWeights(supa, tenant_id, animals.map((a) => a.id), as_of);
+        return NextResponse.json({ ok: true, data: projectWeights(animals, weights, as_of) });
+      }
+
+      // AU per animal for every animal on the farm (class from age / sex / calf at side, AU from projected weight)
+      case "animalUnits": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return bad(400, "tenant_id required");
+        const as_of = isYmd(body?.as_of) ? body.as_of : todayYmd();
+
+        const animals: (AuAnimal & { status: string | null })[] = [];
+        for (let from = 0; ; from += 1000) {
+          const { data, error } = await supa
+            .from("agriops_cattle")
+            .select("id, tag, sex, birth_date, dam_id, status, current_paddock_id")
+            .eq("tenant_id", tenant_id)
+            .order("id")
+            .range(from, from + 999);
+          if (error) throw error;
+          animals.push(...((data || []) as any[]));
+          if (!data || data.length < 1000) break;
+        }
+        // off-farm animals and pedigree-only reference entries carry no grazing load
+        const onFarm = animals.filter((a) => {
+          const st = String(a.status || "").toLowerCase();
+          return st !== "reference" && !OFF_FARM_STATUSES.includes(st) && (!a.birth_date || a.birth_date <= as_of);
+        });
+        const weights = await loadWeights(supa, tenant_id, onFarm.map((a) => a.id), as_of);
+        const projected = projectWeights(onFarm, weights, as_of);
+        const byId = new Map(projected.animals.map((a) => [a.id, a.projected_lb]));
+        return NextResponse.json({ ok: true, data: animalUnits(onFarm, byId, as_of) });
+      }
+
+      // ─────────────────────────────────────────────
+      // Pedigree
+      // ─────────────────────────────────────────────
+      case "getPedigree": {
+        const tenant_id = String(body?.tenant_id || "");
+        const animal_id = Number(body?.animal_id);
+        const depth = Math.min(Math.max(Number(body?.depth) || 3, 1), 6);
+        if (!tenant_id || !animal_id) return bad(400, "tenant_id and animal_id required");
+        const index = await loadPedigree(supa, tenant_id);
+        const animal = index.get(animal_id);
+        if (!animal) return bad(404, "Animal not found for tenant");
+        return NextResponse.json({
+          ok: true,
+          data: {
+            ancestors: ancestorTree(index, animal_id, depth),
+            descendants: descendants(index, animal_id, depth),
+            inbreeding: animalInbreeding(index, animal),
+          },
+        });
+      }
+
+      // Set or clear dam/sire only (ids or tags; "" clears)
+      case "setParents": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return bad(400, "tenant_id and id are required");
+        const index = await loadPedigree(supa, tenant_id);
+        const child = index.get(id);
+        if (!child) return bad(404, "Animal not found for tenant");
+        const r = resolveParents(index, child, body);
+        if (r.error) return bad(400, r.error);
+        if (!Object.keys(r.fields).length) return bad(400, "dam_id/dam_tag or sire_id/sire_tag required");
+        const { error } = await supa.from("agriops_cattle").update(r.fields).eq("tenant_id", tenant_id).eq("id", id);
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { id, ...r.fields } });
+      }
+
+      // Inbreeding check for a planned mating (ids or tags)
+      case "checkMating": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return bad(400, "tenant_id required");
+        const index = await loadPedigree(supa, tenant_id);
+        const pick = (id: any, tag: any) =>
+          id ? index.get(Number(id)) : tag ? findByTag(index, String(tag)) : undefined;
+        const sire = pick(body?.sire_id, body?.sire_tag);
+        const dam = pick(body?.dam_id, body?.dam_tag);
+        if (!sire || !dam) return bad(400, "sire and dam (id or tag) required");
+        if (sire.id === dam.id) return bad(400, "sire and dam must be different animals");
+        return NextResponse.json({
+          ok: true,
+          data: { sire: { id: sire.id, tag: sire.tag }, dam: { id: dam.id, tag: dam.tag }, ...checkMating(index, sire.id, dam.id) },
+        });
+      }
+
+      // ─────────────────────────────────────────────
+      // Breeding & calving
+      // ─────────────────────────────────────────────
+      case "listBreedingEvents": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return bad(400, "tenant_id required");
+        let q = supa
+          .from("agriops_breeding_events")
+          .select(
+            "*, cow:agriops_cattle!agriops_breeding_events_cow_id_fkey(tag), bull:agriops_cattle!agriops_breeding_events_bull_id_fkey(tag), calf:agriops_cattle!agriops_breeding_events_calf_id_fkey(tag)"
+          )
+          .eq("tenant_id", tenant_id)
+          .order("event_date", { ascending: false })
+          .limit(Math.min(Number(body?.limit) || 200, 1000));
+        if (body?.cow_id) q = q.eq("cow_id", Number(body.cow_id));
+        if (body?.event_type) q = q.eq("event_type", String(body.event_type));
+        if (body?.from) q = q.gte("event_date", String(body.from));
+        if (body?.to) q = q.lte("event_date", String(body.to));
+        const { data, error } = await q;
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      // Exposure / AI / preg check / calving. A calving also creates the calf with dam (and,
+      // when a service fits the gestation window, sire) linked, plus its birth weight.
+      case "addBreedingEvent": {
+        const tenant_id = String(body?.tenant_id || "");
+        const p = body?.payload || {};
+        if (!tenant_id) return bad(400, "tenant_id required");
+        const index = await loadPedigree(supa, tenant_id);
+        const pick = (id: any, tag: any) =>
+          id ? index.get(Number(id)) : tag ? findByTag(index, String(tag)) : undefined;
+
+        const cow = pick(p.cow_id, p.cow_tag);
+        if (!cow) return bad(404, `Cow ${p.cow_id || p.cow_tag || ""} not found`);
+        if (String(cow.sex || "").toUpperCase() === "M") return bad(400, `${cow.tag} is recorded as male`);
+        const bull = p.bull_id || p.bull_tag ? pick(p.bull_id, p.bull_tag) : undefined;
+        if ((p.bull_id || p.bull_tag) && !bull) return bad(404, `Bull ${p.bull_id || p.bull_tag} not found`);
+        if (bull && String(bull.sex || "").toUpperCase() === "F") return bad(400, `${bull.tag} is recorded as female`);
+
+        const ev: BreedingEvent = {
+          cow_id: cow.id,
+          event_type: p.event_type,
+          event_date: String(p.event_date || ""),
+          bull_id: bull?.id ?? null,
+          semen_straw: p.semen_straw?.trim() || null,
+          exposure_end: p.exposure_end || null,
+          technician: p.technician?.trim() || null,
+          preg_result: p.preg_result || null,
+          days_bred: p.days_bred === "" || p.days_bred == null ? null : Number(p.days_bred),
+          calving_ease: p.calving_ease === "" || p.calving_ease == null ? null : Number(p.calving_ease),
+          calf_status: p.event_type === "calving" ? p.calf_status || "alive" : null,
+          notes: p.notes?.trim() || null,
+        };
+        const invalid = validateBreedingEvent(ev);
+        if (invalid) return bad(400, invalid);
+
+        let calf: any = null;
+        // don't leave an orphan calf behind when a later step fails (its movements go with it)
+        const dropCalf = async (id: number) => {
+          await supa.from("agriops_cattle_weights").delete().eq("tenant_id", tenant_id).eq("animal_id", id);
+          await supa.from("agriops_cattle").delete().eq("tenant_id", tenant_id).eq("id", id);
+        };
+        if (ev.event_type === "calving") {
+          const c = p.calf || {};
+          const tag = String(c.tag || "").trim();
+          if (!tag && ev.calf_status === "alive") return bad(400, "calf.tag is required for a live calf");
+          if (tag) {
+            if (findByTag(index, tag)) return bad(409, `Tag ${tag} is already in use`);
+            const { data: history, error: hErr } = await supa
+              .from("agriops_breeding_events")
+              .select("cow_id, event_type, event_date, bull_id, semen_straw, exposure_end")
+              .eq("tenant_id", tenant_id)
+              .eq("cow_id", cow.id)
+              .in("event_type", ["ai", "exposure"])
+              .gte("event_date", addDays(ev.event_date, -400));
+            if (hErr) throw hErr;
+            const sire = likelySire((history || []) as BreedingEvent[], ev.event_date);
+            const { data: damRow, error: dErr } = await supa
+              .from("agriops_cattle")
+              .select("breed, current_paddock_id")
+              .eq("tenant_id", tenant_id)
+              .eq("id", cow.id)
+              .maybeSingle();
+            if (dErr) throw dErr;
+
+            const { data: inserted, error: cErr } = await supa
+              .from("agriops_cattle")
+              .insert({
+                tenant_id,
+                tag,
+                name: c.name?.trim() || null,
+                sex: c.sex ? String(c.sex).toUpperCase() : null,
+                breed: c.breed?.trim() || damRow?.breed || null,
+                birth_date: ev.event_date,
+                status: ev.calf_status === "alive" ? "active" : "dead",
+                dam_id: cow.id,
+                sire_id: sire?.bull_id ?? null,
+              } as any)
+              .select("id, tag")
+              .single();
+            if (cErr) throw cErr;
+            calf = inserted;
+            ev.calf_id = inserted.id;
+            try {
+              if (damRow?.current_paddock_id && ev.calf_status === "alive") {
+                await recordMovements(supa, tenant_id, [
+                  { animal_id: inserted.id, to_paddock_id: damRow.current_paddock_id, move_date: ev.event_date, reason: "born" },
+                ]);
+              }
+
+              const birth_weight = Number(c.birth_weight_lb || 0);
+              if (birth_weight > 0) {
+                const { error: wErr } = await supa.from("agriops_cattle_weights").insert({
+                  tenant_id,
+                  animal_id: inserted.id,
+                  weigh_date: ev.event_date,
+                  weight_lb: birth_weight,
+                  notes: "Birth weight",
+                });
+                if (wErr) throw wErr;
+              }
+            } catch (e) {
+              await dropCalf(inserted.id);
+              throw e;
+            }
+          }
+        }
+
+        const { data, error } = await supa
+          .from("agriops_breeding_events")
+          .insert({ tenant_id, ...ev })
+          .select()
+          .single();
+        if (error) {
+          if (calf) await dropCalf(calf.id);
+          throw error;
+        }
+        return NextResponse.json({ ok: true, data: { ...data, calf } });
+      }
+
+      // Removes the record only; a calf created by a calving stays in the herd
+      case "deleteBreedingEvent": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return bad(400, "tenant_id and id are required");
+        const { error } = await supa.from("agriops_breeding_events").delete().eq("tenant_id", tenant_id).eq("id", id);
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { deleted: id } });
+      }
+
+      // % bred / % calved / expected calving dates for cows serviced between from..to
+      case "getCalvingSeason": {
+        const tenant_id = String(body?.tenant_id || "");
+        const from = String(body?.from || "");
+        const to = String(body?.to || "");
+        if (!tenant_id || !from || !to) return bad(400, "tenant_id, from and to are required");
+        if (to < from) return bad(400, "to must be on or after from");
+
+        const events: BreedingEvent[] = [];
+        for (let offset = 0; ; offset += 1000) {
+          const { data, error } = await supa
+            .from("agriops_breeding_events")
+            .select("*")
+            .eq("tenant_id", tenant_id)
+            .gte("event_date", addDays(from, -180)) // long exposures that started before the window
+            .lte("event_date", addDays(to, 320))
+            .order("id")
+            .range(offset, offset + 999);
+          if (error) throw error;
+          events.push(...((data || []) as BreedingEvent[]));
+          if (!data || data.length < 1000) break;
+        }
+        const index = await loadPedigree(supa, tenant_id);
+        const animals = Array.from(index.values());
+        const tags = new Map(animals.map((a) => [a.id, a.tag]));
+        return NextResponse.json({ ok: true, data: seasonSummary(animals, events, from, to, tags) });
+      }
+
       // ─────────────────────────────────────────────
       // Weights & Treatments
       // ─────────────────────────────────────────────
@@ -157,16 +721,86 @@ export async function POST(req: Request) {
         const tenant_id = String(body?.tenant_id || "");
         const animal_id = Number(body?.animal_id);
         const treat_date = String(body?.treat_date || "");
-        const product = body?.product ?? null;
+        const product_id = body?.product_id ? Number(body.product_id) : null;
         const dose = body?.dose ?? null;
         const notes = body?.notes ?? null;
         if (!tenant_id || !animal_id || !treat_date)
           return bad(400, "tenant_id, animal_id, treat_date required");
+
+        // Link to the catalog (by id or name) so clear dates can be computed
+        const match = findProduct(await listProducts(supa, tenant_id), product_id, body?.product);
+        if (product_id && !match) return bad(400, "product_id not found for tenant");
+        const product = match?.name ?? body?.product ?? null;
+        const dates = clearDates(treat_date, match);
+
         const { error } = await supa
           .from("agriops_cattle_treatments")
-          .insert({ tenant_id, animal_id, treat_date, product, dose, notes });
+          .insert({ tenant_id, animal_id, treat_date, product, product_id: match?.id ?? null, dose, notes, ...dates });
         if (error) throw error;
-        return NextResponse.json({ ok: true, data: { inserted: true } });
+        return NextResponse.json({ ok: true, data: { inserted: true, ...dates } });
+      }
+
+      // ─────────────────────────────────────────────
+      // Vet products & withdrawal
+      // ─────────────────────────────────────────────
+      case "listVetProducts": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return bad(400, "tenant_id required");
+        const { data, error } = await supa
+          .from("agriops_vet_products")
+          .select("*")
+          .eq("tenant_id", tenant_id)
+          .order("name");
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "upsertVetProduct": {
+        const tenant_id = String(body?.tenant_id || "");
+        const p = body?.payload || {};
+        const name = String(p?.name || "").trim();
+        if (!tenant_id || !name) return bad(400, "tenant_id and payload.name are required");
+        const meat = Number(p.meat_withdrawal_days ?? 0);
+        const milk = Number(p.milk_withdrawal_days ?? 0);
+        if (!Number.isInteger(meat) || meat < 0 || !Number.isInteger(milk) || milk < 0)
+          return bad(400, "withdrawal days must be whole numbers ≥ 0");
+        const { data, error } = await supa
+          .from("agriops_vet_products")
+          .upsert({
+            id: p.id ?? undefined,
+            tenant_id,
+            name,
+            active_ingredient: p.active_ingredient || null,
+            meat_withdrawal_days: meat,
+            milk_withdrawal_days: milk,
+            notes: p.notes ?? null,
+          } as any)
+          .select()
+          .maybeSingle();
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "deleteVetProduct": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return bad(400, "tenant_id and id are required");
+        const { error } = await supa
+          .from("agriops_vet_products")
+          .delete()
+          .eq("tenant_id", tenant_id)
+          .eq("id", id);
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { deleted: id } });
+      }
+
+      case "getWithdrawalStatus": {
+        const tenant_id = String(body?.tenant_id || "");
+        const animal_id = Number(body?.animal_id);
+        const as_of = String(body?.as_of || new Date().toISOString().slice(0, 10));
+        if (!tenant_id || !animal_id) return bad(400, "tenant_id and animal_id required");
+        const data = await animalWithdrawal(supa, tenant_id, animal_id, as_of);
+        return NextResponse.json({ ok: true, data });
       }
 
       // ─────────────────────────────────────────────
@@ -198,6 +832,21 @@ export async function POST(req: Request) {
         if (!tenant_id || !animal_id || !tag || !sent_date)
           return bad(400, "tenant_id, animal_id, tag, sent_date required");
 
+        // Refuse animals still inside a meat withdrawal window unless explicitly overridden
+        const withdrawal = await animalWithdrawal(supa, tenant_id, animal_id, sent_date);
+        const override_reason = String(body?.withdrawal_override_reason || "").trim();
+        if (withdrawal.meat_active && !(body?.withdrawal_override && override_reason)) {
+          return NextResponse.json(
+            {
+              ok: false,
+              code: "withdrawal_active",
+              error: `Animal ${tag} is in meat withdrawal until ${withdrawal.meat_clear_date}. Override requires a reason.`,
+              data: withdrawal,
+            },
+            { status: 409 }
+          );
+        }
+
         const { error } = await supa
           .from("agriops_cattle_processing")
           .insert({
@@ -210,8 +859,12 @@ export async function POST(req: Request) {
             transport_id,
             live_weight_lb,
             notes,
+            withdrawal_override_reason: withdrawal.meat_active ? override_reason : null,
           });
         if (error) throw error;
+        await recordMovements(supa, tenant_id, [
+          { animal_id, to_paddock_id: null, move_date: sent_date, reason: "sent to processing" },
+        ]);
         return NextResponse.json({ ok: true, data: { inserted: true } });
       }
 
@@ -429,9 +1082,64 @@ export async function POST(req: Request) {
       case "bulkUpsertAnimals": {
         const rows: any[] = Array.isArray(body?.rows) ? body.rows : [];
         if (!rows.length) return bad(400, "rows[] required");
-        const { error } = await supa.from("agriops_cattle").upsert(rows as any[]);
+        // dam_tag / sire_tag are resolved after the upsert so parents in the same file are found
+        // current_paddock names become movements (and current_paddock_id) the same way
+        const links = rows.map(({ dam_tag, sire_tag }) => ({ dam_tag, sire_tag }));
+        const paddockNames = rows.map((r) => (r.current_paddock !== undefined ? String(r.current_paddock || "") : undefined));
+        const clean = rows.map(({ dam_tag, sire_tag, current_paddock, current_paddock_id, ...r }) => r);
+        const { error } = await supa.from("agriops_cattle").upsert(clean as any[]);
         if (error) throw error;
-        return NextResponse.json({ ok: true, data: { imported: rows.length } });
+
+        const parentErrors: string[] = [];
+        const paddockErrors: string[] = [];
+        let linked = 0;
+        const tenant_id = String(rows[0]?.tenant_id || "");
+        const hasLinks = links.some((l) => l.dam_tag || l.sire_tag);
+        const hasPaddocks = paddockNames.some((n) => n !== undefined);
+        const index = tenant_id && (hasLinks || hasPaddocks) ? await loadPedigree(supa, tenant_id) : null;
+
+        if (index && hasPaddocks) {
+          const resolved = new Map<string, { id: number | null; error?: string }>();
+          const moves = [];
+          for (let i = 0; i < rows.length; i++) {
+            const name = paddockNames[i];
+            const animal = name === undefined ? undefined : findByTag(index, String(rows[i].tag || ""));
+            if (name === undefined || !animal) continue;
+            const key = name.trim().toLowerCase();
+            if (!resolved.has(key)) resolved.set(key, await resolvePaddock(supa, tenant_id, { name }));
+            const pad = resolved.get(key)!;
+            if (pad.error) {
+              paddockErrors.push(`${animal.tag}: ${pad.error}`);
+              continue;
+            }
+            moves.push({ animal_id: animal.id, to_paddock_id: pad.id, move_date: todayYmd(), reason: "CSV import" });
+          }
+          if (moves.length) await recordMovements(supa, tenant_id, moves);
+        }
+
+        if (index && hasLinks) {
+          for (let i = 0; i < rows.length; i++) {
+            const l = links[i];
+            if (!l.dam_tag && !l.sire_tag) continue;
+            const child = findByTag(index, String(rows[i].tag || ""));
+            if (!child) continue;
+            const want = { ...(l.dam_tag ? { dam_tag: l.dam_tag } : {}), ...(l.sire_tag ? { sire_tag: l.sire_tag } : {}) };
+            const r = resolveParents(index, child, want);
+            if (r.error) {
+              parentErrors.push(`${child.tag}: ${r.error}`);
+              continue;
+            }
+            const { error: uErr } = await supa
+              .from("agriops_cattle")
+              .update(r.fields)
+              .eq("tenant_id", tenant_id)
+              .eq("id", child.id);
+            if (uErr) throw uErr;
+            Object.assign(child, r.fields); // later rows see this link when checking cycles
+            linked++;
+          }
+        }
+        return NextResponse.json({ ok: true, data: { imported: rows.length, linked, parentErrors, paddockErrors } });
       }
 
       default:
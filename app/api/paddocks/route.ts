@@ -1,5 +1,31 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { isYmd, todayYmd } from "@/lib/dates";
+import { OFF_FARM_STATUSES } from "@/lib/movements";
+import { restByPaddock, validateGrazeEvent, type GrazeEvent } from "@/lib/grazing";
+import { validateGrowthCurve } from "@/lib/growth";
+import { validateFeedLot } from "@/lib/feed";
+import { DEFAULT_WATER_GAL_AU_DAY, infraCategory, validateInfrastructure, waterByPaddock, type InfraKind } from "@/lib/infrastructure";
+import { DEFAULT_CROP, mapSoilRow, resolveSoilColumns, validateSoilTest, type CropKey, type SoilTest } from "@/lib/soil";
+import { parseCsv } from "@/lib/vitalsImport";
+import {
+  APPLICATION_METHODS,
+  applicationMath,
+  rateUnitsFor,
+  validateAmendmentProduct,
+  type AmendmentProduct,
+  type RateUnit,
+} from "@/lib/amendments";
+import { unitLabel } from "@/lib/units";
+import { sampleDm, standingByPaddock, validateForageSample, type ForageSample } from "@/lib/forage";
+import {
+  boundaryAcres,
+  mergeBoundaries,
+  normalizeBoundary,
+  parseBoundaryFile,
+  type Boundary,
+  type BoundaryFormat,
+} from "@/lib/geo";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -14,6 +40,40 @@ function getSupabaseService() {
   return createClient(url, service, { auth: { persistSession: false, autoRefreshToken: false } });
 }
 
+/** Every grazing event of a tenant (paged past the 1000-row API limit). */
+async function loadGrazeEvents(supa: ReturnType<typeof getSupabaseService>, tenant_id: string) {
+  const out: GrazeEvent[] = [];
+  for (let from = 0; ; from += 1000) {
+    const { data, error } = await supa
+      .from("agriops_graze_events")
+      .select("id, paddock_id, herd, in_date, out_date, post_graze_dm_lb_ac")
+      .eq("tenant_id", tenant_id)
+      .order("id")
+      .range(from, from + 999);
+    if (error) throw error;
+    out.push(...((data || []) as GrazeEvent[]));
+    if (!data || data.length < 1000) return out;
+  }
+}
+
+/** Forage samples of a tenant up to asOf, newest first (paged like the events). */
+async function loadForageSamples(supa: ReturnType<typeof getSupabaseService>, tenant_id: string, as_of: string) {
+  const out: ForageSample[] = [];
+  for (let from = 0; ; from += 1000) {
+    const { data, error } = await supa
+      .from("agriops_forage_samples")
+      .select("id, paddock_id, sample_date, method, dm_lb_ac")
+      .eq("tenant_id", tenant_id)
+      .lte("sample_date", as_of)
+      .order("sample_date", { ascending: false })
+      .order("id")
+      .range(from, from + 999);
+    if (error) throw error;
+    out.push(...((data || []) as ForageSample[]));
+    if (!data || data.length < 1000) return out;
+  }
+}
+
 // Safe JSON
 async function readJson(req: Request) {
   try { return await req.json(); } catch { return null; }
@@ -39,14 +99,45 @@ export async function POST(req: Request) {
         const tenant_id = String(body?.tenant_id || "");
         if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
 
-        const { data, error } = await supa
-          .from("agriops_paddocks")
-          .select("*")
-          .eq("tenant_id", tenant_id)
-          .order("name");
+        // head_count comes from the movement log, so any past date can be asked for
+        const as_of = isYmd(body?.as_of) ? body.as_of : todayYmd();
+
+        const [
+          { data, error },
+          { data: counts, error: cErr },
+          events,
+          samples,
+          { data: curves, error: gErr },
+          { data: infra, error: iErr },
+        ] = await Promise.all([
+          supa.from("agriops_paddocks").select("*").eq("tenant_id", tenant_id).order("name"),
+          supa.rpc("agriops_paddock_head_counts", { p_tenant_id: tenant_id, p_as_of: as_of }),
+          loadGrazeEvents(supa, tenant_id),
+          loadForageSamples(supa, tenant_id, as_of),
+          supa.from("agriops_growth_curves").select("*").eq("tenant_id", tenant_id),
+          supa.from("agriops_infrastructure").select("paddock_id, kind, capacity_gal").eq("tenant_id", tenant_id),
+        ]);
         if (error) throw error;
+        if (cErr) throw cErr;
+        if (gErr) throw gErr;
+        if (iErr) throw iErr;
 
-        const rows = (data || []).map((p: any) => ({ ...p, head_count: p.head_count ?? 0 }));
+        const byPaddock = new Map<number, number>(
+          (counts || []).map((c: any) => [Number(c.paddock_id), Number(c.head_count)])
+        );
+        // days rested / early re-entry from the grazing event log, on the same date
+        const rest = restByPaddock(data || [], events, as_of);
+        // latest forage measurement grown / decayed forward to as_of
+        const standing = standingByPaddock(data || [], samples, events, curves || [], as_of);
+        const water = waterByPaddock((infra || []) as any[]);
+        const rows = (data || []).map((p: any) => ({
+          ...p,
+          head_count: byPaddock.get(Number(p.id)) ?? 0,
+          rest: rest.get(p.id) ?? null,
+          standing: standing.get(p.id) ?? null,
+          water: water.get(Number(p.id)) ?? null,
+          as_of,
+        }));
         return NextResponse.json({ ok: true, data: rows });
       }
 
@@ -66,9 +157,20 @@ export async function POST(req: Request) {
           rest_days: row.rest_days != null ? Number(row.rest_days) : null,
           zone: row.zone ?? null,
           notes: row.notes ?? null,
+          // only touched by editors that show it
+          ...(row.growth_curve_id !== undefined ? { growth_curve_id: row.growth_curve_id ? Number(row.growth_curve_id) : null } : {}),
         };
         const { data, error } = await supa.from("agriops_paddocks").upsert(payload as any).select().maybeSingle();
         if (error) throw error;
+        // keep the denormalized name on animals in this paddock current after a rename
+        if (row.id) {
+          const { error: cErr } = await supa
+            .from("agriops_cattle")
+            .update({ current_paddock: payload.name })
+            .eq("tenant_id", tenant_id)
+            .eq("current_paddock_id", Number(row.id));
+          if (cErr) throw cErr;
+        }
         return NextResponse.json({ ok: true, data });
       }
 
@@ -76,11 +178,612 @@ export async function POST(req: Request) {
         const tenant_id = String(body?.tenant_id || "");
         const id = Number(body?.id);
         if (!tenant_id || !id) return NextResponse.json({ ok: false, error: "tenant_id and id are required" }, { status: 400 });
+        // current_paddock_id / movement refs are set null by the FKs; clear the mirrored name too
+        const { error: cErr } = await supa
+          .from("agriops_cattle")
+          .update({ current_paddock: null })
+          .eq("tenant_id", tenant_id)
+          .eq("current_paddock_id", id);
+        if (cErr) throw cErr;
         const { error } = await supa.from("agriops_paddocks").delete().eq("tenant_id", tenant_id).eq("id", id);
         if (error) throw error;
         return NextResponse.json({ ok: true, data: { deleted: id } });
       }
 
+      // Polygons from a GeoJSON / KML file, matched to paddocks by feature name (or all to paddock_id).
+      // Shapes sharing a paddock are merged; unmatched names become paddocks when create_missing is set.
+      case "importBoundaries": {
+        const tenant_id = String(body?.tenant_id || "");
+        const content = String(body?.content || "");
+        const format: BoundaryFormat = body?.format === "kml" ? "kml" : "geojson";
+        if (!tenant_id || !content) {
+          return NextResponse.json({ ok: false, error: "tenant_id and content are required" }, { status: 400 });
+        }
+        let parsed: ReturnType<typeof parseBoundaryFile>;
+        try {
+          parsed = parseBoundaryFile(content, format);
+        } catch (e: any) {
+          return NextResponse.json({ ok: false, error: `Could not read ${format} file: ${e?.message || e}` }, { status: 400 });
+        }
+        if (!parsed.shapes.length) return NextResponse.json({ ok: false, error: "No polygons found in the file" }, { status: 400 });
+
+        const { data: pads, error: pErr } = await supa.from("agriops_paddocks").select("id, name").eq("tenant_id", tenant_id);
+        if (pErr) throw pErr;
+        const byName = new Map((pads || []).map((p: any) => [String(p.name).trim().toLowerCase(), Number(p.id)]));
+        const target = body?.paddock_id ? Number(body.paddock_id) : null;
+        if (target && !(pads || []).some((p: any) => Number(p.id) === target)) {
+          return NextResponse.json({ ok: false, error: "Paddock not found" }, { status: 404 });
+        }
+
+        const assign = new Map<number, Boundary[]>();
+        const create = new Map<string, { name: string; shapes: Boundary[] }>();
+        const unmatched: string[] = [];
+        for (const s of parsed.shapes) {
+          const id = target ?? (s.name ? byName.get(s.name.toLowerCase()) : undefined);
+          if (id) assign.set(id, [...(assign.get(id) || []), s.boundary]);
+          else if (body?.create_missing && s.name) {
+            const key = s.name.toLowerCase();
+            create.set(key, { name: s.name, shapes: [...(create.get(key)?.shapes || []), s.boundary] });
+          } else unmatched.push(s.name || "(unnamed)");
+        }
+
+        const updated: number[] = [];
+        for (const [id, shapes] of Array.from(assign.entries())) {
+          const boundary = mergeBoundaries(shapes);
+          const { error } = await supa
+            .from("agriops_paddocks")
+            .update({ boundary, boundary_acres: boundaryAcres(boundary) })
+            .eq("tenant_id", tenant_id)
+            .eq("id", id);
+          if (error) throw error;
+          updated.push(id);
+        }
+        const created: string[] = [];
+        for (const { name, shapes } of Array.from(create.values())) {
+          const boundary = mergeBoundaries(shapes);
+          const acres = boundaryAcres(boundary);
+          const { error } = await supa
+            .from("agriops_paddocks")
+            .insert({ tenant_id, name, acres, boundary, boundary_acres: acres });
+          if (error) throw error;
+          created.push(name);
+        }
+        return NextResponse.json({ ok: true, data: { updated: updated.length, created, unmatched, skipped: parsed.skipped } });
+      }
+
+      // boundary: GeoJSON Polygon / MultiPolygon, or null to clear it
+      case "setBoundary": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return NextResponse.json({ ok: false, error: "tenant_id and id are required" }, { status: 400 });
+        const boundary = body?.boundary == null ? null : normalizeBoundary(body.boundary);
+        if (body?.boundary != null && !boundary) {
+          return NextResponse.json({ ok: false, error: "boundary must be a GeoJSON Polygon or MultiPolygon" }, { status: 400 });
+        }
+        const { data, error } = await supa
+          .from("agriops_paddocks")
+          .update({ boundary, boundary_acres: boundary ? boundaryAcres(boundary) : null })
+          .eq("tenant_id", tenant_id)
+          .eq("id", id)
+          .select()
+          .maybeSingle();
+        if (error) throw error;
+        if (!data) return NextResponse.json({ ok: false, error: "Paddock not found" }, { status: 404 });
+        return NextResponse.json({ ok: true, data });
+      }
+
+      /** ─────────────── Group moves ─────────────── */
+      // Everything in from_paddock_id and/or the listed tags → to_paddock_id on move_date.
+      // agriops_move_group runs in one transaction: movements, current paddock, grazing events.
+      case "moveGroup": {
+        const tenant_id = String(body?.tenant_id || "");
+        const to_paddock_id = Number(body?.to_paddock_id);
+        const from_paddock_id = body?.from_paddock_id ? Number(body.from_paddock_id) : null;
+        const move_date = String(body?.move_date || todayYmd());
+        const tags: string[] = (Array.isArray(body?.tags) ? body.tags : String(body?.tags || "").split(/[\s,;]+/))
+          .map((t: any) => String(t).trim())
+          .filter(Boolean);
+        if (!tenant_id || !to_paddock_id) {
+          return NextResponse.json({ ok: false, error: "tenant_id and to_paddock_id are required" }, { status: 400 });
+        }
+        if (!from_paddock_id && !tags.length) {
+          return NextResponse.json({ ok: false, error: "from_paddock_id or tags is required" }, { status: 400 });
+        }
+        if (from_paddock_id === to_paddock_id) {
+          return NextResponse.json({ ok: false, error: "Source and destination are the same paddock" }, { status: 400 });
+        }
+        if (!isYmd(move_date)) return NextResponse.json({ ok: false, error: "move_date must be YYYY-MM-DD" }, { status: 400 });
+
+        let animal_ids: number[] | null = null;
+        const unknown_tags: string[] = [];
+        const off_farm: string[] = [];
+        if (tags.length) {
+          // tags match case-insensitively, so page through the herd (PostgREST caps a request at 1000 rows)
+          const herd: any[] = [];
+          for (let from = 0; ; from += 1000) {
+            const { data, error: hErr } = await supa
+              .from("agriops_cattle")
+              .select("id, tag, status")
+              .eq("tenant_id", tenant_id)
+              .order("id")
+              .range(from, from + 999);
+            if (hErr) throw hErr;
+            herd.push(...(data || []));
+            if (!data || data.length < 1000) break;
+          }
+          const byTag = new Map(herd.map((a: any) => [String(a.tag).toLowerCase(), a]));
+          animal_ids = [];
+          for (const t of Array.from(new Set(tags))) {
+            const a: any = byTag.get(t.toLowerCase());
+            if (!a) unknown_tags.push(t);
+            else if (OFF_FARM_STATUSES.includes(String(a.status || "").toLowerCase())) off_farm.push(a.tag);
+            else animal_ids.push(Number(a.id));
+          }
+          if (!animal_ids.length) {
+            return NextResponse.json(
+              { ok: false, error: "None of the tags can be moved", details: { unknown_tags, off_farm } },
+              { status: 400 }
+            );
+          }
+        }
+
+        const num = (v: any) => (v === null || v === undefined || v === "" ? null : Number(v));
+        const { data, error } = await supa.rpc("agriops_move_group", {
+          p_tenant_id: tenant_id,
+          p_to_paddock_id: to_paddock_id,
+          p_move_date: move_date,
+          p_from_paddock_id: from_paddock_id,
+          p_animal_ids: animal_ids,
+          p_herd: body?.herd ? String(body.herd) : null,
+          p_reason: body?.reason ? String(body.reason) : "group move",
+          p_pre_graze_dm_lb_ac: num(body?.pre_graze_dm_lb_ac),
+          p_post_graze_dm_lb_ac: num(body?.post_graze_dm_lb_ac),
+        });
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { ...(data as any), move_date, unknown_tags, off_farm } });
+      }
+
+      /** ─────────────── Grazing events ─────────────── */
+      case "listGrazeEvents": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        let q = supa
+          .from("agriops_graze_events")
+          .select("*, paddock:agriops_paddocks(name, rest_days)")
+          .eq("tenant_id", tenant_id)
+          .order("in_date", { ascending: false })
+          .order("id", { ascending: false })
+          .limit(Math.min(Number(body?.limit) || 500, 1000));
+        if (body?.paddock_id) q = q.eq("paddock_id", Number(body.paddock_id));
+        if (body?.from) q = q.or(`out_date.gte.${body.from},out_date.is.null`);
+        if (body?.to) q = q.lte("in_date", String(body.to));
+        const { data, error } = await q;
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "upsertGrazeEvent": {
+        const tenant_id = String(body?.tenant_id || "");
+        const e: any = body?.payload || {};
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const num = (v: any) => (v === null || v === undefined || v === "" ? null : Number(v));
+        const row = {
+          id: e.id ?? undefined,
+          tenant_id,
+          paddock_id: Number(e.paddock_id),
+          herd: String(e.herd || "").trim() || "Herd",
+          in_date: e.in_date,
+          out_date: e.out_date || null,
+          head_count: num(e.head_count),
+          pre_graze_dm_lb_ac: num(e.pre_graze_dm_lb_ac),
+          post_graze_dm_lb_ac: num(e.post_graze_dm_lb_ac),
+          notes: e.notes || null,
+        };
+        const invalid = validateGrazeEvent(row);
+        if (invalid) return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+        const { data: pad, error: pErr } = await supa
+          .from("agriops_paddocks")
+          .select("id")
+          .eq("tenant_id", tenant_id)
+          .eq("id", row.paddock_id)
+          .maybeSingle();
+        if (pErr) throw pErr;
+        if (!pad) return NextResponse.json({ ok: false, error: "Paddock not found for tenant" }, { status: 404 });
+        const { id, ...fields } = row;
+        const { data, error } = id
+          ? await supa.from("agriops_graze_events").update(fields).eq("tenant_id", tenant_id).eq("id", Number(id)).select().maybeSingle()
+          : await supa.from("agriops_graze_events").insert(fields).select().maybeSingle();
+        if (error) throw error;
+        if (!data) return NextResponse.json({ ok: false, error: "Grazing event not found" }, { status: 404 });
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "deleteGrazeEvent": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return NextResponse.json({ ok: false, error: "tenant_id and id are required" }, { status: 400 });
+        const { error } = await supa.from("agriops_graze_events").delete().eq("tenant_id", tenant_id).eq("id", id);
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { deleted: id } });
+      }
+
+      /** ─────────────── Forage samples ─────────────── */
+      case "listForageSamples": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        let q = supa
+          .from("agriops_forage_samples")
+          .select("*")
+          .eq("tenant_id", tenant_id)
+          .order("sample_date", { ascending: false })
+          .order("id", { ascending: false })
+          .limit(Math.min(Number(body?.limit) || 500, 1000));
+        if (body?.paddock_id) q = q.eq("paddock_id", Number(body.paddock_id));
+        const { data, error } = await q;
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "upsertForageSample": {
+        const tenant_id = String(body?.tenant_id || "");
+        const f: any = body?.payload || {};
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const num = (v: any) => (v === null || v === undefined || v === "" ? null : Number(v));
+        const method = String(f.method || "");
+        // only the chosen method's inputs are kept
+        const row = {
+          id: f.id ?? undefined,
+          tenant_id,
+          paddock_id: Number(f.paddock_id),
+          sample_date: f.sample_date,
+          method: method as ForageSample["method"],
+          readings: num(f.readings),
+          plate_clicks: method === "plate" ? num(f.plate_clicks) : null,
+          calib_slope: method === "plate" ? num(f.calib_slope) : null,
+          calib_intercept: method === "plate" ? num(f.calib_intercept) : null,
+          quadrat_area_sqft: method === "clip" ? num(f.quadrat_area_sqft) : null,
+          dry_weight_g: method === "clip" ? num(f.dry_weight_g) : null,
+          dm_lb_ac: method === "visual" ? num(f.dm_lb_ac) : null,
+          notes: f.notes || null,
+        };
+        const invalid = validateForageSample(row);
+        if (invalid) return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+        row.dm_lb_ac = Math.round(sampleDm(row)!);
+        const { data: pad, error: pErr } = await supa
+          .from("agriops_paddocks")
+          .select("id")
+          .eq("tenant_id", tenant_id)
+          .eq("id", row.paddock_id)
+          .maybeSingle();
+        if (pErr) throw pErr;
+        if (!pad) return NextResponse.json({ ok: false, error: "Paddock not found for tenant" }, { status: 404 });
+        const { id, ...fields } = row;
+        const { data, error } = id
+          ? await supa.from("agriops_forage_samples").update(fields).eq("tenant_id", tenant_id).eq("id", Number(id)).select().maybeSingle()
+          : await supa.from("agriops_forage_samples").insert(fields).select().maybeSingle();
+        if (error) throw error;
+        if (!data) return NextResponse.json({ ok: false, error: "Forage sample not found" }, { status: 404 });
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "deleteForageSample": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return NextResponse.json({ ok: false, error: "tenant_id and id are required" }, { status: 400 });
+        const { error } = await supa.from("agriops_forage_samples").delete().eq("tenant_id", tenant_id).eq("id", id);
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { deleted: id } });
+      }
+
+      /** ─────────────── Infrastructure ─────────────── */
+      case "listInfrastructure": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        let q = supa.from("agriops_infrastructure").select("*").eq("tenant_id", tenant_id).order("kind").order("id");
+        if (body?.paddock_id) q = q.eq("paddock_id", Number(body.paddock_id));
+        const { data, error } = await q;
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "upsertInfrastructure": {
+        const tenant_id = String(body?.tenant_id || "");
+        const r: any = body?.row || {};
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const invalid = validateInfrastructure(r);
+        if (invalid) return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+        const num = (v: any) => (v === null || v === undefined || v === "" ? null : Number(v));
+        const category = infraCategory(r.kind);
+        // only the kind's own measures are kept
+        const fields = {
+          tenant_id,
+          paddock_id: Number(r.paddock_id),
+          kind: r.kind as InfraKind,
+          name: String(r.name || "").trim() || null,
+          capacity_gal: category === "water" ? num(r.capacity_gal) : null,
+          length_ft: category === "fence" ? num(r.length_ft) : null,
+          width_ft: category === "gate" ? num(r.width_ft) : null,
+          to_paddock_id: category === "gate" ? num(r.to_paddock_id) : null,
+          notes: r.notes || null,
+          updated_at: new Date().toISOString(),
+        };
+        const ids = [fields.paddock_id, fields.to_paddock_id].filter((v): v is number => v != null);
+        const { data: pads, error: pErr } = await supa
+          .from("agriops_paddocks")
+          .select("id")
+          .eq("tenant_id", tenant_id)
+          .in("id", ids);
+        if (pErr) throw pErr;
+        if ((pads || []).length !== new Set(ids).size) {
+          return NextResponse.json({ ok: false, error: "Paddock not found for tenant" }, { status: 404 });
+        }
+        const { data, error } = r.id
+          ? await supa.from("agriops_infrastructure").update(fields).eq("tenant_id", tenant_id).eq("id", Number(r.id)).select().maybeSingle()
+          : await supa.from("agriops_infrastructure").insert(fields).select().maybeSingle();
+        if (error) throw error;
+        if (!data) return NextResponse.json({ ok: false, error: "Infrastructure item not found" }, { status: 404 });
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "deleteInfrastructure": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return NextResponse.json({ ok: false, error: "tenant_id and id are required" }, { status: 400 });
+        const { error } = await supa.from("agriops_infrastructure").delete().eq("tenant_id", tenant_id).eq("id", id);
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { deleted: id } });
+      }
+
+      /** ─────────────── Growth curves ─────────────── */
+      case "listGrowthCurves": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const { data, error } = await supa.from("agriops_growth_curves").select("*").eq("tenant_id", tenant_id).order("name");
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "upsertGrowthCurve": {
+        const tenant_id = String(body?.tenant_id || "");
+        const c: any = body?.row || {};
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const invalid = validateGrowthCurve(c);
+        if (invalid) return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+        const fields = {
+          tenant_id,
+          name: String(c.name).trim(),
+          zone: String(c.zone || "").trim() || null,
+          monthly_rates: c.monthly_rates.map((v: any) => Number(v)),
+          notes: c.notes || null,
+          updated_at: new Date().toISOString(),
+        };
+        const { data, error } = c.id
+          ? await supa.from("agriops_growth_curves").update(fields).eq("tenant_id", tenant_id).eq("id", Number(c.id)).select().maybeSingle()
+          : await supa.from("agriops_growth_curves").insert(fields).select().maybeSingle();
+        if (error?.code === "23505") {
+          return NextResponse.json(
+            { ok: false, error: "Another curve already has that name or zone" },
+            { status: 409 }
+          );
+        }
+        if (error) throw error;
+        if (!data) return NextResponse.json({ ok: false, error: "Growth curve not found" }, { status: 404 });
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "deleteGrowthCurve": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return NextResponse.json({ ok: false, error: "tenant_id and id are required" }, { status: 400 });
+        const { error } = await supa.from("agriops_growth_curves").delete().eq("tenant_id", tenant_id).eq("id", id);
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { deleted: id } });
+      }
+
+      /** ─────────────── Planner herds & scenarios ─────────────── */
+      case "listHerds": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const { data, error } = await supa.from("agriops_herds").select("*").eq("tenant_id", tenant_id).order("name");
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "upsertHerd": {
+        const tenant_id = String(body?.tenant_id || "");
+        const h: any = body?.row || {};
+        const name = String(h.name || "").trim();
+        if (!tenant_id || !name) {
+          return NextResponse.json({ ok: false, error: "tenant_id and row.name are required" }, { status: 400 });
+        }
+        const fields = {
+          tenant_id,
+          name,
+          headcount: Math.max(0, Math.round(Number(h.headcount) || 0)),
+          avg_weight_lb: Math.max(0, Number(h.avg_weight_lb) || 0),
+          intake_pct_bw: Math.max(0, Number(h.intake_pct_bw) || 0),
+          notes: h.notes || null,
+          cattle_filter: h.cattle_filter && typeof h.cattle_filter === "object" ? h.cattle_filter : null,
+          updated_at: new Date().toISOString(),
+        };
+        const { data, error } = h.id
+          ? await supa.from("agriops_herds").update(fields).eq("tenant_id", tenant_id).eq("id", Number(h.id)).select().maybeSingle()
+          : await supa.from("agriops_herds").insert(fields).select().maybeSingle();
+        if (error?.code === "23505") {
+          return NextResponse.json({ ok: false, error: `A herd named "${name}" already exists` }, { status: 409 });
+        }
+        if (error) throw error;
+        if (!data) return NextResponse.json({ ok: false, error: "Herd not found" }, { status: 404 });
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "deleteHerd": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return NextResponse.json({ ok: false, error: "tenant_id and id are required" }, { status: 400 });
+        const { error } = await supa.from("agriops_herds").delete().eq("tenant_id", tenant_id).eq("id", id);
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { deleted: id } });
+      }
+
+      case "listScenarios": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const { data, error } = await supa
+          .from("agriops_planner_scenarios")
+          .select("*, herd:agriops_herds(*)")
+          .eq("tenant_id", tenant_id)
+          .order("name");
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "upsertScenario": {
+        const tenant_id = String(body?.tenant_id || "");
+        const sc: any = body?.row || {};
+        const name = String(sc.name || "").trim();
+        if (!tenant_id || !name) {
+          return NextResponse.json({ ok: false, error: "tenant_id and row.name are required" }, { status: 400 });
+        }
+        const days = Math.round(Number(sc.days) || 0);
+        if (days < 1 || days > 730) return NextResponse.json({ ok: false, error: "days must be 1–730" }, { status: 400 });
+        if (sc.start_date && !isYmd(sc.start_date)) {
+          return NextResponse.json({ ok: false, error: "start_date must be YYYY-MM-DD" }, { status: 400 });
+        }
+        const fields = {
+          tenant_id,
+          name,
+          herd_id: sc.herd_id ? Number(sc.herd_id) : null,
+          days,
+          growth_dm_lb_ac_day: Number(sc.growth_dm_lb_ac_day) || 0,
+          residual_dm_lb_ac: Number(sc.residual_dm_lb_ac) || 0,
+          max_stay_days: Math.max(0, Math.round(Number(sc.max_stay_days) || 0)),
+          start_date: sc.start_date || null,
+          require_water: !!sc.require_water,
+          water_gal_au_day: Math.max(0, Number(sc.water_gal_au_day ?? DEFAULT_WATER_GAL_AU_DAY) || 0),
+          notes: sc.notes || null,
+          updated_at: new Date().toISOString(),
+        };
+        if (fields.herd_id) {
+          const { data: herd, error: hErr } = await supa
+            .from("agriops_herds")
+            .select("id")
+            .eq("tenant_id", tenant_id)
+            .eq("id", fields.herd_id)
+            .maybeSingle();
+          if (hErr) throw hErr;
+          if (!herd) return NextResponse.json({ ok: false, error: "Herd not found for tenant" }, { status: 404 });
+        }
+        const { data, error } = sc.id
+          ? await supa
+              .from("agriops_planner_scenarios")
+              .update(fields)
+              .eq("tenant_id", tenant_id)
+              .eq("id", Number(sc.id))
+              .select("*, herd:agriops_herds(*)")
+              .maybeSingle()
+          : await supa.from("agriops_planner_scenarios").insert(fields).select("*, herd:agriops_herds(*)").maybeSingle();
+        if (error?.code === "23505") {
+          return NextResponse.json({ ok: false, error: `A scenario named "${name}" already exists` }, { status: 409 });
+        }
+        if (error) throw error;
+        if (!data) return NextResponse.json({ ok: false, error: "Scenario not found" }, { status: 404 });
+        return NextResponse.json({ ok: true, data });
+      }
+
+      // Copies a scenario under a new name ("<name> (copy)", "(copy 2)", … when not given)
+      case "duplicateScenario": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return NextResponse.json({ ok: false, error: "tenant_id and id are required" }, { status: 400 });
+        const { data: all, error: lErr } = await supa
+          .from("agriops_planner_scenarios")
+          .select("*")
+          .eq("tenant_id", tenant_id);
+        if (lErr) throw lErr;
+        const src: any = (all || []).find((r: any) => r.id === id);
+        if (!src) return NextResponse.json({ ok: false, error: "Scenario not found" }, { status: 404 });
+        const taken = new Set((all || []).map((r: any) => String(r.name).toLowerCase()));
+        let name = String(body?.name || "").trim();
+        if (!name) {
+          name = `${src.name} (copy)`;
+          for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${src.name} (copy ${n})`;
+        }
+        const { id: _id, created_at, updated_at, ...rest } = src;
+        const { data, error } = await supa
+          .from("agriops_planner_scenarios")
+          .insert({ ...rest, name })
+          .select("*, herd:agriops_herds(*)")
+          .maybeSingle();
+        if (error?.code === "23505") {
+          return NextResponse.json({ ok: false, error: `A scenario named "${name}" already exists` }, { status: 409 });
+        }
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "deleteScenario": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return NextResponse.json({ ok: false, error: "tenant_id and id are required" }, { status: 400 });
+        const { error } = await supa.from("agriops_planner_scenarios").delete().eq("tenant_id", tenant_id).eq("id", id);
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { deleted: id } });
+      }
+
+      /** ─────────────── Feed inventory ─────────────── */
+      case "listFeedLots": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const { data, error } = await supa.from("agriops_feed_lots").select("*").eq("tenant_id", tenant_id).order("name");
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "upsertFeedLot": {
+        const tenant_id = String(body?.tenant_id || "");
+        const l: any = body?.row || {};
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const invalid = validateFeedLot(l);
+        if (invalid) return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+        const num = (v: any) => (v === null || v === undefined || v === "" ? null : Number(v));
+        const name = String(l.name).trim();
+        const fields = {
+          tenant_id,
+          name,
+          kind: l.kind,
+          units_on_hand: Number(l.units_on_hand),
+          unit_label: String(l.unit_label || "").trim() || "bale",
+          unit_weight_lb: Number(l.unit_weight_lb),
+          dm_pct: Number(l.dm_pct),
+          cost_per_unit: Number(l.cost_per_unit ?? 0),
+          waste_pct: num(l.waste_pct),
+          received_date: isYmd(l.received_date) ? l.received_date : null,
+          feed_by: isYmd(l.feed_by) ? l.feed_by : null,
+          priority: num(l.priority),
+          notes: l.notes || null,
+          updated_at: new Date().toISOString(),
+        };
+        const { data, error } = l.id
+          ? await supa.from("agriops_feed_lots").update(fields).eq("tenant_id", tenant_id).eq("id", Number(l.id)).select().maybeSingle()
+          : await supa.from("agriops_feed_lots").insert(fields).select().maybeSingle();
+        if (error?.code === "23505") {
+          return NextResponse.json({ ok: false, error: `A feed lot named "${name}" already exists` }, { status: 409 });
+        }
+        if (error) throw error;
+        if (!data) return NextResponse.json({ ok: false, error: "Feed lot not found" }, { status: 404 });
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "deleteFeedLot": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return NextResponse.json({ ok: false, error: "tenant_id and id are required" }, { status: 400 });
+        const { error } = await supa.from("agriops_feed_lots").delete().eq("tenant_id", tenant_id).eq("id", id);
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { deleted: id } });
+      }
+
       /** ─────────────── Seeding ─────────────── */
       case "listSeeding": {
         const tenant_id = String(body?.tenant_id || "");
@@ -184,23 +887,66 @@ export async function POST(req: Request) {
       case "upsertAmendment": {
         const tenant_id = String(body?.tenant_id || "");
         const payload: any = body?.payload || {};
-        if (!tenant_id || !payload?.paddock_id || !payload?.product) {
+        if (!tenant_id || !payload?.paddock_id || !(payload?.product || payload?.product_id)) {
           return NextResponse.json({ ok: false, error: "tenant_id, payload.paddock_id, product are required" }, { status: 400 });
         }
-        const row = {
+        const num = (v: any) => (v === null || v === undefined || v === "" ? null : Math.max(0, Number(v)));
+        if (payload.method && !APPLICATION_METHODS.some((m) => m.value === payload.method)) {
+          return NextResponse.json({ ok: false, error: `method must be one of ${APPLICATION_METHODS.map((m) => m.value).join(", ")}` }, { status: 400 });
+        }
+        const row: any = {
           tenant_id,
           paddock_id: Number(payload.paddock_id),
           date_applied: payload.date_applied || null,
-          product: String(payload.product),
+          product: String(payload.product || ""),
           rate: payload.rate || null,
+          method: payload.method || null,
           notes: payload.notes || null,
+          product_id: null,
+          rate_value: null,
+          rate_unit: null,
+          n_lb_ac: num(payload.n_lb_ac),
+          p2o5_lb_ac: num(payload.p2o5_lb_ac),
+          k2o_lb_ac: num(payload.k2o_lb_ac),
+          lime_ton_ac: num(payload.lime_ton_ac),
+          cost_per_ac: num(payload.cost_per_ac),
         };
-        const { data, error } = await supa
-          .from("agriops_paddock_amendments")
-          .upsert(row as any)
-          .select()
-          .maybeSingle();
+        // catalog products: nutrients and cost come from the grade, price and structured rate
+        if (payload.product_id) {
+          const { data: prod, error: pErr } = await supa
+            .from("agriops_amendment_products")
+            .select("*")
+            .eq("tenant_id", tenant_id)
+            .eq("id", Number(payload.product_id))
+            .maybeSingle();
+          if (pErr) throw pErr;
+          if (!prod) return NextResponse.json({ ok: false, error: "Product not found for tenant" }, { status: 404 });
+          const unit = payload.rate_unit as RateUnit;
+          if (!rateUnitsFor(prod.form).includes(unit)) {
+            return NextResponse.json({ ok: false, error: `rate_unit must be ${rateUnitsFor(prod.form).join(" or ")} for this product` }, { status: 400 });
+          }
+          const rate_value = Number(payload.rate_value);
+          const math = applicationMath(prod as AmendmentProduct, rate_value, unit);
+          if (!math) return NextResponse.json({ ok: false, error: "rate_value must be ≥ 0" }, { status: 400 });
+          Object.assign(row, math, {
+            product_id: prod.id,
+            product: prod.name,
+            rate: `${rate_value} ${unitLabel(unit, "imperial")}`,
+            rate_value,
+            rate_unit: unit,
+          });
+        }
+        const { data, error } = payload.id
+          ? await supa
+              .from("agriops_paddock_amendments")
+              .update(row)
+              .eq("tenant_id", tenant_id)
+              .eq("id", Number(payload.id))
+              .select()
+              .maybeSingle()
+          : await supa.from("agriops_paddock_amendments").insert(row).select().maybeSingle();
         if (error) throw error;
+        if (!data) return NextResponse.json({ ok: false, error: "Amendment not found" }, { status: 404 });
         return NextResponse.json({ ok: true, data });
       }
 
@@ -213,6 +959,183 @@ export async function POST(req: Request) {
         return NextResponse.json({ ok: true, data: { deleted: id } });
       }
 
+      /** ─────────────── Amendment products ─────────────── */
+      case "listAmendmentProducts": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const { data, error } = await supa.from("agriops_amendment_products").select("*").eq("tenant_id", tenant_id).order("name");
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "upsertAmendmentProduct": {
+        const tenant_id = String(body?.tenant_id || "");
+        const p: any = body?.row || {};
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const invalid = validateAmendmentProduct(p);
+        if (invalid) return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+        const num = (v: any) => (v === null || v === undefined || v === "" ? null : Number(v));
+        const name = String(p.name).trim();
+        const fields = {
+          tenant_id,
+          name,
+          kind: p.kind,
+          form: p.form,
+          n_pct: Number(p.n_pct ?? 0),
+          p2o5_pct: Number(p.p2o5_pct ?? 0),
+          k2o_pct: Number(p.k2o_pct ?? 0),
+          cce_pct: num(p.cce_pct),
+          lb_per_gal: p.form === "liquid" ? num(p.lb_per_gal) : null,
+          price: num(p.price),
+          notes: p.notes || null,
+          updated_at: new Date().toISOString(),
+        };
+        const { data, error } = p.id
+          ? await supa.from("agriops_amendment_products").update(fields).eq("tenant_id", tenant_id).eq("id", Number(p.id)).select().maybeSingle()
+          : await supa.from("agriops_amendment_products").insert(fields).select().maybeSingle();
+        if (error?.code === "23505") {
+          return NextResponse.json({ ok: false, error: `A product named "${name}" already exists` }, { status: 409 });
+        }
+        if (error) throw error;
+        if (!data) return NextResponse.json({ ok: false, error: "Product not found" }, { status: 404 });
+        return NextResponse.json({ ok: true, data });
+      }
+
+      // past amendments keep their computed nutrients and cost; only the link is cleared
+      case "deleteAmendmentProduct": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return NextResponse.json({ ok: false, error: "tenant_id and id are required" }, { status: 400 });
+        const { error } = await supa.from("agriops_amendment_products").delete().eq("tenant_id", tenant_id).eq("id", id);
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { deleted: id } });
+      }
+
+      /** ─────────────── Soil tests ─────────────── */
+      case "listSoilTests": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        let q = supa
+          .from("agriops_soil_tests")
+          .select("*")
+          .eq("tenant_id", tenant_id)
+          .order("sample_date", { ascending: false })
+          .order("zone");
+        if (body?.paddock_id) q = q.eq("paddock_id", Number(body.paddock_id));
+        const { data, error } = await q;
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "upsertSoilTest": {
+        const tenant_id = String(body?.tenant_id || "");
+        const t: any = body?.row || {};
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const num = (v: any) => (v === null || v === undefined || v === "" ? null : Number(v));
+        const row = {
+          tenant_id,
+          paddock_id: Number(t.paddock_id),
+          sample_date: t.sample_date,
+          zone: String(t.zone || "").trim(),
+          crop: (t.crop || DEFAULT_CROP) as CropKey,
+          lab: t.lab || null,
+          ph: num(t.ph),
+          p_ppm: num(t.p_ppm),
+          k_ppm: num(t.k_ppm),
+          om_pct: num(t.om_pct),
+          cec_meq: num(t.cec_meq),
+          notes: t.notes || null,
+          updated_at: new Date().toISOString(),
+        };
+        const invalid = validateSoilTest(row);
+        if (invalid) return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+        const { data: pad, error: pErr } = await supa
+          .from("agriops_paddocks")
+          .select("id")
+          .eq("tenant_id", tenant_id)
+          .eq("id", row.paddock_id)
+          .maybeSingle();
+        if (pErr) throw pErr;
+        if (!pad) return NextResponse.json({ ok: false, error: "Paddock not found for tenant" }, { status: 404 });
+        const { data, error } = t.id
+          ? await supa.from("agriops_soil_tests").update(row).eq("tenant_id", tenant_id).eq("id", Number(t.id)).select().maybeSingle()
+          : await supa.from("agriops_soil_tests").insert(row).select().maybeSingle();
+        if (error?.code === "23505") {
+          return NextResponse.json(
+            { ok: false, error: `A soil test for ${row.sample_date}${row.zone ? ` (zone ${row.zone})` : ""} already exists` },
+            { status: 409 }
+          );
+        }
+        if (error) throw error;
+        if (!data) return NextResponse.json({ ok: false, error: "Soil test not found" }, { status: 404 });
+        return NextResponse.json({ ok: true, data });
+      }
+
+      case "deleteSoilTest": {
+        const tenant_id = String(body?.tenant_id || "");
+        const id = Number(body?.id);
+        if (!tenant_id || !id) return NextResponse.json({ ok: false, error: "tenant_id and id are required" }, { status: 400 });
+        const { error } = await supa.from("agriops_soil_tests").delete().eq("tenant_id", tenant_id).eq("id", id);
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: { deleted: id } });
+      }
+
+      // Lab CSV: rows go to the paddock named in the file, else to paddock_id; same paddock/date/zone is replaced.
+      case "importSoilTests": {
+        const tenant_id = String(body?.tenant_id || "");
+        const content = String(body?.content || "");
+        const fallback_id = body?.paddock_id ? Number(body.paddock_id) : null;
+        if (!tenant_id || !content.trim()) {
+          return NextResponse.json({ ok: false, error: "tenant_id and content are required" }, { status: 400 });
+        }
+        const records = parseCsv(content);
+        if (!records.length) return NextResponse.json({ ok: false, error: "File has no rows" }, { status: 400 });
+        const columnNames = Object.keys(records[0]);
+        const cols = resolveSoilColumns(columnNames);
+        if (!cols.sample_date) {
+          return NextResponse.json({ ok: false, error: `No sample date column found (columns: ${columnNames.join(", ")})` }, { status: 400 });
+        }
+        if (!cols.paddock && !fallback_id) {
+          return NextResponse.json({ ok: false, error: `No paddock / field column found (columns: ${columnNames.join(", ")})` }, { status: 400 });
+        }
+
+        const { data: pads, error: pErr } = await supa.from("agriops_paddocks").select("id, name").eq("tenant_id", tenant_id);
+        if (pErr) throw pErr;
+        const byName = new Map((pads || []).map((p: any) => [String(p.name).trim().toLowerCase(), Number(p.id)]));
+        if (fallback_id && !(pads || []).some((p: any) => Number(p.id) === fallback_id)) {
+          return NextResponse.json({ ok: false, error: "Paddock not found for tenant" }, { status: 404 });
+        }
+
+        const crop: CropKey = body?.crop || DEFAULT_CROP;
+        const rows = new Map<string, SoilTest & { tenant_id: string; updated_at: string }>(); // last row per key wins
+        const unmatched = new Set<string>();
+        const invalid: { row: number; error: string }[] = [];
+        records.forEach((rec, i) => {
+          const m = mapSoilRow(rec, cols, crop);
+          const paddock_id = m.paddock ? byName.get(m.paddock.toLowerCase()) ?? null : fallback_id;
+          if (!paddock_id) {
+            unmatched.add(m.paddock || "(blank)");
+            return;
+          }
+          const row = { ...m.test, tenant_id, paddock_id, zone: m.test.zone || "", updated_at: new Date().toISOString() };
+          const bad = validateSoilTest(row);
+          // CSV row numbers count the header line
+          if (bad) invalid.push({ row: i + 2, error: bad });
+          else rows.set(`${paddock_id}|${row.sample_date}|${row.zone}`, row);
+        });
+
+        if (rows.size) {
+          const { error } = await supa
+            .from("agriops_soil_tests")
+            .upsert(Array.from(rows.values()), { onConflict: "tenant_id,paddock_id,sample_date,zone" });
+          if (error) throw error;
+        }
+        return NextResponse.json({
+          ok: true,
+          data: { imported: rows.size, unmatched: Array.from(unmatched), invalid: invalid.slice(0, 200), invalid_count: invalid.length, columns: cols },
+        });
+      }
+
       default:
         return NextResponse.json({ ok: false, error: `Unknown action: ${action}` }, { status: 400 });
     }
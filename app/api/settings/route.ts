@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { DEFAULT_UNIT_SYSTEM, isUnitSystem } from "@/lib/units";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** Service-role Supabase (server only) */
+function getSupabaseService() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const service = process.env.SUPABASE_SERVICE_ROLE!;
+  if (!url || !service) {
+    throw new Error("Missing env: NEXT_PUBLIC_SUPABASE_URL and/or SUPABASE_SERVICE_ROLE");
+  }
+  return createClient(url, service, { auth: { persistSession: false, autoRefreshToken: false } });
+}
+
+// Safe JSON
+async function readJson(req: Request) {
+  try { return await req.json(); } catch { return null; }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true });
+}
+
+export async function POST(req: Request) {
+  const supa = getSupabaseService();
+
+  try {
+    const body = await readJson(req);
+    if (!body) return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+
+    const action = String(body.action || "");
+    if (!action) return NextResponse.json({ ok: false, error: "Missing 'action'" }, { status: 400 });
+
+    switch (action) {
+      /** ─────────────── Tenant settings ─────────────── */
+      // tenants without a row get the defaults
+      case "getSettings": {
+        const tenant_id = String(body?.tenant_id || "");
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        const { data, error } = await supa
+          .from("agriops_tenant_settings")
+          .select("*")
+          .eq("tenant_id", tenant_id)
+          .maybeSingle();
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data: data || { tenant_id, unit_system: DEFAULT_UNIT_SYSTEM } });
+      }
+
+      case "saveSettings": {
+        const tenant_id = String(body?.tenant_id || "");
+        const row: any = body?.row || {};
+        if (!tenant_id) return NextResponse.json({ ok: false, error: "tenant_id is required" }, { status: 400 });
+        if (!isUnitSystem(row.unit_system)) {
+          return NextResponse.json({ ok: false, error: "unit_system must be imperial or metric" }, { status: 400 });
+        }
+        const { data, error } = await supa
+          .from("agriops_tenant_settings")
+          .upsert({ tenant_id, unit_system: row.unit_system, updated_at: new Date().toISOString() })
+          .select()
+          .maybeSingle();
+        if (error) throw error;
+        return NextResponse.json({ ok: true, data });
+      }
+
+      default:
+        return NextResponse.json({ ok: false, error: `Unknown action: ${action}` }, { status: 400 });
+    }
+  } catch (err: any) {
+    console.error("[/api/settings] error", err);
+    return NextResponse.json({ ok: false, error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,165 @@
+/* app/api/vitals/import/route.ts
+   Bulk import of collar / bolus sensor exports into agriops_vitals.
+   Body: { tenant_id, source, content (CSV or JSON text) | records (array), mapping?, dry_run? }
+   Animals are matched by EID first, then by tag. Rows are upserted on import_key, so
+   uploading the same file twice leaves one copy of every reading.
+*/
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { buildVitalsRow } from "@/lib/vitals";
+import { runAlertRules } from "@/lib/alertEngine";
+import { todayYmd } from "@/lib/dates";
+import {
+  importKey,
+  mapReading,
+  parseCsv,
+  parseJsonRecords,
+  resolveColumns,
+  unknownMappedColumns,
+  type ColumnMapping,
+} from "@/lib/vitalsImport";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+const MAX_ROWS = 50000;
+const CHUNK = 500;
+const REPORT_LIMIT = 200;
+
+function ok(data?: any) {
+  return NextResponse.json({ ok: true, data });
+}
+function err(message = "Request failed", status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/** All animals for the tenant (paged past the 1000-row API limit). */
+async function loadAnimals(tenant_id: string) {
+  const out: { id: number; tag: string | null; eid: string | null }[] = [];
+  for (let from = 0; ; from += 1000) {
+    const { data, error } = await admin
+      .from("agriops_cattle")
+      .select("id, tag, eid")
+      .eq("tenant_id", tenant_id)
+      .order("id")
+      .range(from, from + 999);
+    if (error) throw error;
+    out.push(...(data || []));
+    if (!data || data.length < 1000) return out;
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { tenant_id, source, content, records, format, mapping, dry_run } = await req.json();
+    if (!tenant_id) return err("tenant_id required");
+    const src = String(source || "").trim().toLowerCase();
+    if (!/^[a-z0-9_-]{1,40}$/.test(src)) return err("source required (e.g. collar, bolus)");
+    if (src === "manual" || src === "care") return err(`source "${src}" is reserved`);
+
+    /* ──────────────── A. PARSE ──────────────── */
+    let input: Record<string, any>[];
+    let fromCsv = false;
+    try {
+      if (Array.isArray(records)) input = records;
+      else if (typeof content === "string" && content.trim()) {
+        const isJson = format ? format === "json" : /^[\[{]/.test(content.trim());
+        fromCsv = !isJson;
+        input = isJson ? parseJsonRecords(content) : parseCsv(content);
+      } else return err("content (CSV/JSON text) or records[] required");
+    } catch (e: any) {
+      return err(`Could not parse file: ${e.message || e}`);
+    }
+    if (!input.length) return err("File has no readings");
+    if (input.length > MAX_ROWS) return err(`Too many rows (${input.length}); split the file below ${MAX_ROWS}`);
+
+    const columnNames = Array.from(new Set(input.flatMap((r) => Object.keys(r))));
+    const unknown = unknownMappedColumns(columnNames, (mapping || {}) as ColumnMapping);
+    if (unknown.length) {
+      return err(`mapping names columns not in the file: ${unknown.join(", ")} (columns: ${columnNames.join(", ")})`);
+    }
+    const columns = resolveColumns(columnNames, (mapping || {}) as ColumnMapping);
+    if (!columns.eid && !columns.tag) {
+      return err(`No EID or tag column found (columns: ${columnNames.join(", ")}); pass mapping.eid or mapping.tag`);
+    }
+    // without a timestamp every upload would get "now" and defeat the de-duplication
+    if (!columns.measure_time && !columns.date) {
+      return err(`No timestamp or date column found (columns: ${columnNames.join(", ")}); pass mapping.measure_time`);
+    }
+
+    /* ──────────────── B. MATCH ANIMALS + BUILD ROWS ──────────────── */
+    const animals = await loadAnimals(tenant_id);
+    const byEid = new Map<string, number>();
+    const byTag = new Map<string, number>();
+    for (const a of animals) {
+      if (a.eid) byEid.set(a.eid.replace(/\s+/g, ""), a.id);
+      if (a.tag) byTag.set(a.tag.trim().toLowerCase(), a.id);
+    }
+
+    const rows = new Map<string, any>(); // import_key → row (last one in the file wins)
+    const unmatched: { row: number; eid: string | null; tag: string | null }[] = [];
+    const invalid: { row: number; error: string }[] = [];
+    let unmatchedCount = 0;
+    let invalidCount = 0;
+
+    input.forEach((rec, i) => {
+      // CSV row numbers count the header line, JSON ones are 1-based indexes
+      const rowNo = fromCsv ? i + 2 : i + 1;
+      const m = mapReading(rec, columns);
+      const animal_id =
+        (m.eid && byEid.get(m.eid.replace(/\s+/g, ""))) || (m.tag && byTag.get(m.tag.toLowerCase())) || null;
+      if (!animal_id) {
+        unmatchedCount++;
+        if (unmatched.length < REPORT_LIMIT) unmatched.push({ row: rowNo, eid: m.eid, tag: m.tag });
+        return;
+      }
+      const { row, error } = buildVitalsRow(tenant_id, animal_id, m.vitals, src);
+      if (!row) {
+        invalidCount++;
+        if (invalid.length < REPORT_LIMIT) invalid.push({ row: rowNo, error: error || "invalid" });
+        return;
+      }
+      const key = importKey(src, animal_id, row.measure_time);
+      rows.set(key, { ...row, import_key: key });
+    });
+
+    const report = {
+      total: input.length,
+      matched: rows.size,
+      duplicates_in_file: input.length - unmatchedCount - invalidCount - rows.size,
+      unmatched_count: unmatchedCount,
+      invalid_count: invalidCount,
+      unmatched,
+      invalid,
+      columns,
+    };
+    if (dry_run || !rows.size) return ok({ ...report, imported: 0, dry_run: !!dry_run });
+
+    /* ──────────────── C. UPSERT ──────────────── */
+    const all = Array.from(rows.values());
+    for (let i = 0; i < all.length; i += CHUNK) {
+      const { error } = await admin
+        .from("agriops_vitals")
+        .upsert(all.slice(i, i + CHUNK), { onConflict: "tenant_id,import_key" });
+      if (error) throw error;
+    }
+
+    // runAlertRules reads 200 animals at a time and pages every query, so a large collar
+    // import is evaluated on all of its readings rather than the first 1000 rows
+    const animal_ids = Array.from(new Set(all.map((r) => r.animal_id as number)));
+    const alerts = await runAlertRules(admin, tenant_id, animal_ids, todayYmd());
+    return ok({ ...report, imported: all.length, animals: animal_ids.length, alerts });
+  } catch (e: any) {
+    console.error("API /api/vitals/import error:", e.message || e);
+    return NextResponse.json(
+      { ok: false, error: e.message || "Server error", details: e },
+      { status: 500 }
+    );
+  }
+}
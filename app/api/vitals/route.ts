@@ -1,8 +1,14 @@
+/* app/api/vitals/route.ts
+   The single vitals API. Rows use canonical units (see lib/vitals.ts); legacy field names
+   (temperature, heart_rate, respiration_rate) and temp_f are converted on the way in.
+*/
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { buildVitalsRow, normalizeVitalFields, measureTimeFrom } from "@/lib/vitals";
+import { runAlertRules } from "@/lib/alertEngine";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -19,18 +25,23 @@ function err(message = "Request failed", status = 400) {
 
 export async function POST(req: Request) {
   try {
-    const { action, tenant_id, animal_id, patch, vitals } = await req.json();
+    const { action, tenant_id, animal_id, patch, vitals, from, to, limit } = await req.json();
 
     /* ──────────────── A. LIST VITALS ──────────────── */
     if (action === "listVitals") {
       if (!tenant_id || !animal_id) return err("tenant_id and animal_id required");
-      const { data, error } = await admin
+      let q = admin
         .from("agriops_vitals")
-        .select("*")
+        .select(
+          "id, tenant_id, animal_id, measure_time, reading_date, temp_c, heart_rate_bpm, respiration_rate_bpm, rumination_min, steps, bcs, notes, source"
+        )
         .eq("tenant_id", tenant_id)
         .eq("animal_id", animal_id)
         .order("measure_time", { ascending: false })
-        .limit(100);
+        .limit(Math.min(Number(limit) || 100, 1000));
+      if (from) q = q.gte("reading_date", from);
+      if (to) q = q.lte("reading_date", to);
+      const { data, error } = await q;
       if (error) throw error;
       return ok(data);
     }
@@ -40,18 +51,24 @@ export async function POST(req: Request) {
       if (!tenant_id || !animal_id || !vitals)
         return err("tenant_id, animal_id, and vitals required");
 
-      // vitals example: { temperature: 101.3, heart_rate: 80, respiration_rate: 28 }
-      const { error } = await admin.from("agriops_vitals").insert({
-        tenant_id,
-        animal_id,
-        temperature: vitals.temperature ?? null,
-        heart_rate: vitals.heart_rate ?? null,
-        respiration_rate: vitals.respiration_rate ?? null,
-        notes: vitals.notes ?? null,
-      });
+      // vitals example: { temp_c: 38.6, heart_rate_bpm: 80, rumination_min: 480, reading_date: "2026-05-01" }
+      const { data: animal, error: aErr } = await admin
+        .from("agriops_cattle")
+        .select("id")
+        .eq("tenant_id", tenant_id)
+        .eq("id", animal_id)
+        .maybeSingle();
+      if (aErr) throw aErr;
+      if (!animal) return err("Animal not found for tenant", 404);
+
+      const { row, error: vErr } = buildVitalsRow(tenant_id, Number(animal_id), vitals, vitals.source || "manual");
+      if (!row) return err(vErr || "Invalid vitals");
 
+      const { data, error } = await admin.from("agriops_vitals").insert(row).select("*").single();
       if (error) throw error;
-      return ok({ added: true });
+
+      const alerts = await runAlertRules(admin, tenant_id, [Number(animal_id)], data.reading_date);
+      return ok({ added: true, row: data, alerts });
     }
 
     /* ──────────────── C. UPDATE EXISTING VITAL ──────────────── */
@@ -59,9 +76,20 @@ export async function POST(req: Request) {
       if (!tenant_id || !animal_id || !patch?.id)
         return err("tenant_id, animal_id, patch.id required");
 
+      // Only canonical fields (plus time/notes) are writable; legacy names are converted
+      const { fields, error: vErr } = normalizeVitalFields(patch);
+      if (vErr) return err(vErr);
+      const up: Record<string, any> = { ...fields };
+      if (patch.measure_time !== undefined || patch.reading_date !== undefined) {
+        up.measure_time = measureTimeFrom(patch);
+        if (!up.measure_time) return err("measure_time is not a valid date");
+      }
+      if (patch.notes !== undefined) up.notes = patch.notes ?? null;
+      if (!Object.keys(up).length) return err("patch has no writable fields");
+
       const { error } = await admin
         .from("agriops_vitals")
-        .update(patch)
+        .update(up)
         .eq("tenant_id", tenant_id)
         .eq("animal_id", animal_id)
         .eq("id", patch.id);
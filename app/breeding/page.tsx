@@ -0,0 +1,14 @@
+// app/breeding/page.tsx
+"use client";
+
+import React from "react";
+import BreedingManager from "@/components/BreedingManager";
+
+export default function BreedingPage() {
+  const tenantId = process.env.NEXT_PUBLIC_TENANT || "demo";
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-6">
+      <BreedingManager tenantId={tenantId} />
+    </div>
+  );
+}
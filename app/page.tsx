@@ -48,9 +48,9 @@ const DEFAULT_TILES: Tile[] = [
     rounded: "rounded-2xl",
   },
   {
-    id: "placeholder-1",
-    title: "Coming Soon",
-    href: "#",
+    id: "breeding",
+    title: "Breeding & Calving",
+    href: "/breeding",
     bgColor: "#475569",
     textColor: "#ffffff",
     rounded: "rounded-2xl",
@@ -0,0 +1,286 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { METRICS, type AlertMetric, type AlertRule, type AlertRuleKind, type AlertSeverity } from "@/lib/alertRules";
+import { useUnits } from "@/components/units";
+import type { Quantity, Units } from "@/lib/units";
+
+type Draft = {
+  id?: number | null;
+  name: string;
+  metric: AlertMetric;
+  kind: AlertRuleKind;
+  operator: string;
+  threshold: string;
+  window_days: string;
+  severity: AlertSeverity;
+  enabled: boolean;
+};
+
+const emptyDraft: Draft = {
+  name: "",
+  metric: "temp_c",
+  kind: "threshold",
+  operator: "gte",
+  threshold: "",
+  window_days: "",
+  severity: "warn",
+  enabled: true,
+};
+
+const selectCls = "border border-slate-300 rounded-xl px-3 py-2 w-full";
+
+// metrics the tenant may see in other units; a rate-of-change amount is a difference (no °F offset)
+function metricQuantity(metric: AlertMetric, kind: AlertRuleKind): Quantity | null {
+  if (metric === "temp_c") return kind === "rate_of_change" ? "temp_c_delta" : "temp_c";
+  if (metric === "weight_lb") return "lb";
+  return null;
+}
+
+function describe(r: AlertRule, u: Units) {
+  const m = METRICS[r.metric];
+  const q = metricQuantity(r.metric, r.kind);
+  const amount = q ? u.fmt(q, r.threshold, 1) : `${r.threshold} ${m.unit}`;
+  if (r.kind === "missing") return `No ${m.label.toLowerCase()} reading for ${r.window_days} d`;
+  if (r.kind === "rate_of_change") return `${m.label} ${r.operator} of ${amount} within ${r.window_days} d`;
+  const op = { gt: ">", gte: "≥", lt: "<", lte: "≤" }[String(r.operator)] || r.operator;
+  return `${m.label} ${op} ${amount}`;
+}
+
+export default function AlertRules({ tenantId }: { tenantId: string }) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [usingDefaults, setUsingDefaults] = useState(false);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [busy, setBusy] = useState(false);
+  const { units: u } = useUnits(tenantId);
+
+  async function api(action: string, body: any) {
+    const res = await fetch("/api/care", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action, tenant_id: tenantId, ...body }),
+    });
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Request failed");
+    return json.data;
+  }
+
+  async function load() {
+    try {
+      const data = await api("listAlertRules", {});
+      setRules(data?.rules || []);
+      setUsingDefaults(!!data?.usingDefaults);
+    } catch (e: any) {
+      alert(e.message || "Failed to load rules");
+    }
+  }
+
+  useEffect(() => {
+    load().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tenantId]);
+
+  async function persist(payload: any) {
+    try {
+      setBusy(true);
+      await api("upsertAlertRule", { payload });
+      setDraft(emptyDraft);
+      await load();
+    } catch (e: any) {
+      alert(e.message || "Failed to save rule");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // the draft threshold is in the tenant's units; rules store canonical ones
+  function save(d: Draft = draft) {
+    const q = metricQuantity(d.metric, d.kind);
+    return persist({
+      id: d.id ?? undefined,
+      name: d.name.trim(),
+      metric: d.metric,
+      kind: d.kind,
+      operator: d.operator,
+      threshold: q && d.threshold !== "" ? u.store(q, Number(d.threshold)) : d.threshold,
+      window_days: d.window_days,
+      severity: d.severity,
+      enabled: d.enabled,
+    });
+  }
+
+  function toDraft(r: AlertRule): Draft {
+    const q = metricQuantity(r.metric, r.kind);
+    return {
+      id: r.id ?? undefined,
+      name: r.name,
+      metric: r.metric,
+      kind: r.kind,
+      operator: r.operator || "",
+      threshold: r.threshold == null ? "" : q ? String(Math.round(u.show(q, r.threshold)! * 100) / 100) : String(r.threshold),
+      window_days: r.window_days != null ? String(r.window_days) : "",
+      severity: r.severity,
+      enabled: r.enabled,
+    };
+  }
+
+  async function remove(r: AlertRule) {
+    if (!r.id || !confirm(`Delete rule "${r.name}"?`)) return;
+    try {
+      await api("deleteAlertRule", { id: r.id });
+      await load();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete rule");
+    }
+  }
+
+  async function evaluateNow() {
+    try {
+      setBusy(true);
+      const res = await api("evaluateAlertRules", {});
+      alert(`Raised ${res.raised}, repeated ${res.repeated}, auto-resolved ${res.resolved}`);
+    } catch (e: any) {
+      alert(e.message || "Evaluation failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const draftQ = metricQuantity(draft.metric, draft.kind);
+
+  function setKind(kind: AlertRuleKind) {
+    setDraft({ ...draft, kind, operator: kind === "threshold" ? "gte" : kind === "rate_of_change" ? "drop" : "" });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Alert Rules</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="border rounded-xl p-3 bg-white/70">
+          <div className="grid md:grid-cols-4 gap-2">
+            <div>
+              <Label>Name (alert type) *</Label>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g., weight_loss"
+              />
+            </div>
+            <div>
+              <Label>Metric</Label>
+              <select className={selectCls} value={draft.metric} onChange={(e) => setDraft({ ...draft, metric: e.target.value as AlertMetric })}>
+                {(Object.keys(METRICS) as AlertMetric[]).map((m) => (
+                  <option key={m} value={m}>{METRICS[m].label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label>Kind</Label>
+              <select className={selectCls} value={draft.kind} onChange={(e) => setKind(e.target.value as AlertRuleKind)}>
+                <option value="threshold">Threshold</option>
+                <option value="rate_of_change">Rate of change</option>
+                <option value="missing">Missing reading</option>
+              </select>
+            </div>
+            <div>
+              <Label>Severity</Label>
+              <select className={selectCls} value={draft.severity} onChange={(e) => setDraft({ ...draft, severity: e.target.value as AlertSeverity })}>
+                <option value="info">info</option>
+                <option value="warn">warn</option>
+                <option value="high">high</option>
+              </select>
+            </div>
+            {draft.kind !== "missing" && (
+              <div>
+                <Label>Operator</Label>
+                <select className={selectCls} value={draft.operator} onChange={(e) => setDraft({ ...draft, operator: e.target.value })}>
+                  {draft.kind === "threshold" ? (
+                    <>
+                      <option value="gt">&gt;</option>
+                      <option value="gte">≥</option>
+                      <option value="lt">&lt;</option>
+                      <option value="lte">≤</option>
+                    </>
+                  ) : (
+                    <>
+                      <option value="drop">drops by</option>
+                      <option value="rise">rises by</option>
+                    </>
+                  )}
+                </select>
+              </div>
+            )}
+            {draft.kind !== "missing" && (
+              <div>
+                <Label>{draft.kind === "threshold" ? "Threshold" : "Change amount"} ({draftQ ? u.label(draftQ) : METRICS[draft.metric].unit || "score"})</Label>
+                <Input type="number" step="0.1" value={draft.threshold} onChange={(e) => setDraft({ ...draft, threshold: e.target.value })} />
+              </div>
+            )}
+            {draft.kind !== "threshold" && (
+              <div>
+                <Label>{draft.kind === "missing" ? "Max days without reading" : "Over N days"}</Label>
+                <Input type="number" min={1} value={draft.window_days} onChange={(e) => setDraft({ ...draft, window_days: e.target.value })} />
+              </div>
+            )}
+            <div className="flex items-end gap-2">
+              <Button onClick={() => save()} disabled={busy}>{draft.id ? "Update Rule" : "Add Rule"}</Button>
+              {draft.id && <Button variant="outline" onClick={() => setDraft(emptyDraft)}>Cancel</Button>}
+            </div>
+          </div>
+        </div>
+
+        <div className="border rounded-lg bg-white/80">
+          <div className="flex items-center justify-between px-2 py-2 bg-slate-50 border-b">
+            <div className="text-sm font-medium">
+              Rules ({rules.length})
+              {usingDefaults && <span className="text-slate-500 font-normal"> • built-in defaults (add a rule to customise)</span>}
+            </div>
+            <Button size="sm" variant="outline" onClick={evaluateNow} disabled={busy}>Evaluate herd now</Button>
+          </div>
+          <table className="w-full text-sm">
+            <thead className="bg-slate-100">
+              <tr>
+                <th className="text-left p-2">Name</th>
+                <th className="text-left p-2">Condition</th>
+                <th className="text-left p-2">Severity</th>
+                <th className="text-left p-2">Enabled</th>
+                <th className="text-right p-2 w-40">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((r, i) => (
+                <tr key={r.id ?? `default-${i}`} className="border-t">
+                  <td className="p-2 font-medium">{r.name}</td>
+                  <td className="p-2">{describe(r, u)}</td>
+                  <td className="p-2">{r.severity}</td>
+                  <td className="p-2">
+                    <input
+                      type="checkbox"
+                      checked={r.enabled}
+                      disabled={!r.id}
+                      onChange={(e) => persist({ ...r, enabled: e.target.checked })}
+                    />
+                  </td>
+                  <td className="p-2 text-right">
+                    <div className="flex gap-2 justify-end">
+                      <Button size="sm" variant="outline" onClick={() => setDraft(toDraft(r))}>
+                        {r.id ? "Edit" : "Customise"}
+                      </Button>
+                      {r.id && <Button size="sm" variant="destructive" onClick={() => remove(r)}>Delete</Button>}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
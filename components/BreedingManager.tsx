@@ -0,0 +1,455 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useUnits } from "@/components/units";
+import type { BreedingEvent, BreedingEventType, SeasonSummary } from "@/lib/breeding";
+
+type EventRow = BreedingEvent & {
+  id: number;
+  cow?: { tag: string } | null;
+  bull?: { tag: string } | null;
+  calf?: { tag: string } | null;
+};
+
+type Draft = {
+  event_type: BreedingEventType;
+  event_date: string;
+  cow_tag: string;
+  bull_tag: string;
+  semen_straw: string;
+  exposure_end: string;
+  technician: string;
+  preg_result: "pregnant" | "open" | "recheck";
+  days_bred: string;
+  calving_ease: string;
+  calf_status: "alive" | "stillborn" | "died";
+  calf_tag: string;
+  calf_sex: string;
+  calf_name: string;
+  birth_weight_lb: string;
+  notes: string;
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyDraft = (event_type: BreedingEventType = "ai"): Draft => ({
+  event_type,
+  event_date: today(),
+  cow_tag: "",
+  bull_tag: "",
+  semen_straw: "",
+  exposure_end: "",
+  technician: "",
+  preg_result: "pregnant",
+  days_bred: "",
+  calving_ease: "1",
+  calf_status: "alive",
+  calf_tag: "",
+  calf_sex: "",
+  calf_name: "",
+  birth_weight_lb: "",
+  notes: "",
+});
+
+const TYPE_LABEL: Record<BreedingEventType, string> = {
+  exposure: "Bull exposure",
+  ai: "AI service",
+  preg_check: "Preg check",
+  calving: "Calving",
+};
+
+const STATUS_CLS: Record<string, string> = {
+  calved: "bg-emerald-100 text-emerald-800",
+  pregnant: "bg-sky-100 text-sky-800",
+  open: "bg-red-100 text-red-800",
+  recheck: "bg-amber-100 text-amber-800",
+  unchecked: "bg-slate-100 text-slate-700",
+};
+
+const selectCls = "border border-slate-300 rounded-xl px-3 py-2 w-full";
+
+async function cattleApi(action: string, body?: any) {
+  const res = await fetch("/api/cattle", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, ...(body || {}) }),
+  });
+  const json = await res.json();
+  if (!json.ok) throw new Error(json.error || "Request failed");
+  return json.data;
+}
+
+function describe(e: EventRow) {
+  switch (e.event_type) {
+    case "exposure":
+      return `Bull ${e.bull?.tag ?? "?"}${e.exposure_end ? ` until ${e.exposure_end}` : ""}`;
+    case "ai":
+      return [e.bull?.tag || e.semen_straw, e.technician && `tech ${e.technician}`].filter(Boolean).join(" • ");
+    case "preg_check":
+      return `${e.preg_result}${e.days_bred != null ? ` • ${e.days_bred} d bred` : ""}`;
+    case "calving":
+      return `${e.calf?.tag ? `Calf ${e.calf.tag}` : "No calf record"} • ${e.calf_status}${
+        e.calving_ease ? ` • ease ${e.calving_ease}` : ""
+      }`;
+  }
+}
+
+/** Exposure, AI, preg-check and calving records plus the calving-season dashboard. */
+export default function BreedingManager({ tenantId }: { tenantId: string }) {
+  const year = new Date().getUTCFullYear();
+  const [draft, setDraft] = useState<Draft>(emptyDraft());
+  const [events, setEvents] = useState<EventRow[]>([]);
+  const [seasonFrom, setSeasonFrom] = useState(`${year}-05-01`);
+  const [seasonTo, setSeasonTo] = useState(`${year}-07-31`);
+  const [season, setSeason] = useState<SeasonSummary | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { units: u } = useUnits(tenantId);
+
+  async function loadEvents() {
+    try {
+      setEvents((await cattleApi("listBreedingEvents", { tenant_id: tenantId, limit: 200 })) || []);
+    } catch (e: any) {
+      alert(e.message || "Failed to load breeding records");
+    }
+  }
+
+  async function loadSeason() {
+    try {
+      setSeason(await cattleApi("getCalvingSeason", { tenant_id: tenantId, from: seasonFrom, to: seasonTo }));
+    } catch (e: any) {
+      alert(e.message || "Failed to load season");
+    }
+  }
+
+  useEffect(() => {
+    loadEvents().catch(() => {});
+    loadSeason().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tenantId]);
+
+  async function save() {
+    const d = draft;
+    if (!d.cow_tag.trim()) return alert("Cow tag is required");
+    try {
+      setBusy(true);
+      const res = await cattleApi("addBreedingEvent", {
+        tenant_id: tenantId,
+        payload: {
+          event_type: d.event_type,
+          event_date: d.event_date,
+          cow_tag: d.cow_tag.trim(),
+          bull_tag: d.event_type === "exposure" || d.event_type === "ai" ? d.bull_tag.trim() || undefined : undefined,
+          semen_straw: d.event_type === "ai" ? d.semen_straw : null,
+          exposure_end: d.event_type === "exposure" ? d.exposure_end || null : null,
+          technician: d.event_type === "ai" ? d.technician : null,
+          preg_result: d.event_type === "preg_check" ? d.preg_result : null,
+          days_bred: d.event_type === "preg_check" && d.preg_result === "pregnant" ? d.days_bred : null,
+          calving_ease: d.event_type === "calving" ? d.calving_ease : null,
+          calf_status: d.event_type === "calving" ? d.calf_status : null,
+          calf:
+            d.event_type === "calving"
+              ? { tag: d.calf_tag, sex: d.calf_sex, name: d.calf_name, birth_weight_lb: d.birth_weight_lb ? u.store("lb", Number(d.birth_weight_lb)) : null }
+              : undefined,
+          notes: d.notes,
+        },
+      });
+      if (res?.calf) alert(`Calf ${res.calf.tag} added to the herd`);
+      setDraft({ ...emptyDraft(d.event_type), event_date: d.event_date });
+      await Promise.all([loadEvents(), loadSeason()]);
+    } catch (e: any) {
+      alert(e.message || "Failed to save record");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(e: EventRow) {
+    const extra = e.calf?.tag ? ` Calf ${e.calf.tag} stays in the herd.` : "";
+    if (!confirm(`Delete this ${TYPE_LABEL[e.event_type].toLowerCase()} record?${extra}`)) return;
+    try {
+      await cattleApi("deleteBreedingEvent", { tenant_id: tenantId, id: e.id });
+      await Promise.all([loadEvents(), loadSeason()]);
+    } catch (err: any) {
+      alert(err.message || "Failed to delete record");
+    }
+  }
+
+  const t = draft.event_type;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Record Breeding Event</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid md:grid-cols-4 gap-2">
+            <div>
+              <Label>Event</Label>
+              <select
+                className={selectCls}
+                value={t}
+                onChange={(e) => setDraft({ ...draft, event_type: e.target.value as BreedingEventType })}
+              >
+                {(Object.keys(TYPE_LABEL) as BreedingEventType[]).map((k) => (
+                  <option key={k} value={k}>{TYPE_LABEL[k]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label>{t === "exposure" ? "Bull in" : "Date"}</Label>
+              <Input type="date" value={draft.event_date} onChange={(e) => setDraft({ ...draft, event_date: e.target.value })} />
+            </div>
+            <div>
+              <Label>Cow (tag) *</Label>
+              <Input value={draft.cow_tag} onChange={(e) => setDraft({ ...draft, cow_tag: e.target.value })} />
+            </div>
+
+            {(t === "exposure" || t === "ai") && (
+              <div>
+                <Label>Bull (tag){t === "exposure" ? " *" : ""}</Label>
+                <Input value={draft.bull_tag} onChange={(e) => setDraft({ ...draft, bull_tag: e.target.value })} />
+              </div>
+            )}
+            {t === "exposure" && (
+              <div>
+                <Label>Bull out</Label>
+                <Input type="date" value={draft.exposure_end} onChange={(e) => setDraft({ ...draft, exposure_end: e.target.value })} />
+              </div>
+            )}
+            {t === "ai" && (
+              <>
+                <div>
+                  <Label>Semen straw (sire / code)</Label>
+                  <Input
+                    value={draft.semen_straw}
+                    onChange={(e) => setDraft({ ...draft, semen_straw: e.target.value })}
+                    placeholder="used when the bull isn't on file"
+                  />
+                </div>
+                <div>
+                  <Label>Technician</Label>
+                  <Input value={draft.technician} onChange={(e) => setDraft({ ...draft, technician: e.target.value })} />
+                </div>
+              </>
+            )}
+
+            {t === "preg_check" && (
+              <>
+                <div>
+                  <Label>Result</Label>
+                  <select
+                    className={selectCls}
+                    value={draft.preg_result}
+                    onChange={(e) => setDraft({ ...draft, preg_result: e.target.value as Draft["preg_result"] })}
+                  >
+                    <option value="pregnant">Pregnant</option>
+                    <option value="open">Open</option>
+                    <option value="recheck">Recheck</option>
+                  </select>
+                </div>
+                {draft.preg_result === "pregnant" && (
+                  <div>
+                    <Label>Est. days bred</Label>
+                    <Input type="number" min={0} max={300} value={draft.days_bred} onChange={(e) => setDraft({ ...draft, days_bred: e.target.value })} />
+                  </div>
+                )}
+              </>
+            )}
+
+            {t === "calving" && (
+              <>
+                <div>
+                  <Label>Calf status</Label>
+                  <select
+                    className={selectCls}
+                    value={draft.calf_status}
+                    onChange={(e) => setDraft({ ...draft, calf_status: e.target.value as Draft["calf_status"] })}
+                  >
+                    <option value="alive">Alive</option>
+                    <option value="stillborn">Stillborn</option>
+                    <option value="died">Died after birth</option>
+                  </select>
+                </div>
+                <div>
+                  <Label>Calving ease (1–5)</Label>
+                  <Input type="number" min={1} max={5} value={draft.calving_ease} onChange={(e) => setDraft({ ...draft, calving_ease: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Calf tag{draft.calf_status === "alive" ? " *" : ""}</Label>
+                  <Input value={draft.calf_tag} onChange={(e) => setDraft({ ...draft, calf_tag: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Calf sex</Label>
+                  <Input value={draft.calf_sex} onChange={(e) => setDraft({ ...draft, calf_sex: e.target.value })} placeholder="M or F" />
+                </div>
+                <div>
+                  <Label>Calf name</Label>
+                  <Input value={draft.calf_name} onChange={(e) => setDraft({ ...draft, calf_name: e.target.value })} />
+                </div>
+                <div>
+                  <Label>{u.head("Birth weight", "lb")}</Label>
+                  <Input type="number" value={draft.birth_weight_lb} onChange={(e) => setDraft({ ...draft, birth_weight_lb: e.target.value })} />
+                </div>
+              </>
+            )}
+
+            <div className="md:col-span-2">
+              <Label>Notes</Label>
+              <Input value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+            </div>
+            <div className="flex items-end">
+              <Button onClick={save} disabled={busy}>Save Record</Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Calving Season</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-4 gap-2">
+            <div>
+              <Label>Breeding from</Label>
+              <Input type="date" value={seasonFrom} onChange={(e) => setSeasonFrom(e.target.value)} />
+            </div>
+            <div>
+              <Label>Breeding to</Label>
+              <Input type="date" value={seasonTo} onChange={(e) => setSeasonTo(e.target.value)} />
+            </div>
+            <div className="flex items-end">
+              <Button variant="outline" onClick={loadSeason}>Apply</Button>
+            </div>
+          </div>
+
+          {season && (
+            <>
+              <div className="grid md:grid-cols-5 gap-2">
+                <Stat label="Exposed / AI'd" value={String(season.exposed)} />
+                <Stat label="% bred" value={`${season.pct_bred}%`} sub={`${season.pregnant} pregnant or calved`} />
+                <Stat label="% calved" value={`${season.pct_calved}%`} sub={`${season.calved} calved`} />
+                <Stat label="Open" value={String(season.open)} />
+                <Stat label="Not checked" value={String(season.unchecked)} />
+              </div>
+
+              {season.by_cycle.length > 0 && (
+                <div className="border rounded-lg bg-white/80 overflow-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-100">
+                      <tr>
+                        <th className="text-left p-2">21-day period</th>
+                        <th className="text-left p-2">Dates</th>
+                        <th className="text-left p-2">Calves due / born</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {season.by_cycle.map((c) => (
+                        <tr key={c.cycle} className="border-t">
+                          <td className="p-2">{c.cycle}</td>
+                          <td className="p-2">{c.start} → {c.end}</td>
+                          <td className="p-2">{c.count}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="border rounded-lg bg-white/80 overflow-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-100">
+                    <tr>
+                      <th className="text-left p-2">Cow</th>
+                      <th className="text-left p-2">Status</th>
+                      <th className="text-left p-2">Services</th>
+                      <th className="text-left p-2">Sire</th>
+                      <th className="text-left p-2">Expected calving</th>
+                      <th className="text-left p-2">Calved</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {season.cows.map((c) => (
+                      <tr key={c.cow_id} className="border-t">
+                        <td className="p-2 font-medium">{c.tag}</td>
+                        <td className="p-2">
+                          <span className={`inline-block px-2 py-0.5 rounded-full text-xs ${STATUS_CLS[c.status]}`}>{c.status}</span>
+                        </td>
+                        <td className="p-2">{c.services}</td>
+                        <td className="p-2">{c.sire || "—"}</td>
+                        <td className="p-2">
+                          {c.expected_calving || "—"}
+                          {c.conception_source === "exposure" && <span className="text-xs text-slate-500"> (from bull-in)</span>}
+                        </td>
+                        <td className="p-2">{c.calving_date || "—"}</td>
+                      </tr>
+                    ))}
+                    {season.cows.length === 0 && (
+                      <tr><td className="p-2 text-center text-slate-500" colSpan={6}>No exposures or AI services in this window.</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Records</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg bg-white/80 overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-100">
+                <tr>
+                  <th className="text-left p-2">Date</th>
+                  <th className="text-left p-2">Cow</th>
+                  <th className="text-left p-2">Event</th>
+                  <th className="text-left p-2">Details</th>
+                  <th className="text-left p-2">Notes</th>
+                  <th className="text-right p-2 w-24">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((e) => (
+                  <tr key={e.id} className="border-t">
+                    <td className="p-2">{e.event_date}</td>
+                    <td className="p-2">{e.cow?.tag ?? e.cow_id}</td>
+                    <td className="p-2">{TYPE_LABEL[e.event_type]}</td>
+                    <td className="p-2">{describe(e)}</td>
+                    <td className="p-2">{e.notes || ""}</td>
+                    <td className="p-2 text-right">
+                      <Button size="sm" variant="destructive" onClick={() => remove(e)}>Delete</Button>
+                    </td>
+                  </tr>
+                ))}
+                {events.length === 0 && (
+                  <tr><td className="p-2 text-center text-slate-500" colSpan={6}>No breeding records yet.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/* ───────────────── Subcomponents ───────────────── */
+
+function Stat({ label, value, sub }: { label: string; value: string; sub?: string }) {
+  return (
+    <div className="border rounded-lg p-3 bg-white/60">
+      <div className="text-xs text-slate-600">{label}</div>
+      <div className="text-xl font-semibold">{value}</div>
+      {sub && <div className="text-xs text-slate-500">{sub}</div>}
+    </div>
+  );
+}
@@ -2,13 +2,16 @@
 
 import React, { useState } from "react";
 import HealthProtocols from "@/components/HealthProtocols";
+import ProtocolAssignments from "@/components/ProtocolAssignments";
+import VetProducts from "@/components/VetProducts";
+import AlertRules from "@/components/AlertRules";
 import FeedingSchedules from "@/components/FeedingSchedules";
 import HealthMonitor from "@/components/HealthMonitor";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 
 export default function CareManager({ tenantId }: { tenantId: string }) {
-  const [subTab, setSubTab] = useState<"protocols" | "feeding" | "monitor">("protocols");
+  const [subTab, setSubTab] = useState<"protocols" | "plans" | "products" | "feeding" | "monitor" | "rules">("protocols");
 
   const pill = (k: typeof subTab, label: string) => (
     <Button
@@ -35,14 +38,20 @@ export default function CareManager({ tenantId }: { tenantId: string }) {
           {/* Sub-tabs */}
           <div className="flex flex-wrap gap-2">
             {pill("protocols", "Protocols")}
+            {pill("plans", "Treatment Plans")}
+            {pill("products", "Products")}
             {pill("feeding", "Feeding")}
             {pill("monitor", "Monitoring")}
+            {pill("rules", "Alert Rules")}
           </div>
 
           {/* Panels */}
           {subTab === "protocols" && <HealthProtocols tenantId={tenantId} />}
+          {subTab === "plans" && <ProtocolAssignments tenantId={tenantId} />}
+          {subTab === "products" && <VetProducts tenantId={tenantId} />}
           {subTab === "feeding" && <FeedingSchedules tenantId={tenantId} />}
           {subTab === "monitor" && <HealthMonitor tenantId={tenantId} />}
+          {subTab === "rules" && <AlertRules tenantId={tenantId} />}
         </div>
       </CardContent>
     </Card>
@@ -6,6 +6,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import VitalsHistory from "@/components/VitalsHistory";
+import Pedigree from "@/components/Pedigree";
+import PaddockMovements from "@/components/PaddockMovements";
+import { usePaddocks } from "@/components/hooks/usePaddocks";
+import { UnitInput, UnitSystemSelect, useUnits } from "@/components/units";
 
 /* ───────────────── Types ───────────────── */
 type Animal = {
@@ -15,7 +20,13 @@ type Animal = {
   name?: string | null;
   sex?: "M" | "F" | null;
   breed?: string | null;
+  eid?: string | null;
+  group_name?: string | null;
+  dam_id?: number | null;
+  sire_id?: number | null;
   birth_date?: string | null;
+  current_paddock_id?: number | null;
+  /** denormalized name of current_paddock_id, kept in sync by the movement log */
   current_paddock?: string | null;
   status?: string | null;
   primary_photo_url?: string | null;
@@ -36,8 +47,26 @@ type Treatment = {
   animal_id: number;
   treat_date: string;
   product?: string | null;
+  product_id?: number | null;
   dose?: string | null;
   notes?: string | null;
+  meat_clear_date?: string | null;
+  milk_clear_date?: string | null;
+};
+
+type VetProduct = {
+  id: number;
+  name: string;
+  meat_withdrawal_days: number;
+  milk_withdrawal_days: number;
+};
+
+type Withdrawal = {
+  as_of: string;
+  meat_clear_date: string | null;
+  milk_clear_date: string | null;
+  meat_active: boolean;
+  milk_active: boolean;
 };
 
 type Processing = {
@@ -58,6 +87,7 @@ type Processing = {
   cut_sheet_url?: string | null;
   invoice_url?: string | null;
   notes?: string | null;
+  withdrawal_override_reason?: string | null;
 };
 
 type PhotoRow = {
@@ -87,16 +117,22 @@ async function cattleApi<T = any>(action: string, body?: any): Promise<T> {
     // fall back to raw text for error
   }
   if (!res.ok || !json?.ok) {
-    throw new Error(json?.error || `HTTP ${res.status}: ${raw?.slice(0, 200)}`);
+    const e: any = new Error(json?.error || `HTTP ${res.status}: ${raw?.slice(0, 200)}`);
+    e.code = json?.code; // e.g. "withdrawal_active" from sendToProcessing
+    throw e;
   }
   return json.data as T;
 }
 
+const selectCls = "border border-slate-300 rounded-xl px-3 py-2 w-full";
+
 /* ───────────────── Component ───────────────── */
 export default function CattleByTag({ tenantId }: { tenantId: string }) {
   // list/search
   const [search, setSearch] = useState("");
   const [animals, setAnimals] = useState<Animal[]>([]);
+  const { paddocks, reload: reloadPaddocks } = usePaddocks(tenantId);
+  const { units: u } = useUnits(tenantId);
   const [loading, setLoading] = useState(false);
 
   // edit
@@ -104,6 +140,8 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
   const [weights, setWeights] = useState<Weight[]>([]);
   const [treats, setTreats] = useState<Treatment[]>([]);
   const [processing, setProcessing] = useState<Processing[]>([]);
+  const [withdrawal, setWithdrawal] = useState<Withdrawal | null>(null);
+  const [vetProducts, setVetProducts] = useState<VetProduct[]>([]);
 
   // photos
   const [photos, setPhotos] = useState<PhotoRow[]>([]);
@@ -127,7 +165,7 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
     sex: undefined,
     breed: "",
     birth_date: "",
-    current_paddock: "",
+    current_paddock_id: null,
     status: "active",
   });
 
@@ -171,12 +209,14 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
 
   async function loadDetail(animalId: number) {
     try {
-      const [ws, ts] = await Promise.all([
+      const [ws, ts, wd] = await Promise.all([
         cattleApi<Weight[]>("listWeights", { tenant_id: tenantId, animal_id: animalId }),
         cattleApi<Treatment[]>("listTreatments", { tenant_id: tenantId, animal_id: animalId }),
+        cattleApi<Withdrawal>("getWithdrawalStatus", { tenant_id: tenantId, animal_id: animalId }),
       ]);
       setWeights(ws || []);
       setTreats(ts || []);
+      setWithdrawal(wd || null);
     } catch (e: any) {
       alert(e.message || "Failed to load animal details");
     }
@@ -218,6 +258,9 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
   useEffect(() => {
     if (!tenantId) return;
     loadAnimals().catch(() => {});
+    cattleApi<VetProduct[]>("listVetProducts", { tenant_id: tenantId })
+      .then((rows) => setVetProducts(rows || []))
+      .catch(() => {});
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tenantId]);
 
@@ -225,6 +268,15 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
     scanRef.current?.focus();
   }, [editing]);
 
+  // Keeps the open edit form in step with the log so saving it doesn't move the animal back
+  async function afterMove() {
+    if (!editing?.id) return;
+    const rows = await cattleApi<Animal[]>("listAnimals", { tenant_id: tenantId, search: editing.tag });
+    const me = (rows || []).find((x) => x.id === editing.id);
+    if (me) setEditing({ ...editing, current_paddock_id: me.current_paddock_id, current_paddock: me.current_paddock });
+    await Promise.all([loadAnimals(), reloadPaddocks()]);
+  }
+
   /* CRUD animals */
   async function saveAnimal() {
     if (!draft.tag.trim()) return alert("Tag is required");
@@ -235,7 +287,7 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
       sex: draft.sex ? (draft.sex.toUpperCase() as "M" | "F") : null,
       breed: draft.breed || null,
       birth_date: draft.birth_date || null,
-      current_paddock: draft.current_paddock || null,
+      current_paddock_id: draft.current_paddock_id || null,
       status: draft.status || null,
     };
     try {
@@ -247,7 +299,7 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
         sex: undefined,
         breed: "",
         birth_date: "",
-        current_paddock: "",
+        current_paddock_id: null,
         status: "active",
       });
       await loadAnimals();
@@ -262,8 +314,10 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
       name: a.name || null,
       sex: a.sex || null,
       breed: a.breed || null,
+      eid: a.eid || null,
+      group_name: a.group_name?.trim() || null,
       birth_date: a.birth_date || null,
-      current_paddock: a.current_paddock || null,
+      current_paddock_id: a.current_paddock_id || null,
       status: a.status || null,
     };
     try {
@@ -303,6 +357,9 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
     dose?: string,
     notes?: string
   ) {
+    const match = vetProducts.find(
+      (p) => p.name.toLowerCase() === (product || "").trim().toLowerCase()
+    );
     if (!treat_date) return alert("Date is required");
     try {
       await cattleApi("addTreatment", {
@@ -310,6 +367,7 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
         animal_id: animalId,
         treat_date,
         product,
+        product_id: match?.id ?? null,
         dose,
         notes,
       });
@@ -323,17 +381,30 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
   async function sendToProcessing() {
     if (!editing?.id) return;
     if (!procDraft.sent_date) return alert("Sent date is required");
+    const req = {
+      tenant_id: tenantId,
+      animal_id: editing.id,
+      tag: editing.tag,
+      sent_date: procDraft.sent_date,
+      processor: procDraft.processor || null,
+      transport_id: procDraft.transport_id || null,
+      live_weight_lb: procDraft.live_weight_lb ? Number(procDraft.live_weight_lb) : null,
+      notes: procDraft.notes || null,
+    };
     try {
-      await cattleApi("sendToProcessing", {
-        tenant_id: tenantId,
-        animal_id: editing.id,
-        tag: editing.tag,
-        sent_date: procDraft.sent_date,
-        processor: procDraft.processor || null,
-        transport_id: procDraft.transport_id || null,
-        live_weight_lb: procDraft.live_weight_lb ? Number(procDraft.live_weight_lb) : null,
-        notes: procDraft.notes || null,
-      });
+      try {
+        await cattleApi("sendToProcessing", req);
+      } catch (e: any) {
+        if (e?.code !== "withdrawal_active") throw e;
+        // Server refused: animal is still inside a withdrawal window
+        const reason = prompt(`${e.message}\n\nTo send anyway, enter an override reason:`);
+        if (!reason?.trim()) return;
+        await cattleApi("sendToProcessing", {
+          ...req,
+          withdrawal_override: true,
+          withdrawal_override_reason: reason.trim(),
+        });
+      }
       setProcDraft({
         sent_date: "",
         processor: "",
@@ -541,6 +612,12 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
             name: get("name") || null,
             sex: get("sex") ? get("sex").toUpperCase() : null,
             breed: get("breed") || null,
+            // only overwrite EIDs when the file has the column
+            ...(indexOf("eid") >= 0 ? { eid: get("eid").replace(/\s+/g, "") || null } : {}),
+            ...(indexOf("group_name") >= 0 ? { group_name: get("group_name") || null } : {}),
+            // resolved to dam_id / sire_id by the API once every row is in
+            ...(get("dam_tag") ? { dam_tag: get("dam_tag") } : {}),
+            ...(get("sire_tag") ? { sire_tag: get("sire_tag") } : {}),
             birth_date: get("birth_date") || null,
             current_paddock: get("current_paddock") || null,
             status: get("status") || "active",
@@ -555,7 +632,14 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
 
       setImportMsg(`Parsed ${mapped.length} rows, uploading…`);
       const data = await cattleApi("bulkUpsertAnimals", { rows: mapped });
-      setImportMsg(`Imported ${data?.imported ?? mapped.length} animals`);
+      const parentErrors: string[] = data?.parentErrors || [];
+      const paddockErrors: string[] = data?.paddockErrors || [];
+      setImportMsg(
+        `Imported ${data?.imported ?? mapped.length} animals` +
+          (data?.linked ? `, linked ${data.linked} to dam/sire` : "") +
+          (parentErrors.length ? `. Parent problems: ${parentErrors.slice(0, 5).join("; ")}${parentErrors.length > 5 ? "…" : ""}` : "") +
+          (paddockErrors.length ? `. Unknown paddocks: ${paddockErrors.slice(0, 5).join("; ")}${paddockErrors.length > 5 ? "…" : ""}` : "")
+      );
       await loadAnimals();
     } catch (e: any) {
       setImportMsg(`Error: ${e.message || "failed to import"}`);
@@ -572,16 +656,25 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
       "name",
       "sex",
       "breed",
+      "eid",
+      "group_name",
+      "dam_tag",
+      "sire_tag",
       "birth_date",
       "current_paddock",
       "status",
     ];
+    const tagById = new Map(animals.map((a) => [a.id ?? -1, a.tag]));
     const rows = animals.map((a) => [
       tenantId,
       a.tag ?? "",
       a.name ?? "",
       a.sex ?? "",
       a.breed ?? "",
+      a.eid ?? "",
+      a.group_name ?? "",
+      tagById.get(a.dam_id ?? -1) ?? "",
+      tagById.get(a.sire_id ?? -1) ?? "",
       a.birth_date ?? "",
       a.current_paddock ?? "",
       a.status ?? "",
@@ -725,7 +818,7 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
     } else {
       weightsToPrint.forEach((w) => {
         doc.text(
-          `${formatDate(w.weigh_date)} — ${w.weight_lb} lb${w.notes ? " — " + w.notes : ""}`,
+          `${formatDate(w.weigh_date)} — ${u.fmt("lb", w.weight_lb, 1)}${w.notes ? " — " + w.notes : ""}`,
           marginX,
           y
         );
@@ -780,7 +873,10 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Cattle by Tag</CardTitle>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle>Cattle by Tag</CardTitle>
+          <UnitSystemSelect tenantId={tenantId} />
+        </div>
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Add / Search / CSV / Scan */}
@@ -833,10 +929,16 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
               </div>
               <div>
                 <Label>Paddock</Label>
-                <Input
-                  value={draft.current_paddock || ""}
-                  onChange={(e) => setDraft({ ...draft, current_paddock: e.target.value })}
-                />
+                <select
+                  className={selectCls}
+                  value={draft.current_paddock_id ?? ""}
+                  onChange={(e) => setDraft({ ...draft, current_paddock_id: e.target.value ? Number(e.target.value) : null })}
+                >
+                  <option value="">—</option>
+                  {paddocks.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
               </div>
               <div>
                 <Label>Status</Label>
@@ -1024,6 +1126,22 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
                   onChange={(e) => setEditing({ ...editing, breed: e.target.value })}
                 />
               </div>
+              <div>
+                <Label>EID (RFID)</Label>
+                <Input
+                  value={editing.eid || ""}
+                  onChange={(e) => setEditing({ ...editing, eid: e.target.value })}
+                  placeholder="982 000123456789"
+                />
+              </div>
+              <div>
+                <Label>Group</Label>
+                <Input
+                  value={editing.group_name || ""}
+                  onChange={(e) => setEditing({ ...editing, group_name: e.target.value })}
+                  placeholder="e.g. 2026 heifers"
+                />
+              </div>
               <div>
                 <Label>Birth Date</Label>
                 <Input
@@ -1034,10 +1152,18 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
               </div>
               <div>
                 <Label>Paddock</Label>
-                <Input
-                  value={editing.current_paddock || ""}
-                  onChange={(e) => setEditing({ ...editing, current_paddock: e.target.value })}
-                />
+                <select
+                  className={selectCls}
+                  value={editing.current_paddock_id ?? ""}
+                  onChange={(e) =>
+                    setEditing({ ...editing, current_paddock_id: e.target.value ? Number(e.target.value) : null })
+                  }
+                >
+                  <option value="">— off farm —</option>
+                  {paddocks.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
               </div>
               <div>
                 <Label>Status</Label>
@@ -1178,6 +1304,36 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
               </div>
             </div>
 
+            {/* History charts */}
+            <div className="mt-6">
+              <VitalsHistory
+                tenantId={tenantId}
+                animalId={editing.id!}
+                weights={weights}
+                treatments={treats}
+              />
+            </div>
+
+            {/* Pedigree */}
+            <div className="mt-6">
+              <div className="font-medium mb-2">Pedigree</div>
+              <Pedigree
+                tenantId={tenantId}
+                animal={{ id: editing.id!, tag: editing.tag, sex: editing.sex }}
+              />
+            </div>
+
+            {/* Paddock movements */}
+            <div className="mt-6">
+              <div className="font-medium mb-2">Paddock Movements</div>
+              <PaddockMovements
+                tenantId={tenantId}
+                animalId={editing.id!}
+                paddocks={paddocks}
+                onMoved={afterMove}
+              />
+            </div>
+
             {/* Weights */}
             <div className="mt-6">
               <div className="font-medium mb-2">Weights</div>
@@ -1191,12 +1347,30 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
 
             {/* Treatments */}
             <div className="mt-6">
-              <div className="font-medium mb-2">Treatments</div>
+              <div className="flex items-center gap-2 mb-2">
+                <div className="font-medium">Treatments</div>
+                {withdrawal?.meat_active && (
+                  <span className="inline-block px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">
+                    Meat withdrawal until {withdrawal.meat_clear_date}
+                  </span>
+                )}
+                {withdrawal?.milk_active && (
+                  <span className="inline-block px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-800">
+                    Milk withdrawal until {withdrawal.milk_clear_date}
+                  </span>
+                )}
+                {withdrawal && !withdrawal.meat_active && !withdrawal.milk_active && (
+                  <span className="inline-block px-2 py-0.5 rounded-full text-xs bg-emerald-100 text-emerald-800">
+                    Clear
+                  </span>
+                )}
+              </div>
               <TreatEditor
                 tenantId={tenantId}
                 animalId={editing.id!}
                 onAdd={addTreatment}
                 treats={treats}
+                products={vetProducts}
               />
             </div>
 
@@ -1227,14 +1401,15 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
                   />
                 </div>
                 <div>
-                  <Label>Live Weight (lb)</Label>
-                  <Input
-                    type="number"
-                    value={procDraft.live_weight_lb ?? ""}
-                    onChange={(e) =>
+                  <Label>{u.head("Live Weight", "lb")}</Label>
+                  <UnitInput
+                    units={u}
+                    q="lb"
+                    value={procDraft.live_weight_lb}
+                    onValue={(v) =>
                       setProcDraft({
                         ...procDraft,
-                        live_weight_lb: Number(e.target.value || 0),
+                        live_weight_lb: v ?? undefined,
                       })
                     }
                   />
@@ -1258,7 +1433,7 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
                       <th className="text-left p-2">Date</th>
                       <th className="text-left p-2">Status</th>
                       <th className="text-left p-2">Processor</th>
-                      <th className="text-left p-2">Live Wt</th>
+                      <th className="text-left p-2">{u.head("Live Wt", "lb")}</th>
                       <th className="text-left p-2">Notes</th>
                       <th className="text-right p-2 w-28">Actions</th>
                     </tr>
@@ -1269,8 +1444,15 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
                         <td className="p-2">{r.sent_date}</td>
                         <td className="p-2">{r.status}</td>
                         <td className="p-2">{r.processor}</td>
-                        <td className="p-2">{r.live_weight_lb}</td>
-                        <td className="p-2">{r.notes}</td>
+                        <td className="p-2">{u.num("lb", r.live_weight_lb, 1)}</td>
+                        <td className="p-2">
+                          {r.notes}
+                          {r.withdrawal_override_reason && (
+                            <div className="text-xs text-red-700">
+                              Withdrawal override: {r.withdrawal_override_reason}
+                            </div>
+                          )}
+                        </td>
                         <td className="p-2 text-right">
                           <Button
                             size="sm"
@@ -1322,7 +1504,7 @@ export default function CattleByTag({ tenantId }: { tenantId: string }) {
                   <div className="font-semibold mb-1">Average Daily Gain (ADG)</div>
                   {adg !== null ? (
                     <div className="text-sm">
-                      ADG: <b>{adg.toFixed(2)}</b> lb/day
+                      ADG: <b>{u.fmt("lb_day", adg, 2)}</b>
                     </div>
                   ) : (
                     <div className="text-sm">Not enough weight records in range.</div>
@@ -1371,8 +1553,9 @@ function WeightEditor({
   weights: Weight[];
 }) {
   const [date, setDate] = useState("");
-  const [w, setW] = useState<number | string>("");
+  const [w, setW] = useState<number | null>(null);
   const [notes, setNotes] = useState("");
+  const { units: u } = useUnits(tenantId);
 
   return (
     <div className="border rounded-lg p-3 bg-white/60">
@@ -1382,12 +1565,13 @@ function WeightEditor({
           <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
         </div>
         <div>
-          <Label>Weight (lb)</Label>
-          <Input
-            type="number"
+          <Label>{u.head("Weight", "lb")}</Label>
+          <UnitInput
+            units={u}
+            q="lb"
             value={w}
-            onChange={(e) => setW(e.target.value)}
-            placeholder="e.g., 1200"
+            onValue={setW}
+            placeholder={u.system === "metric" ? "e.g., 545" : "e.g., 1200"}
           />
         </div>
         <div className="md:col-span-2">
@@ -1395,7 +1579,7 @@ function WeightEditor({
           <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
         </div>
         <div className="md:col-span-4">
-          <Button onClick={() => onAdd(animalId, date, Number(w || 0), notes || undefined)}>
+          <Button onClick={() => onAdd(animalId, date, w ?? 0, notes || undefined)}>
             Add Weight
           </Button>
         </div>
@@ -1406,7 +1590,7 @@ function WeightEditor({
           <thead className="bg-slate-100">
             <tr>
               <th className="text-left p-2">Date</th>
-              <th className="text-left p-2">Weight (lb)</th>
+              <th className="text-left p-2">{u.head("Weight", "lb")}</th>
               <th className="text-left p-2">Notes</th>
             </tr>
           </thead>
@@ -1414,7 +1598,7 @@ function WeightEditor({
             {weights.map((r) => (
               <tr key={r.id} className="border-t">
                 <td className="p-2">{r.weigh_date}</td>
-                <td className="p-2">{r.weight_lb}</td>
+                <td className="p-2">{u.num("lb", r.weight_lb, 1)}</td>
                 <td className="p-2">{r.notes}</td>
               </tr>
             ))}
@@ -1437,6 +1621,7 @@ function TreatEditor({
   animalId,
   onAdd,
   treats,
+  products,
 }: {
   tenantId: string;
   animalId: number;
@@ -1448,6 +1633,7 @@ function TreatEditor({
     notes?: string
   ) => Promise<void>;
   treats: Treatment[];
+  products: VetProduct[];
 }) {
   const [date, setDate] = useState("");
   const [product, setProduct] = useState("");
@@ -1463,7 +1649,19 @@ function TreatEditor({
         </div>
         <div>
           <Label>Product</Label>
-          <Input value={product} onChange={(e) => setProduct(e.target.value)} />
+          <Input
+            value={product}
+            onChange={(e) => setProduct(e.target.value)}
+            list="vet-products"
+            placeholder="Pick from catalog or type"
+          />
+          <datalist id="vet-products">
+            {products.map((p) => (
+              <option key={p.id} value={p.name}>
+                meat {p.meat_withdrawal_days}d / milk {p.milk_withdrawal_days}d
+              </option>
+            ))}
+          </datalist>
         </div>
         <div>
           <Label>Dose</Label>
@@ -1491,6 +1689,8 @@ function TreatEditor({
               <th className="text-left p-2">Date</th>
               <th className="text-left p-2">Product</th>
               <th className="text-left p-2">Dose</th>
+              <th className="text-left p-2">Meat Clear</th>
+              <th className="text-left p-2">Milk Clear</th>
               <th className="text-left p-2">Notes</th>
             </tr>
           </thead>
@@ -1500,12 +1700,14 @@ function TreatEditor({
                 <td className="p-2">{r.treat_date}</td>
                 <td className="p-2">{r.product}</td>
                 <td className="p-2">{r.dose}</td>
+                <td className="p-2">{r.meat_clear_date || "—"}</td>
+                <td className="p-2">{r.milk_clear_date || "—"}</td>
                 <td className="p-2">{r.notes}</td>
               </tr>
             ))}
             {treats.length === 0 && (
               <tr>
-                <td className="p-2" colSpan={4}>
+                <td className="p-2" colSpan={6}>
                   No treatments recorded yet.
                 </td>
               </tr>
@@ -3,6 +3,7 @@ import React, { useEffect, useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { useUnits } from "@/components/units";
 
 type Ration = { id?: number; tenant_id: string; name: string; dmi_target_kg?: number|null; ingredients: any[]; notes?: string|null; };
 type Sched  = { id?: number; tenant_id: string; group_key: string; ration_id: number; start_date: string; end_date?: string|null; times?: string[]; notes?: string|null; };
@@ -16,6 +17,7 @@ export default function FeedingSchedules({ tenantId }: { tenantId: string }) {
   const [start, setStart] = useState("");
   const [rations, setRations] = useState<Ration[]>([]);
   const [schedules, setSchedules] = useState<Sched[]>([]);
+  const { units: u } = useUnits(tenantId);
 
   async function api(action: string, body: any) {
     const res = await fetch("/api/care", { method:"POST", headers:{ "Content-Type":"application/json" }, body: JSON.stringify({ action, ...body }) });
@@ -45,7 +47,7 @@ export default function FeedingSchedules({ tenantId }: { tenantId: string }) {
   async function saveRation(){
     const payload:Ration = {
       tenant_id: tenantId, name: rName.trim(),
-      dmi_target_kg: rDmi? Number(rDmi): null,
+      dmi_target_kg: rDmi? u.store("kg", Number(rDmi)): null,
       ingredients: parseIngredients(rIngr)
     };
     await api("upsertRation",{payload});
@@ -66,7 +68,7 @@ export default function FeedingSchedules({ tenantId }: { tenantId: string }) {
         <div className="font-semibold mb-2">Create Ration</div>
         <div className="grid md:grid-cols-3 gap-2">
           <div><Label>Name</Label><Input value={rName} onChange={e=>setRName(e.target.value)} /></div>
-          <div><Label>DMI Target (kg)</Label><Input type="number" value={rDmi} onChange={e=>setRDmi(e.target.value)} /></div>
+          <div><Label>{u.head("DMI Target", "kg")}</Label><Input type="number" value={rDmi} onChange={e=>setRDmi(e.target.value)} /></div>
           <div className="md:col-span-3">
             <Label>Ingredients (name,pct per line)</Label>
             <textarea className="w-full border rounded p-2 h-24" value={rIngr} onChange={e=>setRIngr(e.target.value)} />
@@ -89,7 +91,7 @@ export default function FeedingSchedules({ tenantId }: { tenantId: string }) {
         <div className="border rounded-xl p-4 bg-white/80">
           <div className="font-semibold mb-2">Rations</div>
           <ul className="list-disc ml-4 text-sm">
-            {rations.map(r=> <li key={r.id}><b>{r.name}</b> — DMI {r.dmi_target_kg ?? "n/a"} kg</li>)}
+            {rations.map(r=> <li key={r.id}><b>{r.name}</b> — DMI {r.dmi_target_kg != null ? u.fmt("kg", r.dmi_target_kg, 1) : "n/a"}</li>)}
             {!rations.length && <li>No rations yet.</li>}
           </ul>
         </div>
@@ -6,6 +6,38 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { UnitInput, UnitSystemSelect, useUnits } from "@/components/units";
+import PaddockMap from "@/components/PaddockMap";
+import type { Units } from "@/lib/units";
+import type { RestStatus } from "@/lib/grazing";
+import type { ForageStanding } from "@/lib/forage";
+import { acreageDiffPct, acreageMismatch, type Boundary } from "@/lib/geo";
+import { waterStorageDays, type PaddockWater } from "@/lib/infrastructure";
+import {
+  DEFAULT_SETTINGS,
+  paddockDm,
+  summarizePlan,
+  type PlanSummary,
+  type PlannerHerd,
+  type PlannerScenario,
+  type PlannerSettings,
+} from "@/lib/planner";
+import { todayYmd } from "@/lib/dates";
+import { STALE_WEIGHT_DAYS, type HerdFilter, type HerdStats } from "@/lib/herdStats";
+import { curveForPaddock, MONTHS, PRESET_CURVES, type GrowthCurve } from "@/lib/growth";
+import { AU_BODY_WEIGHT_LB, AU_CLASSES, AU_DAILY_DM_LB, carryingCapacity, type AuSummary } from "@/lib/animalUnits";
+import {
+  costPerLbDm,
+  FEED_KINDS,
+  feedOrder,
+  inventoryPricePerTonDm,
+  LB_PER_TON,
+  lotDmLb,
+  planFeed,
+  wastePct,
+  type FeedLot,
+  type FeedPlan,
+} from "@/lib/feed";
 
 /** API helper (same as PastureMaintenance) */
 async function paddocksApi(action: string, body?: any) {
@@ -21,13 +53,20 @@ async function paddocksApi(action: string, body?: any) {
   return json.data;
 }
 
-type Herd = {
-  tenant_id: string;
-  name: string;
-  headcount: number;
-  avg_weight_lb: number;
-  intake_pct_bw: number;
-};
+async function cattleApi(action: string, body?: any) {
+  const res = await fetch("/api/cattle", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, ...(body || {}) }),
+  });
+  const raw = await res.text();
+  let json: any = null;
+  try { json = raw ? JSON.parse(raw) : null; } catch {}
+  if (!res.ok || !json?.ok) throw new Error(json?.error || `HTTP ${res.status}: ${raw?.slice(0,120)}`);
+  return json.data;
+}
+
+type Herd = PlannerHerd;
 
 type Paddock = {
   id: number;
@@ -39,16 +78,28 @@ type Paddock = {
   rest_days: number | null;
   zone?: string | null;
   notes?: string | null;
+  growth_curve_id?: number | null;
+  rest?: RestStatus | null;
+  standing?: ForageStanding | null;
+  boundary?: Boundary | null;
+  boundary_acres?: number | null;
+  water?: PaddockWater | null;
 };
 
 const nf0 = (n: number) => new Intl.NumberFormat(undefined, { maximumFractionDigits: 0 }).format(n);
 const nf1 = (n: number) => new Intl.NumberFormat(undefined, { maximumFractionDigits: 1 }).format(n);
+const money = (n: number) => new Intl.NumberFormat(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(n);
 const pctFmt = (n: number) => `${new Intl.NumberFormat(undefined, { maximumFractionDigits: 1 }).format(n)}%`;
+const selectCls = "border border-slate-300 rounded-xl px-3 py-2 w-full";
 
 export default function GrazingPlanner({ tenantId }: { tenantId: string }) {
-  const [days, setDays] = useState(30);
-  const [growthDmLbAcDay, setGrowthDmLbAcDay] = useState(35);
-  const [targetResidualDmLbAc, setTargetResidualDmLbAc] = useState(1200);
+  const [days, setDays] = useState(DEFAULT_SETTINGS.days);
+  const [growthDmLbAcDay, setGrowthDmLbAcDay] = useState(DEFAULT_SETTINGS.growth_dm_lb_ac_day);
+  const [targetResidualDmLbAc, setTargetResidualDmLbAc] = useState(DEFAULT_SETTINGS.residual_dm_lb_ac);
+  const [maxStayDays, setMaxStayDays] = useState(DEFAULT_SETTINGS.max_stay_days);
+  const [startDate, setStartDate] = useState(todayYmd());
+  const [requireWater, setRequireWater] = useState(DEFAULT_SETTINGS.require_water);
+  const [waterGalAuDay, setWaterGalAuDay] = useState(DEFAULT_SETTINGS.water_gal_au_day);
   const [loading, setLoading] = useState(false);
   const [saveMsg, setSaveMsg] = useState<string | null>(null);
 
@@ -62,53 +113,62 @@ export default function GrazingPlanner({ tenantId }: { tenantId: string }) {
 
   const [paddocks, setPaddocks] = useState<Paddock[]>([]);
 
-  const dailyNeedLbDM = useMemo(
-    () => herd.headcount * herd.avg_weight_lb * (herd.intake_pct_bw / 100),
-    [herd]
-  );
+  // saved herds / scenarios
+  const [herds, setHerds] = useState<Herd[]>([]);
+  const [scenarios, setScenarios] = useState<PlannerScenario[]>([]);
+  const [scenarioId, setScenarioId] = useState<number | null>(null);
+  const [scenarioName, setScenarioName] = useState("");
+  const [compareIds, setCompareIds] = useState<[string, string]>(["", ""]);
+  const [curves, setCurves] = useState<GrowthCurve[]>([]);
+  const [feedLots, setFeedLots] = useState<FeedLot[]>([]);
+  const [purchasePerTon, setPurchasePerTon] = useState<number | null>(null); // null = inventory average
+  const [showMap, setShowMap] = useState(false);
+  const { units: u } = useUnits(tenantId);
 
-  const grazeableDM = useMemo(() => {
-    return paddocks.reduce((a, p) => {
-      const standing = Number(p.forage_dm_lb_ac ?? 0);
-      const util = Number(p.util_pct ?? 0) / 100;
-      const acres = Number(p.acres ?? 0);
-      const takeablePerAc = Math.max(0, standing - targetResidualDmLbAc) * util;
-      return a + takeablePerAc * acres;
-    }, 0);
-  }, [paddocks, targetResidualDmLbAc]);
-
-  const growthDMOverHorizon = useMemo(
-    () => paddocks.reduce((a, p) => a + Number(p.acres ?? 0) * growthDmLbAcDay * days, 0),
-    [paddocks, growthDmLbAcDay, days]
+  const settings: PlannerSettings = useMemo(
+    () => ({
+      days,
+      growth_dm_lb_ac_day: growthDmLbAcDay,
+      residual_dm_lb_ac: targetResidualDmLbAc,
+      max_stay_days: maxStayDays,
+      start_date: startDate,
+      require_water: requireWater,
+      water_gal_au_day: waterGalAuDay,
+    }),
+    [days, growthDmLbAcDay, targetResidualDmLbAc, maxStayDays, startDate, requireWater, waterGalAuDay]
   );
 
-  const totalAvailableDM = grazeableDM + growthDMOverHorizon;
-  const coverageDaysFromPasture = dailyNeedLbDM > 0 ? totalAvailableDM / dailyNeedLbDM : 0;
-  const deficitLbDM = Math.max(0, days * dailyNeedLbDM - totalAvailableDM);
-
-  const rotation = useMemo(() => {
-    const totalTakeable =
-      paddocks.reduce((a, p) => {
-        const standing = Number(p.forage_dm_lb_ac ?? 0);
-        const util = Number(p.util_pct ?? 0) / 100;
-        const acres = Number(p.acres ?? 0);
-        const takeablePerAc = Math.max(0, standing - targetResidualDmLbAc) * util;
-        return a + takeablePerAc * acres;
-      }, 0) || 1;
-
-    return paddocks.map((p) => {
-      const standing = Number(p.forage_dm_lb_ac ?? 0);
-      const util = Number(p.util_pct ?? 0) / 100;
-      const acres = Number(p.acres ?? 0);
-      const takeablePerAc = Math.max(0, standing - targetResidualDmLbAc) * util;
-      const takeableDM = takeablePerAc * acres;
-      const share = takeableDM / totalTakeable;
-      const growthShare = growthDMOverHorizon * share;
-      const dmForHerd = takeableDM + growthShare;
-      const daysHere = dailyNeedLbDM > 0 ? dmForHerd / dailyNeedLbDM : 0;
-      return { name: p.name, acres, takeableDM, daysHere };
-    });
-  }, [paddocks, targetResidualDmLbAc, growthDMOverHorizon, dailyNeedLbDM]);
+  const summary = useMemo(() => summarizePlan(paddocks, herd, settings, curves), [paddocks, herd, settings, curves]);
+  const {
+    daily_need_lb_dm: dailyNeedLbDM,
+    grazeable_lb_dm: grazeableDM,
+    growth_lb_dm: growthDMOverHorizon,
+    total_available_lb_dm: totalAvailableDM,
+    coverage_days: coverageDaysFromPasture,
+    deficit_lb_dm: deficitLbDM,
+    herd_au: herdAU,
+    au_per_ac: auPerAc,
+    aum_demand: aumDemand,
+    aum_available: aumAvailable,
+    water_gal_day: waterGalDay,
+    dry_paddocks: dryPaddocks,
+    plan,
+  } = summary;
+  const waterOf = useMemo(() => new Map(paddocks.map((p) => [p.id, p.water ?? null])), [paddocks]);
+
+  // Shortfall days fed from stored feed in feed order; the rest is bought
+  const purchasePrice = purchasePerTon ?? Math.round(inventoryPricePerTonDm(feedLots) ?? 0);
+  const feedPlan = useMemo(() => planFeed(plan.shortfalls, feedLots, purchasePrice), [plan, feedLots, purchasePrice]);
+
+  // Side-by-side: each scenario with its own herd (falls back to the form's herd if it was deleted)
+  const compared = useMemo(
+    () =>
+      compareIds.map((id) => {
+        const sc = scenarios.find((x) => String(x.id) === id);
+        return sc ? { scenario: sc, summary: summarizePlan(paddocks, sc.herd || herd, sc, curves) } : null;
+      }),
+    [compareIds, scenarios, paddocks, herd, curves]
+  );
 
   async function loadCloud() {
     setLoading(true);
@@ -135,6 +195,7 @@ export default function GrazingPlanner({ tenantId }: { tenantId: string }) {
             forage_dm_lb_ac: p.forage_dm_lb_ac,
             util_pct: p.util_pct,
             rest_days: p.rest_days,
+            growth_curve_id: p.growth_curve_id ?? null,
             zone: p.zone ?? null,
             notes: p.notes ?? null,
           },
@@ -149,7 +210,130 @@ export default function GrazingPlanner({ tenantId }: { tenantId: string }) {
     }
   }
 
-  useEffect(() => { loadCloud().catch(() => {}); }, [tenantId]);
+  async function loadSaved() {
+    try {
+      const [hs, scs, cs, fl] = await Promise.all([
+        paddocksApi("listHerds", { tenant_id: tenantId }),
+        paddocksApi("listScenarios", { tenant_id: tenantId }),
+        paddocksApi("listGrowthCurves", { tenant_id: tenantId }),
+        paddocksApi("listFeedLots", { tenant_id: tenantId }),
+      ]);
+      setHerds(hs || []);
+      setScenarios(scs || []);
+      setCurves(cs || []);
+      setFeedLots(fl || []);
+    } catch (e: any) {
+      alert(e.message || "Failed to load saved herds/scenarios");
+    }
+  }
+
+  useEffect(() => {
+    loadCloud().catch(() => {});
+    loadSaved().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tenantId]);
+
+  /* Herds */
+  async function saveHerd(): Promise<Herd | null> {
+    if (!herd.name.trim()) {
+      alert("Herd name is required");
+      return null;
+    }
+    try {
+      const saved: Herd = await paddocksApi("upsertHerd", { tenant_id: tenantId, row: herd });
+      setHerd(saved);
+      await loadSaved();
+      return saved;
+    } catch (e: any) {
+      alert(e.message || "Failed to save herd");
+      return null;
+    }
+  }
+
+  function pickHerd(id: string) {
+    const h = herds.find((x) => String(x.id) === id);
+    if (h) setHerd(h);
+    else setHerd({ ...herd, id: undefined });
+  }
+
+  async function deleteHerd() {
+    if (!herd.id) return;
+    if (!confirm(`Delete saved herd "${herd.name}"? Scenarios using it keep their settings but lose the herd.`)) return;
+    try {
+      await paddocksApi("deleteHerd", { tenant_id: tenantId, id: herd.id });
+      setHerd({ ...herd, id: undefined });
+      await loadSaved();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete herd");
+    }
+  }
+
+  /* Scenarios */
+  function applyScenario(sc: PlannerScenario) {
+    setScenarioId(sc.id ?? null);
+    setScenarioName(sc.name);
+    setDays(sc.days);
+    setGrowthDmLbAcDay(Number(sc.growth_dm_lb_ac_day));
+    setTargetResidualDmLbAc(Number(sc.residual_dm_lb_ac));
+    setMaxStayDays(sc.max_stay_days);
+    setStartDate(sc.start_date || todayYmd());
+    setRequireWater(!!sc.require_water);
+    setWaterGalAuDay(Number(sc.water_gal_au_day ?? DEFAULT_SETTINGS.water_gal_au_day));
+    if (sc.herd) setHerd(sc.herd);
+  }
+
+  function pickScenario(id: string) {
+    const sc = scenarios.find((x) => String(x.id) === id);
+    if (sc) applyScenario(sc);
+    else {
+      setScenarioId(null);
+      setScenarioName("");
+    }
+  }
+
+  async function saveScenario(asNew: boolean) {
+    const name = scenarioName.trim();
+    if (!name) return alert("Scenario name is required");
+    // a scenario points at a saved herd, so the herd on the form is saved first
+    const savedHerd = await saveHerd();
+    if (!savedHerd) return;
+    try {
+      const sc: PlannerScenario = await paddocksApi("upsertScenario", {
+        tenant_id: tenantId,
+        row: { ...settings, id: asNew ? undefined : scenarioId ?? undefined, name, herd_id: savedHerd.id },
+      });
+      setScenarioId(sc.id ?? null);
+      await loadSaved();
+      setSaveMsg("Scenario saved ✓");
+      setTimeout(() => setSaveMsg(null), 1500);
+    } catch (e: any) {
+      alert(e.message || "Failed to save scenario");
+    }
+  }
+
+  async function duplicateScenario() {
+    if (!scenarioId) return alert("Load or save a scenario first");
+    try {
+      const sc: PlannerScenario = await paddocksApi("duplicateScenario", { tenant_id: tenantId, id: scenarioId });
+      await loadSaved();
+      applyScenario(sc);
+    } catch (e: any) {
+      alert(e.message || "Failed to duplicate scenario");
+    }
+  }
+
+  async function deleteScenario() {
+    if (!scenarioId) return;
+    if (!confirm(`Delete scenario "${scenarioName}"?`)) return;
+    try {
+      await paddocksApi("deleteScenario", { tenant_id: tenantId, id: scenarioId });
+      setScenarioId(null);
+      setScenarioName("");
+      await loadSaved();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete scenario");
+    }
+  }
 
   function updatePaddock(i: number, patch: Partial<Paddock>) {
     setPaddocks((prev) => prev.map((p, idx) => (idx === i ? { ...p, ...patch } : p)));
@@ -160,38 +344,108 @@ export default function GrazingPlanner({ tenantId }: { tenantId: string }) {
     doc.setFontSize(14);
     doc.text("Grazing & Feed Planner – Summary", 14, 16);
     doc.setFontSize(10);
-    doc.text(`Tenant: ${tenantId}`, 14, 24);
-    doc.text(`Herd: ${herd.name}  Head: ${herd.headcount}  Avg Wt: ${herd.avg_weight_lb} lb  Intake: ${herd.intake_pct_bw}% BW`, 14, 30);
+    doc.text(`Tenant: ${tenantId}${scenarioName ? `   Scenario: ${scenarioName}` : ""}`, 14, 24);
+    doc.text(`Herd: ${herd.name}  Head: ${herd.headcount}  Avg Wt: ${u.fmt("lb", herd.avg_weight_lb)}  Intake: ${herd.intake_pct_bw}% BW`, 14, 30);
     doc.text(`Plan horizon: ${days} days`, 14, 36);
 
-    doc.text(`Daily herd need: ${nf0(dailyNeedLbDM)} lb DM`, 14, 46);
-    doc.text(`Grazeable DM: ${nf0(grazeableDM)} lb`, 14, 52);
-    doc.text(`Growth over horizon: ${nf0(growthDMOverHorizon)} lb`, 14, 58);
-    doc.text(`Total available: ${nf0(totalAvailableDM)} lb`, 14, 64);
+    doc.text(`Daily herd need: ${u.fmt("lb", dailyNeedLbDM)} DM`, 14, 46);
+    doc.text(`Grazeable DM: ${u.fmt("lb", grazeableDM)}`, 14, 52);
+    doc.text(`Growth over horizon: ${u.fmt("lb", growthDMOverHorizon)}`, 14, 58);
+    doc.text(`Total available: ${u.fmt("lb", totalAvailableDM)}`, 14, 64);
     doc.text(`Coverage (pasture): ${nf1(coverageDaysFromPasture)} days`, 14, 70);
-    if (deficitLbDM > 0) doc.text(`Supplement needed: ${nf0(deficitLbDM)} lb DM over ${days} days`, 14, 76);
+    doc.text(`Stocking: ${nf1(herdAU)} AU, ${u.fmt("au_ac", auPerAc, 2)}; ${nf1(aumDemand)} AUM needed of ${nf1(aumAvailable)} available`, 14, 76);
+    if (deficitLbDM > 0) doc.text(`Supplement needed: ${u.fmt("lb", deficitLbDM)} DM over ${days} days`, 14, 82);
+    doc.text(
+      `Water: ${u.fmt("gal", waterGalDay)}/day${dryPaddocks.length ? `; left out (no water): ${dryPaddocks.map((p) => p.name).join(", ")}` : ""}`,
+      14,
+      88
+    );
 
-    let y = 86;
+    let y = 98;
     doc.setFontSize(11);
-    doc.text("Rotation suggestion:", 14, y);
+    doc.text(`Rotation calendar from ${startDate}:`, 14, y);
     doc.setFontSize(10);
     y += 6;
 
-    rotation.forEach((r) => {
+    plan.stops.forEach((r, i) => {
       if (y > 280) { doc.addPage(); y = 20; }
-      doc.text(`• ${r.name}: ${nf0(r.takeableDM)} lb DM  ≈  ${nf1(r.daysHere)} days`, 16, y);
+      doc.text(
+        `${i + 1}. ${r.in_date} → ${r.out_date}  ${r.name}  ${r.days} d  (${u.num("lb_ac", r.entry_dm_lb_ac)} → ${u.fmt("lb_ac", r.exit_dm_lb_ac)} DM)`,
+        16,
+        y
+      );
       y += 6;
     });
 
+    if (!plan.feasible) {
+      y += 4;
+      if (y > 280) { doc.addPage(); y = 20; }
+      doc.setFontSize(11);
+      doc.text(`Infeasible: ${u.fmt("lb", plan.short_lb_dm)} DM short`, 14, y);
+      doc.setFontSize(10);
+      y += 6;
+      plan.shortfalls.forEach((f) => {
+        if (y > 280) { doc.addPage(); y = 20; }
+        doc.text(`• ${f.from}${f.to !== f.from ? ` → ${f.to}` : ""}: ${f.days} d, ${u.fmt("lb", f.short_lb_dm)} DM`, 16, y);
+        y += 6;
+      });
+
+      y += 4;
+      if (y > 270) { doc.addPage(); y = 20; }
+      doc.setFontSize(11);
+      doc.text(`Stored feed covers ${feedPlan.covered_days} of ${feedPlan.deficit_days} shortfall days`, 14, y);
+      doc.setFontSize(10);
+      y += 6;
+      feedPlan.allocations.forEach((a, i) => {
+        if (y > 280) { doc.addPage(); y = 20; }
+        doc.text(`${i + 1}. ${a.name}: ${nf1(a.units)} ${a.unit_label}(s), ${a.from} → ${a.to}, ${money(a.cost)}`, 16, y);
+        y += 6;
+      });
+      if (feedPlan.purchase_lb_dm > 0) {
+        if (y > 280) { doc.addPage(); y = 20; }
+        doc.text(
+          `Runs out ${feedPlan.runs_out_on}: buy ${u.fmt("ton", feedPlan.purchase_lb_dm / LB_PER_TON, 1)} DM ≈ ${money(feedPlan.purchase_cost)} at ${money(u.show("per_ton", purchasePrice) ?? 0)}/${u.label("ton")} DM`,
+          16,
+          y
+        );
+      }
+    }
+
     doc.save("grazing-plan.pdf");
   }
 
   return (
     <Card>
       <CardHeader>
-        <CardTitle>AI Grazing & Feed Planner</CardTitle>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle>AI Grazing & Feed Planner</CardTitle>
+          <UnitSystemSelect tenantId={tenantId} />
+        </div>
       </CardHeader>
       <CardContent className="space-y-6">
+        {/* Scenarios */}
+        <div className="grid md:grid-cols-4 gap-3 p-3 border rounded-xl bg-white/60">
+          <div>
+            <Label>Scenario</Label>
+            <select className={selectCls} value={scenarioId ?? ""} onChange={(e) => pickScenario(e.target.value)}>
+              <option value="">— unsaved —</option>
+              {scenarios.map((sc) => (
+                <option key={sc.id} value={sc.id}>{sc.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label>Scenario Name</Label>
+            <Input value={scenarioName} onChange={(e) => setScenarioName(e.target.value)} placeholder="e.g. Dry summer" />
+          </div>
+          <div className="md:col-span-2 flex items-end gap-2 flex-wrap">
+            <Button onClick={() => saveScenario(false)}>{scenarioId ? "Save Scenario" : "Save as Scenario"}</Button>
+            {scenarioId && <Button variant="outline" onClick={() => saveScenario(true)}>Save as New</Button>}
+            <Button variant="outline" onClick={duplicateScenario} disabled={!scenarioId}>Duplicate</Button>
+            <Button variant="destructive" onClick={deleteScenario} disabled={!scenarioId}>Delete</Button>
+          </div>
+        </div>
+
         {/* Planner controls */}
         <div className="grid md:grid-cols-4 gap-3">
           <div>
@@ -199,12 +453,30 @@ export default function GrazingPlanner({ tenantId }: { tenantId: string }) {
             <Input type="number" value={days} onChange={(e) => setDays(Number(e.target.value || 0))} />
           </div>
           <div>
-            <Label>Growth (lb DM/ac/day)</Label>
-            <Input type="number" value={growthDmLbAcDay} onChange={(e) => setGrowthDmLbAcDay(Number(e.target.value || 0))} />
+            <Label>Flat Growth ({u.label("lb_ac_day")} DM, paddocks without a curve)</Label>
+            <UnitInput units={u} q="lb_ac_day" value={growthDmLbAcDay} onValue={(v) => setGrowthDmLbAcDay(v ?? 0)} />
+          </div>
+          <div>
+            <Label>Target Residual ({u.label("lb_ac")} DM)</Label>
+            <UnitInput units={u} q="lb_ac" digits={0} value={targetResidualDmLbAc} onValue={(v) => setTargetResidualDmLbAc(v ?? 0)} />
           </div>
           <div>
-            <Label>Target Residual (lb DM/ac)</Label>
-            <Input type="number" value={targetResidualDmLbAc} onChange={(e) => setTargetResidualDmLbAc(Number(e.target.value || 0))} />
+            <Label>Plan Start</Label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value || todayYmd())} />
+          </div>
+          <div>
+            <Label>Max Days per Paddock (0 = no limit)</Label>
+            <Input type="number" value={maxStayDays} onChange={(e) => setMaxStayDays(Number(e.target.value || 0))} />
+          </div>
+          <div>
+            <Label>Water ({u.label("gal")} per AU per day)</Label>
+            <UnitInput units={u} q="gal" digits={1} value={waterGalAuDay} onValue={(v) => setWaterGalAuDay(v ?? 0)} />
+          </div>
+          <div className="flex items-end">
+            <label className="text-sm flex items-center gap-2 pb-2">
+              <input type="checkbox" checked={requireWater} onChange={(e) => setRequireWater(e.target.checked)} />
+              Only paddocks with water
+            </label>
           </div>
           <div className="flex items-end gap-2">
             <Button variant="secondary" onClick={loadCloud} disabled={loading}>Load</Button>
@@ -215,7 +487,16 @@ export default function GrazingPlanner({ tenantId }: { tenantId: string }) {
 
         {/* Herd form */}
         <div className="grid md:grid-cols-4 gap-3">
-          <div className="md:col-span-2">
+          <div>
+            <Label>Saved Herd</Label>
+            <select className={selectCls} value={herd.id ?? ""} onChange={(e) => pickHerd(e.target.value)}>
+              <option value="">— new herd —</option>
+              {herds.map((h) => (
+                <option key={h.id} value={h.id}>{h.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
             <Label>Herd Name</Label>
             <Input value={herd.name} onChange={(e) => setHerd({ ...herd, name: e.target.value })} />
           </div>
@@ -224,29 +505,50 @@ export default function GrazingPlanner({ tenantId }: { tenantId: string }) {
             <Input type="number" value={herd.headcount} onChange={(e) => setHerd({ ...herd, headcount: Number(e.target.value || 0) })} />
           </div>
           <div>
-            <Label>Avg Weight (lb)</Label>
-            <Input type="number" value={herd.avg_weight_lb} onChange={(e) => setHerd({ ...herd, avg_weight_lb: Number(e.target.value || 0) })} />
+            <Label>{u.head("Avg Weight", "lb")}</Label>
+            <UnitInput units={u} q="lb" digits={0} value={herd.avg_weight_lb} onValue={(v) => setHerd({ ...herd, avg_weight_lb: v ?? 0 })} />
           </div>
           <div>
             <Label>Intake % BW</Label>
             <Input type="number" step="0.1" value={herd.intake_pct_bw} onChange={(e) => setHerd({ ...herd, intake_pct_bw: Number(e.target.value || 0) })} />
           </div>
+          <div className="flex items-end gap-2">
+            <Button variant="outline" onClick={saveHerd}>{herd.id ? "Save Herd" : "Save as Herd"}</Button>
+            {herd.id && <Button variant="destructive" onClick={deleteHerd}>Delete Herd</Button>}
+          </div>
         </div>
 
+        {/* Build herd from cattle records */}
+        <HerdFromCattle
+          tenantId={tenantId}
+          paddocks={paddocks}
+          filter={herd.cattle_filter || null}
+          onApply={(stats, filter) =>
+            setHerd({ ...herd, headcount: stats.headcount, avg_weight_lb: stats.avg_weight_lb, cattle_filter: filter })
+          }
+        />
+
         {/* Paddocks table */}
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <Label className="font-medium">Paddocks</Label>
+            {paddocks.some((p) => p.boundary) && (
+              <Button variant="outline" size="sm" onClick={() => setShowMap(!showMap)}>{showMap ? "Hide Map" : "Show Map"}</Button>
+            )}
           </div>
+          {showMap && <PaddockMap paddocks={paddocks} units={u} />}
           <div className="overflow-auto border rounded-xl">
             <table className="w-full text-sm">
               <thead className="bg-slate-100">
                 <tr>
                   <th className="text-left p-2">Name</th>
-                  <th className="text-left p-2">Acres</th>
-                  <th className="text-left p-2">Standing DM (lb/ac)</th>
+                  <th className="text-left p-2">{u.head("Area", "ac")}</th>
+                  <th className="text-left p-2">{u.head("Standing DM", "lb_ac")}</th>
                   <th className="text-left p-2">Utilization %</th>
                   <th className="text-left p-2">Rest Days</th>
+                  <th className="text-left p-2">Rested</th>
+                  <th className="text-left p-2">Water</th>
+                  <th className="text-left p-2">Growth Curve</th>
                 </tr>
               </thead>
               <tbody>
@@ -256,10 +558,26 @@ export default function GrazingPlanner({ tenantId }: { tenantId: string }) {
                       <Input value={p.name} onChange={(e) => updatePaddock(i, { name: e.target.value })} />
                     </td>
                     <td className="p-2">
-                      <Input type="number" value={p.acres ?? 0} onChange={(e) => updatePaddock(i, { acres: Number(e.target.value || 0) })} />
+                      <UnitInput units={u} q="ac" value={p.acres ?? 0} onValue={(v) => updatePaddock(i, { acres: v ?? 0 })} />
+                      {acreageMismatch(p.acres, p.boundary_acres) && (
+                        <div className="text-xs text-amber-700 mt-1">
+                          ⚠ mapped {u.fmt("ac", p.boundary_acres, 2)} ({acreageDiffPct(p.acres, p.boundary_acres)}%){" "}
+                          <button className="underline" onClick={() => updatePaddock(i, { acres: p.boundary_acres ?? p.acres })}>use</button>
+                        </div>
+                      )}
                     </td>
                     <td className="p-2">
-                      <Input type="number" value={p.forage_dm_lb_ac ?? 0} onChange={(e) => updatePaddock(i, { forage_dm_lb_ac: Number(e.target.value || 0) })} />
+                      {p.standing ? (
+                        // measured paddocks plan from their samples; record new ones in Pasture Maintenance
+                        <div title={`Measured ${u.fmt("lb_ac", p.standing.measured_dm_lb_ac)} on ${p.standing.measured_on}, projected to today`}>
+                          <div className="font-medium">{u.num("lb_ac", p.standing.dm_lb_ac)}</div>
+                          <div className="text-xs text-slate-500">
+                            measured {p.standing.measured_on}{p.standing.stale ? " • grazed since" : ""}
+                          </div>
+                        </div>
+                      ) : (
+                        <UnitInput units={u} q="lb_ac" digits={0} value={p.forage_dm_lb_ac ?? 0} onValue={(v) => updatePaddock(i, { forage_dm_lb_ac: v ?? 0 })} />
+                      )}
                     </td>
                     <td className="p-2">
                       <Input type="number" value={p.util_pct ?? 0} onChange={(e) => updatePaddock(i, { util_pct: Number(e.target.value || 0) })} />
@@ -267,42 +585,804 @@ export default function GrazingPlanner({ tenantId }: { tenantId: string }) {
                     <td className="p-2">
                       <Input type="number" value={p.rest_days ?? 0} onChange={(e) => updatePaddock(i, { rest_days: Number(e.target.value || 0) })} />
                     </td>
+                    <td className="p-2 whitespace-nowrap">
+                      {!p.rest?.last_in ? (
+                        <span className="text-slate-400">—</span>
+                      ) : p.rest.grazing ? (
+                        <span className={p.rest.early_reentry ? "text-red-700" : "text-sky-700"}>
+                          grazing{p.rest.early_reentry ? " (early re-entry)" : ""}
+                        </span>
+                      ) : (
+                        <span
+                          className={p.rest.rest_days != null && (p.rest.days_rested ?? 0) < p.rest.rest_days ? "text-amber-700" : "text-emerald-700"}
+                        >
+                          {p.rest.days_rested} d
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      {p.water ? (
+                        <span title={p.water.unsized ? `${p.water.unsized} point(s) without a capacity` : undefined}>
+                          {p.water.points} pt{p.water.points === 1 ? "" : "s"}
+                          {p.water.capacity_gal > 0 ? `, ${u.fmt("gal", p.water.capacity_gal)}` : ""}
+                        </span>
+                      ) : (
+                        <span className={requireWater ? "text-red-700" : "text-slate-400"}>none</span>
+                      )}
+                    </td>
+                    <td className="p-2">
+                      <select
+                        className={selectCls}
+                        value={p.growth_curve_id ?? ""}
+                        onChange={(e) => updatePaddock(i, { growth_curve_id: e.target.value ? Number(e.target.value) : null })}
+                      >
+                        <option value="">
+                          {(() => {
+                            const zc = curveForPaddock({ zone: p.zone }, curves);
+                            return zc ? `Zone: ${zc.name}` : "Flat rate";
+                          })()}
+                        </option>
+                        {curves.map((c) => (
+                          <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                      </select>
+                    </td>
                   </tr>
                 ))}
                 {paddocks.length === 0 && (
-                  <tr><td className="p-2" colSpan={5}>No paddocks yet.</td></tr>
+                  <tr><td className="p-2" colSpan={8}>No paddocks yet.</td></tr>
                 )}
               </tbody>
             </table>
           </div>
         </div>
 
+        {/* Seasonal growth curves */}
+        <GrowthCurves tenantId={tenantId} units={u} curves={curves} onChanged={loadSaved} />
+
         {/* Summary */}
         <div className="grid md:grid-cols-3 gap-3">
-          <div className="p-3 rounded-xl border bg-white/60 text-sm">Daily Herd Need: <b>{nf0(dailyNeedLbDM)}</b> lb DM</div>
-          <div className="p-3 rounded-xl border bg-white/60 text-sm">Grazeable DM: <b>{nf0(grazeableDM)}</b> lb</div>
-          <div className="p-3 rounded-xl border bg-white/60 text-sm">Growth (horizon): <b>{nf0(growthDMOverHorizon)}</b> lb</div>
-          <div className="p-3 rounded-xl border bg-white/60 text-sm">Total Available: <b>{nf0(totalAvailableDM)}</b> lb</div>
+          <div className="p-3 rounded-xl border bg-white/60 text-sm">Daily Herd Need: <b>{u.fmt("lb", dailyNeedLbDM)}</b> DM</div>
+          <div className="p-3 rounded-xl border bg-white/60 text-sm">Grazeable DM: <b>{u.fmt("lb", grazeableDM)}</b></div>
+          <div className="p-3 rounded-xl border bg-white/60 text-sm">Growth (horizon): <b>{u.fmt("lb", growthDMOverHorizon)}</b></div>
+          <div className="p-3 rounded-xl border bg-white/60 text-sm">Total Available: <b>{u.fmt("lb", totalAvailableDM)}</b></div>
           <div className="p-3 rounded-xl border bg-white/60 text-sm">Coverage (pasture): <b>{nf1(coverageDaysFromPasture)}</b> days</div>
           <div className="p-3 rounded-xl border bg-white/60 text-sm">
-            Supplement Needed: <b>{deficitLbDM > 0 ? nf0(deficitLbDM) + " lb" : "None"}</b>
+            Supplement Needed: <b>{deficitLbDM > 0 ? u.fmt("lb", deficitLbDM) : "None"}</b>
+          </div>
+          <div className="p-3 rounded-xl border bg-white/60 text-sm">Herd: <b>{nf1(herdAU)}</b> AU</div>
+          <div className="p-3 rounded-xl border bg-white/60 text-sm">Stocking Rate: <b>{u.fmt("au_ac", auPerAc, 2)}</b></div>
+          <div className={`p-3 rounded-xl border text-sm ${aumDemand > aumAvailable ? "bg-amber-50" : "bg-white/60"}`}>
+            AUM Needed / Available: <b>{nf1(aumDemand)}</b> / <b>{nf1(aumAvailable)}</b>
           </div>
+          <div className="p-3 rounded-xl border bg-white/60 text-sm">Water Need: <b>{u.fmt("gal", waterGalDay)}</b>/day</div>
         </div>
+        {dryPaddocks.length > 0 && (
+          <div className="rounded-lg px-3 py-2 text-sm bg-amber-50 text-amber-800">
+            Left out of the plan (no water point): {dryPaddocks.map((p) => p.name).join(", ")}
+          </div>
+        )}
+
+        {/* Carrying capacity from the cattle records */}
+        <CarryingCapacity tenantId={tenantId} units={u} paddocks={paddocks} residualDmLbAc={targetResidualDmLbAc} />
 
-        {/* Rotation suggestion */}
+        {/* Rotation calendar */}
         <div>
-          <Label className="font-medium">Rotation Suggestion</Label>
-          <div className="mt-2 space-y-1">
-            {rotation.map((r, i) => (
-              <div key={i} className="text-sm">
-                • <b>{r.name}</b>: {nf0(r.takeableDM)} lb DM ≈ {nf1(r.daysHere)} days
-              </div>
+          <Label className="font-medium">Rotation Calendar</Label>
+          {!plan.feasible && (
+            <div className="mt-2 rounded-lg px-3 py-2 text-sm bg-red-100 text-red-800">
+              Infeasible over {days} days — {u.fmt("lb", plan.short_lb_dm)} DM short (no rested paddock can carry the herd):
+              <ul className="list-disc ml-5 mt-1">
+                {plan.shortfalls.map((f) => (
+                  <li key={f.from}>
+                    {f.from}
+                    {f.to !== f.from ? ` → ${f.to}` : ""}: {f.days} d, {u.fmt("lb", f.short_lb_dm)} DM
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {plan.stops.length ? (
+            <div className="mt-2 overflow-auto border rounded-xl">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-100">
+                  <tr>
+                    <th className="text-left p-2">#</th>
+                    <th className="text-left p-2">Move In</th>
+                    <th className="text-left p-2">Move Out</th>
+                    <th className="text-left p-2">Paddock</th>
+                    <th className="text-left p-2">Days</th>
+                    <th className="text-left p-2">{u.head("DM In → Out", "lb_ac")}</th>
+                    <th className="text-left p-2">{u.head("Eaten DM", "lb")}</th>
+                    <th className="text-left p-2">Stored Water</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.stops.map((r, i) => (
+                    <tr key={`${r.paddock_id}-${r.in_date}`} className="border-t">
+                      <td className="p-2">{i + 1}</td>
+                      <td className="p-2">{r.in_date}</td>
+                      <td className="p-2">{r.out_date}</td>
+                      <td className="p-2">{r.name}</td>
+                      <td className="p-2">{r.days}</td>
+                      <td className="p-2">{u.num("lb_ac", r.entry_dm_lb_ac)} → {u.num("lb_ac", r.exit_dm_lb_ac)}</td>
+                      <td className="p-2">{u.num("lb", r.eaten_lb_dm)}</td>
+                      <td className="p-2">
+                        <WaterCell water={waterOf.get(r.paddock_id)} demandGalDay={waterGalDay} units={u} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="mt-2 text-sm">Add paddocks to see a rotation.</div>
+          )}
+        </div>
+
+        {/* Stored feed against the shortfall */}
+        <FeedInventory
+          tenantId={tenantId}
+          units={u}
+          lots={feedLots}
+          feedPlan={feedPlan}
+          purchasePerTon={purchasePrice}
+          onPurchasePerTon={setPurchasePerTon}
+          onChanged={loadSaved}
+        />
+
+        {/* Scenario comparison */}
+        <div className="space-y-2">
+          <Label className="font-medium">Compare Scenarios</Label>
+          <div className="grid md:grid-cols-2 gap-3">
+            {[0, 1].map((slot) => (
+              <select
+                key={slot}
+                className={selectCls}
+                value={compareIds[slot]}
+                onChange={(e) =>
+                  setCompareIds((prev) => (slot === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value]))
+                }
+              >
+                <option value="">— pick a scenario —</option>
+                {scenarios.map((sc) => (
+                  <option key={sc.id} value={sc.id}>{sc.name}</option>
+                ))}
+              </select>
             ))}
-            {rotation.length === 0 && <div className="text-sm">Add paddocks to see a rotation.</div>}
           </div>
+          {compared.some(Boolean) && <ScenarioCompare items={compared} units={u} />}
         </div>
       </CardContent>
     </Card>
   );
 }
 
+/* ───────────────── Subcomponents ───────────────── */
+
+// Monthly growth profiles (Jan..Dec); a curve with a zone applies to that zone's paddocks
+function GrowthCurves({
+  tenantId,
+  units: u,
+  curves,
+  onChanged,
+}: {
+  tenantId: string;
+  units: Units;
+  curves: GrowthCurve[];
+  onChanged: () => void;
+}) {
+  const blank = (): GrowthCurve => ({ name: "", zone: "", monthly_rates: Array(12).fill(0), notes: "" });
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<GrowthCurve>(blank());
+
+  function pick(id: string) {
+    const c = curves.find((x) => String(x.id) === id);
+    setDraft(c ? { ...c, monthly_rates: c.monthly_rates.map(Number) } : blank());
+  }
+
+  function applyPreset(name: string) {
+    const preset = PRESET_CURVES.find((c) => c.name === name);
+    if (preset) setDraft({ ...draft, name: draft.name || preset.name, monthly_rates: [...preset.monthly_rates] });
+  }
+
+  async function save() {
+    if (!draft.name.trim()) return alert("Curve name is required");
+    try {
+      const saved: GrowthCurve = await paddocksApi("upsertGrowthCurve", { tenant_id: tenantId, row: draft });
+      setDraft({ ...saved, monthly_rates: saved.monthly_rates.map(Number) });
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to save growth curve");
+    }
+  }
+
+  async function remove() {
+    if (!draft.id) return;
+    if (!confirm(`Delete growth curve "${draft.name}"? Paddocks using it fall back to their zone or the flat rate.`)) return;
+    try {
+      await paddocksApi("deleteGrowthCurve", { tenant_id: tenantId, id: draft.id });
+      setDraft(blank());
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete growth curve");
+    }
+  }
+
+  return (
+    <div className="p-3 border rounded-xl bg-white/60 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Seasonal Growth Curves ({curves.length})</div>
+        <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>{open ? "Hide" : "Edit Curves"}</Button>
+      </div>
+      {open && (
+        <>
+          <div className="grid md:grid-cols-4 gap-3">
+            <div>
+              <Label>Curve</Label>
+              <select className={selectCls} value={draft.id ?? ""} onChange={(e) => pick(e.target.value)}>
+                <option value="">— new curve —</option>
+                {curves.map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}{c.zone ? ` (zone ${c.zone})` : ""}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label>Name</Label>
+              <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div>
+              <Label>Zone (optional)</Label>
+              <Input value={draft.zone || ""} onChange={(e) => setDraft({ ...draft, zone: e.target.value })} placeholder="applies to paddocks in this zone" />
+            </div>
+            <div>
+              <Label>Start from preset</Label>
+              <select className={selectCls} value="" onChange={(e) => applyPreset(e.target.value)}>
+                <option value="">—</option>
+                {PRESET_CURVES.map((c) => (
+                  <option key={c.name} value={c.name}>{c.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-6 md:grid-cols-12 gap-2">
+            {MONTHS.map((m, i) => (
+              <div key={m}>
+                <Label className="text-xs">{m}</Label>
+                <UnitInput
+                  units={u}
+                  q="lb_ac_day"
+                  value={draft.monthly_rates[i]}
+                  onValue={(n) =>
+                    setDraft({
+                      ...draft,
+                      monthly_rates: draft.monthly_rates.map((v, j) => (j === i ? n ?? 0 : v)),
+                    })
+                  }
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 items-center">
+            <Button onClick={save}>{draft.id ? "Save Curve" : "Add Curve"}</Button>
+            {draft.id && <Button variant="destructive" onClick={remove}>Delete</Button>}
+            <span className="text-xs text-slate-600">{u.label("lb_ac_day")} DM; the plan interpolates between mid-month values.</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Headcount from active animals matching paddock/status/group; weight = latest weights projected by ADG
+function HerdFromCattle({
+  tenantId,
+  paddocks,
+  filter,
+  onApply,
+}: {
+  tenantId: string;
+  paddocks: Paddock[];
+  filter: HerdFilter | null;
+  onApply: (stats: HerdStats, filter: HerdFilter) => void;
+}) {
+  const [paddockId, setPaddockId] = useState("");
+  const [status, setStatus] = useState("active");
+  const [group, setGroup] = useState("");
+  const [options, setOptions] = useState<{ groups: string[]; statuses: string[] }>({ groups: [], statuses: [] });
+  const [stats, setStats] = useState<HerdStats | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { units: u } = useUnits(tenantId);
+
+  useEffect(() => {
+    cattleApi("listGroups", { tenant_id: tenantId })
+      .then((d) => setOptions(d || { groups: [], statuses: [] }))
+      .catch(() => {});
+  }, [tenantId]);
+
+  // a saved herd brings back the filter it was built from
+  const filterKey = JSON.stringify(filter || {});
+  useEffect(() => {
+    setPaddockId(filter?.paddock_id ? String(filter.paddock_id) : "");
+    setStatus(filter?.status || "active");
+    setGroup(filter?.group_name || "");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filterKey]);
+
+  async function build() {
+    const f: HerdFilter = {
+      paddock_id: paddockId ? Number(paddockId) : null,
+      status: status || "active",
+      group_name: group || null,
+    };
+    try {
+      setBusy(true);
+      const s: HerdStats = await cattleApi("herdStats", { tenant_id: tenantId, ...f });
+      setStats(s);
+      if (!s.headcount) return alert("No animals match that filter");
+      onApply(s, f);
+    } catch (e: any) {
+      alert(e.message || "Failed to build herd from cattle");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const statuses = Array.from(new Set(["active", ...options.statuses.map((x) => x.toLowerCase())]));
+
+  return (
+    <div className="p-3 border rounded-xl bg-white/60 space-y-2">
+      <div className="text-sm font-medium">Build Herd from Cattle Records</div>
+      <div className="grid md:grid-cols-4 gap-3">
+        <div>
+          <Label>Paddock</Label>
+          <select className={selectCls} value={paddockId} onChange={(e) => setPaddockId(e.target.value)}>
+            <option value="">All paddocks</option>
+            {paddocks.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label>Status</Label>
+          <select className={selectCls} value={status} onChange={(e) => setStatus(e.target.value)}>
+            {statuses.map((st) => (
+              <option key={st} value={st}>{st}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label>Group</Label>
+          <select className={selectCls} value={group} onChange={(e) => setGroup(e.target.value)}>
+            <option value="">Any group</option>
+            {options.groups.map((g) => (
+              <option key={g} value={g}>{g}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-end">
+          <Button variant="outline" onClick={build} disabled={busy}>{busy ? "Counting…" : "Use Cattle Records"}</Button>
+        </div>
+      </div>
+      {stats && stats.headcount > 0 && (
+        <div className="text-sm text-slate-700">
+          {stats.headcount} head • {stats.weighed} weighed • avg {u.fmt("lb", stats.avg_weight_lb)} projected to {stats.as_of}
+          {stats.avg_adg_lb_day !== null ? ` (avg ADG ${u.fmt("lb_day", stats.avg_adg_lb_day, 1)})` : ""}
+          {stats.weighed < stats.headcount
+            ? ` — ${stats.headcount - stats.weighed - stats.stale} without weights${
+                stats.stale ? ` and ${stats.stale} weighed over ${STALE_WEIGHT_DAYS} d ago` : ""
+              } left out of the average`
+            : ""}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type Compared = { scenario: PlannerScenario; summary: PlanSummary } | null;
+
+// Key figures of two scenarios against today's paddocks, one column each
+function ScenarioCompare({ items, units: u }: { items: Compared[]; units: Units }) {
+  const rows: { label: string; value: (c: NonNullable<Compared>) => string }[] = [
+    { label: "Herd", value: (c) => (c.scenario.herd ? `${c.scenario.herd.name} (${c.scenario.herd.headcount} hd)` : "— (herd deleted, using form herd)") },
+    { label: "Avg weight / intake", value: (c) => (c.scenario.herd ? `${u.fmt("lb", c.scenario.herd.avg_weight_lb)} / ${c.scenario.herd.intake_pct_bw}% BW` : "—") },
+    { label: "Horizon", value: (c) => `${c.scenario.days} d from ${c.scenario.start_date || "today"}` },
+    { label: "Growth / residual", value: (c) => `${u.fmt("lb_ac_day", Number(c.scenario.growth_dm_lb_ac_day), 1)} / ${u.fmt("lb_ac", Number(c.scenario.residual_dm_lb_ac))}` },
+    { label: "Daily herd need", value: (c) => `${u.fmt("lb", c.summary.daily_need_lb_dm)} DM` },
+    { label: "Total available", value: (c) => `${u.fmt("lb", c.summary.total_available_lb_dm)} DM` },
+    { label: "Coverage (pasture)", value: (c) => `${nf1(c.summary.coverage_days)} d` },
+    { label: "Herd AU / stocking", value: (c) => `${nf1(c.summary.herd_au)} AU / ${u.fmt("au_ac", c.summary.au_per_ac, 2)}` },
+    { label: "AUM needed / available", value: (c) => `${nf1(c.summary.aum_demand)} / ${nf1(c.summary.aum_available)}` },
+    { label: "Water need", value: (c) => `${u.fmt("gal", c.summary.water_gal_day)}/day${c.scenario.require_water ? " (watered paddocks only)" : ""}` },
+    { label: "Supplement needed", value: (c) => (c.summary.deficit_lb_dm > 0 ? `${u.fmt("lb", c.summary.deficit_lb_dm)} DM` : "None") },
+    { label: "Moves", value: (c) => String(c.summary.plan.stops.length) },
+    {
+      label: "Rotation",
+      value: (c) =>
+        c.summary.plan.feasible
+          ? "Feasible"
+          : `Short ${u.fmt("lb", c.summary.plan.short_lb_dm)} DM from ${c.summary.plan.shortfalls[0].from} (${c.summary.plan.shortfalls.reduce((a, f) => a + f.days, 0)} d)`,
+    },
+  ];
+
+  return (
+    <div className="overflow-auto border rounded-xl">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-100">
+          <tr>
+            <th className="text-left p-2"></th>
+            {items.map((c, i) => (
+              <th key={i} className="text-left p-2">{c?.scenario.name || "—"}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.label} className="border-t">
+              <td className="p-2 font-medium">{r.label}</td>
+              {items.map((c, i) => (
+                <td key={i} className={`p-2 ${r.label === "Rotation" && c && !c.summary.plan.feasible ? "text-red-700" : ""}`}>
+                  {c ? r.value(c) : "—"}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Days the stop's stored water lasts the herd without a refill
+function WaterCell({ water, demandGalDay, units: u }: { water?: PaddockWater | null; demandGalDay: number; units: Units }) {
+  if (!water) return <span className="text-red-700">no water</span>;
+  const days = waterStorageDays(water, demandGalDay);
+  if (days === null) {
+    return <span className="text-slate-500">{water.points} pt{water.points === 1 ? "" : "s"}, capacity unknown</span>;
+  }
+  return (
+    <span className={days < 1 ? "text-amber-700" : ""} title={`${u.fmt("gal", water.capacity_gal)} stored, herd drinks ${u.fmt("gal", demandGalDay)}/day`}>
+      {nf1(days)} d
+    </span>
+  );
+}
+
+// Actual stock (AU by class from the cattle records, by current paddock) against the forage on hand
+function CarryingCapacity({
+  tenantId,
+  units: u,
+  paddocks,
+  residualDmLbAc,
+}: {
+  tenantId: string;
+  units: Units;
+  paddocks: Paddock[];
+  residualDmLbAc: number;
+}) {
+  const [open, setOpen] = useState(false);
+  const [stock, setStock] = useState<AuSummary | null>(null);
+  const [periodDays, setPeriodDays] = useState(30);
+  const [busy, setBusy] = useState(false);
+
+  async function load() {
+    try {
+      setBusy(true);
+      setStock(await cattleApi("animalUnits", { tenant_id: tenantId }));
+    } catch (e: any) {
+      alert(e.message || "Failed to load animal units");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  useEffect(() => {
+    if (open && !stock) load().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const report = useMemo(
+    () =>
+      stock
+        ? carryingCapacity(
+            paddocks.map((p) => ({ id: p.id, name: p.name, acres: p.acres, dm_lb_ac: paddockDm(p), util_pct: p.util_pct })),
+            stock.animals,
+            { residual_dm_lb_ac: residualDmLbAc, days: periodDays }
+          )
+        : null,
+    [stock, paddocks, residualDmLbAc, periodDays]
+  );
+
+  const pctCls = (pct: number | null) =>
+    pct === null ? "text-slate-400" : pct > 100 ? "text-red-700 font-medium" : pct > 85 ? "text-amber-700" : "text-emerald-700";
+
+  return (
+    <div className="p-3 border rounded-xl bg-white/60 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">
+          Carrying Capacity{stock ? ` — ${stock.head} head, ${nf1(stock.total_au)} AU on ${stock.as_of}` : ""}
+        </div>
+        <div className="flex gap-2">
+          {open && <Button variant="outline" size="sm" onClick={load} disabled={busy}>{busy ? "Loading…" : "Refresh"}</Button>}
+          <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>{open ? "Hide" : "Show Report"}</Button>
+        </div>
+      </div>
+      {open && stock && report && (
+        <>
+          <div className="flex flex-wrap gap-2 text-xs">
+            {AU_CLASSES.map((c) => (
+              <span key={c.value} className="px-2 py-1 rounded-full bg-slate-100">
+                {c.label}: {stock.by_class[c.value].head} hd • {nf1(stock.by_class[c.value].au)} AU
+              </span>
+            ))}
+          </div>
+          <div className="flex items-end gap-3">
+            <div className="w-48">
+              <Label>Report Period (days)</Label>
+              <Input type="number" value={periodDays} onChange={(e) => setPeriodDays(Number(e.target.value || 0))} />
+            </div>
+            <div className="text-xs text-slate-600 pb-2">
+              Forage above the {u.fmt("lb_ac", residualDmLbAc)} residual × utilization; 1 AU = {u.fmt("lb", AU_BODY_WEIGHT_LB)} eating{" "}
+              {u.fmt("lb", AU_DAILY_DM_LB)} DM/day.
+            </div>
+          </div>
+          <div className="overflow-auto border rounded-xl">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-100">
+                <tr>
+                  <th className="text-left p-2">Paddock</th>
+                  <th className="text-left p-2">{u.head("Area", "ac")}</th>
+                  <th className="text-left p-2">Head</th>
+                  <th className="text-left p-2">AU</th>
+                  <th className="text-left p-2">{u.label("au_ac")}</th>
+                  <th className="text-left p-2">Available AUM</th>
+                  <th className="text-left p-2">Capacity ({report.days} d, AU)</th>
+                  <th className="text-left p-2">Stocked</th>
+                  <th className="text-left p-2">Days Left</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...report.rows, report.total].map((r, i) => (
+                  <tr key={r.paddock_id ?? `x${i}`} className={`border-t ${r === report.total ? "font-medium bg-slate-50" : ""}`}>
+                    <td className="p-2">{r.name}</td>
+                    <td className="p-2">{u.num("ac", r.acres, 1)}</td>
+                    <td className="p-2">{r.head}</td>
+                    <td className="p-2">{nf1(r.au)}</td>
+                    <td className="p-2">{u.num("au_ac", r.au_per_ac, 2)}</td>
+                    <td className="p-2">{nf1(r.available_aum)}</td>
+                    <td className="p-2">{nf1(r.capacity_au)}</td>
+                    <td className={`p-2 ${pctCls(r.stocking_pct)}`}>{r.stocking_pct === null ? "—" : `${r.stocking_pct}%`}</td>
+                    <td className="p-2">{r.days_left === null ? "—" : r.days_left}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Feed lots on hand, the order they're fed in, and what the shortfall days cost once they run out
+function FeedInventory({
+  tenantId,
+  units: u,
+  lots,
+  feedPlan,
+  purchasePerTon,
+  onPurchasePerTon,
+  onChanged,
+}: {
+  tenantId: string;
+  units: Units;
+  lots: FeedLot[];
+  feedPlan: FeedPlan;
+  purchasePerTon: number;
+  onPurchasePerTon: (v: number | null) => void;
+  onChanged: () => void;
+}) {
+  const blank = (): FeedLot => ({
+    name: "",
+    kind: "hay",
+    units_on_hand: 0,
+    unit_label: "bale",
+    unit_weight_lb: 1200,
+    dm_pct: 88,
+    cost_per_unit: 0,
+    waste_pct: null,
+    received_date: todayYmd(),
+    feed_by: null,
+    priority: null,
+    notes: "",
+  });
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<FeedLot>(blank());
+  const ordered = feedOrder(lots);
+  const numOrNull = (v: string) => (v === "" ? null : Number(v));
+
+  async function save() {
+    if (!draft.name.trim()) return alert("Lot name is required");
+    try {
+      await paddocksApi("upsertFeedLot", { tenant_id: tenantId, row: draft });
+      setDraft(blank());
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to save feed lot");
+    }
+  }
+
+  async function remove(l: FeedLot) {
+    if (!l.id || !confirm(`Delete feed lot "${l.name}"?`)) return;
+    try {
+      await paddocksApi("deleteFeedLot", { tenant_id: tenantId, id: l.id });
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete feed lot");
+    }
+  }
+
+  return (
+    <div className="p-3 border rounded-xl bg-white/60 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">
+          Feed Inventory — {lots.length} lot{lots.length === 1 ? "" : "s"}, {u.fmt("ton", lots.reduce((s, l) => s + lotDmLb(l), 0) / LB_PER_TON, 1)} DM usable
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>{open ? "Hide Lots" : "Edit Lots"}</Button>
+      </div>
+
+      {feedPlan.deficit_days === 0 ? (
+        <div className="text-sm text-emerald-700">No pasture shortfall in this plan — no stored feed needed.</div>
+      ) : (
+        <div className="grid md:grid-cols-4 gap-3 text-sm">
+          <div className={`p-3 rounded-xl border ${feedPlan.covered_days < feedPlan.deficit_days ? "bg-amber-50" : "bg-white/60"}`}>
+            Inventory covers <b>{feedPlan.covered_days}</b> of <b>{feedPlan.deficit_days}</b> shortfall days
+          </div>
+          <div className="p-3 rounded-xl border bg-white/60">
+            Runs out: <b>{feedPlan.runs_out_on || "not in this plan"}</b>
+          </div>
+          <div className="p-3 rounded-xl border bg-white/60">
+            <Label>Purchase Price ({u.label("per_ton")} DM)</Label>
+            <UnitInput units={u} q="per_ton" digits={0} value={purchasePerTon} onValue={onPurchasePerTon} />
+          </div>
+          <div className="p-3 rounded-xl border bg-white/60">
+            To buy: <b>{u.fmt("ton", feedPlan.purchase_lb_dm / LB_PER_TON, 1)}</b> DM ≈ <b>{money(feedPlan.purchase_cost)}</b>
+            <div className="text-xs text-slate-500">inventory fed: {money(feedPlan.inventory_cost)}</div>
+          </div>
+        </div>
+      )}
+
+      {feedPlan.allocations.length > 0 && (
+        <div className="overflow-auto border rounded-xl">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-100">
+              <tr>
+                <th className="text-left p-2">Feed Order</th>
+                <th className="text-left p-2">Lot</th>
+                <th className="text-left p-2">Dates</th>
+                <th className="text-left p-2">Units</th>
+                <th className="text-left p-2">{u.head("DM", "lb")}</th>
+                <th className="text-left p-2">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {feedPlan.allocations.map((a, i) => (
+                <tr key={a.lot_id ?? a.name} className="border-t">
+                  <td className="p-2">{i + 1}</td>
+                  <td className="p-2">{a.name}</td>
+                  <td className="p-2">{a.from}{a.to !== a.from ? ` → ${a.to}` : ""}</td>
+                  <td className="p-2">{nf1(a.units)} {a.unit_label}</td>
+                  <td className="p-2">{u.num("lb", a.lb_dm)}</td>
+                  <td className="p-2">{money(a.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {open && (
+        <>
+          <div className="grid md:grid-cols-6 gap-2">
+            <div className="md:col-span-2">
+              <Label>Lot Name</Label>
+              <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. 2026 1st cut rounds" />
+            </div>
+            <div>
+              <Label>Kind</Label>
+              <select className={selectCls} value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value as FeedLot["kind"] })}>
+                {FEED_KINDS.map((k) => (
+                  <option key={k.value} value={k.value}>{k.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label>On Hand</Label>
+              <Input type="number" value={draft.units_on_hand} onChange={(e) => setDraft({ ...draft, units_on_hand: Number(e.target.value || 0) })} />
+            </div>
+            <div>
+              <Label>Unit</Label>
+              <Input value={draft.unit_label} onChange={(e) => setDraft({ ...draft, unit_label: e.target.value })} placeholder="bale, ton, bag" />
+            </div>
+            <div>
+              <Label>Unit Weight ({u.label("lb")} as fed)</Label>
+              <UnitInput units={u} q="lb" value={draft.unit_weight_lb} onValue={(v) => setDraft({ ...draft, unit_weight_lb: v ?? 0 })} />
+            </div>
+            <div>
+              <Label>DM %</Label>
+              <Input type="number" value={draft.dm_pct} onChange={(e) => setDraft({ ...draft, dm_pct: Number(e.target.value || 0) })} />
+            </div>
+            <div>
+              <Label>Cost per Unit ($)</Label>
+              <Input type="number" value={draft.cost_per_unit} onChange={(e) => setDraft({ ...draft, cost_per_unit: Number(e.target.value || 0) })} />
+            </div>
+            <div>
+              <Label>Waste % (blank = {wastePct({ kind: draft.kind, waste_pct: null })})</Label>
+              <Input type="number" value={draft.waste_pct ?? ""} onChange={(e) => setDraft({ ...draft, waste_pct: numOrNull(e.target.value) })} />
+            </div>
+            <div>
+              <Label>Received</Label>
+              <Input type="date" value={draft.received_date || ""} onChange={(e) => setDraft({ ...draft, received_date: e.target.value || null })} />
+            </div>
+            <div>
+              <Label>Feed By</Label>
+              <Input type="date" value={draft.feed_by || ""} onChange={(e) => setDraft({ ...draft, feed_by: e.target.value || null })} />
+            </div>
+            <div>
+              <Label>Priority (1 = first)</Label>
+              <Input type="number" value={draft.priority ?? ""} onChange={(e) => setDraft({ ...draft, priority: numOrNull(e.target.value) })} />
+            </div>
+            <div className="md:col-span-6 flex gap-2">
+              <Button onClick={save}>{draft.id ? "Update Lot" : "Add Lot"}</Button>
+              {draft.id && <Button variant="outline" onClick={() => setDraft(blank())}>Cancel</Button>}
+            </div>
+          </div>
+
+          <div className="overflow-auto border rounded-xl">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-100">
+                <tr>
+                  <th className="text-left p-2">#</th>
+                  <th className="text-left p-2">Lot</th>
+                  <th className="text-left p-2">Kind</th>
+                  <th className="text-left p-2">On Hand</th>
+                  <th className="text-left p-2">DM % / Waste %</th>
+                  <th className="text-left p-2">{u.head("Usable DM", "lb")}</th>
+                  <th className="text-left p-2">{u.label("per_ton")} DM</th>
+                  <th className="text-left p-2">Feed By</th>
+                  <th className="text-right p-2 w-40">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lots.map((l) => {
+                  const rank = ordered.indexOf(l);
+                  const perLb = costPerLbDm(l);
+                  return (
+                    <tr key={l.id} className="border-t">
+                      <td className="p-2">{rank >= 0 ? rank + 1 : "—"}</td>
+                      <td className="p-2">{l.name}</td>
+                      <td className="p-2">{FEED_KINDS.find((k) => k.value === l.kind)?.label || l.kind}</td>
+                      <td className="p-2">{nf1(Number(l.units_on_hand))} {l.unit_label} × {u.fmt("lb", Number(l.unit_weight_lb))}</td>
+                      <td className="p-2">{nf1(Number(l.dm_pct))} / {nf1(wastePct(l))}</td>
+                      <td className="p-2">{u.num("lb", lotDmLb(l))}</td>
+                      <td className="p-2">{perLb === null ? "—" : money(u.show("per_ton", perLb * LB_PER_TON) ?? 0)}</td>
+                      <td className="p-2">{l.feed_by || "—"}</td>
+                      <td className="p-2 text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => setDraft({ ...l })}>Edit</Button>
+                          <Button size="sm" variant="destructive" onClick={() => remove(l)}>Delete</Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {lots.length === 0 && (
+                  <tr><td className="p-2" colSpan={9}>No feed lots yet.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
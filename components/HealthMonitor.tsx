@@ -1,23 +1,31 @@
 "use client";
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { useUnits } from "@/components/units";
 
-type Vitals = { tenant_id:string; animal_id:number; reading_date:string; temp_c?:number|null; rumination_min?:number|null; steps?:number|null; bcs?:number|null; notes?:string|null; };
-type Alert = { id?:number; tenant_id:string; animal_id?:number|null; type:string; severity?:string; message:string; detected_at?:string; resolved_at?:string|null; };
+type Vitals = { reading_date:string; temp_c?:number|null; heart_rate_bpm?:number|null; respiration_rate_bpm?:number|null; rumination_min?:number|null; steps?:number|null; bcs?:number|null; notes?:string|null; };
+type Alert = { id?:number; tenant_id:string; animal_id?:number|null; type:string; severity?:string; message:string; detected_at?:string; last_seen_at?:string|null; occurrences?:number; resolved_at?:string|null; };
 
 export default function HealthMonitor({ tenantId }: { tenantId: string }) {
   const [animalId, setAnimalId] = useState("");
   const [date, setDate] = useState("");
   const [temp, setTemp] = useState("");
+  const [hr, setHr] = useState("");
+  const [resp, setResp] = useState("");
   const [rum, setRum] = useState("");
   const [steps, setSteps] = useState("");
   const [bcs, setBcs] = useState("");
   const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [importSource, setImportSource] = useState("collar");
+  const [importMsg, setImportMsg] = useState<string | null>(null);
+  const [importBusy, setImportBusy] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { units: u } = useUnits(tenantId);
 
-  async function api(action: string, body: any) {
-    const res = await fetch("/api/care", { method:"POST", headers:{ "Content-Type":"application/json" }, body: JSON.stringify({ action, ...body }) });
+  async function api(action: string, body: any, path = "/api/care") {
+    const res = await fetch(path, { method:"POST", headers:{ "Content-Type":"application/json" }, body: JSON.stringify({ action, ...body }) });
     const json = await res.json();
     if (!json.ok) throw new Error(json.error || "Request failed"); return json;
   }
@@ -32,57 +40,94 @@ export default function HealthMonitor({ tenantId }: { tenantId: string }) {
   useEffect(()=>{ loadAlerts().catch(()=>{}); }, [tenantId]);
 
   async function saveVitals() {
-    const payload:Vitals = {
-      tenant_id: tenantId,
-      animal_id: Number(animalId),
-      reading_date: date,
-      temp_c: temp? Number(temp): null,
+    if (!animalId) return alert("Animal ID is required");
+    const vitals:Vitals = {
+      reading_date: date || new Date().toISOString().slice(0,10),
+      temp_c: temp? u.store("temp_c", Number(temp)): null,
+      heart_rate_bpm: hr? Number(hr): null,
+      respiration_rate_bpm: resp? Number(resp): null,
       rumination_min: rum? Number(rum): null,
       steps: steps? Number(steps): null,
       bcs: bcs? Number(bcs): null
     };
-    await api("logVitals",{ payload });
+    // alert rules are evaluated server-side (see Alert Rules tab)
+    let json:any;
+    try {
+      json = await api("addVital",{ tenant_id:tenantId, animal_id:Number(animalId), vitals }, "/api/vitals");
+    } catch (e:any) { return alert(e.message || "Failed to save vitals"); }
+    const fired = json.data?.alerts?.alerts || [];
+    if (fired.length) alert(fired.map((a:Alert)=>`${a.type}: ${a.message}`).join("\n"));
 
-    // basic rule examples → alerts
-    if (payload.temp_c && payload.temp_c >= 39.5) {
-      await api("createAlert", { payload: {
-        tenant_id: tenantId, animal_id: payload.animal_id,
-        type:"fever", severity:"high", message:`Fever ${payload.temp_c}C`
-      }});
-    }
-    if (payload.rumination_min !== null && payload.rumination_min !== undefined && payload.rumination_min < 350) {
-      await api("createAlert", { payload: {
-        tenant_id: tenantId, animal_id: payload.animal_id,
-        type:"low_rumination", severity:"warn", message:`Rumination low: ${payload.rumination_min} min`
-      }});
-    }
-
-    setAnimalId(""); setDate(""); setTemp(""); setRum(""); setSteps(""); setBcs("");
+    setAnimalId(""); setDate(""); setTemp(""); setHr(""); setResp(""); setRum(""); setSteps(""); setBcs("");
     await loadAlerts();
   }
 
+  // Collar / bolus export (CSV or JSON); re-importing the same file does not duplicate readings
+  async function importSensorFile(file: File) {
+    try {
+      setImportBusy(true); setImportMsg(null);
+      const content = await file.text();
+      const format = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+      const json = await api("import", { tenant_id:tenantId, source:importSource, content, format }, "/api/vitals/import");
+      const d = json.data;
+      const lines = [`Imported ${d.imported} of ${d.total} readings for ${d.animals ?? 0} animals.`];
+      if (d.unmatched_count) lines.push(`${d.unmatched_count} unmatched: ` + d.unmatched.slice(0,10).map((u:any)=>`row ${u.row} (${u.eid || u.tag || "no id"})`).join(", ") + (d.unmatched_count > 10 ? "…" : ""));
+      if (d.invalid_count) lines.push(`${d.invalid_count} invalid: ` + d.invalid.slice(0,5).map((u:any)=>`row ${u.row}: ${u.error}`).join("; "));
+      setImportMsg(lines.join("\n"));
+      await loadAlerts();
+    } catch (e:any) {
+      setImportMsg(`Error: ${e.message || "import failed"}`);
+    } finally {
+      setImportBusy(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
   return (
     <div className="space-y-6">
       <div className="border rounded-xl p-4 bg-white/80">
         <div className="font-semibold mb-2">Log Vitals</div>
-        <div className="grid md:grid-cols-6 gap-2">
+        <div className="grid md:grid-cols-8 gap-2">
           <div><Label>Animal ID</Label><Input value={animalId} onChange={e=>setAnimalId(e.target.value)} /></div>
           <div><Label>Date</Label><Input type="date" value={date} onChange={e=>setDate(e.target.value)} /></div>
-          <div><Label>Temp (°C)</Label><Input type="number" value={temp} onChange={e=>setTemp(e.target.value)} /></div>
+          <div><Label>Temp ({u.label("temp_c")})</Label><Input type="number" value={temp} onChange={e=>setTemp(e.target.value)} /></div>
+          <div><Label>Heart rate (bpm)</Label><Input type="number" value={hr} onChange={e=>setHr(e.target.value)} /></div>
+          <div><Label>Resp. (breaths/min)</Label><Input type="number" value={resp} onChange={e=>setResp(e.target.value)} /></div>
           <div><Label>Rumination (min)</Label><Input type="number" value={rum} onChange={e=>setRum(e.target.value)} /></div>
           <div><Label>Steps</Label><Input type="number" value={steps} onChange={e=>setSteps(e.target.value)} /></div>
           <div><Label>BCS</Label><Input type="number" step="0.1" value={bcs} onChange={e=>setBcs(e.target.value)} /></div>
-          <div className="md:col-span-6"><Button onClick={saveVitals}>Save Vitals</Button></div>
+          <div className="md:col-span-8"><Button onClick={saveVitals}>Save Vitals</Button></div>
         </div>
       </div>
 
+      <div className="border rounded-xl p-4 bg-white/80">
+        <div className="font-semibold mb-2">Import Sensor Export</div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <Label>Device</Label>
+            <select className="border border-slate-300 rounded-xl px-3 py-2" value={importSource} onChange={e=>setImportSource(e.target.value)}>
+              <option value="collar">Rumination collar</option>
+              <option value="bolus">Temperature bolus</option>
+            </select>
+          </div>
+          <input ref={fileRef} type="file" accept=".csv,.json" className="hidden"
+            onChange={e=>{ const f=e.target.files?.[0]; if (f) importSensorFile(f); }} />
+          <Button variant="outline" disabled={importBusy} onClick={()=>fileRef.current?.click()}>
+            {importBusy ? "Importing…" : "Choose CSV / JSON"}
+          </Button>
+        </div>
+        <div className="text-xs text-slate-500 mt-1">Animals are matched by EID, then tag. Needs an EID or tag column plus a date/timestamp column.</div>
+        {importMsg && <pre className="text-xs mt-2 whitespace-pre-wrap">{importMsg}</pre>}
+      </div>
+
       <div className="border rounded-xl p-4 bg-white/80">
         <div className="font-semibold mb-2">Alerts</div>
         <table className="w-full text-sm">
           <thead className="bg-slate-100"><tr>
             <th className="text-left p-2">When</th><th className="text-left p-2">Animal</th>
             <th className="text-left p-2">Type</th><th className="text-left p-2">Severity</th>
-            <th className="text-left p-2">Message</th><th className="text-right p-2">Actions</th>
+            <th className="text-left p-2">Message</th><th className="text-left p-2">Seen</th>
+            <th className="text-right p-2">Actions</th>
           </tr></thead>
           <tbody>
             {alerts.map(a=>(
@@ -92,6 +137,9 @@ export default function HealthMonitor({ tenantId }: { tenantId: string }) {
                 <td className="p-2">{a.type}</td>
                 <td className="p-2">{a.severity}</td>
                 <td className="p-2">{a.message}</td>
+                <td className="p-2" title={a.last_seen_at ? `last ${a.last_seen_at.slice(0,19).replace("T"," ")}` : undefined}>
+                  {(a.occurrences ?? 1) > 1 ? `×${a.occurrences}` : "1"}
+                </td>
                 <td className="p-2 text-right">
                   {!a.resolved_at ? (
                     <Button size="sm" variant="outline"
@@ -102,7 +150,7 @@ export default function HealthMonitor({ tenantId }: { tenantId: string }) {
                 </td>
               </tr>
             ))}
-            {!alerts.length && <tr><td className="p-2" colSpan={6}>No alerts.</td></tr>}
+            {!alerts.length && <tr><td className="p-2" colSpan={7}>No alerts.</td></tr>}
           </tbody>
         </table>
       </div>
@@ -6,22 +6,47 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 
+type Step = { label: string; day: number; product?: string | null; dose?: string | null };
+
 type Protocol = {
   id: number;
   tenant_id: string;
   name: string;
   trigger?: string | null;
-  steps?: string[] | any[]; // stored as JSON array
+  steps?: (Step | string)[]; // stored as JSON array (legacy rows hold plain strings)
   notes?: string | null;
   created_at?: string | null;
 };
 
+const emptyStep = (): Step => ({ label: "", day: 0, product: "", dose: "" });
+
+// Legacy string steps are shown as day-0 steps
+function toSteps(raw: Protocol["steps"]): Step[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((s) => (typeof s === "string" ? { label: s, day: 0 } : { ...s }));
+}
+function cleanSteps(steps: Step[]): Step[] {
+  return steps
+    .map((s) => ({
+      label: s.label.trim(),
+      day: Math.max(0, Number(s.day || 0)),
+      product: s.product?.trim() || null,
+      dose: s.dose?.trim() || null,
+    }))
+    .filter((s) => s.label !== "");
+}
+
 type SortKey = "name" | "trigger" | "steps" | "created_at";
 type SortDir = "asc" | "desc";
 
 export default function HealthProtocols({ tenantId }: { tenantId: string }) {
   const [protocols, setProtocols] = useState<Protocol[]>([]);
-  const [draft, setDraft] = useState({ name: "", trigger: "", steps: "", notes: "" });
+  const [draft, setDraft] = useState<{ name: string; trigger: string; steps: Step[]; notes: string }>({
+    name: "",
+    trigger: "",
+    steps: [emptyStep()],
+    notes: "",
+  });
   const [loading, setLoading] = useState(false);
 
   // sorting
@@ -30,10 +55,10 @@ export default function HealthProtocols({ tenantId }: { tenantId: string }) {
 
   // editing
   const [editingId, setEditingId] = useState<number | null>(null);
-  const [editDraft, setEditDraft] = useState<{ name: string; trigger: string; steps: string; notes: string }>({
+  const [editDraft, setEditDraft] = useState<{ name: string; trigger: string; steps: Step[]; notes: string }>({
     name: "",
     trigger: "",
-    steps: "",
+    steps: [],
     notes: "",
   });
 
@@ -74,7 +99,7 @@ export default function HealthProtocols({ tenantId }: { tenantId: string }) {
       tenant_id: tenantId,
       name: draft.name.trim(),
       trigger: draft.trigger || null,
-      steps: draft.steps ? draft.steps.split(",").map((s) => s.trim()) : [],
+      steps: cleanSteps(draft.steps),
       notes: draft.notes || null,
     };
     try {
@@ -85,7 +110,7 @@ export default function HealthProtocols({ tenantId }: { tenantId: string }) {
       });
       const json = await res.json();
       if (!json.ok) throw new Error(json.error || "Failed to add protocol");
-      setDraft({ name: "", trigger: "", steps: "", notes: "" });
+      setDraft({ name: "", trigger: "", steps: [emptyStep()], notes: "" });
       await loadProtocols();
     } catch (err: any) {
       alert(err.message);
@@ -114,7 +139,7 @@ export default function HealthProtocols({ tenantId }: { tenantId: string }) {
     setEditDraft({
       name: p.name || "",
       trigger: p.trigger || "",
-      steps: Array.isArray(p.steps) ? p.steps.join(", ") : "",
+      steps: toSteps(p.steps),
       notes: p.notes || "",
     });
   }
@@ -122,11 +147,7 @@ export default function HealthProtocols({ tenantId }: { tenantId: string }) {
     setEditingId(null);
   }
   async function saveEdit(id: number) {
-    const stepsArray =
-      editDraft.steps
-        .split(",")
-        .map((s) => s.trim())
-        .filter(Boolean) || [];
+    const stepsArray = cleanSteps(editDraft.steps);
     try {
       const res = await fetch("/api/care", {
         method: "POST",
@@ -207,12 +228,8 @@ export default function HealthProtocols({ tenantId }: { tenantId: string }) {
               />
             </div>
             <div className="md:col-span-2">
-              <Label>Steps (comma-separated)</Label>
-              <Input
-                value={draft.steps}
-                onChange={(e) => setDraft({ ...draft, steps: e.target.value })}
-                placeholder="e.g., Weigh calf, Give 5ml vaccine, Record batch"
-              />
+              <Label>Steps (day offset from assignment start)</Label>
+              <StepsEditor steps={draft.steps} onChange={(steps) => setDraft({ ...draft, steps })} />
             </div>
             <div className="md:col-span-2">
               <Label>Notes</Label>
@@ -290,15 +307,21 @@ export default function HealthProtocols({ tenantId }: { tenantId: string }) {
                     {/* Steps */}
                     <td className="p-2">
                       {isEditing ? (
-                        <Input
-                          value={editDraft.steps}
-                          onChange={(e) => setEditDraft({ ...editDraft, steps: e.target.value })}
-                          placeholder="Comma-separated"
+                        <StepsEditor
+                          steps={editDraft.steps}
+                          onChange={(steps) => setEditDraft({ ...editDraft, steps })}
                         />
-                      ) : Array.isArray(p.steps) ? (
-                        p.steps.length
                       ) : (
-                        0
+                        <ul className="text-xs space-y-0.5">
+                          {toSteps(p.steps).map((st, i) => (
+                            <li key={i}>
+                              <span className="font-mono">d{st.day}</span> {st.label}
+                              {st.product ? ` — ${st.product}` : ""}
+                              {st.dose ? ` (${st.dose})` : ""}
+                            </li>
+                          ))}
+                          {!toSteps(p.steps).length && <li>—</li>}
+                        </ul>
                       )}
                     </td>
 
@@ -363,3 +386,57 @@ export default function HealthProtocols({ tenantId }: { tenantId: string }) {
     </Card>
   );
 }
+
+/* ───────────────── Subcomponents ───────────────── */
+
+function StepsEditor({ steps, onChange }: { steps: Step[]; onChange: (steps: Step[]) => void }) {
+  function patch(i: number, p: Partial<Step>) {
+    onChange(steps.map((s, idx) => (idx === i ? { ...s, ...p } : s)));
+  }
+  return (
+    <div className="space-y-2">
+      {steps.map((st, i) => (
+        <div key={i} className="grid grid-cols-12 gap-2 items-center">
+          <Input
+            className="col-span-2"
+            type="number"
+            min={0}
+            value={st.day}
+            onChange={(e) => patch(i, { day: Number(e.target.value || 0) })}
+            title="Day offset"
+          />
+          <Input
+            className="col-span-4"
+            value={st.label}
+            onChange={(e) => patch(i, { label: e.target.value })}
+            placeholder="Step, e.g. Booster vaccine"
+          />
+          <Input
+            className="col-span-3"
+            value={st.product || ""}
+            onChange={(e) => patch(i, { product: e.target.value })}
+            placeholder="Product"
+          />
+          <Input
+            className="col-span-2"
+            value={st.dose || ""}
+            onChange={(e) => patch(i, { dose: e.target.value })}
+            placeholder="Dose"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="col-span-1"
+            onClick={() => onChange(steps.length > 1 ? steps.filter((_, idx) => idx !== i) : [emptyStep()])}
+            title="Remove step"
+          >
+            ✕
+          </Button>
+        </div>
+      ))}
+      <Button size="sm" variant="outline" onClick={() => onChange([...steps, emptyStep()])}>
+        + Add Step
+      </Button>
+    </div>
+  );
+}
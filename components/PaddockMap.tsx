@@ -0,0 +1,174 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { RestStatus } from "@/lib/grazing";
+import type { ForageStanding } from "@/lib/forage";
+import { polygonsOf, type Boundary, type Position } from "@/lib/geo";
+import type { Units } from "@/lib/units";
+
+export type MapPaddock = {
+  id: number;
+  name: string;
+  boundary?: Boundary | null;
+  rest?: RestStatus | null;
+  standing?: ForageStanding | null;
+  forage_dm_lb_ac?: number | null;
+};
+
+type ColorBy = "rest" | "dm";
+
+const WIDTH = 1000;
+const PAD = 24;
+
+// same meaning as the rest badges in Pasture Maintenance
+const REST_COLORS: { key: string; label: string; color: string }[] = [
+  { key: "grazing", label: "Grazing", color: "#7dd3fc" },
+  { key: "early", label: "Early re-entry", color: "#fca5a5" },
+  { key: "resting", label: "Resting", color: "#fcd34d" },
+  { key: "ready", label: "Rested", color: "#6ee7b7" },
+  { key: "never", label: "Never grazed", color: "#e2e8f0" },
+];
+
+/** Lower bounds (lb DM/ac) of the standing-DM colour steps. */
+const DM_STEPS: { from: number; color: string }[] = [
+  { from: 0, color: "#fef9c3" },
+  { from: 1000, color: "#d9f99d" },
+  { from: 1500, color: "#a3e635" },
+  { from: 2000, color: "#65a30d" },
+  { from: 3000, color: "#3f6212" },
+];
+
+function restKey(rest?: RestStatus | null) {
+  if (!rest || (!rest.last_in && !rest.grazing)) return "never";
+  if (rest.grazing) return rest.early_reentry ? "early" : "grazing";
+  return rest.rest_days != null && (rest.days_rested ?? 0) < rest.rest_days ? "resting" : "ready";
+}
+
+const dmOf = (p: MapPaddock) => p.standing?.dm_lb_ac ?? p.forage_dm_lb_ac ?? null;
+
+function dmColor(dm: number | null) {
+  if (dm === null) return "#e2e8f0";
+  return DM_STEPS.filter((s) => dm >= s.from).pop()!.color;
+}
+
+/**
+ * Paddock boundaries drawn to scale (equirectangular around the farm's mid-latitude, fine at
+ * farm size), filled by rest status or standing DM. Paddocks without a boundary are listed.
+ */
+export default function PaddockMap({
+  paddocks,
+  units: u,
+  selectedId,
+  onSelect,
+}: {
+  paddocks: MapPaddock[];
+  units: Units;
+  selectedId?: number | null;
+  onSelect?: (id: number) => void;
+}) {
+  const [colorBy, setColorBy] = useState<ColorBy>("rest");
+  const mapped = useMemo(() => paddocks.filter((p) => p.boundary), [paddocks]);
+
+  const view = useMemo(() => {
+    const pts = mapped.flatMap((p) => polygonsOf(p.boundary!).flatMap((poly) => poly[0]));
+    if (!pts.length) return null;
+    const lats = pts.map((p) => p[1]);
+    const k = Math.cos(((Math.min(...lats) + Math.max(...lats)) / 2) * (Math.PI / 180));
+    const xs = pts.map((p) => p[0] * k);
+    const minX = Math.min(...xs);
+    const maxY = Math.max(...lats);
+    const spanX = Math.max(...xs) - minX || 1e-6;
+    const spanY = maxY - Math.min(...lats) || 1e-6;
+    const scale = (WIDTH - 2 * PAD) / Math.max(spanX, spanY);
+    const xy = ([lon, lat]: Position) => [PAD + (lon * k - minX) * scale, PAD + (maxY - lat) * scale];
+    const shapes = mapped.map((p) => {
+      const polys = polygonsOf(p.boundary!);
+      const d = polys
+        .flatMap((rings) => rings.map((ring) => "M" + ring.map((pt) => xy(pt).map((n) => n.toFixed(1)).join(",")).join("L") + "Z"))
+        .join(" ");
+      // label at the vertex average of the largest outer ring
+      const outer = polys.map((r) => r[0]).sort((a, b) => b.length - a.length)[0];
+      const c = outer.slice(0, -1).map(xy);
+      return { p, d, cx: c.reduce((s, q) => s + q[0], 0) / c.length, cy: c.reduce((s, q) => s + q[1], 0) / c.length };
+    });
+    return { shapes, height: spanY * scale + 2 * PAD, width: spanX * scale + 2 * PAD };
+  }, [mapped]);
+
+  const fill = (p: MapPaddock) =>
+    colorBy === "rest" ? REST_COLORS.find((c) => c.key === restKey(p.rest))!.color : dmColor(dmOf(p));
+
+  const describe = (p: MapPaddock) => {
+    const r = p.rest;
+    const rest = !r || (!r.last_in && !r.grazing)
+      ? "never grazed"
+      : r.grazing
+      ? `grazing since ${r.last_in}${r.early_reentry ? " (early re-entry)" : ""}`
+      : `rested ${r.days_rested} d${r.rest_days != null ? ` of ${r.rest_days}` : ""}`;
+    return `${p.name}\n${rest}\nDM ${u.fmt("lb_ac", dmOf(p))}${p.standing ? " (measured)" : ""}`;
+  };
+
+  const legend =
+    colorBy === "rest"
+      ? REST_COLORS.map((c) => ({ label: c.label, color: c.color }))
+      : DM_STEPS.map((s, i) => ({
+          label: DM_STEPS[i + 1]
+            ? `${u.num("lb_ac", s.from)}–${u.fmt("lb_ac", DM_STEPS[i + 1].from)}`
+            : `${u.fmt("lb_ac", s.from)}+`,
+          color: s.color,
+        }));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex flex-wrap gap-3 text-xs">
+          {legend.map((l) => (
+            <span key={l.label} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-sm border" style={{ background: l.color }} />
+              {l.label}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <Button size="sm" variant={colorBy === "rest" ? "default" : "outline"} onClick={() => setColorBy("rest")}>Rest</Button>
+          <Button size="sm" variant={colorBy === "dm" ? "default" : "outline"} onClick={() => setColorBy("dm")}>Standing DM</Button>
+        </div>
+      </div>
+
+      {view ? (
+        <svg
+          viewBox={`0 0 ${view.width.toFixed(0)} ${view.height.toFixed(0)}`}
+          className="w-full max-h-[480px] border rounded-xl bg-white"
+        >
+          {view.shapes.map(({ p, d }) => (
+            <path
+              key={p.id}
+              d={d}
+              fill={fill(p)}
+              fillRule="evenodd"
+              stroke={p.id === selectedId ? "#0f172a" : "#475569"}
+              strokeWidth={p.id === selectedId ? 3 : 1.2}
+              className={onSelect ? "cursor-pointer" : ""}
+              onClick={() => onSelect?.(p.id)}
+            >
+              <title>{describe(p)}</title>
+            </path>
+          ))}
+          {view.shapes.map(({ p, cx, cy }) => (
+            <text key={`l${p.id}`} x={cx} y={cy} textAnchor="middle" dominantBaseline="middle" fontSize={14} fill="#0f172a" pointerEvents="none">
+              {p.name}
+            </text>
+          ))}
+        </svg>
+      ) : (
+        <div className="text-sm text-slate-600">No paddock boundaries yet — import a GeoJSON or KML file.</div>
+      )}
+
+      {view && mapped.length < paddocks.length && (
+        <div className="text-xs text-slate-500">
+          Not mapped: {paddocks.filter((p) => !p.boundary).map((p) => p.name).join(", ")}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { todayYmd } from "@/lib/dates";
+
+type MovementRow = {
+  id: number;
+  move_date: string;
+  reason: string | null;
+  from_paddock: { name: string } | null;
+  to_paddock: { name: string } | null;
+};
+
+async function cattleApi(action: string, body?: any) {
+  const res = await fetch("/api/cattle", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, ...(body || {}) }),
+  });
+  const json = await res.json();
+  if (!json.ok) throw new Error(json.error || "Request failed");
+  return json.data;
+}
+
+const selectCls = "border border-slate-300 rounded-xl px-3 py-2 w-full";
+
+/** Paddock history for one animal plus a dated move (back-dated moves re-chain the log). */
+export default function PaddockMovements({
+  tenantId,
+  animalId,
+  paddocks,
+  onMoved,
+}: {
+  tenantId: string;
+  animalId: number;
+  paddocks: { id: number; name: string }[];
+  onMoved?: () => void;
+}) {
+  const [rows, setRows] = useState<MovementRow[]>([]);
+  const [to, setTo] = useState<string>("");
+  const [date, setDate] = useState<string>(todayYmd());
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function load() {
+    try {
+      setRows((await cattleApi("listMovements", { tenant_id: tenantId, animal_id: animalId })) || []);
+    } catch (e: any) {
+      alert(e.message || "Failed to load movements");
+    }
+  }
+
+  useEffect(() => {
+    load().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tenantId, animalId]);
+
+  async function move() {
+    if (!date) return alert("Pick a move date");
+    try {
+      setBusy(true);
+      const res = await cattleApi("moveAnimal", {
+        tenant_id: tenantId,
+        animal_id: animalId,
+        to_paddock_id: to ? Number(to) : null,
+        move_date: date,
+        reason: reason.trim() || null,
+      });
+      if (!res?.moved) alert("Animal is already in that paddock on that date");
+      setReason("");
+      await load();
+      onMoved?.();
+    } catch (e: any) {
+      alert(e.message || "Move failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(id: number) {
+    if (!confirm("Delete this movement? The current paddock is recalculated from the remaining log.")) return;
+    try {
+      await cattleApi("deleteMovement", { tenant_id: tenantId, id });
+      await load();
+      onMoved?.();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete movement");
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid md:grid-cols-4 gap-2">
+        <div>
+          <Label>Move to</Label>
+          <select className={selectCls} value={to} onChange={(e) => setTo(e.target.value)}>
+            <option value="">— off farm —</option>
+            {paddocks.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label>Date</Label>
+          <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        </div>
+        <div>
+          <Label>Reason</Label>
+          <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="rotation, weaning…" />
+        </div>
+        <div className="flex items-end">
+          <Button variant="outline" onClick={move} disabled={busy}>Record Move</Button>
+        </div>
+      </div>
+
+      {rows.length ? (
+        <table className="w-full text-sm">
+          <thead className="bg-slate-100">
+            <tr>
+              <th className="text-left p-2">Date</th>
+              <th className="text-left p-2">From</th>
+              <th className="text-left p-2">To</th>
+              <th className="text-left p-2">Reason</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((m) => (
+              <tr key={m.id} className="border-t">
+                <td className="p-2">{m.move_date}</td>
+                <td className="p-2">{m.from_paddock?.name || "—"}</td>
+                <td className="p-2">{m.to_paddock?.name || "off farm"}</td>
+                <td className="p-2">{m.reason || "—"}</td>
+                <td className="p-2 text-right">
+                  <Button size="sm" variant="destructive" onClick={() => remove(m.id)}>Delete</Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="text-sm text-slate-600">No movements recorded.</div>
+      )}
+    </div>
+  );
+}
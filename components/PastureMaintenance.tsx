@@ -5,6 +5,46 @@ import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { UnitInput, UnitSystemSelect, useUnits } from "@/components/units";
+import PaddockMap from "@/components/PaddockMap";
+import type { Units } from "@/lib/units";
+import { acreageDiffPct, acreageMismatch, boundaryFormatOf, type Boundary } from "@/lib/geo";
+import { daysBetween, todayYmd } from "@/lib/dates";
+import { INFRA_KINDS, infraCategory, type Infrastructure, type PaddockWater } from "@/lib/infrastructure";
+import {
+  CROP_TARGETS,
+  DEFAULT_CROP,
+  MET_PCT,
+  NUTRIENTS,
+  checkApplied,
+  cropTarget,
+  nextTestDate,
+  recommend,
+  type ApplicationStatus,
+  type NutrientKey,
+  type SoilTest,
+} from "@/lib/soil";
+import {
+  APPLICATION_METHODS,
+  PRESET_PRODUCTS,
+  PRODUCT_KINDS,
+  applicationMath,
+  gradeLabel,
+  rateUnitsFor,
+  seasonLedger,
+  type AmendmentProduct,
+  type ApplicationMethod,
+  type RateUnit,
+} from "@/lib/amendments";
+import { seedOrder, toSeedingItems, type SeedMix, type SeedMixItem } from "@/lib/seeding";
+import type { GrazeEvent, RestStatus } from "@/lib/grazing";
+import {
+  DEFAULT_PLATE_CALIBRATION,
+  FORAGE_METHODS,
+  sampleDm,
+  type ForageSample,
+  type ForageStanding,
+} from "@/lib/forage";
 
 /* Types */
 type Paddock = {
@@ -18,6 +58,12 @@ type Paddock = {
   util_pct?: number | null;
   rest_days?: number | null;
   head_count?: number | null;
+  rest?: RestStatus | null;
+  standing?: ForageStanding | null;
+  boundary?: Boundary | null;
+  /** computed from boundary on save */
+  boundary_acres?: number | null;
+  water?: PaddockWater | null;
 };
 type MixItem = { species: string; rate_lb_ac: number };
 type SeedingRow = {
@@ -37,8 +83,22 @@ type AmendmentRow = {
   product: string;
   rate: string | null;
   notes?: string | null;
+  /** catalog product and structured rate; nutrients and cost are then computed by the API */
+  product_id?: number | null;
+  rate_value?: number | null;
+  rate_unit?: RateUnit | null;
+  method?: ApplicationMethod | null;
+  cost_per_ac?: number | null;
+  /** supplied per acre; checked against the soil test recommendation */
+  n_lb_ac?: number | null;
+  p2o5_lb_ac?: number | null;
+  k2o_lb_ac?: number | null;
+  lime_ton_ac?: number | null;
 };
 
+const selectCls = "border border-slate-300 rounded-xl px-3 py-2 w-full";
+const money = (n: number) => new Intl.NumberFormat(undefined, { style: "currency", currency: "USD" }).format(n);
+
 /* API helper */
 async function paddocksApi(action: string, body?: any) {
   const res = await fetch("/api/paddocks", {
@@ -53,14 +113,35 @@ async function paddocksApi(action: string, body?: any) {
   return json.data;
 }
 
+// Seed mixes live behind /api/care
+async function careApi(action: string, body?: any) {
+  const res = await fetch("/api/care", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, ...(body || {}) }),
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+  return json.data;
+}
+
 export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
   const [paddocks, setPaddocks] = useState<Paddock[]>([]);
   const [loadingPads, setLoadingPads] = useState(false);
+  const [asOf, setAsOf] = useState<string>(""); // "" = today
   const [activePad, setActivePad] = useState<Paddock | null>(null);
+  const [grazePad, setGrazePad] = useState<Paddock | null>(null);
+  const [foragePad, setForagePad] = useState<Paddock | null>(null);
+  const [infraPad, setInfraPad] = useState<Paddock | null>(null);
 
   const [seedRows, setSeedRows] = useState<SeedingRow[]>([]);
   const [amendRows, setAmendRows] = useState<AmendmentRow[]>([]);
+  const [products, setProducts] = useState<AmendmentProduct[]>([]);
+  const [seedMixes, setSeedMixes] = useState<SeedMix[]>([]);
+  /** acres being seeded, for the seed order; starts at the paddock's acres */
+  const [seedAcres, setSeedAcres] = useState<number | null>(null);
   const [busyEditor, setBusyEditor] = useState(false);
+  const { units: u } = useUnits(tenantId);
 
   const emptyMixItem: MixItem = { species: "", rate_lb_ac: 0 };
   const [mixDraft, setMixDraft] = useState<SeedingRow>({
@@ -79,6 +160,11 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
     rate: "",
     notes: "",
   });
+  const amendProduct = products.find((p) => p.id === amendDraft.product_id) || null;
+  const amendMath =
+    amendProduct && amendDraft.rate_value != null && amendDraft.rate_unit
+      ? applicationMath(amendProduct, amendDraft.rate_value, amendDraft.rate_unit)
+      : null;
 
   const herdHead = useMemo(
     () => (paddocks || []).reduce((s, p) => s + (Number(p.head_count || 0)), 0),
@@ -88,7 +174,7 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
   async function loadPaddocks() {
     try {
       setLoadingPads(true);
-      const rows: Paddock[] = await paddocksApi("listWithCounts", { tenant_id: tenantId });
+      const rows: Paddock[] = await paddocksApi("listWithCounts", { tenant_id: tenantId, as_of: asOf || undefined });
       setPaddocks(rows || []);
     } catch (e: any) {
       alert(e.message || "Failed to load paddocks");
@@ -100,6 +186,30 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
   useEffect(() => {
     if (!tenantId) return;
     loadPaddocks().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tenantId, asOf]);
+
+  async function loadProducts() {
+    try {
+      setProducts((await paddocksApi("listAmendmentProducts", { tenant_id: tenantId })) || []);
+    } catch (e: any) {
+      alert(e.message || "Failed to load amendment products");
+    }
+  }
+
+  async function loadSeedMixes() {
+    try {
+      setSeedMixes((await careApi("listSeedMixes", { tenant_id: tenantId })) || []);
+    } catch (e: any) {
+      alert(e.message || "Failed to load seed mixes");
+    }
+  }
+
+  useEffect(() => {
+    if (!tenantId) return;
+    loadProducts().catch(() => {});
+    loadSeedMixes().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tenantId]);
 
   async function openPadEditor(p: Paddock) {
@@ -112,6 +222,7 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
       ]);
       setSeedRows(seed || []);
       setAmendRows(amds || []);
+      setSeedAcres(p.acres);
       setMixDraft({
         tenant_id: tenantId,
         paddock_id: p.id,
@@ -140,6 +251,22 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
     setAmendRows([]);
   }
 
+  // Fill the seeding draft from a saved mix; species can still be edited before saving
+  async function pickSeedMix(mixId: number) {
+    const mix = seedMixes.find((m) => m.id === mixId);
+    if (!mix) return;
+    try {
+      const items: SeedMixItem[] = (await careApi("listSeedMixItems", { tenant_id: tenantId, mix_id: mix.id })) || [];
+      setMixDraft({
+        ...mixDraft,
+        mix_name: mix.name,
+        mix_items: items.length ? toSeedingItems(items) : [{ ...emptyMixItem }],
+      });
+    } catch (e: any) {
+      alert(e.message || "Failed to load seed mix");
+    }
+  }
+
   /* Save Seeding — ALWAYS send mix_items array */
     async function saveSeeding() {
     if (!activePad) return;
@@ -195,15 +322,26 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
   /* Save Amendment */
   async function saveAmendment() {
     if (!activePad) return;
-    if (!amendDraft.product?.trim()) return alert("Product is required");
+    if (!amendDraft.product_id && !amendDraft.product?.trim()) return alert("Product is required");
+    if (amendDraft.product_id && amendDraft.rate_value == null) return alert("Rate is required");
     try {
       setBusyEditor(true);
       const payload = {
+        id: amendDraft.id,
         paddock_id: activePad.id,
+        product_id: amendDraft.product_id ?? null,
+        rate_value: amendDraft.rate_value ?? null,
+        rate_unit: amendDraft.rate_unit ?? null,
+        method: amendDraft.method || null,
+        cost_per_ac: amendDraft.cost_per_ac ?? null,
         date_applied: amendDraft.date_applied || null,
         product: (amendDraft.product || "").trim(),
         rate: (amendDraft.rate || "").trim() || null,
         notes: (amendDraft.notes || "").trim() || null,
+        n_lb_ac: amendDraft.n_lb_ac ?? null,
+        p2o5_lb_ac: amendDraft.p2o5_lb_ac ?? null,
+        k2o_lb_ac: amendDraft.k2o_lb_ac ?? null,
+        lime_ton_ac: amendDraft.lime_ton_ac ?? null,
       };
       await paddocksApi("upsertAmendment", { tenant_id: tenantId, payload });
       const amds: AmendmentRow[] = await paddocksApi("listAmendments", { tenant_id: tenantId, paddock_id: activePad.id });
@@ -262,27 +400,42 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Pasture Maintenance — Seeding & Amendments</CardTitle>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle>Pasture Maintenance — Seeding & Amendments</CardTitle>
+          <UnitSystemSelect tenantId={tenantId} />
+        </div>
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Paddock list */}
         <div className="border rounded-xl overflow-hidden">
           <div className="flex items-center justify-between px-3 py-2 bg-slate-50 border-b">
             <div className="text-sm font-medium">
-              Paddocks ({paddocks.length}) • Herd: {herdHead} head
+              Paddocks ({paddocks.length}) • Herd: {herdHead} head{asOf ? ` on ${asOf}` : ""}
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-slate-600">Head as of</label>
+              <input
+                type="date"
+                className="text-sm border rounded-md px-2 py-1"
+                value={asOf}
+                onChange={(e) => setAsOf(e.target.value)}
+                title="Head counts come from the movement log, so any past date is exact"
+              />
+              <Button variant="outline" size="sm" onClick={loadPaddocks} disabled={loadingPads}>
+                {loadingPads ? "Loading…" : "Refresh"}
+              </Button>
             </div>
-            <Button variant="outline" size="sm" onClick={loadPaddocks} disabled={loadingPads}>
-              {loadingPads ? "Loading…" : "Refresh"}
-            </Button>
           </div>
 
           <table className="w-full text-sm">
             <thead className="bg-slate-100">
               <tr>
                 <th className="text-left p-2">Paddock</th>
-                <th className="text-left p-2">Acres</th>
+                <th className="text-left p-2">{u.head("Area", "ac")}</th>
                 <th className="text-left p-2">Zone</th>
                 <th className="text-left p-2">Head</th>
+                <th className="text-left p-2">Rested</th>
+                <th className="text-left p-2">Standing DM</th>
                 <th className="text-left p-2">Notes</th>
                 <th className="text-right p-2 w-64">Actions</th>
               </tr>
@@ -290,8 +443,17 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
             <tbody>
               {paddocks.map((p: Paddock) => (
                 <tr key={p.id} className="border-t">
-                  <td className="p-2 font-medium">{p.name}</td>
-                  <td className="p-2">{p.acres ?? "-"}</td>
+                  <td className="p-2">
+                    <div className="font-medium">{p.name}</div>
+                    <div className={`text-xs ${p.water ? "text-slate-500" : "text-amber-700"}`}>
+                      {p.water
+                        ? `water: ${p.water.points} pt${p.water.points === 1 ? "" : "s"}${p.water.capacity_gal > 0 ? `, ${u.fmt("gal", p.water.capacity_gal)}` : ""}`
+                        : "no water"}
+                    </div>
+                  </td>
+                  <td className="p-2">
+                    <AcreageCell paddock={p} units={u} onUseMapped={() => savePaddockMeta({ ...p, acres: p.boundary_acres ?? p.acres })} />
+                  </td>
                   <td className="p-2">
                     <Input
                       value={p.zone || ""}
@@ -304,6 +466,8 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
                     />
                   </td>
                   <td className="p-2">{p.head_count ?? 0}</td>
+                  <td className="p-2"><RestBadge rest={p.rest} /></td>
+                  <td className="p-2"><StandingCell standing={p.standing} units={u} /></td>
                   <td className="p-2">
                     <Input
                       value={p.notes || ""}
@@ -317,6 +481,15 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
                   </td>
                   <td className="p-2 text-right">
                     <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setGrazePad(p)}>
+                        Grazing Log
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setForagePad(p)}>
+                        Forage
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setInfraPad(p)}>
+                        Infrastructure
+                      </Button>
                       <Button size="sm" variant="outline" onClick={() => openPadEditor(p)}>
                         Edit Seeding & Amendments
                       </Button>
@@ -329,13 +502,56 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
               ))}
               {paddocks.length === 0 && (
                 <tr>
-                  <td className="p-2" colSpan={6}>No paddocks yet.</td>
+                  <td className="p-2" colSpan={8}>No paddocks yet.</td>
                 </tr>
               )}
             </tbody>
           </table>
         </div>
 
+        {/* Boundaries */}
+        <PaddockMapPanel tenantId={tenantId} units={u} paddocks={paddocks} onChanged={loadPaddocks} onOpenLog={setGrazePad} />
+
+        {/* Fertilizer / lime catalog */}
+        <AmendmentProducts tenantId={tenantId} units={u} products={products} onChanged={loadProducts} />
+
+        {/* Seed mix library */}
+        <SeedMixLibrary tenantId={tenantId} units={u} mixes={seedMixes} onChanged={loadSeedMixes} />
+
+        {/* Group move */}
+        <GroupMove tenantId={tenantId} paddocks={paddocks} onMoved={loadPaddocks} />
+
+        {/* Grazing log */}
+        {grazePad && (
+          <GrazeLog
+            tenantId={tenantId}
+            paddock={paddocks.find((p) => p.id === grazePad.id) || grazePad}
+            onChanged={loadPaddocks}
+            onClose={() => setGrazePad(null)}
+          />
+        )}
+
+        {/* Forage measurements */}
+        {foragePad && (
+          <ForageLog
+            tenantId={tenantId}
+            paddock={paddocks.find((p) => p.id === foragePad.id) || foragePad}
+            onChanged={loadPaddocks}
+            onClose={() => setForagePad(null)}
+          />
+        )}
+
+        {/* Water, fences, gates */}
+        {infraPad && (
+          <InfraLog
+            tenantId={tenantId}
+            paddock={paddocks.find((p) => p.id === infraPad.id) || infraPad}
+            paddocks={paddocks}
+            onChanged={loadPaddocks}
+            onClose={() => setInfraPad(null)}
+          />
+        )}
+
         {/* Editor */}
         {activePad && (
           <div className="border rounded-xl p-4 bg-white/80">
@@ -358,7 +574,16 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
                     onChange={(e) => setMixDraft({ ...mixDraft, date_planted: e.target.value })}
                   />
                 </div>
-                <div className="md:col-span-2">
+                <div>
+                  <Label>Saved Mix</Label>
+                  <select className={selectCls} value="" onChange={(e) => e.target.value && pickSeedMix(Number(e.target.value))}>
+                    <option value="">{seedMixes.length ? "Pick a mix…" : "No saved mixes"}</option>
+                    {seedMixes.map((m) => (
+                      <option key={m.id} value={m.id}>{m.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
                   <Label>Mix Name</Label>
                   <Input
                     value={mixDraft.mix_name || ""}
@@ -394,13 +619,14 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
                         />
                       </div>
                       <div className="md:col-span-2">
-                        <Label>Rate (lb/ac)</Label>
-                        <Input
-                          type="number"
+                        <Label>Rate ({u.label("lb_ac")})</Label>
+                        <UnitInput
+                          units={u}
+                          q="lb_ac"
                           value={item.rate_lb_ac}
-                          onChange={(e) => {
+                          onValue={(v) => {
                             const next: MixItem[] = [...(mixDraft.mix_items || [])];
-                            next[idx] = { ...next[idx], rate_lb_ac: Number(e.target.value || 0) };
+                            next[idx] = { ...next[idx], rate_lb_ac: v ?? 0 };
                             setMixDraft({ ...mixDraft, mix_items: next });
                           }}
                         />
@@ -442,6 +668,8 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
                     {busyEditor ? "Saving…" : "Save Seeding"}
                   </Button>
                 </div>
+
+                <SeedOrderTable items={mixDraft.mix_items || []} acres={seedAcres} onAcres={setSeedAcres} units={u} />
               </div>
 
               <div className="mt-3 border rounded-lg overflow-hidden">
@@ -464,7 +692,7 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
                           {Array.isArray(r.mix_items) && r.mix_items.length > 0 ? (
                             <ul className="list-disc ml-4">
                               {r.mix_items.map((it: MixItem, i: number) => (
-                                <li key={i}>{it.species} — {it.rate_lb_ac} lb/ac</li>
+                                <li key={i}>{it.species} — {u.fmt("lb_ac", it.rate_lb_ac, 1)}</li>
                               ))}
                             </ul>
                           ) : "-"}
@@ -497,21 +725,82 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
                     onChange={(e) => setAmendDraft({ ...amendDraft, date_applied: e.target.value })}
                   />
                 </div>
-                <div className="md:col-span-2">
+                <div>
                   <Label>Product</Label>
-                  <Input
-                    value={amendDraft.product || ""}
-                    onChange={(e) => setAmendDraft({ ...amendDraft, product: e.target.value })}
-                    placeholder="e.g., Urea, Lime"
-                  />
+                  <select
+                    className={selectCls}
+                    value={amendDraft.product_id ?? ""}
+                    onChange={(e) => {
+                      const p = products.find((x) => x.id === Number(e.target.value));
+                      setAmendDraft(
+                        p
+                          ? { ...amendDraft, product_id: p.id, product: p.name, rate_unit: rateUnitsFor(p.form)[0] }
+                          : { ...amendDraft, product_id: null, rate_unit: null, rate_value: null }
+                      );
+                    }}
+                  >
+                    <option value="">Other (type it in)</option>
+                    {products.map((p) => (
+                      <option key={p.id} value={p.id}>{p.name} ({gradeLabel(p)})</option>
+                    ))}
+                  </select>
                 </div>
+                {amendProduct ? (
+                  <>
+                    <div>
+                      <Label>Rate</Label>
+                      <div className="flex gap-1">
+                        <UnitInput
+                          units={u}
+                          q={amendDraft.rate_unit || "lb_ac"}
+                          digits={2}
+                          value={amendDraft.rate_value}
+                          onValue={(v) => setAmendDraft({ ...amendDraft, rate_value: v })}
+                        />
+                        <select
+                          className="border border-slate-300 rounded-xl px-2"
+                          value={amendDraft.rate_unit || ""}
+                          onChange={(e) => setAmendDraft({ ...amendDraft, rate_unit: e.target.value as RateUnit })}
+                        >
+                          {rateUnitsFor(amendProduct.form).map((ru) => (
+                            <option key={ru} value={ru}>{u.label(ru)}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div>
+                      <Label>Product Name</Label>
+                      <Input
+                        value={amendDraft.product || ""}
+                        onChange={(e) => setAmendDraft({ ...amendDraft, product: e.target.value })}
+                        placeholder="e.g., Urea, Lime"
+                      />
+                    </div>
+                    <div>
+                      <Label>Rate</Label>
+                      <Input
+                        value={amendDraft.rate || ""}
+                        onChange={(e) => setAmendDraft({ ...amendDraft, rate: e.target.value })}
+                        placeholder="e.g., 200 lb/ac or 2 ton/ac"
+                      />
+                    </div>
+                  </>
+                )}
                 <div>
-                  <Label>Rate</Label>
-                  <Input
-                    value={amendDraft.rate || ""}
-                    onChange={(e) => setAmendDraft({ ...amendDraft, rate: e.target.value })}
-                    placeholder="e.g., 200 lb/ac or 2 ton/ac"
-                  />
+                  <Label>Method</Label>
+                  <select
+                    className={selectCls}
+                    value={amendDraft.method || ""}
+                    onChange={(e) => setAmendDraft({ ...amendDraft, method: (e.target.value || null) as ApplicationMethod | null })}
+                  >
+                    <option value="">—</option>
+                    {APPLICATION_METHODS.map((m) => (
+                      <option key={m.value} value={m.value}>{m.label}</option>
+                    ))}
+                  </select>
                 </div>
                 <div>
                   <Label>Notes</Label>
@@ -522,10 +811,52 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
                     placeholder="optional"
                   />
                 </div>
-                <div className="md:col-span-5">
+                {amendProduct ? (
+                  <div className="md:col-span-5 text-sm text-slate-700">
+                    {amendMath ? (
+                      <>
+                        Supplies{" "}
+                        {NUTRIENTS.filter((n) => Number(amendMath?.[n.key]) > 0)
+                          .map((n) => `${n.label} ${u.fmt(nutrientQ(n.key), amendMath?.[n.key], n.key === "lime_ton_ac" ? 2 : 0)}`)
+                          .join(", ") || "no N-P-K or lime"}
+                        {" • "}
+                        {amendMath.cost_per_ac != null
+                          ? `${money(u.show("per_ac", amendMath.cost_per_ac) ?? 0)}/${u.label("ac")}`
+                          : "no price on the product"}
+                      </>
+                    ) : (
+                      "Enter a rate to see the nutrients supplied."
+                    )}
+                  </div>
+                ) : (
+                  <>
+                    {NUTRIENTS.map((n) => (
+                      <div key={n.key}>
+                        <Label>{n.label} supplied ({u.label(nutrientQ(n.key))})</Label>
+                        <UnitInput
+                          units={u}
+                          q={nutrientQ(n.key)}
+                          digits={n.key === "lime_ton_ac" ? 2 : 0}
+                          value={amendDraft[n.key]}
+                          onValue={(v) => setAmendDraft({ ...amendDraft, [n.key]: v })}
+                        />
+                      </div>
+                    ))}
+                    <div>
+                      <Label>Cost ({u.label("per_ac")})</Label>
+                      <UnitInput units={u} q="per_ac" value={amendDraft.cost_per_ac} onValue={(v) => setAmendDraft({ ...amendDraft, cost_per_ac: v })} />
+                    </div>
+                  </>
+                )}
+                <div className="md:col-span-5 flex gap-2">
                   <Button size="sm" onClick={saveAmendment} disabled={busyEditor}>
-                    {busyEditor ? "Saving…" : "Save Amendment"}
+                    {busyEditor ? "Saving…" : amendDraft.id ? "Update Amendment" : "Save Amendment"}
                   </Button>
+                  {amendDraft.id && (
+                    <Button size="sm" variant="outline" onClick={() => setAmendDraft({ tenant_id: tenantId, paddock_id: activePad.id, date_applied: "", product: "", rate: "", notes: "" })}>
+                      Cancel
+                    </Button>
+                  )}
                 </div>
               </div>
 
@@ -536,8 +867,10 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
                       <th className="text-left p-2">Date</th>
                       <th className="text-left p-2">Product</th>
                       <th className="text-left p-2">Rate</th>
+                      <th className="text-left p-2">Supplied</th>
+                      <th className="text-left p-2">{u.label("per_ac")}</th>
                       <th className="text-left p-2">Notes</th>
-                      <th className="text-right p-2 w-24">Actions</th>
+                      <th className="text-right p-2 w-40">Actions</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -545,25 +878,1577 @@ export default function PastureMaintenance({ tenantId }: { tenantId: string }) {
                       <tr key={r.id} className="border-t">
                         <td className="p-2">{r.date_applied || ""}</td>
                         <td className="p-2">{r.product}</td>
-                        <td className="p-2">{r.rate || ""}</td>
+                        <td className="p-2">
+                          {r.rate_value != null && r.rate_unit ? u.fmt(r.rate_unit, r.rate_value, 2) : r.rate || ""}
+                          {r.method && <div className="text-xs text-slate-500">{APPLICATION_METHODS.find((m) => m.value === r.method)?.label}</div>}
+                        </td>
+                        <td className="p-2">
+                          {NUTRIENTS.filter((n) => r[n.key] != null)
+                            .map((n) => `${n.label} ${u.fmt(nutrientQ(n.key), r[n.key], n.key === "lime_ton_ac" ? 2 : 0)}`)
+                            .join(", ") || "—"}
+                        </td>
+                        <td className="p-2">{r.cost_per_ac != null ? money(u.show("per_ac", r.cost_per_ac) ?? 0) : "—"}</td>
                         <td className="p-2">{r.notes || ""}</td>
                         <td className="p-2 text-right">
-                          <Button size="sm" variant="outline" onClick={() => r.id && deleteAmendment(r.id!)}>
-                            Delete
-                          </Button>
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="outline" onClick={() => setAmendDraft({ ...r, date_applied: r.date_applied || "" })}>
+                              Edit
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => r.id && deleteAmendment(r.id!)}>
+                              Delete
+                            </Button>
+                          </div>
                         </td>
                       </tr>
                     ))}
                     {amendRows.length === 0 && (
-                      <tr><td className="p-2" colSpan={5}>No amendment records yet.</td></tr>
+                      <tr><td className="p-2" colSpan={7}>No amendment records yet.</td></tr>
                     )}
                   </tbody>
                 </table>
               </div>
+
+              <NutrientLedger amendments={amendRows} acres={activePad.acres} units={u} />
             </div>
+
+            {/* Soil tests */}
+            <SoilTests tenantId={tenantId} paddock={activePad} amendments={amendRows} units={u} />
           </div>
         )}
       </CardContent>
     </Card>
   );
 }
+
+/* ───────────────── Subcomponents ───────────────── */
+
+const nutrientQ = (k: NutrientKey) => (k === "lime_ton_ac" ? "ton_ac" : "lb_ac");
+
+const STATUS_STYLE: Record<ApplicationStatus, { label: string; cls: string }> = {
+  not_needed: { label: "not needed", cls: "text-slate-400" },
+  met: { label: "met", cls: "text-emerald-700" },
+  partial: { label: "partial", cls: "text-amber-700" },
+  not_applied: { label: "not applied", cls: "text-red-700" },
+};
+
+// A seeding's mix scaled by the acres seeded into pounds of each species to order
+function SeedOrderTable({
+  items,
+  acres,
+  onAcres,
+  units: u,
+}: {
+  items: MixItem[];
+  acres: number | null;
+  onAcres: (v: number | null) => void;
+  units: Units;
+}) {
+  const order = seedOrder(items, acres);
+  if (!order.lines.length) return null;
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex items-end gap-2">
+        <div className="w-40">
+          <Label>Acres Seeded ({u.label("ac")})</Label>
+          <UnitInput units={u} q="ac" digits={2} value={acres} onValue={onAcres} />
+        </div>
+        <div className="text-sm text-slate-600 pb-2">Seed order</div>
+      </div>
+      <table className="w-full text-sm">
+        <thead className="bg-slate-100">
+          <tr>
+            <th className="text-left p-2">Species</th>
+            <th className="text-left p-2">{u.head("Rate", "lb_ac")}</th>
+            <th className="text-left p-2">{u.head("Order", "lb")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.lines.map((l, i) => (
+            <tr key={i} className="border-t">
+              <td className="p-2">{l.species}</td>
+              <td className="p-2">{u.num("lb_ac", l.rate_lb_ac, 1)}</td>
+              <td className="p-2">{acres ? u.num("lb", l.total_lb, 1) : "—"}</td>
+            </tr>
+          ))}
+          <tr className="border-t font-medium">
+            <td className="p-2">Total</td>
+            <td className="p-2">{u.num("lb_ac", order.rate_lb_ac, 1)}</td>
+            <td className="p-2">{acres ? u.num("lb", order.total_lb, 1) : "Enter acres"}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Tenant-wide saved seed mixes (species and rate per acre) to pick from when recording a seeding
+function SeedMixLibrary({
+  tenantId,
+  units: u,
+  mixes,
+  onChanged,
+}: {
+  tenantId: string;
+  units: Units;
+  mixes: SeedMix[];
+  onChanged: () => void;
+}) {
+  const blankItem = (mix_id: number): SeedMixItem => ({ mix_id, species: "", lbs_per_ac: 0 });
+  const [open, setOpen] = useState(false);
+  const [mixDraft, setMixDraft] = useState<{ id?: number; name: string; notes: string }>({ name: "", notes: "" });
+  const [selected, setSelected] = useState<SeedMix | null>(null);
+  const [items, setItems] = useState<SeedMixItem[]>([]);
+  const [itemDraft, setItemDraft] = useState<SeedMixItem | null>(null);
+
+  async function loadItems(mix: SeedMix) {
+    try {
+      setItems((await careApi("listSeedMixItems", { tenant_id: tenantId, mix_id: mix.id })) || []);
+    } catch (e: any) {
+      alert(e.message || "Failed to load mix species");
+    }
+  }
+
+  function select(mix: SeedMix) {
+    setSelected(mix);
+    setMixDraft({ id: mix.id, name: mix.name, notes: mix.notes || "" });
+    setItemDraft(blankItem(mix.id));
+    loadItems(mix);
+  }
+
+  function clear() {
+    setSelected(null);
+    setMixDraft({ name: "", notes: "" });
+    setItems([]);
+    setItemDraft(null);
+  }
+
+  async function saveMix() {
+    if (!mixDraft.name.trim()) return alert("Mix name is required");
+    try {
+      const saved: SeedMix = await careApi("upsertSeedMix", {
+        tenant_id: tenantId,
+        payload: { id: mixDraft.id, name: mixDraft.name, notes: mixDraft.notes.trim() || null },
+      });
+      onChanged();
+      select(saved);
+    } catch (e: any) {
+      alert(e.message || "Failed to save seed mix");
+    }
+  }
+
+  async function removeMix(mix: SeedMix) {
+    if (!confirm(`Delete seed mix "${mix.name}"? Seedings already recorded keep their species.`)) return;
+    try {
+      await careApi("deleteSeedMix", { tenant_id: tenantId, id: mix.id });
+      if (selected?.id === mix.id) clear();
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete seed mix");
+    }
+  }
+
+  async function saveItem() {
+    if (!selected || !itemDraft) return;
+    if (!itemDraft.species.trim()) return alert("Species is required");
+    if (!(Number(itemDraft.lbs_per_ac) > 0)) return alert("Rate must be more than 0");
+    try {
+      await careApi("upsertSeedMixItem", { tenant_id: tenantId, payload: { ...itemDraft, mix_id: selected.id } });
+      setItemDraft(blankItem(selected.id));
+      await loadItems(selected);
+    } catch (e: any) {
+      alert(e.message || "Failed to save species");
+    }
+  }
+
+  async function removeItem(item: SeedMixItem) {
+    if (!selected || !item.id || !confirm(`Remove ${item.species} from this mix?`)) return;
+    try {
+      await careApi("deleteSeedMixItem", { tenant_id: tenantId, id: item.id });
+      if (itemDraft?.id === item.id) setItemDraft(blankItem(selected.id));
+      await loadItems(selected);
+    } catch (e: any) {
+      alert(e.message || "Failed to remove species");
+    }
+  }
+
+  const totalRate = items.reduce((s, it) => s + Number(it.lbs_per_ac || 0), 0);
+
+  return (
+    <div className="p-3 border rounded-xl bg-white/60 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Seed Mix Library ({mixes.length})</div>
+        <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>{open ? "Hide" : "Edit"}</Button>
+      </div>
+      {open && (
+        <div className="grid md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-100">
+                <tr>
+                  <th className="text-left p-2">Mix</th>
+                  <th className="text-right p-2 w-24">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {mixes.map((m) => (
+                  <tr key={m.id} className={`border-t ${selected?.id === m.id ? "bg-emerald-50" : ""}`}>
+                    <td className="p-2">
+                      <button className="text-left hover:underline" onClick={() => select(m)}>{m.name}</button>
+                      {m.notes && <div className="text-xs text-slate-500">{m.notes}</div>}
+                    </td>
+                    <td className="p-2 text-right">
+                      <Button size="sm" variant="destructive" onClick={() => removeMix(m)}>Delete</Button>
+                    </td>
+                  </tr>
+                ))}
+                {mixes.length === 0 && (
+                  <tr><td className="p-2" colSpan={2}>No saved mixes yet.</td></tr>
+                )}
+              </tbody>
+            </table>
+            <Button size="sm" variant="outline" onClick={clear}>+ New Mix</Button>
+          </div>
+
+          <div className="md:col-span-2 space-y-3">
+            <div className="grid md:grid-cols-3 gap-2">
+              <div>
+                <Label>Mix Name</Label>
+                <Input value={mixDraft.name} onChange={(e) => setMixDraft({ ...mixDraft, name: e.target.value })} placeholder="e.g., Spring Pasture Mix" />
+              </div>
+              <div>
+                <Label>Notes</Label>
+                <Input value={mixDraft.notes} onChange={(e) => setMixDraft({ ...mixDraft, notes: e.target.value })} />
+              </div>
+              <div className="flex items-end">
+                <Button onClick={saveMix}>{mixDraft.id ? "Update Mix" : "Add Mix"}</Button>
+              </div>
+            </div>
+
+            {selected && itemDraft && (
+              <>
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-100">
+                    <tr>
+                      <th className="text-left p-2">Species</th>
+                      <th className="text-left p-2">{u.head("Rate", "lb_ac")}</th>
+                      <th className="text-right p-2 w-40">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.map((it) => (
+                      <tr key={it.id} className="border-t">
+                        <td className="p-2">{it.species}</td>
+                        <td className="p-2">{u.num("lb_ac", it.lbs_per_ac, 1)}</td>
+                        <td className="p-2 text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="outline" onClick={() => setItemDraft(it)}>Edit</Button>
+                            <Button size="sm" variant="outline" onClick={() => removeItem(it)}>Delete</Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                    {items.length > 0 && (
+                      <tr className="border-t font-medium">
+                        <td className="p-2">Total</td>
+                        <td className="p-2">{u.num("lb_ac", totalRate, 1)}</td>
+                        <td />
+                      </tr>
+                    )}
+                    {items.length === 0 && (
+                      <tr><td className="p-2" colSpan={3}>No species in this mix yet.</td></tr>
+                    )}
+                  </tbody>
+                </table>
+
+                <div className="grid md:grid-cols-4 gap-2">
+                  <div className="md:col-span-2">
+                    <Label>Species</Label>
+                    <Input value={itemDraft.species} onChange={(e) => setItemDraft({ ...itemDraft, species: e.target.value })} placeholder="e.g., Orchardgrass" />
+                  </div>
+                  <div>
+                    <Label>Rate ({u.label("lb_ac")})</Label>
+                    <UnitInput units={u} q="lb_ac" digits={1} value={itemDraft.lbs_per_ac} onValue={(v) => setItemDraft({ ...itemDraft, lbs_per_ac: v ?? 0 })} />
+                  </div>
+                  <div className="flex items-end gap-2">
+                    <Button size="sm" onClick={saveItem}>{itemDraft.id ? "Update" : "+ Add Species"}</Button>
+                    {itemDraft.id && (
+                      <Button size="sm" variant="outline" onClick={() => setItemDraft(blankItem(selected.id))}>Cancel</Button>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Per-season N / P2O5 / K2O / lime per acre and what it cost, from the paddock's amendments
+function NutrientLedger({ amendments, acres, units: u }: { amendments: AmendmentRow[]; acres: number | null; units: Units }) {
+  const rows = seasonLedger(amendments, acres);
+  if (!rows.length) return null;
+  return (
+    <div className="mt-3 border rounded-lg overflow-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-100">
+          <tr>
+            <th className="text-left p-2">Season</th>
+            <th className="text-left p-2">Applications</th>
+            <th className="text-left p-2">{u.head("N", "lb_ac")}</th>
+            <th className="text-left p-2">{u.head("P₂O₅", "lb_ac")}</th>
+            <th className="text-left p-2">{u.head("K₂O", "lb_ac")}</th>
+            <th className="text-left p-2">{u.head("Lime", "ton_ac")}</th>
+            <th className="text-left p-2">Cost ({u.label("per_ac")})</th>
+            <th className="text-left p-2">Total Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((s) => (
+            <tr key={s.season} className="border-t">
+              <td className="p-2 font-medium">{s.season}</td>
+              <td className="p-2">{s.applications}</td>
+              <td className="p-2">{u.num("lb_ac", s.n_lb_ac)}</td>
+              <td className="p-2">{u.num("lb_ac", s.p2o5_lb_ac)}</td>
+              <td className="p-2">{u.num("lb_ac", s.k2o_lb_ac)}</td>
+              <td className="p-2">{u.num("ton_ac", s.lime_ton_ac, 2)}</td>
+              <td className="p-2" title={s.unpriced ? `${s.unpriced} application(s) without a cost` : undefined}>
+                {money(u.show("per_ac", s.cost_per_ac) ?? 0)}{s.unpriced ? " +" : ""}
+              </td>
+              <td className="p-2">{s.total_cost === null ? "— (no acres)" : money(s.total_cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Tenant-wide fertilizer / lime products: grade or CCE, liquid weight and price
+function AmendmentProducts({
+  tenantId,
+  units: u,
+  products,
+  onChanged,
+}: {
+  tenantId: string;
+  units: Units;
+  products: AmendmentProduct[];
+  onChanged: () => void;
+}) {
+  const blank = (): AmendmentProduct => ({ name: "", kind: "fertilizer", form: "dry", n_pct: 0, p2o5_pct: 0, k2o_pct: 0, cce_pct: null, lb_per_gal: null, price: null, notes: "" });
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<AmendmentProduct>(blank());
+  const priceQ = draft.form === "liquid" ? "per_gal" : "per_ton";
+
+  function applyPreset(name: string) {
+    const preset = PRESET_PRODUCTS.find((p) => p.name === name);
+    if (preset) setDraft({ ...blank(), ...preset, id: draft.id, price: draft.price });
+  }
+
+  async function save() {
+    try {
+      await paddocksApi("upsertAmendmentProduct", { tenant_id: tenantId, row: draft });
+      setDraft(blank());
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to save product");
+    }
+  }
+
+  async function remove(p: AmendmentProduct) {
+    if (!p.id || !confirm(`Delete "${p.name}"? Past amendments keep their nutrients and cost.`)) return;
+    try {
+      await paddocksApi("deleteAmendmentProduct", { tenant_id: tenantId, id: p.id });
+      if (draft.id === p.id) setDraft(blank());
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete product");
+    }
+  }
+
+  const pct = (key: "n_pct" | "p2o5_pct" | "k2o_pct" | "cce_pct", label: string) => (
+    <div>
+      <Label>{label}</Label>
+      <Input
+        type="number"
+        value={draft[key] ?? ""}
+        onChange={(e) => setDraft({ ...draft, [key]: e.target.value === "" ? (key === "cce_pct" ? null : 0) : Number(e.target.value) })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="p-3 border rounded-xl bg-white/60 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Amendment Products ({products.length})</div>
+        <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>{open ? "Hide" : "Edit"}</Button>
+      </div>
+      {open && (
+        <>
+          <div className="grid md:grid-cols-6 gap-2">
+            <div className="md:col-span-2">
+              <Label>Name</Label>
+              <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Urea 46-0-0" />
+            </div>
+            <div>
+              <Label>Start from preset</Label>
+              <select className={selectCls} value="" onChange={(e) => applyPreset(e.target.value)}>
+                <option value="">—</option>
+                {PRESET_PRODUCTS.map((p) => (
+                  <option key={p.name} value={p.name}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label>Kind</Label>
+              <select className={selectCls} value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value as AmendmentProduct["kind"] })}>
+                {PRODUCT_KINDS.map((k) => (
+                  <option key={k.value} value={k.value}>{k.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label>Form</Label>
+              <select className={selectCls} value={draft.form} onChange={(e) => setDraft({ ...draft, form: e.target.value as AmendmentProduct["form"] })}>
+                <option value="dry">Dry</option>
+                <option value="liquid">Liquid</option>
+              </select>
+            </div>
+            {draft.form === "liquid" && (
+              <div>
+                <Label>Weight (lb/gal)</Label>
+                <Input type="number" step="0.01" value={draft.lb_per_gal ?? ""} onChange={(e) => setDraft({ ...draft, lb_per_gal: e.target.value === "" ? null : Number(e.target.value) })} />
+              </div>
+            )}
+            {pct("n_pct", "N %")}
+            {pct("p2o5_pct", "P₂O₅ %")}
+            {pct("k2o_pct", "K₂O %")}
+            {pct("cce_pct", "CCE % (lime)")}
+            <div>
+              <Label>Price ({u.label(priceQ)})</Label>
+              <UnitInput units={u} q={priceQ} value={draft.price} onValue={(v) => setDraft({ ...draft, price: v })} />
+            </div>
+            <div className="flex items-end gap-2">
+              <Button onClick={save}>{draft.id ? "Update" : "Add"}</Button>
+              {draft.id && <Button variant="outline" onClick={() => setDraft(blank())}>Cancel</Button>}
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead className="bg-slate-100">
+              <tr>
+                <th className="text-left p-2">Product</th>
+                <th className="text-left p-2">Kind</th>
+                <th className="text-left p-2">Analysis</th>
+                <th className="text-left p-2">Price</th>
+                <th className="text-right p-2 w-40">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {products.map((p) => (
+                <tr key={p.id} className="border-t">
+                  <td className="p-2">{p.name}</td>
+                  <td className="p-2">{PRODUCT_KINDS.find((k) => k.value === p.kind)?.label}{p.form === "liquid" ? " (liquid)" : ""}</td>
+                  <td className="p-2">{gradeLabel(p)}</td>
+                  <td className="p-2">
+                    {p.price == null ? "—" : `${money(u.show(p.form === "liquid" ? "per_gal" : "per_ton", p.price) ?? 0)}/${u.label(p.form === "liquid" ? "gal" : "ton")}`}
+                  </td>
+                  <td className="p-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setDraft(p)}>Edit</Button>
+                      <Button size="sm" variant="destructive" onClick={() => remove(p)}>Delete</Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {products.length === 0 && (
+                <tr><td className="p-2" colSpan={5}>No products yet — start from a preset.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Soil tests for one paddock (typed or from a lab CSV), each with its recommendation and what was applied since
+function SoilTests({
+  tenantId,
+  paddock,
+  amendments,
+  units: u,
+}: {
+  tenantId: string;
+  paddock: Paddock;
+  amendments: AmendmentRow[];
+  units: Units;
+}) {
+  const [tests, setTests] = useState<SoilTest[]>([]);
+  const blank = (): Partial<SoilTest> => ({
+    paddock_id: paddock.id,
+    sample_date: todayYmd(),
+    zone: "",
+    crop: tests[0]?.crop || DEFAULT_CROP,
+    lab: "",
+    ph: null,
+    p_ppm: null,
+    k_ppm: null,
+    om_pct: null,
+    cec_meq: null,
+    notes: "",
+  });
+  const [draft, setDraft] = useState<Partial<SoilTest>>({});
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const fileRef = React.useRef<HTMLInputElement>(null);
+
+  async function load() {
+    try {
+      setTests((await paddocksApi("listSoilTests", { tenant_id: tenantId, paddock_id: paddock.id })) || []);
+    } catch (e: any) {
+      alert(e.message || "Failed to load soil tests");
+    }
+  }
+
+  useEffect(() => {
+    setDraft(blank());
+    setMsg(null);
+    load().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tenantId, paddock.id]);
+
+  async function save() {
+    try {
+      setBusy(true);
+      await paddocksApi("upsertSoilTest", { tenant_id: tenantId, row: { ...draft, paddock_id: paddock.id } });
+      setDraft(blank());
+      await load();
+    } catch (e: any) {
+      alert(e.message || "Failed to save soil test");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(id: number) {
+    if (!confirm("Delete this soil test?")) return;
+    try {
+      await paddocksApi("deleteSoilTest", { tenant_id: tenantId, id });
+      await load();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete soil test");
+    }
+  }
+
+  async function importFile(file: File) {
+    try {
+      setBusy(true);
+      setMsg(null);
+      const d = await paddocksApi("importSoilTests", {
+        tenant_id: tenantId,
+        content: await file.text(),
+        paddock_id: paddock.id,
+        crop: draft.crop || DEFAULT_CROP,
+      });
+      setMsg(
+        [
+          `Imported ${d.imported} test${d.imported === 1 ? "" : "s"}`,
+          d.unmatched?.length ? `no paddock named ${d.unmatched.join(", ")}` : null,
+          d.invalid_count ? `${d.invalid_count} invalid row(s): ${d.invalid.slice(0, 3).map((x: any) => `row ${x.row} ${x.error}`).join("; ")}` : null,
+        ].filter(Boolean).join("; ")
+      );
+      await load();
+    } catch (e: any) {
+      alert(e.message || "Soil test import failed");
+    } finally {
+      setBusy(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  const numOrNull = (v: string) => (v === "" ? null : Number(v));
+  const numField = (key: "ph" | "p_ppm" | "k_ppm" | "om_pct" | "cec_meq", label: string, step = "1") => (
+    <div>
+      <Label>{label}</Label>
+      <Input type="number" step={step} value={draft[key] ?? ""} onChange={(e) => setDraft({ ...draft, [key]: numOrNull(e.target.value) })} />
+    </div>
+  );
+  const rate = (k: NutrientKey, v: number) => u.fmt(nutrientQ(k), v, k === "lime_ton_ac" ? 2 : 0);
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="font-medium">Soil Tests & Recommendations</div>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              if (f) importFile(f);
+            }}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={busy}
+            onClick={() => fileRef.current?.click()}
+            title="Rows with a paddock / field column go to that paddock, the rest to this one"
+          >
+            Import Lab CSV
+          </Button>
+        </div>
+      </div>
+      {msg && <div className="text-sm text-slate-700">{msg}</div>}
+
+      <div className="grid md:grid-cols-6 gap-2">
+        <div>
+          <Label>Sample Date</Label>
+          <Input type="date" value={draft.sample_date || ""} onChange={(e) => setDraft({ ...draft, sample_date: e.target.value })} />
+        </div>
+        <div>
+          <Label>Zone (optional)</Label>
+          <Input value={draft.zone || ""} onChange={(e) => setDraft({ ...draft, zone: e.target.value })} placeholder="whole paddock" />
+        </div>
+        <div>
+          <Label>Crop Target</Label>
+          <select className={selectCls} value={draft.crop || DEFAULT_CROP} onChange={(e) => setDraft({ ...draft, crop: e.target.value as SoilTest["crop"] })}>
+            {CROP_TARGETS.map((c) => (
+              <option key={c.value} value={c.value}>{c.label}</option>
+            ))}
+          </select>
+        </div>
+        {numField("ph", "pH", "0.1")}
+        {numField("p_ppm", "P (ppm)")}
+        {numField("k_ppm", "K (ppm)")}
+        {numField("om_pct", "OM (%)", "0.1")}
+        {numField("cec_meq", "CEC (meq/100 g)", "0.1")}
+        <div>
+          <Label>Lab</Label>
+          <Input value={draft.lab || ""} onChange={(e) => setDraft({ ...draft, lab: e.target.value })} />
+        </div>
+        <div>
+          <Label>Notes</Label>
+          <Input value={draft.notes || ""} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+        </div>
+        <div className="md:col-span-2 flex items-end gap-2">
+          <Button size="sm" onClick={save} disabled={busy}>{draft.id ? "Update Test" : "Add Test"}</Button>
+          {draft.id && <Button size="sm" variant="outline" onClick={() => setDraft(blank())}>Cancel</Button>}
+        </div>
+      </div>
+
+      <div className="border rounded-lg overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-100">
+            <tr>
+              <th className="text-left p-2">Date / Zone</th>
+              <th className="text-left p-2">Crop</th>
+              <th className="text-left p-2">pH</th>
+              <th className="text-left p-2">P / K (ppm)</th>
+              <th className="text-left p-2">OM / CEC</th>
+              <th className="text-left p-2">Recommended</th>
+              <th className="text-left p-2">Applied Since</th>
+              <th className="text-right p-2 w-40">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tests.map((t) => {
+              const rec = recommend(t);
+              const check = checkApplied(t, rec, amendments, nextTestDate(t, tests));
+              return (
+                <tr key={t.id} className="border-t align-top">
+                  <td className="p-2">
+                    {t.sample_date}
+                    {t.zone ? <div className="text-xs text-slate-500">zone {t.zone}</div> : null}
+                  </td>
+                  <td className="p-2">{cropTarget(t.crop).label}</td>
+                  <td className="p-2">{t.ph ?? "—"}</td>
+                  <td className="p-2">
+                    {t.p_ppm ?? "—"}{rec.p_level ? ` (${rec.p_level})` : ""} / {t.k_ppm ?? "—"}{rec.k_level ? ` (${rec.k_level})` : ""}
+                  </td>
+                  <td className="p-2">{t.om_pct != null ? `${t.om_pct}%` : "—"} / {t.cec_meq ?? "—"}</td>
+                  <td className="p-2">
+                    {NUTRIENTS.map((n) => (
+                      <div key={n.key}>{n.label} {rec[n.key] > 0 ? rate(n.key, rec[n.key]) : "—"}</div>
+                    ))}
+                  </td>
+                  <td className="p-2" title={`Amendments dated ${check.from} up to ${check.to}`}>
+                    {NUTRIENTS.map((n) => (
+                      <div key={n.key} className={STATUS_STYLE[check.status[n.key]].cls}>
+                        {n.label} {check.status[n.key] === "not_needed" ? "—" : `${rate(n.key, check.applied[n.key])} · ${STATUS_STYLE[check.status[n.key]].label}`}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="p-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setDraft(t)}>Edit</Button>
+                      <Button size="sm" variant="destructive" onClick={() => t.id && remove(t.id)}>Delete</Button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+            {tests.length === 0 && (
+              <tr><td className="p-2" colSpan={8}>No soil tests yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <div className="text-xs text-slate-500">
+        Lime as 100% CCE ag lime. An application counts as met at {MET_PCT}% of the recommendation; amendments without supplied nutrients are not counted.
+      </div>
+    </div>
+  );
+}
+
+// Moves a whole paddock, or a list of tags, in one atomic action (writes movements + grazing events)
+function GroupMove({
+  tenantId,
+  paddocks,
+  onMoved,
+}: {
+  tenantId: string;
+  paddocks: Paddock[];
+  onMoved: () => void;
+}) {
+  const [fromId, setFromId] = useState<string>("");
+  const [tags, setTags] = useState("");
+  const [toId, setToId] = useState<string>("");
+  const [date, setDate] = useState<string>(todayYmd());
+  const [herd, setHerd] = useState("");
+  const [reason, setReason] = useState("");
+  const [preDm, setPreDm] = useState<number | null>(null);
+  const [postDm, setPostDm] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const { units: u } = useUnits(tenantId);
+
+  async function move() {
+    if (!toId) return alert("Pick a destination paddock");
+    if (!fromId && !tags.trim()) return alert("Pick a source paddock or enter tags");
+    try {
+      setBusy(true);
+      setMsg(null);
+      const data = await paddocksApi("moveGroup", {
+        tenant_id: tenantId,
+        from_paddock_id: fromId ? Number(fromId) : null,
+        tags: tags.trim() || null,
+        to_paddock_id: Number(toId),
+        move_date: date,
+        herd: herd.trim() || null,
+        reason: reason.trim() || null,
+        pre_graze_dm_lb_ac: preDm,
+        post_graze_dm_lb_ac: postDm,
+      });
+      const dest = paddocks.find((p) => p.id === Number(toId))?.name || "destination";
+      setMsg(
+        `Moved ${data?.moved ?? 0} head to ${dest} on ${data?.move_date}` +
+          (data?.unknown_tags?.length ? `. Unknown tags: ${data.unknown_tags.join(", ")}` : "") +
+          (data?.off_farm?.length ? `. Not on farm: ${data.off_farm.join(", ")}` : "")
+      );
+      setTags("");
+      onMoved();
+    } catch (e: any) {
+      alert(e.message || "Group move failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="border rounded-xl p-4 bg-white/80 space-y-3">
+      <div className="text-sm font-medium">Move Group</div>
+      <div className="grid md:grid-cols-4 gap-2">
+        <div>
+          <Label>From paddock</Label>
+          <select className={selectCls} value={fromId} onChange={(e) => setFromId(e.target.value)}>
+            <option value="">— tags only —</option>
+            {paddocks.map((p) => (
+              <option key={p.id} value={p.id}>{p.name} ({p.head_count ?? 0} hd)</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-3">
+          <Label>Tags (optional; with a source paddock, only these tags move)</Label>
+          <Input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="101, 102, 115…" />
+        </div>
+        <div>
+          <Label>To paddock</Label>
+          <select className={selectCls} value={toId} onChange={(e) => setToId(e.target.value)}>
+            <option value="">—</option>
+            {paddocks.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label>Date</Label>
+          <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        </div>
+        <div>
+          <Label>Herd</Label>
+          <Input value={herd} onChange={(e) => setHerd(e.target.value)} placeholder="Herd" />
+        </div>
+        <div>
+          <Label>Reason</Label>
+          <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="group move" />
+        </div>
+        <div>
+          <Label>Pre-graze DM ({u.label("lb_ac")}, destination)</Label>
+          <UnitInput units={u} q="lb_ac" digits={0} value={preDm} onValue={setPreDm} />
+        </div>
+        <div>
+          <Label>Post-graze DM ({u.label("lb_ac")}, source)</Label>
+          <UnitInput units={u} q="lb_ac" digits={0} value={postDm} onValue={setPostDm} />
+        </div>
+        <div className="flex items-end md:col-span-2">
+          <Button onClick={move} disabled={busy}>{busy ? "Moving…" : "Move Group"}</Button>
+        </div>
+      </div>
+      {msg && <div className="text-sm text-slate-700">{msg}</div>}
+    </div>
+  );
+}
+
+// Typed acres, flagged when they disagree with the area of the imported boundary
+function AcreageCell({ paddock: p, units: u, onUseMapped }: { paddock: Paddock; units: Units; onUseMapped: () => void }) {
+  const diff = acreageDiffPct(p.acres, p.boundary_acres);
+  return (
+    <div>
+      <div>{p.acres == null ? "-" : u.num("ac", p.acres, 2)}</div>
+      {p.boundary_acres != null && (
+        acreageMismatch(p.acres, p.boundary_acres) || p.acres == null ? (
+          <div className="text-xs text-amber-700" title={diff !== null ? `Typed area is ${diff > 0 ? "+" : ""}${diff}% off the mapped boundary` : "No typed area"}>
+            ⚠ mapped {u.fmt("ac", p.boundary_acres, 2)}{" "}
+            <button className="underline" onClick={onUseMapped}>use</button>
+          </div>
+        ) : (
+          <div className="text-xs text-slate-500">mapped {u.fmt("ac", p.boundary_acres, 2)}</div>
+        )
+      )}
+    </div>
+  );
+}
+
+// Boundary import (GeoJSON / KML, matched by name) and the farm map
+function PaddockMapPanel({
+  tenantId,
+  units: u,
+  paddocks,
+  onChanged,
+  onOpenLog,
+}: {
+  tenantId: string;
+  units: Units;
+  paddocks: Paddock[];
+  onChanged: () => void;
+  onOpenLog: (p: Paddock) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [createMissing, setCreateMissing] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const fileRef = React.useRef<HTMLInputElement>(null);
+  const sel = paddocks.find((p) => p.id === selected) || null;
+  const mapped = paddocks.filter((p) => p.boundary).length;
+
+  async function importFile(file: File) {
+    try {
+      setBusy(true);
+      setMsg(null);
+      const d = await paddocksApi("importBoundaries", {
+        tenant_id: tenantId,
+        content: await file.text(),
+        format: boundaryFormatOf(file.name),
+        create_missing: createMissing,
+      });
+      setMsg(
+        [
+          `Updated ${d.updated} paddock${d.updated === 1 ? "" : "s"}`,
+          d.created?.length ? `created ${d.created.join(", ")}` : null,
+          d.unmatched?.length ? `no paddock named ${d.unmatched.join(", ")}` : null,
+          d.skipped ? `${d.skipped} non-polygon feature${d.skipped === 1 ? "" : "s"} skipped` : null,
+        ].filter(Boolean).join("; ")
+      );
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Boundary import failed");
+    } finally {
+      setBusy(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  async function clearBoundary(p: Paddock) {
+    if (!confirm(`Remove the boundary of "${p.name}"? Its typed acres are kept.`)) return;
+    try {
+      await paddocksApi("setBoundary", { tenant_id: tenantId, id: p.id, boundary: null });
+      setSelected(null);
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to remove boundary");
+    }
+  }
+
+  return (
+    <div className="p-3 border rounded-xl bg-white/60 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Paddock Map ({mapped} of {paddocks.length} mapped)</div>
+        <Button variant="outline" size="sm" onClick={() => setOpen(!open)}>{open ? "Hide" : "Show Map"}</Button>
+      </div>
+      {open && (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".geojson,.json,.kml"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) importFile(f);
+              }}
+            />
+            <Button variant="outline" size="sm" disabled={busy} onClick={() => fileRef.current?.click()}>
+              {busy ? "Importing…" : "Import GeoJSON / KML"}
+            </Button>
+            <label className="text-sm flex items-center gap-1">
+              <input type="checkbox" checked={createMissing} onChange={(e) => setCreateMissing(e.target.checked)} />
+              Create paddocks for unmatched names
+            </label>
+            <span className="text-xs text-slate-500">Polygons are matched to paddocks by feature / placemark name.</span>
+          </div>
+          {msg && <div className="text-sm text-slate-700">{msg}</div>}
+          <PaddockMap paddocks={paddocks} units={u} selectedId={selected} onSelect={setSelected} />
+          {sel && (
+            <div className="flex items-center gap-2 text-sm">
+              <b>{sel.name}</b>
+              {sel.boundary_acres != null && <span>{u.fmt("ac", sel.boundary_acres, 2)} mapped</span>}
+              <Button size="sm" variant="outline" onClick={() => onOpenLog(sel)}>Grazing Log</Button>
+              {sel.boundary && <Button size="sm" variant="destructive" onClick={() => clearBoundary(sel)}>Remove Boundary</Button>}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// Days rested since the paddock was last emptied, against its rest_days target
+function RestBadge({ rest }: { rest?: RestStatus | null }) {
+  if (!rest || (!rest.last_in && !rest.grazing)) return <span className="text-slate-400">never grazed</span>;
+  if (rest.grazing) {
+    return rest.early_reentry ? (
+      <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800" title="Re-entered before its rest target">
+        grazing — early re-entry
+      </span>
+    ) : (
+      <span className="px-2 py-0.5 rounded-full text-xs bg-sky-100 text-sky-800">grazing since {rest.last_in}</span>
+    );
+  }
+  const short = rest.rest_days != null && (rest.days_rested ?? 0) < rest.rest_days;
+  return (
+    <span
+      className={`px-2 py-0.5 rounded-full text-xs ${short ? "bg-amber-100 text-amber-800" : "bg-emerald-100 text-emerald-800"}`}
+      title={rest.ready_on ? `Rest target ${rest.rest_days} d, ready ${rest.ready_on}` : "No rest target set"}
+    >
+      {rest.days_rested} d{rest.rest_days != null ? ` / ${rest.rest_days}` : ""}
+      {short ? ` • ready ${rest.ready_on}` : ""}
+    </span>
+  );
+}
+
+// Graze events for one paddock: add/edit in–out periods, flag entries made before the rest target
+function GrazeLog({
+  tenantId,
+  paddock,
+  onChanged,
+  onClose,
+}: {
+  tenantId: string;
+  paddock: Paddock;
+  onChanged: () => void;
+  onClose: () => void;
+}) {
+  const blank = (): Partial<GrazeEvent> => ({
+    paddock_id: paddock.id,
+    herd: "",
+    in_date: todayYmd(),
+    out_date: "",
+    head_count: null,
+    pre_graze_dm_lb_ac: null,
+    post_graze_dm_lb_ac: null,
+    notes: "",
+  });
+  const [rows, setRows] = useState<GrazeEvent[]>([]);
+  const [draft, setDraft] = useState<Partial<GrazeEvent>>(blank());
+  const [busy, setBusy] = useState(false);
+  const { units: u } = useUnits(tenantId);
+
+  async function load() {
+    try {
+      setRows((await paddocksApi("listGrazeEvents", { tenant_id: tenantId, paddock_id: paddock.id })) || []);
+    } catch (e: any) {
+      alert(e.message || "Failed to load grazing events");
+    }
+  }
+
+  useEffect(() => {
+    setDraft(blank());
+    load().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tenantId, paddock.id]);
+
+  async function save() {
+    if (!draft.in_date) return alert("In date is required");
+    try {
+      setBusy(true);
+      await paddocksApi("upsertGrazeEvent", { tenant_id: tenantId, payload: { ...draft, paddock_id: paddock.id } });
+      setDraft(blank());
+      await load();
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to save grazing event");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(id: number) {
+    if (!confirm("Delete this grazing event?")) return;
+    try {
+      await paddocksApi("deleteGrazeEvent", { tenant_id: tenantId, id });
+      await load();
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete grazing event");
+    }
+  }
+
+  const early = new Set(paddock.rest?.early_event_ids || []);
+  const numOrNull = (v: string) => (v === "" ? null : Number(v));
+
+  return (
+    <div className="border rounded-xl p-4 bg-white/80 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-lg font-semibold">
+          {paddock.name} — Grazing Log
+          <span className="ml-2 text-sm font-normal text-slate-600">
+            rest target {paddock.rest_days ?? "—"} d
+          </span>
+        </div>
+        <Button variant="outline" size="sm" onClick={onClose}>Close</Button>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-2">
+        <div>
+          <Label>Herd</Label>
+          <Input value={draft.herd || ""} onChange={(e) => setDraft({ ...draft, herd: e.target.value })} placeholder="Herd" />
+        </div>
+        <div>
+          <Label>In</Label>
+          <Input type="date" value={draft.in_date || ""} onChange={(e) => setDraft({ ...draft, in_date: e.target.value })} />
+        </div>
+        <div>
+          <Label>Out (blank = still grazing)</Label>
+          <Input type="date" value={draft.out_date || ""} onChange={(e) => setDraft({ ...draft, out_date: e.target.value })} />
+        </div>
+        <div>
+          <Label>Head</Label>
+          <Input type="number" value={draft.head_count ?? ""} onChange={(e) => setDraft({ ...draft, head_count: numOrNull(e.target.value) })} />
+        </div>
+        <div>
+          <Label>{u.head("Pre-graze DM", "lb_ac")}</Label>
+          <UnitInput
+            units={u}
+            q="lb_ac"
+            digits={0}
+            value={draft.pre_graze_dm_lb_ac}
+            onValue={(v) => setDraft({ ...draft, pre_graze_dm_lb_ac: v })}
+          />
+        </div>
+        <div>
+          <Label>{u.head("Post-graze DM", "lb_ac")}</Label>
+          <UnitInput
+            units={u}
+            q="lb_ac"
+            digits={0}
+            value={draft.post_graze_dm_lb_ac}
+            onValue={(v) => setDraft({ ...draft, post_graze_dm_lb_ac: v })}
+          />
+        </div>
+        <div>
+          <Label>Notes</Label>
+          <Input value={draft.notes || ""} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+        </div>
+        <div className="flex items-end gap-2">
+          <Button onClick={save} disabled={busy}>{draft.id ? "Update Event" : "Add Event"}</Button>
+          {draft.id && <Button variant="outline" onClick={() => setDraft(blank())}>Cancel</Button>}
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead className="bg-slate-100">
+          <tr>
+            <th className="text-left p-2">Herd</th>
+            <th className="text-left p-2">In</th>
+            <th className="text-left p-2">Out</th>
+            <th className="text-left p-2">Days</th>
+            <th className="text-left p-2">Head</th>
+            <th className="text-left p-2">{u.head("Pre / Post DM", "lb_ac")}</th>
+            <th className="text-left p-2">Notes</th>
+            <th className="text-right p-2 w-40">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.id} className={`border-t ${r.id && early.has(r.id) ? "bg-red-50" : ""}`}>
+              <td className="p-2">{r.herd}</td>
+              <td className="p-2">
+                {r.in_date}
+                {r.id && early.has(r.id) && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">early re-entry</span>
+                )}
+              </td>
+              <td className="p-2">{r.out_date || "grazing"}</td>
+              <td className="p-2">{r.out_date ? daysBetween(r.in_date, r.out_date) : daysBetween(r.in_date, todayYmd())}</td>
+              <td className="p-2">{r.head_count ?? "—"}</td>
+              <td className="p-2">
+                {u.num("lb_ac", r.pre_graze_dm_lb_ac)} / {u.num("lb_ac", r.post_graze_dm_lb_ac)}
+              </td>
+              <td className="p-2">{r.notes || ""}</td>
+              <td className="p-2 text-right">
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setDraft({ ...r, out_date: r.out_date || "" })}>Edit</Button>
+                  <Button size="sm" variant="destructive" onClick={() => r.id && remove(r.id)}>Delete</Button>
+                </div>
+              </td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr><td className="p-2" colSpan={8}>No grazing events yet.</td></tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Water points, fence segments and gates on one paddock
+function InfraLog({
+  tenantId,
+  paddock,
+  paddocks,
+  onChanged,
+  onClose,
+}: {
+  tenantId: string;
+  paddock: Paddock;
+  paddocks: Paddock[];
+  onChanged: () => void;
+  onClose: () => void;
+}) {
+  const blank = (): Partial<Infrastructure> => ({
+    paddock_id: paddock.id,
+    kind: "trough",
+    name: "",
+    capacity_gal: null,
+    length_ft: null,
+    width_ft: null,
+    to_paddock_id: null,
+    notes: "",
+  });
+  const [rows, setRows] = useState<Infrastructure[]>([]);
+  const [draft, setDraft] = useState<Partial<Infrastructure>>(blank());
+  const [busy, setBusy] = useState(false);
+  const { units: u } = useUnits(tenantId);
+  const category = infraCategory(draft.kind || "");
+
+  async function load() {
+    try {
+      setRows((await paddocksApi("listInfrastructure", { tenant_id: tenantId, paddock_id: paddock.id })) || []);
+    } catch (e: any) {
+      alert(e.message || "Failed to load infrastructure");
+    }
+  }
+
+  useEffect(() => {
+    setDraft(blank());
+    load().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tenantId, paddock.id]);
+
+  async function save() {
+    try {
+      setBusy(true);
+      await paddocksApi("upsertInfrastructure", { tenant_id: tenantId, row: { ...draft, paddock_id: paddock.id } });
+      setDraft(blank());
+      await load();
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to save infrastructure");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(id: number) {
+    if (!confirm("Delete this item?")) return;
+    try {
+      await paddocksApi("deleteInfrastructure", { tenant_id: tenantId, id });
+      await load();
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete infrastructure");
+    }
+  }
+
+  const kindLabel = (k: string) => INFRA_KINDS.find((x) => x.value === k)?.label || k;
+  const padName = (id?: number | null) => paddocks.find((p) => p.id === id)?.name || "—";
+  const measure = (r: Infrastructure) => {
+    const c = infraCategory(r.kind);
+    if (c === "water") return r.capacity_gal != null ? u.fmt("gal", r.capacity_gal) : "capacity unknown";
+    if (c === "fence") return u.fmt("ft", r.length_ft);
+    return `${u.fmt("ft", r.width_ft, 1)} → ${padName(r.to_paddock_id)}`;
+  };
+
+  return (
+    <div className="border rounded-xl p-4 bg-white/80 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-lg font-semibold">{paddock.name} — Infrastructure</div>
+        <Button variant="outline" size="sm" onClick={onClose}>Close</Button>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-2">
+        <div>
+          <Label>Kind</Label>
+          <select
+            className={selectCls}
+            value={draft.kind}
+            onChange={(e) => setDraft({ ...draft, kind: e.target.value as Infrastructure["kind"] })}
+          >
+            {(["water", "fence", "gate"] as const).map((c) => (
+              <optgroup key={c} label={c === "water" ? "Water" : c === "fence" ? "Fences" : "Gates"}>
+                {INFRA_KINDS.filter((k) => k.category === c).map((k) => (
+                  <option key={k.value} value={k.value}>{k.label}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label>Name</Label>
+          <Input value={draft.name || ""} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. North trough" />
+        </div>
+        {category === "water" && (
+          <div>
+            <Label>{u.head("Capacity", "gal")} (blank = unknown)</Label>
+            <UnitInput units={u} q="gal" digits={0} value={draft.capacity_gal} onValue={(v) => setDraft({ ...draft, capacity_gal: v })} />
+          </div>
+        )}
+        {category === "fence" && (
+          <div>
+            <Label>{u.head("Length", "ft")}</Label>
+            <UnitInput units={u} q="ft" digits={0} value={draft.length_ft} onValue={(v) => setDraft({ ...draft, length_ft: v })} />
+          </div>
+        )}
+        {category === "gate" && (
+          <>
+            <div>
+              <Label>{u.head("Width", "ft")}</Label>
+              <UnitInput units={u} q="ft" digits={1} value={draft.width_ft} onValue={(v) => setDraft({ ...draft, width_ft: v })} />
+            </div>
+            <div>
+              <Label>Leads To</Label>
+              <select
+                className={selectCls}
+                value={draft.to_paddock_id ?? ""}
+                onChange={(e) => setDraft({ ...draft, to_paddock_id: e.target.value ? Number(e.target.value) : null })}
+              >
+                <option value="">— lane / outside —</option>
+                {paddocks.filter((p) => p.id !== paddock.id).map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+        <div>
+          <Label>Notes</Label>
+          <Input value={draft.notes || ""} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+        </div>
+        <div className="flex items-end gap-2">
+          <Button onClick={save} disabled={busy}>{draft.id ? "Update" : "Add"}</Button>
+          {draft.id && <Button variant="outline" onClick={() => setDraft(blank())}>Cancel</Button>}
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead className="bg-slate-100">
+          <tr>
+            <th className="text-left p-2">Kind</th>
+            <th className="text-left p-2">Name</th>
+            <th className="text-left p-2">Size</th>
+            <th className="text-left p-2">Notes</th>
+            <th className="text-right p-2 w-40">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.id} className="border-t">
+              <td className="p-2">{kindLabel(r.kind)}</td>
+              <td className="p-2">{r.name || "—"}</td>
+              <td className="p-2">{measure(r)}</td>
+              <td className="p-2">{r.notes || ""}</td>
+              <td className="p-2 text-right">
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setDraft(r)}>Edit</Button>
+                  <Button size="sm" variant="destructive" onClick={() => r.id && remove(r.id)}>Delete</Button>
+                </div>
+              </td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr><td className="p-2" colSpan={5}>No water points, fences or gates yet.</td></tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Latest measurement projected to the as-of date; hover for how it was derived
+function StandingCell({ standing, units: u }: { standing?: ForageStanding | null; units: Units }) {
+  if (!standing) return <span className="text-slate-400">not measured</span>;
+  const how = [
+    `${u.fmt("lb_ac", standing.measured_dm_lb_ac)} measured ${standing.measured_on} (${standing.methods.join(", ")}, ${standing.samples} sample${standing.samples === 1 ? "" : "s"})`,
+    standing.baseline === "post_graze" ? `post-graze reading ${standing.baseline_date}` : null,
+    standing.curve
+      ? `${standing.change_lb_ac >= 0 ? "+" : ""}${u.fmt("lb_ac", standing.change_lb_ac)} over ${standing.days_projected} d on "${standing.curve}"`
+      : "no growth curve — held as measured",
+    standing.stale ? "grazed since without a post-graze reading" : null,
+  ].filter(Boolean).join("\n");
+  return (
+    <span title={how} className={standing.stale ? "text-amber-700" : ""}>
+      {u.fmt("lb_ac", standing.dm_lb_ac)}
+      <span className="ml-1 text-xs text-slate-500">({standing.days_projected} d old{standing.stale ? ", grazed" : ""})</span>
+    </span>
+  );
+}
+
+// Dated forage samples for one paddock: plate meter, clip & weigh or visual; DM is computed on save
+function ForageLog({
+  tenantId,
+  paddock,
+  onChanged,
+  onClose,
+}: {
+  tenantId: string;
+  paddock: Paddock;
+  onChanged: () => void;
+  onClose: () => void;
+}) {
+  const [rows, setRows] = useState<ForageSample[]>([]);
+  const blank = (): Partial<ForageSample> => {
+    // carry the last plate calibration / quadrat size forward so repeat walks need only the readings
+    const lastPlate = rows.find((r) => r.method === "plate");
+    const lastClip = rows.find((r) => r.method === "clip");
+    return {
+      paddock_id: paddock.id,
+      sample_date: todayYmd(),
+      method: rows[0]?.method || "plate",
+      readings: null,
+      plate_clicks: null,
+      calib_slope: lastPlate?.calib_slope ?? DEFAULT_PLATE_CALIBRATION.slope,
+      calib_intercept: lastPlate?.calib_intercept ?? DEFAULT_PLATE_CALIBRATION.intercept,
+      quadrat_area_sqft: lastClip?.quadrat_area_sqft ?? 2.7,
+      dry_weight_g: null,
+      dm_lb_ac: null,
+      notes: "",
+    };
+  };
+  const [draft, setDraft] = useState<Partial<ForageSample>>(blank());
+  const [busy, setBusy] = useState(false);
+  const { units: u } = useUnits(tenantId);
+
+  async function load() {
+    try {
+      const list: ForageSample[] = (await paddocksApi("listForageSamples", { tenant_id: tenantId, paddock_id: paddock.id })) || [];
+      setRows(list);
+      return list;
+    } catch (e: any) {
+      alert(e.message || "Failed to load forage samples");
+      return [];
+    }
+  }
+
+  useEffect(() => {
+    setRows([]);
+    load().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tenantId, paddock.id]);
+
+  // reset the form once the history (and so the last calibration) is known
+  useEffect(() => {
+    if (!draft.id) setDraft(blank());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rows]);
+
+  async function save() {
+    if (!draft.sample_date) return alert("Sample date is required");
+    try {
+      setBusy(true);
+      await paddocksApi("upsertForageSample", { tenant_id: tenantId, payload: { ...draft, paddock_id: paddock.id } });
+      setDraft({ ...draft, id: undefined });
+      await load();
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to save forage sample");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(id: number) {
+    if (!confirm("Delete this forage sample?")) return;
+    try {
+      await paddocksApi("deleteForageSample", { tenant_id: tenantId, id });
+      await load();
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete forage sample");
+    }
+  }
+
+  const numOrNull = (v: string) => (v === "" ? null : Number(v));
+  const preview = sampleDm(draft);
+  const inputs = (r: ForageSample) =>
+    r.method === "plate"
+      ? `${r.plate_clicks} clicks × ${u.num("lb_ac", r.calib_slope, 1)} + ${u.num("lb_ac", r.calib_intercept)}`
+      : r.method === "clip"
+      ? `${r.dry_weight_g} g / ${u.fmt("sqft", r.quadrat_area_sqft, 2)}`
+      : "visual";
+
+  return (
+    <div className="border rounded-xl p-4 bg-white/80 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-lg font-semibold">
+          {paddock.name} — Forage Measurements
+          <span className="ml-2 text-sm font-normal text-slate-600">
+            standing {paddock.standing ? `${u.fmt("lb_ac", paddock.standing.dm_lb_ac)} DM` : "—"}
+          </span>
+        </div>
+        <Button variant="outline" size="sm" onClick={onClose}>Close</Button>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-2">
+        <div>
+          <Label>Date</Label>
+          <Input type="date" value={draft.sample_date || ""} onChange={(e) => setDraft({ ...draft, sample_date: e.target.value })} />
+        </div>
+        <div>
+          <Label>Method</Label>
+          <select
+            className={selectCls}
+            value={draft.method}
+            onChange={(e) => setDraft({ ...draft, method: e.target.value as ForageSample["method"] })}
+          >
+            {FORAGE_METHODS.map((m) => (
+              <option key={m.value} value={m.value}>{m.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label>{draft.method === "clip" ? "Quadrats" : "Readings"}</Label>
+          <Input type="number" value={draft.readings ?? ""} onChange={(e) => setDraft({ ...draft, readings: numOrNull(e.target.value) })} />
+        </div>
+        <div>
+          <Label>Notes</Label>
+          <Input value={draft.notes || ""} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+        </div>
+
+        {draft.method === "plate" && (
+          <>
+            <div>
+              <Label>Mean height (clicks)</Label>
+              <Input type="number" value={draft.plate_clicks ?? ""} onChange={(e) => setDraft({ ...draft, plate_clicks: numOrNull(e.target.value) })} />
+            </div>
+            <div>
+              <Label>Calibration slope ({u.label("lb_ac")} per click)</Label>
+              <UnitInput units={u} q="lb_ac" value={draft.calib_slope} onValue={(v) => setDraft({ ...draft, calib_slope: v })} />
+            </div>
+            <div>
+              <Label>{u.head("Calibration intercept", "lb_ac")}</Label>
+              <UnitInput units={u} q="lb_ac" value={draft.calib_intercept} onValue={(v) => setDraft({ ...draft, calib_intercept: v })} />
+            </div>
+          </>
+        )}
+        {draft.method === "clip" && (
+          <>
+            <div>
+              <Label>{u.head("Quadrat area", "sqft")}</Label>
+              <UnitInput units={u} q="sqft" digits={3} value={draft.quadrat_area_sqft} onValue={(v) => setDraft({ ...draft, quadrat_area_sqft: v })} />
+            </div>
+            <div>
+              <Label>Mean dry weight (g)</Label>
+              <Input type="number" value={draft.dry_weight_g ?? ""} onChange={(e) => setDraft({ ...draft, dry_weight_g: numOrNull(e.target.value) })} />
+            </div>
+          </>
+        )}
+        {draft.method === "visual" && (
+          <div>
+            <Label>{u.head("Estimated DM", "lb_ac")}</Label>
+            <UnitInput units={u} q="lb_ac" digits={0} value={draft.dm_lb_ac} onValue={(v) => setDraft({ ...draft, dm_lb_ac: v })} />
+          </div>
+        )}
+
+        <div className="flex items-end gap-2">
+          <Button onClick={save} disabled={busy}>{draft.id ? "Update Sample" : "Add Sample"}</Button>
+          {draft.id && <Button variant="outline" onClick={() => setDraft(blank())}>Cancel</Button>}
+          <span className="text-sm text-slate-600">{preview != null ? `= ${u.fmt("lb_ac", preview)} DM` : ""}</span>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead className="bg-slate-100">
+          <tr>
+            <th className="text-left p-2">Date</th>
+            <th className="text-left p-2">Method</th>
+            <th className="text-left p-2">Inputs</th>
+            <th className="text-left p-2">Readings</th>
+            <th className="text-left p-2">{u.head("DM", "lb_ac")}</th>
+            <th className="text-left p-2">Notes</th>
+            <th className="text-right p-2 w-40">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.id} className="border-t">
+              <td className="p-2">{r.sample_date}</td>
+              <td className="p-2">{FORAGE_METHODS.find((m) => m.value === r.method)?.label || r.method}</td>
+              <td className="p-2">{inputs(r)}</td>
+              <td className="p-2">{r.readings ?? "—"}</td>
+              <td className="p-2">{u.num("lb_ac", r.dm_lb_ac)}</td>
+              <td className="p-2">{r.notes || ""}</td>
+              <td className="p-2 text-right">
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setDraft({ ...r })}>Edit</Button>
+                  <Button size="sm" variant="destructive" onClick={() => r.id && remove(r.id)}>Delete</Button>
+                </div>
+              </td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr><td className="p-2" colSpan={7}>No forage samples yet.</td></tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
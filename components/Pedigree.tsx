@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { Descendant, MatingCheck, PedigreeNode } from "@/lib/pedigree";
+
+type PedigreeData = {
+  ancestors: PedigreeNode | null;
+  descendants: Descendant[];
+  inbreeding: number;
+};
+
+async function cattleApi(action: string, body?: any) {
+  const res = await fetch("/api/cattle", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, ...(body || {}) }),
+  });
+  const json = await res.json();
+  if (!json.ok) throw new Error(json.error || "Request failed");
+  return json.data;
+}
+
+const pct = (f: number) => `${(f * 100).toFixed(2)}%`;
+
+/** Parent links, a 3-generation pedigree, offspring, and an inbreeding check for planned matings. */
+export default function Pedigree({
+  tenantId,
+  animal,
+}: {
+  tenantId: string;
+  animal: { id: number; tag: string; sex?: string | null };
+}) {
+  const [data, setData] = useState<PedigreeData | null>(null);
+  const [damTag, setDamTag] = useState("");
+  const [sireTag, setSireTag] = useState("");
+  const [mateTag, setMateTag] = useState("");
+  const [mating, setMating] = useState<(MatingCheck & { sire: { tag: string }; dam: { tag: string } }) | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function load() {
+    try {
+      const d: PedigreeData = await cattleApi("getPedigree", { tenant_id: tenantId, animal_id: animal.id, depth: 3 });
+      setData(d);
+      setDamTag(d.ancestors?.dam?.tag || "");
+      setSireTag(d.ancestors?.sire?.tag || "");
+    } catch (e: any) {
+      alert(e.message || "Failed to load pedigree");
+    }
+  }
+
+  useEffect(() => {
+    setMating(null);
+    setMateTag("");
+    load().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tenantId, animal.id]);
+
+  async function saveParents() {
+    try {
+      setBusy(true);
+      await cattleApi("setParents", { tenant_id: tenantId, id: animal.id, dam_tag: damTag.trim(), sire_tag: sireTag.trim() });
+      await load();
+    } catch (e: any) {
+      alert(e.message || "Failed to save parents");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function checkMating() {
+    if (!mateTag.trim()) return alert("Enter the tag of the planned mate");
+    const isSire = String(animal.sex || "").toUpperCase() === "M";
+    try {
+      setBusy(true);
+      setMating(
+        await cattleApi("checkMating", {
+          tenant_id: tenantId,
+          ...(isSire
+            ? { sire_id: animal.id, dam_tag: mateTag.trim() }
+            : { dam_id: animal.id, sire_tag: mateTag.trim() }),
+        })
+      );
+    } catch (e: any) {
+      alert(e.message || "Mating check failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const isMale = String(animal.sex || "").toUpperCase() === "M";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-4 gap-2">
+        <div>
+          <Label>Dam (tag)</Label>
+          <Input value={damTag} onChange={(e) => setDamTag(e.target.value)} placeholder="unknown" />
+        </div>
+        <div>
+          <Label>Sire (tag)</Label>
+          <Input value={sireTag} onChange={(e) => setSireTag(e.target.value)} placeholder="unknown" />
+        </div>
+        <div className="flex items-end">
+          <Button variant="outline" onClick={saveParents} disabled={busy}>Save Parents</Button>
+        </div>
+        <div className="flex items-end text-sm text-slate-600">
+          {data && data.inbreeding > 0 ? <>Inbreeding (F): <b className="ml-1">{pct(data.inbreeding)}</b></> : null}
+        </div>
+      </div>
+
+      {data?.ancestors && (data.ancestors.dam || data.ancestors.sire) ? (
+        <div className="overflow-auto border rounded-lg p-3 bg-white/60">
+          <TreeNode node={data.ancestors} />
+        </div>
+      ) : (
+        <div className="text-sm text-slate-600">No parents recorded.</div>
+      )}
+
+      <div>
+        <div className="text-sm font-medium mb-1">Offspring ({data?.descendants.length ?? 0})</div>
+        {data?.descendants.length ? (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-100">
+              <tr>
+                <th className="text-left p-2">Tag</th>
+                <th className="text-left p-2">Sex</th>
+                <th className="text-left p-2">Born</th>
+                <th className="text-left p-2">Generation</th>
+                <th className="text-left p-2">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.descendants.map((d) => (
+                <tr key={d.id} className="border-t">
+                  <td className="p-2">{d.tag}</td>
+                  <td className="p-2">{d.sex || "—"}</td>
+                  <td className="p-2">{d.birth_date || "—"}</td>
+                  <td className="p-2">{d.generation === 1 ? "calf" : d.generation === 2 ? "grand-calf" : `gen ${d.generation}`}</td>
+                  <td className="p-2">{d.status || "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-sm text-slate-600">None recorded.</div>
+        )}
+      </div>
+
+      <div className="border rounded-lg p-3 bg-white/60">
+        <div className="text-sm font-medium mb-2">Plan a Mating</div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <Label>{isMale ? "Dam (tag)" : "Sire (tag)"}</Label>
+            <Input value={mateTag} onChange={(e) => setMateTag(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={checkMating} disabled={busy}>Check Inbreeding</Button>
+        </div>
+        {mating && (
+          <div
+            className={`mt-2 text-sm rounded-lg px-3 py-2 ${
+              mating.level === "high"
+                ? "bg-red-100 text-red-800"
+                : mating.level === "warn"
+                ? "bg-amber-100 text-amber-800"
+                : "bg-emerald-100 text-emerald-800"
+            }`}
+          >
+            {mating.sire.tag} × {mating.dam.tag}:{" "}
+            {mating.message || `calf inbreeding ${pct(mating.coefficient)} — no close relationship found`}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* ───────────────── Subcomponents ───────────────── */
+
+// Classic left-to-right pedigree: the animal, then sire above dam for each generation
+function TreeNode({ node, role }: { node: PedigreeNode | null; role?: "Sire" | "Dam" }) {
+  return (
+    <div className="flex items-center gap-3">
+      <div
+        className={`min-w-[7rem] border rounded-lg px-2 py-1 text-xs ${
+          role === "Sire" ? "bg-sky-50" : role === "Dam" ? "bg-rose-50" : "bg-white"
+        }`}
+      >
+        {role && <div className="text-[10px] uppercase text-slate-500">{role}</div>}
+        {node ? (
+          <>
+            <div className="font-medium">{node.tag}</div>
+            {node.name && <div className="text-slate-600">{node.name}</div>}
+            {node.birth_date && <div className="text-slate-500">{node.birth_date}</div>}
+          </>
+        ) : (
+          <div className="text-slate-400">unknown</div>
+        )}
+      </div>
+      {node && (node.sire || node.dam) && (
+        <div className="flex flex-col gap-2 border-l pl-3">
+          <TreeNode node={node.sire} role="Sire" />
+          <TreeNode node={node.dam} role="Dam" />
+        </div>
+      )}
+    </div>
+  );
+}
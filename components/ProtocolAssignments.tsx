@@ -0,0 +1,312 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+
+type Scope = "animal" | "paddock" | "herd";
+type AssignmentStatus = "pending" | "in_progress" | "completed" | "skipped";
+
+type ProtocolLite = { id: number; name: string };
+
+type Assignment = {
+  id: number;
+  tenant_id: string;
+  protocol_id: number;
+  animal_id: number;
+  scope: Scope;
+  group_key?: string | null;
+  start_date: string;
+  status: AssignmentStatus;
+  notes?: string | null;
+  protocol?: { name: string } | null;
+  animal?: { tag: string } | null;
+};
+
+type Task = {
+  id: number;
+  assignment_id: number;
+  animal_id: number;
+  step_index: number;
+  label: string;
+  product?: string | null;
+  dose?: string | null;
+  due_date: string;
+  status: "pending" | "completed" | "skipped";
+  animal?: { tag: string } | null;
+  assignment?: { protocol?: { name: string } | null } | null;
+};
+
+const STATUS_STYLES: Record<AssignmentStatus, string> = {
+  pending: "bg-slate-100 text-slate-700",
+  in_progress: "bg-amber-100 text-amber-800",
+  completed: "bg-emerald-100 text-emerald-800",
+  skipped: "bg-slate-200 text-slate-500",
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function ProtocolAssignments({ tenantId }: { tenantId: string }) {
+  const [protocols, setProtocols] = useState<ProtocolLite[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [statusFilter, setStatusFilter] = useState<"" | AssignmentStatus>("");
+  const [busy, setBusy] = useState(false);
+
+  const [draft, setDraft] = useState<{ protocol_id: string; scope: Scope; target: string; start_date: string }>({
+    protocol_id: "",
+    scope: "animal",
+    target: "",
+    start_date: today(),
+  });
+
+  async function api(action: string, body: any) {
+    const res = await fetch("/api/care", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action, tenant_id: tenantId, ...body }),
+    });
+    const json = await res.json();
+    if (!json.ok) throw new Error(json.error || "Request failed");
+    return json.data;
+  }
+
+  async function load() {
+    try {
+      const [ps, as, ts] = await Promise.all([
+        api("listProtocols", {}),
+        api("listProtocolAssignments", { status: statusFilter || undefined }),
+        api("listProtocolTasks", { status: "pending" }),
+      ]);
+      setProtocols(ps || []);
+      setAssignments(as || []);
+      setTasks(ts || []);
+    } catch (e: any) {
+      alert(e.message || "Failed to load treatment plans");
+    }
+  }
+
+  useEffect(() => {
+    load().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tenantId, statusFilter]);
+
+  async function assign() {
+    if (!draft.protocol_id) return alert("Pick a protocol");
+    if (draft.scope !== "herd" && !draft.target.trim()) {
+      return alert(draft.scope === "animal" ? "Animal ID is required" : "Paddock is required");
+    }
+    try {
+      setBusy(true);
+      const res = await api("assignProtocol", {
+        payload: {
+          protocol_id: Number(draft.protocol_id),
+          scope: draft.scope,
+          animal_id: draft.scope === "animal" ? Number(draft.target) : undefined,
+          group_key: draft.scope === "paddock" ? draft.target.trim() : undefined,
+          start_date: draft.start_date || undefined,
+        },
+      });
+      alert(`Assigned to ${res.assignments} animal(s), ${res.tasks} task(s) scheduled`);
+      setDraft({ ...draft, target: "" });
+      await load();
+    } catch (e: any) {
+      alert(e.message || "Failed to assign protocol");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function completeTask(t: Task) {
+    try {
+      await api("completeProtocolTask", { id: t.id, done_date: today() });
+      await load();
+    } catch (e: any) {
+      alert(e.message || "Failed to complete task");
+    }
+  }
+
+  async function skipTask(t: Task) {
+    if (!confirm(`Skip "${t.label}" for ${t.animal?.tag ?? t.animal_id}?`)) return;
+    try {
+      await api("skipProtocolTask", { id: t.id });
+      await load();
+    } catch (e: any) {
+      alert(e.message || "Failed to skip task");
+    }
+  }
+
+  async function setAssignmentStatus(a: Assignment, status: AssignmentStatus) {
+    try {
+      await api("updateProtocolAssignment", { id: a.id, patch: { status } });
+      await load();
+    } catch (e: any) {
+      alert(e.message || "Failed to update assignment");
+    }
+  }
+
+  const overdue = useMemo(() => tasks.filter((t) => t.due_date < today()).length, [tasks]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Treatment Plans</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Assign form */}
+        <div className="border rounded-xl p-3 bg-white/70">
+          <div className="grid md:grid-cols-5 gap-2">
+            <div>
+              <Label>Protocol *</Label>
+              <select
+                className="border border-slate-300 rounded-xl px-3 py-2 w-full"
+                value={draft.protocol_id}
+                onChange={(e) => setDraft({ ...draft, protocol_id: e.target.value })}
+              >
+                <option value="">Select…</option>
+                {protocols.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label>Assign to</Label>
+              <select
+                className="border border-slate-300 rounded-xl px-3 py-2 w-full"
+                value={draft.scope}
+                onChange={(e) => setDraft({ ...draft, scope: e.target.value as Scope, target: "" })}
+              >
+                <option value="animal">Single animal</option>
+                <option value="paddock">Paddock group</option>
+                <option value="herd">Whole herd (active)</option>
+              </select>
+            </div>
+            <div>
+              <Label>{draft.scope === "paddock" ? "Paddock" : "Animal ID"}</Label>
+              <Input
+                value={draft.target}
+                disabled={draft.scope === "herd"}
+                onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+                placeholder={draft.scope === "paddock" ? "e.g., North 40" : draft.scope === "herd" ? "—" : "e.g., 42"}
+              />
+            </div>
+            <div>
+              <Label>Start Date</Label>
+              <Input
+                type="date"
+                value={draft.start_date}
+                onChange={(e) => setDraft({ ...draft, start_date: e.target.value })}
+              />
+            </div>
+            <div className="flex items-end">
+              <Button onClick={assign} disabled={busy}>{busy ? "Assigning…" : "Assign"}</Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Due tasks */}
+        <div className="border rounded-lg bg-white/80">
+          <div className="flex items-center justify-between px-2 py-2 bg-slate-50 border-b">
+            <div className="text-sm font-medium">
+              Open tasks: {tasks.length}
+              {overdue > 0 && <span className="text-red-600"> • {overdue} overdue</span>}
+            </div>
+          </div>
+          <div className="max-h-[360px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-100 sticky top-0">
+                <tr>
+                  <th className="text-left p-2">Due</th>
+                  <th className="text-left p-2">Tag</th>
+                  <th className="text-left p-2">Protocol</th>
+                  <th className="text-left p-2">Step</th>
+                  <th className="text-left p-2">Product / Dose</th>
+                  <th className="text-right p-2 w-40">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tasks.map((t) => (
+                  <tr key={t.id} className="border-t">
+                    <td className={`p-2 ${t.due_date < today() ? "text-red-600 font-medium" : ""}`}>{t.due_date}</td>
+                    <td className="p-2 font-mono">{t.animal?.tag ?? t.animal_id}</td>
+                    <td className="p-2">{t.assignment?.protocol?.name ?? "—"}</td>
+                    <td className="p-2">{t.label}</td>
+                    <td className="p-2">{[t.product, t.dose].filter(Boolean).join(" — ") || "—"}</td>
+                    <td className="p-2 text-right">
+                      <div className="flex gap-2 justify-end">
+                        <Button size="sm" onClick={() => completeTask(t)}>Done</Button>
+                        <Button size="sm" variant="outline" onClick={() => skipTask(t)}>Skip</Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {tasks.length === 0 && (
+                  <tr><td className="p-2 text-center text-slate-500" colSpan={6}>No open tasks.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Assignments */}
+        <div className="border rounded-lg bg-white/80">
+          <div className="flex items-center justify-between px-2 py-2 bg-slate-50 border-b">
+            <div className="text-sm font-medium">Assignments ({assignments.length})</div>
+            <select
+              className="text-sm border rounded-md px-2 py-1"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as "" | AssignmentStatus)}
+            >
+              <option value="">All statuses</option>
+              <option value="pending">Pending</option>
+              <option value="in_progress">In progress</option>
+              <option value="completed">Completed</option>
+              <option value="skipped">Skipped</option>
+            </select>
+          </div>
+          <div className="max-h-[360px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-100 sticky top-0">
+                <tr>
+                  <th className="text-left p-2">Tag</th>
+                  <th className="text-left p-2">Protocol</th>
+                  <th className="text-left p-2">Group</th>
+                  <th className="text-left p-2">Start</th>
+                  <th className="text-left p-2">Status</th>
+                  <th className="text-right p-2 w-28">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {assignments.map((a) => (
+                  <tr key={a.id} className="border-t">
+                    <td className="p-2 font-mono">{a.animal?.tag ?? a.animal_id}</td>
+                    <td className="p-2">{a.protocol?.name ?? a.protocol_id}</td>
+                    <td className="p-2">{a.scope === "animal" ? "—" : a.group_key}</td>
+                    <td className="p-2">{a.start_date}</td>
+                    <td className="p-2">
+                      <span className={`inline-block px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[a.status]}`}>
+                        {a.status.replace("_", " ")}
+                      </span>
+                    </td>
+                    <td className="p-2 text-right">
+                      {(a.status === "pending" || a.status === "in_progress") && (
+                        <Button size="sm" variant="outline" onClick={() => setAssignmentStatus(a, "skipped")}>
+                          Skip
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {assignments.length === 0 && (
+                  <tr><td className="p-2 text-center text-slate-500" colSpan={6}>No assignments yet.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
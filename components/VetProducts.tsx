@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+
+type VetProduct = {
+  id?: number;
+  tenant_id?: string;
+  name: string;
+  active_ingredient?: string | null;
+  meat_withdrawal_days: number;
+  milk_withdrawal_days: number;
+  notes?: string | null;
+};
+
+const emptyDraft: VetProduct = {
+  name: "",
+  active_ingredient: "",
+  meat_withdrawal_days: 0,
+  milk_withdrawal_days: 0,
+  notes: "",
+};
+
+async function cattleApi(action: string, body?: any) {
+  const res = await fetch("/api/cattle", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, ...(body || {}) }),
+  });
+  const json = await res.json();
+  if (!json.ok) throw new Error(json.error || "Request failed");
+  return json.data;
+}
+
+/** Product catalog with meat/milk withdrawal days, used by treatments and sendToProcessing. */
+export default function VetProducts({ tenantId }: { tenantId: string }) {
+  const [rows, setRows] = useState<VetProduct[]>([]);
+  const [draft, setDraft] = useState<VetProduct>(emptyDraft);
+  const [busy, setBusy] = useState(false);
+
+  async function load() {
+    try {
+      setRows((await cattleApi("listVetProducts", { tenant_id: tenantId })) || []);
+    } catch (e: any) {
+      alert(e.message || "Failed to load products");
+    }
+  }
+
+  useEffect(() => {
+    load().catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tenantId]);
+
+  async function save() {
+    if (!draft.name.trim()) return alert("Product name is required");
+    try {
+      setBusy(true);
+      await cattleApi("upsertVetProduct", {
+        tenant_id: tenantId,
+        payload: {
+          id: draft.id,
+          name: draft.name.trim(),
+          active_ingredient: draft.active_ingredient?.trim() || null,
+          meat_withdrawal_days: Number(draft.meat_withdrawal_days || 0),
+          milk_withdrawal_days: Number(draft.milk_withdrawal_days || 0),
+          notes: draft.notes?.trim() || null,
+        },
+      });
+      setDraft(emptyDraft);
+      await load();
+    } catch (e: any) {
+      alert(e.message || "Failed to save product");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(p: VetProduct) {
+    if (!p.id || !confirm(`Delete ${p.name}? Existing treatments keep their clear dates.`)) return;
+    try {
+      await cattleApi("deleteVetProduct", { tenant_id: tenantId, id: p.id });
+      await load();
+    } catch (e: any) {
+      alert(e.message || "Failed to delete product");
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Products & Withdrawal Periods</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="border rounded-xl p-3 bg-white/70">
+          <div className="grid md:grid-cols-6 gap-2">
+            <div className="md:col-span-2">
+              <Label>Product *</Label>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g., LA-200"
+              />
+            </div>
+            <div>
+              <Label>Active Ingredient</Label>
+              <Input
+                value={draft.active_ingredient || ""}
+                onChange={(e) => setDraft({ ...draft, active_ingredient: e.target.value })}
+                placeholder="oxytetracycline"
+              />
+            </div>
+            <div>
+              <Label>Meat WD (days)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={draft.meat_withdrawal_days}
+                onChange={(e) => setDraft({ ...draft, meat_withdrawal_days: Number(e.target.value || 0) })}
+              />
+            </div>
+            <div>
+              <Label>Milk WD (days)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={draft.milk_withdrawal_days}
+                onChange={(e) => setDraft({ ...draft, milk_withdrawal_days: Number(e.target.value || 0) })}
+              />
+            </div>
+            <div className="flex items-end gap-2">
+              <Button onClick={save} disabled={busy}>{draft.id ? "Update" : "Add"}</Button>
+              {draft.id && (
+                <Button variant="outline" onClick={() => setDraft(emptyDraft)}>Cancel</Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="overflow-auto border rounded-lg bg-white/80">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-100">
+              <tr>
+                <th className="text-left p-2">Product</th>
+                <th className="text-left p-2">Ingredient</th>
+                <th className="text-left p-2">Meat WD</th>
+                <th className="text-left p-2">Milk WD</th>
+                <th className="text-right p-2 w-40">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((p) => (
+                <tr key={p.id} className="border-t">
+                  <td className="p-2 font-medium">{p.name}</td>
+                  <td className="p-2">{p.active_ingredient || "—"}</td>
+                  <td className="p-2">{p.meat_withdrawal_days} d</td>
+                  <td className="p-2">{p.milk_withdrawal_days} d</td>
+                  <td className="p-2 text-right">
+                    <div className="flex gap-2 justify-end">
+                      <Button size="sm" variant="outline" onClick={() => setDraft({ ...p })}>Edit</Button>
+                      <Button size="sm" variant="destructive" onClick={() => remove(p)}>Delete</Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr><td className="p-2 text-center text-slate-500" colSpan={5}>No products in the catalog yet.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
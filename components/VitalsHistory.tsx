@@ -0,0 +1,276 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { addDays, todayYmd } from "@/lib/dates";
+import { NORMAL_RANGES, VITAL_FIELDS } from "@/lib/vitals";
+import { useUnits } from "@/components/units";
+import type { Quantity, Units } from "@/lib/units";
+
+type WeightPoint = { weigh_date: string; weight_lb: number };
+type TreatmentPoint = { treat_date: string };
+type VitalsPoint = {
+  reading_date: string;
+  temp_c: number | null;
+  rumination_min: number | null;
+  steps: number | null;
+  bcs: number | null;
+};
+type AlertPoint = { id: number; detected_at: string };
+
+type Series = "weight_lb" | "temp_c" | "rumination_min" | "steps" | "bcs";
+
+/** q: series shown in the tenant's units (unit is then only the stored one) */
+const SERIES: { key: Series; label: string; unit: string; q?: Quantity; color: string }[] = [
+  { key: "weight_lb", label: "Weight", unit: "lb", q: "lb", color: "#0f766e" },
+  { key: "temp_c", label: VITAL_FIELDS.temp_c.label, unit: VITAL_FIELDS.temp_c.unit, q: "temp_c", color: "#dc2626" },
+  { key: "rumination_min", label: VITAL_FIELDS.rumination_min.label, unit: VITAL_FIELDS.rumination_min.unit, color: "#7c3aed" },
+  { key: "steps", label: VITAL_FIELDS.steps.label, unit: VITAL_FIELDS.steps.unit, color: "#2563eb" },
+  { key: "bcs", label: VITAL_FIELDS.bcs.label, unit: VITAL_FIELDS.bcs.unit, color: "#ca8a04" },
+];
+
+const RANGES = [
+  { days: 30, label: "30 d" },
+  { days: 90, label: "90 d" },
+  { days: 365, label: "1 y" },
+  { days: 0, label: "All" },
+];
+
+const ts = (ymd: string) => Date.parse(`${ymd.slice(0, 10)}T00:00:00Z`);
+const fmtDate = (t: number) => new Date(t).toISOString().slice(5, 10);
+
+/** Daily averages of one metric, as [{ t, value }] sorted by date. */
+function daily(points: { date: string; value: number | null }[], from: string) {
+  const acc = new Map<string, { sum: number; n: number }>();
+  for (const p of points) {
+    if (p.value === null || p.value === undefined || !Number.isFinite(Number(p.value))) continue;
+    const d = p.date.slice(0, 10);
+    if (from && d < from) continue;
+    const a = acc.get(d) || { sum: 0, n: 0 };
+    a.sum += Number(p.value);
+    a.n += 1;
+    acc.set(d, a);
+  }
+  return Array.from(acc.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([d, a]) => ({ t: ts(d), date: d, value: Math.round((a.sum / a.n) * 100) / 100 }));
+}
+
+/** Time-series charts for one animal with normal-range shading and treatment/alert markers. */
+export default function VitalsHistory({
+  tenantId,
+  animalId,
+  weights,
+  treatments,
+}: {
+  tenantId: string;
+  animalId: number;
+  weights: WeightPoint[];
+  treatments: TreatmentPoint[];
+}) {
+  const [vitals, setVitals] = useState<VitalsPoint[]>([]);
+  const [alerts, setAlerts] = useState<AlertPoint[]>([]);
+  const [rangeDays, setRangeDays] = useState(90);
+  const { units: u } = useUnits(tenantId);
+
+  useEffect(() => {
+    let cancelled = false;
+    const post = (path: string, body: any) =>
+      fetch(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tenant_id: tenantId, animal_id: animalId, ...body }),
+      }).then((r) => r.json());
+
+    Promise.all([
+      post("/api/vitals", { action: "listVitals", limit: 1000 }),
+      post("/api/care", { action: "listAlerts" }),
+    ])
+      .then(([v, a]) => {
+        if (cancelled) return;
+        setVitals(v?.ok ? v.data || [] : []);
+        setAlerts(a?.ok ? a.data || [] : []);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [tenantId, animalId]);
+
+  const from = rangeDays ? addDays(todayYmd(), -rangeDays) : "";
+
+  const data = useMemo(() => {
+    const out = {} as Record<Series, { t: number; date: string; value: number }[]>;
+    out.weight_lb = daily(weights.map((w) => ({ date: w.weigh_date, value: u.show("lb", w.weight_lb) })), from);
+    out.temp_c = daily(vitals.map((v) => ({ date: v.reading_date, value: u.show("temp_c", v.temp_c) })), from);
+    for (const k of ["rumination_min", "steps", "bcs"] as const) {
+      out[k] = daily(vitals.map((v) => ({ date: v.reading_date, value: v[k] })), from);
+    }
+    return out;
+  }, [weights, vitals, from, u]);
+
+  const treatMarks = useMemo(
+    () =>
+      treatments
+        .filter((t) => t.treat_date && (!from || t.treat_date >= from))
+        .map((t) => ts(t.treat_date)),
+    [treatments, from]
+  );
+  const alertMarks = useMemo(
+    () =>
+      alerts
+        .filter((a) => a.detected_at && (!from || a.detected_at.slice(0, 10) >= from))
+        .map((a) => ts(a.detected_at)),
+    [alerts, from]
+  );
+
+  const hasAny = SERIES.some((s) => data[s.key].length > 0);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <div className="font-medium">History</div>
+        <div className="flex gap-1 ml-auto">
+          {RANGES.map((r) => (
+            <Button
+              key={r.days}
+              size="sm"
+              variant={rangeDays === r.days ? "default" : "outline"}
+              onClick={() => setRangeDays(r.days)}
+            >
+              {r.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+      {!hasAny ? (
+        <div className="text-sm text-slate-600">No weights or vitals recorded in this range.</div>
+      ) : (
+        <>
+          <div className="grid md:grid-cols-2 gap-3">
+            {SERIES.filter((s) => data[s.key].length > 0).map((s) => (
+              <SeriesChart
+                key={s.key}
+                series={s.q ? { ...s, unit: u.label(s.q) } : s}
+                units={u}
+                points={data[s.key]}
+                treatMarks={treatMarks}
+                alertMarks={alertMarks}
+              />
+            ))}
+          </div>
+          <div className="text-xs text-slate-600 mt-2 flex flex-wrap gap-4">
+            <span><span className="inline-block w-3 h-3 align-middle bg-emerald-100 border border-emerald-300 mr-1" />normal range</span>
+            <span><span className="inline-block w-3 border-t-2 border-dashed border-blue-600 align-middle mr-1" />treatment</span>
+            <span><span className="inline-block w-3 border-t-2 border-red-600 align-middle mr-1" />alert</span>
+            <span>Steps are shaded ±1 SD around this animal’s own mean.</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/* ───────────────── Subcomponents ───────────────── */
+
+function SeriesChart({
+  series,
+  units: u,
+  points,
+  treatMarks,
+  alertMarks,
+}: {
+  series: (typeof SERIES)[number];
+  units: Units;
+  points: { t: number; date: string; value: number }[];
+  treatMarks: number[];
+  alertMarks: number[];
+}) {
+  const band = useMemo(() => {
+    if (series.key === "steps") {
+      const vals = points.map((p) => p.value);
+      const mean = vals.reduce((a, b) => a + b, 0) / vals.length;
+      const sd = Math.sqrt(vals.reduce((a, b) => a + (b - mean) ** 2, 0) / vals.length);
+      return vals.length >= 3 ? { low: Math.max(0, mean - sd), high: mean + sd } : null;
+    }
+    if (series.key === "weight_lb") return null;
+    const range = NORMAL_RANGES[series.key];
+    return range && series.q ? { low: u.show(series.q, range.low)!, high: u.show(series.q, range.high)! } : range ?? null;
+  }, [series.key, series.q, points, u]);
+
+  // a single reading still gets a one-day-wide axis
+  const minT = points[0].t;
+  const maxT = Math.max(points[points.length - 1].t, minT + 86400000);
+  const inDomain = (t: number) => t >= minT && t <= maxT;
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="border rounded-lg p-2 bg-white/60">
+      <div className="text-sm font-semibold mb-1">
+        {series.label}{" "}
+        <span className="font-normal text-slate-600">
+          latest {latest.value} {series.unit} ({latest.date})
+        </span>
+      </div>
+      <div className="h-44">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={points} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis
+              dataKey="t"
+              type="number"
+              scale="time"
+              domain={[minT, maxT]}
+              tickFormatter={fmtDate}
+              fontSize={11}
+            />
+            <YAxis domain={["auto", "auto"]} width={44} fontSize={11} />
+            <Tooltip
+              labelFormatter={(t) => new Date(Number(t)).toISOString().slice(0, 10)}
+              formatter={(v: any) => [`${v} ${series.unit}`, series.label]}
+            />
+            {band && (
+              <ReferenceArea y1={band.low} y2={band.high} fill="#10b981" fillOpacity={0.12} ifOverflow="extendDomain" />
+            )}
+            {treatMarks.filter(inDomain).map((t, i) => (
+              <ReferenceLine
+                key={`t${i}`}
+                x={t}
+                stroke="#2563eb"
+                strokeDasharray="4 3"
+                label={{ value: "Rx", position: "insideTopLeft", fontSize: 10, fill: "#2563eb" }}
+              />
+            ))}
+            {alertMarks.filter(inDomain).map((t, i) => (
+              <ReferenceLine
+                key={`a${i}`}
+                x={t}
+                stroke="#dc2626"
+                label={{ value: "!", position: "insideTopRight", fontSize: 11, fill: "#dc2626" }}
+              />
+            ))}
+            <Line
+              type="monotone"
+              dataKey="value"
+              stroke={series.color}
+              strokeWidth={2}
+              dot={points.length <= 60}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -17,7 +17,7 @@ export type Paddock = {
   tenant_id: string;
   name: string;
   acres: number | null;
-  head_count: number; // from view agriops_paddocks_with_counts
+  head_count: number; // derived from agriops_cattle_movements (see listWithCounts)
 };
 
 // ---------- helpers ----------
@@ -46,7 +46,8 @@ async function api<T = unknown>(action: string, body: any): Promise<T> {
 }
 
 // ---------- hook ----------
-export function usePaddocks(inputTenantId?: string) {
+/** asOf (YYYY-MM-DD) gives head counts on a past or future date; default today. */
+export function usePaddocks(inputTenantId?: string, asOf?: string) {
   const tenantId = useMemo(() => inputTenantId || resolveTenantId(), [inputTenantId]);
 
   const [paddocks, setPaddocks] = useState<Paddock[]>([]);
@@ -66,7 +67,7 @@ export function usePaddocks(inputTenantId?: string) {
     setLoading(true);
     setError(null);
     try {
-      const data = await api<Paddock[]>("listWithCounts", { tenant_id: tenantId });
+      const data = await api<Paddock[]>("listWithCounts", { tenant_id: tenantId, as_of: asOf || undefined });
       setPaddocks(data ?? []);
     } catch (e: any) {
       setError(e.message || "Failed to load paddocks");
@@ -88,9 +89,9 @@ export function usePaddocks(inputTenantId?: string) {
   useEffect(() => {
     load().catch(() => {});
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [tenantId]);
+  }, [tenantId, asOf]);
 
-  // realtime: paddocks & cattle changes both affect listWithCounts
+  // realtime: paddocks, cattle & movement changes all affect listWithCounts
   useEffect(() => {
     if (!supabase || !tenantId) return;
 
@@ -118,6 +119,17 @@ export function usePaddocks(inputTenantId?: string) {
         .subscribe()
     );
 
+    chans.push(
+      supabase
+        .channel(`movements-${tenantId}`)
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "agriops_cattle_movements", filter: `tenant_id=eq.${tenantId}` },
+          debouncedRefresh
+        )
+        .subscribe()
+    );
+
     return () => {
       chans.forEach((ch) => {
         try { supabase!.removeChannel(ch); } catch {}
@@ -125,7 +137,7 @@ export function usePaddocks(inputTenantId?: string) {
       if (refreshTimer.current) window.clearTimeout(refreshTimer.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [tenantId]);
+  }, [tenantId, asOf]);
 
   return {
     tenantId,
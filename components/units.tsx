@@ -0,0 +1,136 @@
+// components/units.tsx
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { DEFAULT_UNIT_SYSTEM, UNIT_SYSTEMS, isUnitSystem, unitsFor, type Quantity, type UnitSystem, type Units } from "@/lib/units";
+
+/* Tenant unit preference, shared by every component on the page (one fetch per tenant). */
+const known = new Map<string, UnitSystem>();
+const pending = new Map<string, Promise<UnitSystem>>();
+const listeners = new Set<(tenantId: string, system: UnitSystem) => void>();
+
+async function settingsApi(action: string, body?: any) {
+  const res = await fetch("/api/settings", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, ...(body || {}) }),
+  });
+  const raw = await res.text();
+  let json: any = null;
+  try { json = raw ? JSON.parse(raw) : null; } catch {}
+  if (!res.ok || !json?.ok) throw new Error(json?.error || `HTTP ${res.status}: ${raw?.slice(0,120)}`);
+  return json.data;
+}
+
+function fetchSystem(tenantId: string): Promise<UnitSystem> {
+  if (!pending.has(tenantId)) {
+    pending.set(
+      tenantId,
+      settingsApi("getSettings", { tenant_id: tenantId })
+        .then((d) => (isUnitSystem(d?.unit_system) ? d.unit_system : DEFAULT_UNIT_SYSTEM))
+        .catch(() => DEFAULT_UNIT_SYSTEM)
+        .then((s) => {
+          known.set(tenantId, s);
+          return s;
+        })
+    );
+  }
+  return pending.get(tenantId)!;
+}
+
+/** The tenant's display units plus a setter that saves the preference for everyone on the tenant. */
+export function useUnits(tenantId: string) {
+  const [system, setLocal] = useState<UnitSystem>(known.get(tenantId) ?? DEFAULT_UNIT_SYSTEM);
+
+  useEffect(() => {
+    let live = true;
+    if (!tenantId) return;
+    fetchSystem(tenantId).then((s) => live && setLocal(s));
+    const onChange = (t: string, s: UnitSystem) => t === tenantId && setLocal(s);
+    listeners.add(onChange);
+    return () => {
+      live = false;
+      listeners.delete(onChange);
+    };
+  }, [tenantId]);
+
+  async function setSystem(next: UnitSystem) {
+    await settingsApi("saveSettings", { tenant_id: tenantId, row: { unit_system: next } });
+    known.set(tenantId, next);
+    pending.set(tenantId, Promise.resolve(next));
+    listeners.forEach((fn) => fn(tenantId, next));
+  }
+
+  const units = useMemo(() => unitsFor(system), [system]);
+  return { system, setSystem, units };
+}
+
+/** Tenant-wide unit switch for card headers. */
+export function UnitSystemSelect({ tenantId }: { tenantId: string }) {
+  const { system, setSystem } = useUnits(tenantId);
+  return (
+    <select
+      className="text-sm border rounded-md px-2 py-1 bg-white"
+      value={system}
+      title="Display units for everyone on this tenant; stored values are unchanged"
+      onChange={(e) => setSystem(e.target.value as UnitSystem).catch((err) => alert(err.message || "Failed to save units"))}
+    >
+      {UNIT_SYSTEMS.map((u) => (
+        <option key={u.value} value={u.value}>{u.label}</option>
+      ))}
+    </select>
+  );
+}
+
+const roundTo = (n: number, digits: number) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+/**
+ * Number input bound to a stored (canonical) value and shown in the tenant's units. Keeps the
+ * typed text while editing so "1." or "0.0" survive the round trip through conversion.
+ */
+export function UnitInput({
+  units,
+  q,
+  value,
+  onValue,
+  digits = 2,
+  ...rest
+}: Omit<React.InputHTMLAttributes<HTMLInputElement>, "value" | "onChange" | "type"> & {
+  units: Units;
+  q: Quantity;
+  value: number | null | undefined;
+  onValue: (v: number | null) => void;
+  digits?: number;
+}) {
+  const shown = (v: number | null | undefined) => {
+    const n = units.show(q, v);
+    return n === null ? "" : String(roundTo(n, digits));
+  };
+  const [text, setText] = useState(() => shown(value));
+  const system = useRef(units.system);
+
+  useEffect(() => {
+    // follow outside changes (load, unit switch), not the echo of what is being typed
+    const typed = text.trim() === "" ? null : units.store(q, Number(text));
+    const same =
+      value === null || value === undefined
+        ? typed === null
+        : typed !== null && Math.abs(typed - Number(value)) <= 1e-6 * Math.max(1, Math.abs(Number(value)));
+    if (system.current !== units.system || !same) setText(shown(value));
+    system.current = units.system;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [value, units.system]);
+
+  return (
+    <Input
+      {...rest}
+      type="number"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onValue(e.target.value.trim() === "" ? null : units.store(q, Number(e.target.value)));
+      }}
+    />
+  );
+}
@@ -0,0 +1,177 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDays } from "@/lib/dates";
+import { DEFAULT_RULES, evaluateRule, type AlertMetric, type AlertRule, type SeriesPoint } from "@/lib/alertRules";
+
+/** Server-side alert rule runner shared by /api/vitals and /api/care (pass a service-role client). */
+
+export async function loadAlertRules(db: SupabaseClient, tenant_id: string): Promise<AlertRule[]> {
+  const { data, error } = await db
+    .from("agriops_alert_rules")
+    .select("*")
+    .eq("tenant_id", tenant_id);
+  if (error) throw error;
+  return data?.length ? (data as AlertRule[]) : DEFAULT_RULES;
+}
+
+/** Runs a query 1000 rows at a time (PostgREST caps a response at 1000 rows). */
+async function allRows(page: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: any }>) {
+  const rows: any[] = [];
+  for (let from = 0; ; from += 1000) {
+    const { data, error } = await page(from, from + 999);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < 1000) break;
+  }
+  return rows;
+}
+
+/**
+ * Evaluates the tenant's rules for the given animals as of a date and writes alerts.
+ * One open alert per (animal, rule): repeat hits bump occurrences/last_seen_at instead of
+ * inserting, and missing-reading alerts resolve themselves once readings arrive. Threshold and
+ * rate rules only fire on a reading dated after the one that last triggered the rule (open or
+ * resolved alert, kept in last_reading_date), so re-runs over the same readings neither
+ * re-raise nor re-count, whenever the job runs.
+ */
+export async function runAlertRules(
+  db: SupabaseClient,
+  tenant_id: string, animal_ids: number[], as_of: string) {
+  const summary = { raised: 0, repeated: 0, resolved: 0, alerts: [] as any[] };
+  const rules = (await loadAlertRules(db, tenant_id)).filter((r) => r.enabled);
+  if (!rules.length || !animal_ids.length) return summary;
+
+  const lookback = Math.max(30, ...rules.map((r) => Number(r.window_days || 0) + 1));
+  const since = addDays(as_of, -lookback);
+
+  const now = new Date().toISOString();
+  // 200 animals per query keeps the .in() list short; each query is paged past PostgREST's 1000-row cap
+  for (let i = 0; i < animal_ids.length; i += 200) {
+    const ids = animal_ids.slice(i, i + 200);
+    const [vitals, weights, open, resolved] = await Promise.all([
+      allRows((from, to) =>
+        db
+          .from("agriops_vitals")
+          .select("animal_id, reading_date, temp_c, heart_rate_bpm, respiration_rate_bpm, rumination_min, steps, bcs")
+          .eq("tenant_id", tenant_id)
+          .in("animal_id", ids)
+          .gte("reading_date", since)
+          .lte("reading_date", as_of)
+          .order("measure_time", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      allRows((from, to) =>
+        db
+          .from("agriops_cattle_weights")
+          .select("animal_id, weigh_date, weight_lb")
+          .eq("tenant_id", tenant_id)
+          .in("animal_id", ids)
+          .gte("weigh_date", since)
+          .lte("weigh_date", as_of)
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      allRows((from, to) =>
+        db
+          .from("agriops_alerts")
+          .select("id, animal_id, type, occurrences, last_reading_date")
+          .eq("tenant_id", tenant_id)
+          .in("animal_id", ids)
+          .is("resolved_at", null)
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      allRows((from, to) =>
+        db
+          .from("agriops_alerts")
+          .select("animal_id, type, last_reading_date")
+          .eq("tenant_id", tenant_id)
+          .in("animal_id", ids)
+          .not("resolved_at", "is", null)
+          .gte("last_reading_date", since)
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+    ]);
+
+    // newest triggering reading per (animal, rule) among resolved alerts; those readings were dealt with
+    const lastResolved = new Map<string, string>();
+    for (const a of resolved) {
+      const key = `${a.animal_id}|${a.type}`;
+      if (String(a.last_reading_date) > (lastResolved.get(key) ?? "")) lastResolved.set(key, String(a.last_reading_date));
+    }
+
+    const series = (animal_id: number, metric: AlertMetric): SeriesPoint[] =>
+      metric === "weight_lb"
+        ? weights
+            .filter((w: any) => w.animal_id === animal_id)
+            .map((w: any) => ({ date: w.weigh_date, value: Number(w.weight_lb) }))
+        : vitals
+            .filter((v: any) => v.animal_id === animal_id && v[metric] !== null && v[metric] !== undefined)
+            .map((v: any) => ({ date: v.reading_date, value: Number(v[metric]) }));
+
+    for (const animal_id of ids) {
+      for (const rule of rules) {
+        const res = evaluateRule(rule, series(animal_id, rule.metric), as_of);
+        if (res.status === "skip") continue;
+        const existing = open.find((a: any) => a.animal_id === animal_id && a.type === rule.name);
+        if (res.status === "fire" && res.date) {
+          const seen = existing ? existing.last_reading_date : lastResolved.get(`${animal_id}|${rule.name}`);
+          if (seen && res.date <= String(seen).slice(0, 10)) continue;
+        }
+
+        if (res.status === "clear") {
+          if (!existing || rule.kind !== "missing") continue;
+          const { error } = await db
+            .from("agriops_alerts")
+            .update({ resolved_at: now })
+            .eq("tenant_id", tenant_id)
+            .eq("id", existing.id);
+          if (error) throw error;
+          summary.resolved++;
+          continue;
+        }
+
+        if (existing) {
+          const { data, error } = await db
+            .from("agriops_alerts")
+            .update({
+              message: res.message,
+              severity: rule.severity,
+              last_seen_at: now,
+              occurrences: Number(existing.occurrences || 1) + 1,
+              ...(res.date ? { last_reading_date: res.date } : {}),
+            })
+            .eq("tenant_id", tenant_id)
+            .eq("id", existing.id)
+            .select("*")
+            .single();
+          if (error) throw error;
+          summary.repeated++;
+          summary.alerts.push(data);
+        } else {
+          const { data, error } = await db
+            .from("agriops_alerts")
+            .insert({
+              tenant_id,
+              animal_id,
+              rule_id: rule.id ?? null,
+              type: rule.name,
+              severity: rule.severity,
+              message: res.message,
+              detected_at: now,
+              last_seen_at: now,
+              last_reading_date: res.date,
+              occurrences: 1,
+            })
+            .select("*")
+            .single();
+          if (error) throw error;
+          summary.raised++;
+          summary.alerts.push(data);
+        }
+      }
+    }
+  }
+  return summary;
+}
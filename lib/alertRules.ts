@@ -0,0 +1,144 @@
+import { addDays, daysBetween } from "@/lib/dates";
+
+/** Vitals alert rules, evaluated server-side whenever readings are logged. */
+
+export type AlertMetric =
+  | "temp_c"
+  | "heart_rate_bpm"
+  | "respiration_rate_bpm"
+  | "rumination_min"
+  | "steps"
+  | "bcs"
+  | "weight_lb";
+export type AlertRuleKind = "threshold" | "rate_of_change" | "missing";
+export type AlertSeverity = "info" | "warn" | "high";
+
+export type AlertRule = {
+  id?: number | null;
+  tenant_id?: string;
+  name: string;
+  metric: AlertMetric;
+  kind: AlertRuleKind;
+  /** threshold: gt | gte | lt | lte — rate_of_change: drop | rise — missing: unused */
+  operator: string | null;
+  /** threshold: the limit — rate_of_change: the change amount — missing: unused */
+  threshold: number | null;
+  /** rate_of_change: look-back window — missing: max days without a reading */
+  window_days: number | null;
+  severity: AlertSeverity;
+  enabled: boolean;
+};
+
+export type SeriesPoint = { date: string; value: number };
+
+export type RuleResult =
+  /** date = the reading that triggered it; null for missing-reading rules */
+  | { status: "fire"; message: string; value: number | null; date: string | null }
+  | { status: "clear" }
+  | { status: "skip" };
+
+export const METRICS: Record<AlertMetric, { label: string; unit: string }> = {
+  temp_c: { label: "Temperature", unit: "°C" },
+  heart_rate_bpm: { label: "Heart rate", unit: "bpm" },
+  respiration_rate_bpm: { label: "Respiration", unit: "breaths/min" },
+  rumination_min: { label: "Rumination", unit: "min" },
+  steps: { label: "Steps", unit: "steps" },
+  bcs: { label: "BCS", unit: "" },
+  weight_lb: { label: "Weight", unit: "lb" },
+};
+
+export const THRESHOLD_OPS = ["gt", "gte", "lt", "lte"];
+export const RATE_OPS = ["drop", "rise"];
+
+/** Used for tenants that have not configured any rules (matches the old browser-side rules). */
+export const DEFAULT_RULES: AlertRule[] = [
+  { id: null, name: "fever", metric: "temp_c", kind: "threshold", operator: "gte", threshold: 39.5, window_days: null, severity: "high", enabled: true },
+  { id: null, name: "low_rumination", metric: "rumination_min", kind: "threshold", operator: "lt", threshold: 350, window_days: null, severity: "warn", enabled: true },
+];
+
+const OP_TEXT: Record<string, string> = { gt: ">", gte: "≥", lt: "<", lte: "≤" };
+
+function compare(op: string, v: number, limit: number) {
+  switch (op) {
+    case "gt": return v > limit;
+    case "gte": return v >= limit;
+    case "lt": return v < limit;
+    case "lte": return v <= limit;
+    default: return false;
+  }
+}
+
+function fmt(metric: AlertMetric, v: number) {
+  const u = METRICS[metric].unit;
+  return `${Math.round(v * 10) / 10}${u ? (u === "°C" ? u : " " + u) : ""}`;
+}
+
+/** Returns a message when the rule definition is unusable, otherwise null. */
+export function validateRule(r: Partial<AlertRule>): string | null {
+  if (!r.name || !String(r.name).trim()) return "name is required";
+  if (!r.metric || !(r.metric in METRICS)) return `Invalid metric: ${r.metric}`;
+  if (r.kind === "threshold") {
+    if (!r.operator || !THRESHOLD_OPS.includes(r.operator)) return "threshold rules need operator gt/gte/lt/lte";
+    if (r.threshold === null || r.threshold === undefined || !Number.isFinite(Number(r.threshold))) return "threshold is required";
+  } else if (r.kind === "rate_of_change") {
+    if (!r.operator || !RATE_OPS.includes(r.operator)) return "rate_of_change rules need operator drop/rise";
+    if (!(Number(r.threshold) > 0)) return "threshold (change amount) must be > 0";
+    if (!(Number(r.window_days) > 0)) return "window_days must be > 0";
+  } else if (r.kind === "missing") {
+    if (!(Number(r.window_days) > 0)) return "window_days must be > 0";
+  } else {
+    return `Invalid kind: ${r.kind}`;
+  }
+  if (r.severity && !["info", "warn", "high"].includes(r.severity)) return `Invalid severity: ${r.severity}`;
+  return null;
+}
+
+/**
+ * Evaluates one rule against one animal's series (any order) as of a date.
+ * "clear" is only returned by missing-reading rules, whose alerts resolve once data arrives.
+ */
+export function evaluateRule(rule: AlertRule, series: SeriesPoint[], as_of: string): RuleResult {
+  if (!rule.enabled) return { status: "skip" };
+  const pts = series
+    .filter((p) => p.date <= as_of && Number.isFinite(p.value))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const latest = pts[pts.length - 1];
+  const label = METRICS[rule.metric].label;
+
+  if (rule.kind === "missing") {
+    const window = Number(rule.window_days || 0);
+    if (latest && daysBetween(latest.date, as_of) <= window) return { status: "clear" };
+    const since = latest ? `since ${latest.date}` : `in the last ${window} d`;
+    return { status: "fire", message: `No ${label.toLowerCase()} reading ${since} (limit ${window} d)`, value: null, date: null };
+  }
+
+  if (!latest) return { status: "skip" };
+
+  if (rule.kind === "threshold") {
+    const limit = Number(rule.threshold);
+    if (!compare(String(rule.operator), latest.value, limit)) return { status: "skip" };
+    return {
+      status: "fire",
+      message: `${label} ${fmt(rule.metric, latest.value)} (${OP_TEXT[String(rule.operator)]} ${fmt(rule.metric, limit)})`,
+      value: latest.value,
+      date: latest.date,
+    };
+  }
+
+  // rate_of_change: latest vs the earliest reading inside the look-back window
+  const window = Number(rule.window_days || 0);
+  const from = addDays(latest.date, -window);
+  const baseline = pts.find((p) => p.date >= from && p.date < latest.date);
+  if (!baseline) return { status: "skip" };
+  const change = latest.value - baseline.value;
+  const amount = Number(rule.threshold);
+  const hit = rule.operator === "drop" ? -change >= amount : change >= amount;
+  if (!hit) return { status: "skip" };
+  const days = daysBetween(baseline.date, latest.date);
+  return {
+    status: "fire",
+    message: `${label} ${rule.operator === "drop" ? "dropped" : "rose"} ${fmt(rule.metric, Math.abs(change))} in ${days} d (${fmt(rule.metric, baseline.value)} → ${fmt(rule.metric, latest.value)})`,
+    value: latest.value,
+    date: latest.date,
+  };
+}
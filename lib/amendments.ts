@@ -0,0 +1,160 @@
+import { LB_PER_TON } from "@/lib/feed";
+import type { AppliedNutrients } from "@/lib/soil";
+
+/**
+ * Amendment products (fertilizer grade or lime CCE), structured application rates, the N / P2O5 /
+ * K2O / lime and cost per acre they supply, and the per-season ledger of a paddock.
+ */
+
+export type ProductKind = "fertilizer" | "lime" | "manure" | "other";
+export type ProductForm = "dry" | "liquid";
+export type RateUnit = "lb_ac" | "ton_ac" | "gal_ac";
+export type ApplicationMethod = "broadcast" | "topdress" | "banded" | "incorporated" | "injected" | "foliar";
+
+export const PRODUCT_KINDS: { value: ProductKind; label: string }[] = [
+  { value: "fertilizer", label: "Fertilizer" },
+  { value: "lime", label: "Lime" },
+  { value: "manure", label: "Manure / compost" },
+  { value: "other", label: "Other" },
+];
+
+export const APPLICATION_METHODS: { value: ApplicationMethod; label: string }[] = [
+  { value: "broadcast", label: "Broadcast" },
+  { value: "topdress", label: "Topdress" },
+  { value: "banded", label: "Banded" },
+  { value: "incorporated", label: "Incorporated" },
+  { value: "injected", label: "Injected" },
+  { value: "foliar", label: "Foliar" },
+];
+
+export type AmendmentProduct = {
+  id?: number;
+  tenant_id?: string;
+  name: string;
+  kind: ProductKind;
+  form: ProductForm;
+  /** grade, % by weight */
+  n_pct: number;
+  p2o5_pct: number;
+  k2o_pct: number;
+  /** calcium carbonate equivalent, % (lime) */
+  cce_pct?: number | null;
+  /** liquids: product weight, for rates and grade by weight */
+  lb_per_gal?: number | null;
+  /** $ per ton (dry) or per gallon (liquid) */
+  price?: number | null;
+  notes?: string | null;
+};
+
+/** Common products to start the catalog from; prices are left to the user. */
+export const PRESET_PRODUCTS: AmendmentProduct[] = [
+  { name: "Urea 46-0-0", kind: "fertilizer", form: "dry", n_pct: 46, p2o5_pct: 0, k2o_pct: 0 },
+  { name: "Ammonium sulfate 21-0-0", kind: "fertilizer", form: "dry", n_pct: 21, p2o5_pct: 0, k2o_pct: 0 },
+  { name: "DAP 18-46-0", kind: "fertilizer", form: "dry", n_pct: 18, p2o5_pct: 46, k2o_pct: 0 },
+  { name: "MAP 11-52-0", kind: "fertilizer", form: "dry", n_pct: 11, p2o5_pct: 52, k2o_pct: 0 },
+  { name: "Potash 0-0-60", kind: "fertilizer", form: "dry", n_pct: 0, p2o5_pct: 0, k2o_pct: 60 },
+  { name: "UAN 28-0-0", kind: "fertilizer", form: "liquid", n_pct: 28, p2o5_pct: 0, k2o_pct: 0, lb_per_gal: 10.67 },
+  { name: "Ag lime", kind: "lime", form: "dry", n_pct: 0, p2o5_pct: 0, k2o_pct: 0, cce_pct: 90 },
+  { name: "Pelletized lime", kind: "lime", form: "dry", n_pct: 0, p2o5_pct: 0, k2o_pct: 0, cce_pct: 95 },
+];
+
+/** Rate units a product can be applied in. */
+export function rateUnitsFor(form: ProductForm): RateUnit[] {
+  return form === "liquid" ? ["gal_ac", "lb_ac"] : ["lb_ac", "ton_ac"];
+}
+
+export const gradeLabel = (p: Pick<AmendmentProduct, "kind" | "n_pct" | "p2o5_pct" | "k2o_pct" | "cce_pct">) =>
+  p.kind === "lime" ? `CCE ${p.cce_pct ?? "—"}%` : `${Number(p.n_pct)}-${Number(p.p2o5_pct)}-${Number(p.k2o_pct)}`;
+
+export function validateAmendmentProduct(p: Partial<AmendmentProduct>): string | null {
+  if (!String(p.name || "").trim()) return "name is required";
+  if (!PRODUCT_KINDS.some((k) => k.value === p.kind)) return "kind must be fertilizer, lime, manure or other";
+  if (p.form !== "dry" && p.form !== "liquid") return "form must be dry or liquid";
+  for (const f of ["n_pct", "p2o5_pct", "k2o_pct"] as const) {
+    if (!(Number(p[f] ?? 0) >= 0 && Number(p[f] ?? 0) <= 100)) return `${f} must be 0–100`;
+  }
+  if (Number(p.n_pct ?? 0) + Number(p.p2o5_pct ?? 0) + Number(p.k2o_pct ?? 0) > 100) return "grade adds up to more than 100%";
+  if (p.cce_pct != null && !(Number(p.cce_pct) > 0 && Number(p.cce_pct) <= 200)) return "cce_pct must be between 0 and 200";
+  if (p.kind === "lime" && p.cce_pct == null) return "lime needs a CCE";
+  if (p.form === "liquid" && !(Number(p.lb_per_gal) > 0)) return "liquids need lb_per_gal";
+  if (p.price != null && !(Number(p.price) >= 0)) return "price must be ≥ 0";
+  return null;
+}
+
+/** Product applied per acre, in lb. Null when the rate can't be converted (e.g. gallons of a dry product). */
+export function productLbAc(p: Pick<AmendmentProduct, "form" | "lb_per_gal">, rate: number, unit: RateUnit): number | null {
+  if (!(rate >= 0)) return null;
+  if (unit === "lb_ac") return rate;
+  if (unit === "ton_ac") return rate * LB_PER_TON;
+  return p.form === "liquid" && Number(p.lb_per_gal) > 0 ? rate * Number(p.lb_per_gal) : null;
+}
+
+export type ApplicationMath = Required<Omit<AppliedNutrients, "date_applied">> & { cost_per_ac: number | null };
+
+/** Nutrients (and lime as 100% CCE) plus cost per acre of one application. */
+export function applicationMath(p: AmendmentProduct, rate: number, unit: RateUnit): ApplicationMath | null {
+  const lb = productLbAc(p, rate, unit);
+  if (lb === null) return null;
+  const pct = (v: number | null | undefined) => (lb * Number(v ?? 0)) / 100;
+  const cost =
+    p.price == null
+      ? null
+      : p.form === "liquid"
+      ? (lb / Number(p.lb_per_gal)) * Number(p.price)
+      : (lb / LB_PER_TON) * Number(p.price);
+  const r2 = (n: number) => Math.round(n * 100) / 100;
+  return {
+    n_lb_ac: r2(pct(p.n_pct)),
+    p2o5_lb_ac: r2(pct(p.p2o5_pct)),
+    k2o_lb_ac: r2(pct(p.k2o_pct)),
+    lime_ton_ac: p.cce_pct != null ? r2(pct(p.cce_pct) / LB_PER_TON) : 0,
+    cost_per_ac: cost === null ? null : r2(cost),
+  };
+}
+
+export type LedgerAmendment = AppliedNutrients & { cost_per_ac?: number | null };
+
+export type SeasonLedger = {
+  season: string;
+  applications: number;
+  n_lb_ac: number;
+  p2o5_lb_ac: number;
+  k2o_lb_ac: number;
+  lime_ton_ac: number;
+  cost_per_ac: number;
+  /** cost_per_ac over the paddock's acres; null without acres */
+  total_cost: number | null;
+  /** applications without a price, so the cost is a lower bound */
+  unpriced: number;
+};
+
+/** Season = calendar year of application; undated applications are left out. Newest first. */
+export function seasonLedger(amendments: LedgerAmendment[], acres: number | null | undefined): SeasonLedger[] {
+  const by = new Map<string, SeasonLedger>();
+  for (const a of amendments) {
+    if (!a.date_applied) continue;
+    const season = a.date_applied.slice(0, 4);
+    const s = by.get(season) ?? {
+      season,
+      applications: 0,
+      n_lb_ac: 0,
+      p2o5_lb_ac: 0,
+      k2o_lb_ac: 0,
+      lime_ton_ac: 0,
+      cost_per_ac: 0,
+      total_cost: null,
+      unpriced: 0,
+    };
+    s.applications++;
+    s.n_lb_ac += Number(a.n_lb_ac ?? 0);
+    s.p2o5_lb_ac += Number(a.p2o5_lb_ac ?? 0);
+    s.k2o_lb_ac += Number(a.k2o_lb_ac ?? 0);
+    s.lime_ton_ac += Number(a.lime_ton_ac ?? 0);
+    if (a.cost_per_ac == null) s.unpriced++;
+    else s.cost_per_ac += Number(a.cost_per_ac);
+    by.set(season, s);
+  }
+  return Array.from(by.values())
+    .map((s) => ({ ...s, total_cost: Number(acres) > 0 ? s.cost_per_ac * Number(acres) : null }))
+    .sort((a, b) => b.season.localeCompare(a.season));
+}
@@ -0,0 +1,197 @@
+import { daysBetween } from "@/lib/dates";
+
+/**
+ * Animal units (1 AU = a 1000 lb cow eating 26 lb DM/day) per class, and paddock stocking and
+ * carrying capacity from them. AUM = one AU for a 30-day month.
+ */
+
+export type AnimalClass = "cow" | "pair" | "yearling" | "bull" | "calf";
+
+export const AU_BODY_WEIGHT_LB = 1000;
+export const AU_DAILY_DM_LB = 26;
+export const AUM_LB_DM = AU_DAILY_DM_LB * 30;
+
+/** Unweaned calves are carried by their dam (cow → pair) and add this much to her AU. */
+export const CALF_AT_SIDE_AU = 0.3;
+export const WEANING_AGE_DAYS = 240;
+
+/** Class labels and the AU used when an animal has no weight on record. */
+export const AU_CLASSES: { value: AnimalClass; label: string; default_au: number }[] = [
+  { value: "cow", label: "Cow", default_au: 1.0 },
+  { value: "pair", label: "Cow-calf pair", default_au: 1.0 + CALF_AT_SIDE_AU },
+  { value: "yearling", label: "Yearling", default_au: 0.7 },
+  { value: "bull", label: "Bull", default_au: 1.5 },
+  { value: "calf", label: "Weaned calf", default_au: 0.5 },
+];
+
+export type AuAnimal = {
+  id: number;
+  tag: string;
+  sex?: string | null;
+  birth_date?: string | null;
+  dam_id?: number | null;
+  current_paddock_id?: number | null;
+};
+
+export type AnimalAu = {
+  id: number;
+  tag: string;
+  class: AnimalClass;
+  paddock_id: number | null;
+  weight_lb: number | null;
+  /** 0 for a calf at side; its share is on the dam's pair */
+  au: number;
+  at_side_of: number | null;
+};
+
+export type AuSummary = {
+  as_of: string;
+  head: number;
+  total_au: number;
+  by_class: Record<AnimalClass, { head: number; au: number }>;
+  animals: AnimalAu[];
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Class from age and sex (animals without a birth date are treated as mature), AU from the
+ * projected weight where there is one, else the class default.
+ */
+export function animalUnits(animals: AuAnimal[], weights: Map<number, number | null>, asOf: string): AuSummary {
+  const onFarm = new Set(animals.map((a) => a.id));
+  const age = (a: AuAnimal) => (a.birth_date ? daysBetween(a.birth_date, asOf) : null);
+
+  // unweaned calves whose dam is on the list ride with her
+  const calfOf = new Map<number, number>();
+  for (const a of animals) {
+    const d = age(a);
+    if (d !== null && d < WEANING_AGE_DAYS && a.dam_id && onFarm.has(Number(a.dam_id))) calfOf.set(a.id, Number(a.dam_id));
+  }
+  const withCalf = new Set(calfOf.values());
+  const paddockOf = new Map(animals.map((a) => [a.id, a.current_paddock_id ?? null]));
+
+  const byClass = Object.fromEntries(AU_CLASSES.map((c) => [c.value, { head: 0, au: 0 }])) as AuSummary["by_class"];
+  const rows: AnimalAu[] = animals.map((a) => {
+    const d = age(a);
+    const male = String(a.sex || "").toUpperCase() === "M";
+    const cls: AnimalClass =
+      calfOf.has(a.id) || (d !== null && d < 365)
+        ? "calf"
+        : d !== null && d < 730
+        ? "yearling"
+        : male
+        ? "bull"
+        : withCalf.has(a.id)
+        ? "pair"
+        : "cow";
+    const weight = weights.get(a.id) ?? null;
+    const base = weight ? weight / AU_BODY_WEIGHT_LB : AU_CLASSES.find((c) => c.value === cls)!.default_au;
+    const au = calfOf.has(a.id) ? 0 : cls === "pair" && weight ? base + CALF_AT_SIDE_AU : base;
+    return {
+      id: a.id,
+      tag: a.tag,
+      class: cls,
+      // a calf without its own placement is wherever its dam is
+      paddock_id: a.current_paddock_id ?? (calfOf.has(a.id) ? paddockOf.get(calfOf.get(a.id)!) ?? null : null),
+      weight_lb: weight,
+      au: round2(au),
+      at_side_of: calfOf.get(a.id) ?? null,
+    };
+  });
+
+  for (const r of rows) {
+    if (r.at_side_of) continue;
+    byClass[r.class].head += 1;
+    byClass[r.class].au = round2(byClass[r.class].au + r.au);
+  }
+  return {
+    as_of: asOf,
+    head: rows.length,
+    total_au: round2(rows.reduce((s, r) => s + r.au, 0)),
+    by_class: byClass,
+    animals: rows,
+  };
+}
+
+/** AU of a planner herd (head × average weight). */
+export function herdAu(headcount: number, avg_weight_lb: number) {
+  return (headcount * avg_weight_lb) / AU_BODY_WEIGHT_LB;
+}
+
+export type CapacityPaddock = {
+  id: number;
+  name: string;
+  acres: number | null;
+  dm_lb_ac: number;
+  util_pct: number | null;
+};
+
+export type CapacityRow = {
+  paddock_id: number | null;
+  name: string;
+  acres: number;
+  head: number;
+  au: number;
+  au_per_ac: number | null;
+  /** takeable forage above the residual, in AUM */
+  available_aum: number;
+  /** AU the forage would carry for the report period */
+  capacity_au: number;
+  /** current AU as % of capacity_au (null when nothing can be carried) */
+  stocking_pct: number | null;
+  /** how long the current stock would last on this paddock */
+  days_left: number | null;
+};
+
+export type CapacityReport = {
+  days: number;
+  rows: CapacityRow[];
+  total: CapacityRow;
+};
+
+/**
+ * Current stock against forage on hand: available = (DM − residual) × utilization × acres, the
+ * same takeable DM the planner uses, turned into AUM and into the AU it carries for `days`.
+ */
+export function carryingCapacity(
+  paddocks: CapacityPaddock[],
+  stock: AnimalAu[],
+  opts: { residual_dm_lb_ac: number; days: number }
+): CapacityReport {
+  const days = Math.max(1, opts.days);
+  const row = (id: number | null, name: string, acres: number, lb: number, mine: AnimalAu[]): CapacityRow => {
+    const au = round2(mine.reduce((s, a) => s + a.au, 0));
+    const capacity = lb / (AU_DAILY_DM_LB * days);
+    return {
+      paddock_id: id,
+      name,
+      acres,
+      head: mine.length,
+      au,
+      au_per_ac: acres > 0 ? round2(au / acres) : null,
+      available_aum: round2(lb / AUM_LB_DM),
+      capacity_au: round2(capacity),
+      stocking_pct: capacity > 0 ? Math.round((au / capacity) * 100) : null,
+      days_left: au > 0 ? Math.round(lb / (au * AU_DAILY_DM_LB)) : null,
+    };
+  };
+
+  const available = (p: CapacityPaddock) =>
+    Math.max(0, p.dm_lb_ac - opts.residual_dm_lb_ac) * (Number(p.util_pct ?? 0) / 100) * Number(p.acres ?? 0);
+  const rows = paddocks.map((p) =>
+    row(p.id, p.name, Number(p.acres ?? 0), available(p), stock.filter((a) => a.paddock_id === p.id))
+  );
+  const known = new Set(paddocks.map((p) => p.id));
+  const unplaced = stock.filter((a) => a.paddock_id == null || !known.has(a.paddock_id));
+  if (unplaced.length) rows.push(row(null, "No paddock", 0, 0, unplaced));
+
+  const total = row(
+    null,
+    "Farm",
+    paddocks.reduce((s, p) => s + Number(p.acres ?? 0), 0),
+    paddocks.reduce((s, p) => s + available(p), 0),
+    stock
+  );
+  return { days, rows, total };
+}
@@ -0,0 +1,243 @@
+import { addDays, daysBetween, isYmd } from "@/lib/dates";
+
+/** Breeding & calving season logic over agriops_breeding_events. */
+
+export type BreedingEventType = "exposure" | "ai" | "preg_check" | "calving";
+export type PregResult = "pregnant" | "open" | "recheck";
+
+export type BreedingEvent = {
+  id?: number;
+  tenant_id?: string;
+  cow_id: number;
+  event_type: BreedingEventType;
+  event_date: string;
+  bull_id?: number | null;
+  semen_straw?: string | null;
+  exposure_end?: string | null;
+  technician?: string | null;
+  preg_result?: PregResult | null;
+  days_bred?: number | null;
+  calf_id?: number | null;
+  calving_ease?: number | null;
+  calf_status?: "alive" | "stillborn" | "died" | null;
+  notes?: string | null;
+};
+
+export type SeasonCowStatus = "calved" | "pregnant" | "open" | "recheck" | "unchecked";
+
+export type SeasonCow = {
+  cow_id: number;
+  tag: string;
+  status: SeasonCowStatus;
+  services: number;
+  conception_date: string | null;
+  /** where the conception date came from: a preg check's days bred, the last AI, or bull-in date */
+  conception_source: "preg_check" | "ai" | "exposure" | null;
+  expected_calving: string | null;
+  calving_date: string | null;
+  calf_id: number | null;
+  sire: string | null;
+};
+
+export type SeasonSummary = {
+  from: string;
+  to: string;
+  exposed: number;
+  pregnant: number;
+  open: number;
+  unchecked: number;
+  calved: number;
+  pct_bred: number;
+  pct_calved: number;
+  /** expected calvings per 21-day cycle from the first possible calving date */
+  by_cycle: { cycle: number; start: string; end: string; count: number }[];
+  cows: SeasonCow[];
+};
+
+export const EVENT_TYPES: BreedingEventType[] = ["exposure", "ai", "preg_check", "calving"];
+export const GESTATION_DAYS = 283;
+export const CYCLE_DAYS = 21;
+/** A calving is attributed to a breeding season when it falls this many days after it. */
+const CALVING_MIN_DAYS = 255;
+const CALVING_MAX_DAYS = 305;
+
+/** Returns a message when the event is unusable, otherwise null. */
+export function validateBreedingEvent(e: Partial<BreedingEvent>): string | null {
+  if (!e.cow_id) return "cow_id is required";
+  if (!e.event_type || !EVENT_TYPES.includes(e.event_type)) return `Invalid event_type: ${e.event_type}`;
+  if (!isYmd(e.event_date)) return "event_date (YYYY-MM-DD) is required";
+  if (e.event_type === "exposure") {
+    if (!e.bull_id) return "exposure needs bull_id";
+    if (e.exposure_end && e.exposure_end < e.event_date) return "exposure_end is before the bull-in date";
+  }
+  if (e.event_type === "ai" && !e.bull_id && !String(e.semen_straw || "").trim()) {
+    return "AI service needs bull_id or semen_straw";
+  }
+  if (e.event_type === "preg_check") {
+    if (!e.preg_result || !["pregnant", "open", "recheck"].includes(e.preg_result)) {
+      return "preg_check needs preg_result pregnant/open/recheck";
+    }
+    if (e.days_bred !== null && e.days_bred !== undefined) {
+      const d = Number(e.days_bred);
+      if (!Number.isInteger(d) || d < 0 || d > 300) return "days_bred must be a whole number 0–300";
+    }
+  }
+  if (e.event_type === "calving" && e.calving_ease != null) {
+    const c = Number(e.calving_ease);
+    if (!Number.isInteger(c) || c < 1 || c > 5) return "calving_ease must be 1–5";
+  }
+  return null;
+}
+
+const breedingStart = (e: BreedingEvent) => e.event_date;
+const breedingEnd = (e: BreedingEvent) => (e.event_type === "exposure" ? e.exposure_end || e.event_date : e.event_date);
+
+/**
+ * Sire of a calf born on `calving_date`: the AI service or exposure that overlaps the likely
+ * conception window (gestation ± a few weeks). AI wins over natural service when both fit.
+ */
+export function likelySire(events: BreedingEvent[], calving_date: string): BreedingEvent | null {
+  const earliest = addDays(calving_date, -CALVING_MAX_DAYS);
+  const latest = addDays(calving_date, -CALVING_MIN_DAYS);
+  const fits = events.filter(
+    (e) => (e.event_type === "ai" || e.event_type === "exposure") && breedingStart(e) <= latest && breedingEnd(e) >= earliest
+  );
+  const target = addDays(calving_date, -GESTATION_DAYS);
+  const dist = (e: BreedingEvent) =>
+    e.event_type === "ai"
+      ? Math.abs(daysBetween(e.event_date, target))
+      : target < breedingStart(e)
+      ? daysBetween(target, breedingStart(e))
+      : target > breedingEnd(e)
+      ? daysBetween(breedingEnd(e), target)
+      : 0;
+  fits.sort((a, b) => (a.event_type === b.event_type ? dist(a) - dist(b) : a.event_type === "ai" ? -1 : 1));
+  return fits[0] || null;
+}
+
+/**
+ * Season roll-up for cows exposed or inseminated between from..to (breeding dates).
+ * % bred = pregnant or calved / exposed; % calved = calved / exposed.
+ */
+export function seasonSummary(
+  cows: { id: number; tag: string }[],
+  events: BreedingEvent[],
+  from: string,
+  to: string,
+  bullTags: Map<number, string> = new Map()
+): SeasonSummary {
+  const tagOf = new Map(cows.map((c) => [Number(c.id), c.tag]));
+  const byCow = new Map<number, BreedingEvent[]>();
+  for (const e of events) {
+    const list = byCow.get(Number(e.cow_id)) || [];
+    list.push(e);
+    byCow.set(Number(e.cow_id), list);
+  }
+
+  const out: SeasonCow[] = [];
+  byCow.forEach((list, cow_id) => {
+    list.sort((a, b) => a.event_date.localeCompare(b.event_date));
+    const services = list.filter(
+      (e) => (e.event_type === "ai" || e.event_type === "exposure") && breedingStart(e) <= to && breedingEnd(e) >= from
+    );
+    if (!services.length) return;
+
+    const calving = list.find(
+      (e) =>
+        e.event_type === "calving" &&
+        e.event_date >= addDays(from, CALVING_MIN_DAYS) &&
+        e.event_date <= addDays(to, CALVING_MAX_DAYS)
+    );
+    const checks = list.filter(
+      (e) => e.event_type === "preg_check" && e.event_date >= from && e.event_date <= addDays(to, CALVING_MIN_DAYS)
+    );
+    const check = checks[checks.length - 1];
+
+    let status: SeasonCowStatus = "unchecked";
+    if (calving) status = "calved";
+    else if (check) status = check.preg_result as SeasonCowStatus;
+
+    let conception_date: string | null = null;
+    let conception_source: SeasonCow["conception_source"] = null;
+    if (calving) {
+      conception_date = addDays(calving.event_date, -GESTATION_DAYS);
+    } else if (status === "pregnant") {
+      const lastAi = services.filter((e) => e.event_type === "ai" && e.event_date <= check!.event_date).pop();
+      if (check!.days_bred != null) {
+        conception_date = addDays(check!.event_date, -Number(check!.days_bred));
+        conception_source = "preg_check";
+      } else if (lastAi) {
+        conception_date = lastAi.event_date;
+        conception_source = "ai";
+      } else {
+        conception_date = breedingStart(services[0]);
+        conception_source = "exposure";
+      }
+    }
+
+    const sireEvent = calving
+      ? likelySire(services, calving.event_date)
+      : conception_date
+      ? likelySire(services, addDays(conception_date, GESTATION_DAYS))
+      : null;
+    const sire = sireEvent
+      ? (sireEvent.bull_id ? bullTags.get(Number(sireEvent.bull_id)) : null) || sireEvent.semen_straw || null
+      : null;
+
+    out.push({
+      cow_id,
+      tag: tagOf.get(cow_id) || String(cow_id),
+      status,
+      services: services.length,
+      conception_date,
+      conception_source: calving ? null : conception_source,
+      expected_calving: conception_date && !calving ? addDays(conception_date, GESTATION_DAYS) : null,
+      calving_date: calving?.event_date ?? null,
+      calf_id: calving?.calf_id ?? null,
+      sire,
+    });
+  });
+
+  out.sort((a, b) =>
+    (a.expected_calving || a.calving_date || "9999").localeCompare(b.expected_calving || b.calving_date || "9999")
+  );
+
+  const count = (s: SeasonCowStatus[]) => out.filter((c) => s.includes(c.status)).length;
+  const exposed = out.length;
+  const pregnant = count(["pregnant", "calved"]);
+  const calved = count(["calved"]);
+
+  // 21-day cycles, counted from the first day a calf of this season could be due
+  const cycleStart = addDays(from, GESTATION_DAYS);
+  const by_cycle: SeasonSummary["by_cycle"] = [];
+  for (const c of out) {
+    const due = c.expected_calving || c.calving_date;
+    if (!due) continue;
+    const n = Math.max(0, Math.floor(daysBetween(cycleStart, due) / CYCLE_DAYS));
+    while (by_cycle.length <= n) {
+      const i = by_cycle.length;
+      by_cycle.push({
+        cycle: i + 1,
+        start: addDays(cycleStart, i * CYCLE_DAYS),
+        end: addDays(cycleStart, i * CYCLE_DAYS + CYCLE_DAYS - 1),
+        count: 0,
+      });
+    }
+    by_cycle[n].count++;
+  }
+
+  const pct = (n: number) => (exposed ? Math.round((n / exposed) * 1000) / 10 : 0);
+  return {
+    from,
+    to,
+    exposed,
+    pregnant,
+    open: count(["open"]),
+    unchecked: count(["unchecked", "recheck"]),
+    calved,
+    pct_bred: pct(pregnant),
+    pct_calved: pct(calved),
+    by_cycle,
+    cows: out,
+  };
+}
@@ -0,0 +1,24 @@
+/** Date helpers for yyyy-mm-dd strings (UTC based, so DST never shifts a date). */
+
+export function todayYmd() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function addDays(ymd: string, n: number) {
+  const d = new Date(`${ymd}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Whole days from a → b (negative when b is before a). */
+export function daysBetween(a: string, b: string) {
+  return Math.round((Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / 86400000);
+}
+
+/** A real calendar date in yyyy-mm-dd form ("2026-02-30" and "2026-25-03" are rejected). */
+export function isYmd(v: unknown): v is string {
+  if (typeof v !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(v)) return false;
+  const [y, m, d] = v.split("-").map(Number);
+  const t = new Date(Date.UTC(y, m - 1, d));
+  return t.getUTCFullYear() === y && t.getUTCMonth() === m - 1 && t.getUTCDate() === d;
+}
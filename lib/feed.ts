@@ -0,0 +1,181 @@
+import { addDays } from "@/lib/dates";
+import type { Shortfall } from "@/lib/rotation";
+
+/** Stored feed lots and how they cover the planner's shortfall days. */
+
+export type FeedKind = "hay" | "baleage" | "silage" | "grain" | "supplement";
+
+/** Feeding loss defaults (storage + feeding waste) and the order kinds are used in. */
+export const FEED_KINDS: { value: FeedKind; label: string; waste_pct: number }[] = [
+  { value: "silage", label: "Silage", waste_pct: 10 },
+  { value: "baleage", label: "Baleage", waste_pct: 10 },
+  { value: "hay", label: "Hay", waste_pct: 15 },
+  { value: "grain", label: "Grain", waste_pct: 3 },
+  { value: "supplement", label: "Supplement", waste_pct: 5 },
+];
+
+export type FeedLot = {
+  id?: number;
+  tenant_id?: string;
+  name: string;
+  kind: FeedKind;
+  units_on_hand: number;
+  unit_label: string;
+  unit_weight_lb: number;
+  dm_pct: number;
+  cost_per_unit: number;
+  waste_pct?: number | null;
+  received_date?: string | null;
+  feed_by?: string | null;
+  priority?: number | null;
+  notes?: string | null;
+};
+
+export type FeedAllocation = {
+  lot_id: number | undefined;
+  name: string;
+  kind: FeedKind;
+  unit_label: string;
+  units: number;
+  lb_dm: number;
+  cost: number;
+  from: string;
+  to: string;
+};
+
+export type FeedPlan = {
+  /** days with a pasture shortfall */
+  deficit_days: number;
+  /** of those, days fully covered from inventory */
+  covered_days: number;
+  /** first shortfall day inventory can't fully cover */
+  runs_out_on: string | null;
+  allocations: FeedAllocation[];
+  inventory_lb_dm: number;
+  inventory_cost: number;
+  /** shortfall DM left after inventory, and what buying it costs */
+  purchase_lb_dm: number;
+  purchase_cost: number;
+};
+
+export const LB_PER_TON = 2000;
+
+export function wastePct(l: Pick<FeedLot, "kind" | "waste_pct">) {
+  return l.waste_pct ?? FEED_KINDS.find((k) => k.value === l.kind)?.waste_pct ?? 0;
+}
+
+/** DM the herd actually eats from one unit, after waste. */
+export function unitDmLb(l: FeedLot) {
+  return Number(l.unit_weight_lb) * (Number(l.dm_pct) / 100) * (1 - wastePct(l) / 100);
+}
+
+export function lotDmLb(l: FeedLot) {
+  return Number(l.units_on_hand) * unitDmLb(l);
+}
+
+/** $/lb of DM eaten (null when a unit holds no usable DM). */
+export function costPerLbDm(l: FeedLot) {
+  const dm = unitDmLb(l);
+  return dm > 0 ? Number(l.cost_per_unit) / dm : null;
+}
+
+/** Returns a message when the lot is unusable, otherwise null. */
+export function validateFeedLot(l: Partial<FeedLot>): string | null {
+  if (!String(l.name || "").trim()) return "name is required";
+  if (!FEED_KINDS.some((k) => k.value === l.kind)) return "kind must be hay, baleage, silage, grain or supplement";
+  if (!(Number(l.units_on_hand) >= 0)) return "units_on_hand must be ≥ 0";
+  if (!(Number(l.unit_weight_lb) > 0)) return "unit_weight_lb must be > 0";
+  if (!(Number(l.dm_pct) > 0 && Number(l.dm_pct) <= 100)) return "dm_pct must be between 0 and 100";
+  if (!(Number(l.cost_per_unit ?? 0) >= 0)) return "cost_per_unit must be ≥ 0";
+  if (l.waste_pct != null && !(Number(l.waste_pct) >= 0 && Number(l.waste_pct) < 100)) return "waste_pct must be 0–99";
+  return null;
+}
+
+/**
+ * Feed order: explicit priority first, then whatever must be used soonest (feed_by), then
+ * perishable kinds (silage, baleage) before dry ones, then oldest received (FIFO).
+ */
+export function feedOrder(lots: FeedLot[]): FeedLot[] {
+  const kindRank = (k: FeedKind) => FEED_KINDS.findIndex((x) => x.value === k);
+  const last = "9999-12-31";
+  return lots
+    .filter((l) => Number(l.units_on_hand) > 0 && unitDmLb(l) > 0)
+    .sort(
+      (a, b) =>
+        (a.priority ?? Infinity) - (b.priority ?? Infinity) ||
+        (a.feed_by || last).localeCompare(b.feed_by || last) ||
+        kindRank(a.kind) - kindRank(b.kind) ||
+        (a.received_date || last).localeCompare(b.received_date || last) ||
+        a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * Spreads each shortfall evenly over its days and draws lots in feedOrder. What inventory can't
+ * cover is priced at purchase_per_ton_dm ($ per 2000 lb DM eaten).
+ */
+export function planFeed(shortfalls: Shortfall[], lots: FeedLot[], purchase_per_ton_dm: number): FeedPlan {
+  const queue = feedOrder(lots).map((l) => ({ lot: l, left: lotDmLb(l) }));
+  const used = new Map<FeedLot, FeedAllocation>();
+  let deficit_days = 0;
+  let covered_days = 0;
+  let runs_out_on: string | null = null;
+  let purchase = 0;
+
+  for (const f of shortfalls) {
+    const perDay = f.days > 0 ? f.short_lb_dm / f.days : 0;
+    for (let i = 0; i < f.days; i++) {
+      const ymd = addDays(f.from, i);
+      let need = perDay;
+      deficit_days++;
+      for (const q of queue) {
+        if (need <= 0) break;
+        if (q.left <= 0) continue;
+        const take = Math.min(q.left, need);
+        q.left -= take;
+        need -= take;
+        const a = used.get(q.lot) || {
+          lot_id: q.lot.id,
+          name: q.lot.name,
+          kind: q.lot.kind,
+          unit_label: q.lot.unit_label,
+          units: 0,
+          lb_dm: 0,
+          cost: 0,
+          from: ymd,
+          to: ymd,
+        };
+        a.lb_dm += take;
+        a.to = ymd;
+        used.set(q.lot, a);
+      }
+      // ignore float residue below a hundredth of a pound
+      if (need > 0.01) {
+        purchase += need;
+        runs_out_on = runs_out_on ?? ymd;
+      } else covered_days++;
+    }
+  }
+
+  const allocations = Array.from(used.entries()).map(([lot, a]) => {
+    const units = a.lb_dm / unitDmLb(lot);
+    return { ...a, units: Math.round(units * 10) / 10, lb_dm: Math.round(a.lb_dm), cost: units * Number(lot.cost_per_unit) };
+  });
+  return {
+    deficit_days,
+    covered_days,
+    runs_out_on,
+    allocations,
+    inventory_lb_dm: lots.reduce((s, l) => s + lotDmLb(l), 0),
+    inventory_cost: allocations.reduce((s, a) => s + a.cost, 0),
+    purchase_lb_dm: Math.round(purchase),
+    purchase_cost: (purchase / LB_PER_TON) * purchase_per_ton_dm,
+  };
+}
+
+/** Average $/ton DM of what is on hand; a starting point for the purchase price. */
+export function inventoryPricePerTonDm(lots: FeedLot[]): number | null {
+  const dm = lots.reduce((s, l) => s + lotDmLb(l), 0);
+  const cost = lots.reduce((s, l) => s + Number(l.units_on_hand) * Number(l.cost_per_unit), 0);
+  return dm > 0 ? (cost / dm) * LB_PER_TON : null;
+}
@@ -0,0 +1,188 @@
+import { addDays, daysBetween, isYmd } from "@/lib/dates";
+import type { GrazeEvent } from "@/lib/grazing";
+import { curveForPaddock, dailyRate, type GrowthCurve } from "@/lib/growth";
+
+/** Forage measurements (plate meter, clip-and-weigh, visual) and today's standing DM from them. */
+
+export type ForageMethod = "plate" | "clip" | "visual";
+
+export const FORAGE_METHODS: { value: ForageMethod; label: string }[] = [
+  { value: "plate", label: "Rising plate meter" },
+  { value: "clip", label: "Clip & weigh" },
+  { value: "visual", label: "Visual estimate" },
+];
+
+export type ForageSample = {
+  id?: number;
+  tenant_id?: string;
+  paddock_id: number;
+  sample_date: string;
+  method: ForageMethod;
+  readings?: number | null;
+  plate_clicks?: number | null;
+  calib_slope?: number | null;
+  calib_intercept?: number | null;
+  quadrat_area_sqft?: number | null;
+  dry_weight_g?: number | null;
+  /** entered for visual estimates, computed for plate / clip */
+  dm_lb_ac?: number | null;
+  notes?: string | null;
+};
+
+export type ForageStanding = {
+  /** projected to asOf */
+  dm_lb_ac: number;
+  measured_on: string;
+  measured_dm_lb_ac: number;
+  methods: ForageMethod[];
+  samples: number;
+  /** a post-graze reading after the last sample restarts the projection */
+  baseline: "sample" | "post_graze";
+  baseline_date: string;
+  days_projected: number;
+  change_lb_ac: number;
+  /** null = no curve for the paddock, value held as measured */
+  curve: string | null;
+  /** grazed since the baseline without a post-graze reading; the figure ignores what was eaten */
+  stale: boolean;
+};
+
+/** Generic equation (kg DM/ha = 140 × clicks + 500, in lb/ac); replace with a local calibration. */
+export const DEFAULT_PLATE_CALIBRATION = { slope: 125, intercept: 446 };
+
+/** Dormant-season weathering loss, % of standing DM per day. */
+export const DEFAULT_DECAY_PCT_DAY = 0.3;
+
+/** Growth slows toward this; also the rotation planner's ceiling. */
+export const STANDING_CEILING_LB_AC = 4000;
+
+const SQFT_PER_ACRE = 43560;
+const G_PER_LB = 453.592;
+
+/** lb DM/ac from the method's inputs; null when they are incomplete. */
+export function sampleDm(s: Partial<ForageSample>): number | null {
+  const n = (v: any) => (v === null || v === undefined || v === "" ? NaN : Number(v));
+  switch (s.method) {
+    case "plate": {
+      const clicks = n(s.plate_clicks);
+      const slope = n(s.calib_slope ?? DEFAULT_PLATE_CALIBRATION.slope);
+      const intercept = n(s.calib_intercept ?? DEFAULT_PLATE_CALIBRATION.intercept);
+      if (![clicks, slope, intercept].every(Number.isFinite) || clicks < 0) return null;
+      return Math.max(0, slope * clicks + intercept);
+    }
+    case "clip": {
+      const area = n(s.quadrat_area_sqft);
+      const grams = n(s.dry_weight_g);
+      if (!(area > 0) || !(grams >= 0)) return null;
+      return (grams / G_PER_LB) * (SQFT_PER_ACRE / area);
+    }
+    case "visual": {
+      const dm = n(s.dm_lb_ac);
+      return dm >= 0 ? dm : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** Returns a message when the sample is unusable, otherwise null. */
+export function validateForageSample(s: Partial<ForageSample>): string | null {
+  if (!s.paddock_id) return "paddock_id is required";
+  if (!isYmd(s.sample_date)) return "sample_date (YYYY-MM-DD) is required";
+  if (!FORAGE_METHODS.some((m) => m.value === s.method)) return "method must be plate, clip or visual";
+  if (s.readings != null && !(Number.isInteger(Number(s.readings)) && Number(s.readings) > 0)) {
+    return "readings must be a whole number above 0";
+  }
+  if (sampleDm(s) === null) {
+    if (s.method === "plate") return "plate_clicks and a calibration are required";
+    if (s.method === "clip") return "quadrat_area_sqft (> 0) and dry_weight_g are required";
+    return "dm_lb_ac is required for a visual estimate";
+  }
+  return null;
+}
+
+/**
+ * Standing DM on asOf: the mean of the latest day's samples (or a later post-graze reading),
+ * then each ungrazed day adds the paddock's curve rate, slowed as DM nears the ceiling, or loses
+ * decay_pct_day while the curve is dormant. Days under a grazing event are not projected.
+ */
+export function standingDm(
+  samples: Pick<ForageSample, "sample_date" | "method" | "dm_lb_ac">[],
+  events: Pick<GrazeEvent, "in_date" | "out_date" | "post_graze_dm_lb_ac">[],
+  curve: GrowthCurve | null,
+  asOf: string,
+  opts: { decay_pct_day?: number; ceiling_dm_lb_ac?: number } = {}
+): ForageStanding | null {
+  const decay = (opts.decay_pct_day ?? DEFAULT_DECAY_PCT_DAY) / 100;
+  const ceiling = opts.ceiling_dm_lb_ac ?? STANDING_CEILING_LB_AC;
+
+  const dated = samples.filter((s) => s.sample_date <= asOf && s.dm_lb_ac != null);
+  if (!dated.length) return null;
+  const measured_on = dated.reduce((m, s) => (s.sample_date > m ? s.sample_date : m), dated[0].sample_date);
+  const latest = dated.filter((s) => s.sample_date === measured_on);
+  const measured = latest.reduce((a, s) => a + Number(s.dm_lb_ac), 0) / latest.length;
+
+  let baseline: ForageStanding["baseline"] = "sample";
+  let from = measured_on;
+  let dm = measured;
+  const reset = events
+    .filter((e) => e.out_date && e.out_date > measured_on && e.out_date <= asOf && e.post_graze_dm_lb_ac != null)
+    .sort((a, b) => a.out_date!.localeCompare(b.out_date!))
+    .pop();
+  if (reset) {
+    baseline = "post_graze";
+    from = reset.out_date!;
+    dm = Number(reset.post_graze_dm_lb_ac);
+  }
+
+  const start = dm;
+  const grazedOn = (ymd: string) => events.some((e) => e.in_date <= ymd && (!e.out_date || e.out_date > ymd));
+  let stale = false;
+  const days = Math.max(0, daysBetween(from, asOf));
+  for (let i = 1; i <= days; i++) {
+    const ymd = addDays(from, i);
+    if (grazedOn(ymd)) {
+      stale = true;
+      continue;
+    }
+    if (!curve) continue;
+    const rate = dailyRate(curve, ymd);
+    dm = rate > 0 ? dm + rate * Math.max(0, 1 - dm / ceiling) : dm * (1 - decay);
+  }
+
+  return {
+    dm_lb_ac: Math.round(dm),
+    measured_on,
+    measured_dm_lb_ac: Math.round(measured),
+    methods: Array.from(new Set(latest.map((s) => s.method))),
+    samples: latest.length,
+    baseline,
+    baseline_date: from,
+    days_projected: days,
+    change_lb_ac: Math.round(dm - start),
+    curve: curve?.name ?? null,
+    stale,
+  };
+}
+
+export function standingByPaddock(
+  paddocks: { id: number; zone?: string | null; growth_curve_id?: number | null }[],
+  samples: Pick<ForageSample, "paddock_id" | "sample_date" | "method" | "dm_lb_ac">[],
+  events: Pick<GrazeEvent, "paddock_id" | "in_date" | "out_date" | "post_graze_dm_lb_ac">[],
+  curves: GrowthCurve[],
+  asOf: string
+) {
+  const out = new Map<number, ForageStanding | null>();
+  for (const p of paddocks) {
+    out.set(
+      p.id,
+      standingDm(
+        samples.filter((s) => Number(s.paddock_id) === p.id),
+        events.filter((e) => Number(e.paddock_id) === p.id),
+        curveForPaddock(p, curves),
+        asOf
+      )
+    );
+  }
+  return out;
+}
@@ -0,0 +1,177 @@
+/**
+ * Paddock boundaries: GeoJSON Polygon / MultiPolygon geometries in WGS84 ([lon, lat]), parsed
+ * from GeoJSON or KML files, and their area on the WGS84 sphere.
+ */
+
+export type Position = [number, number];
+
+export type Boundary =
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] };
+
+export type BoundaryFormat = "geojson" | "kml";
+
+export type ImportedShape = {
+  /** placemark / feature name, used to match a paddock */
+  name: string | null;
+  boundary: Boundary;
+};
+
+export const M2_PER_ACRE = 4046.8564224;
+
+/** Typed acres further than this from the mapped area are flagged. */
+export const ACREAGE_TOLERANCE_PCT = 5;
+
+const EARTH_RADIUS_M = 6378137;
+const rad = (d: number) => (d * Math.PI) / 180;
+
+/** Drops altitude, closes open rings; null when a ring is unusable. */
+function cleanRing(ring: any): Position[] | null {
+  if (!Array.isArray(ring)) return null;
+  const pts: Position[] = [];
+  for (const p of ring) {
+    if (!Array.isArray(p) || p.length < 2) return null;
+    const lon = Number(p[0]);
+    const lat = Number(p[1]);
+    if (!Number.isFinite(lon) || !Number.isFinite(lat) || Math.abs(lon) > 180 || Math.abs(lat) > 90) return null;
+    pts.push([lon, lat]);
+  }
+  if (pts.length && (pts[0][0] !== pts[pts.length - 1][0] || pts[0][1] !== pts[pts.length - 1][1])) pts.push([...pts[0]] as Position);
+  return pts.length >= 4 ? pts : null;
+}
+
+function cleanPolygon(rings: any): Position[][] | null {
+  if (!Array.isArray(rings) || !rings.length) return null;
+  const out = rings.map(cleanRing);
+  return out.every(Boolean) ? (out as Position[][]) : null;
+}
+
+/** A stored / submitted geometry in canonical form, or null when it is not a usable polygon. */
+export function normalizeBoundary(g: any): Boundary | null {
+  if (!g || typeof g !== "object") return null;
+  if (g.type === "Polygon") {
+    const rings = cleanPolygon(g.coordinates);
+    return rings ? { type: "Polygon", coordinates: rings } : null;
+  }
+  if (g.type === "MultiPolygon" && Array.isArray(g.coordinates) && g.coordinates.length) {
+    const polys = g.coordinates.map(cleanPolygon);
+    return polys.every(Boolean) ? { type: "MultiPolygon", coordinates: polys as Position[][][] } : null;
+  }
+  return null;
+}
+
+/** Each polygon as [outer, ...holes]. */
+export function polygonsOf(b: Boundary): Position[][][] {
+  return b.type === "Polygon" ? [b.coordinates] : b.coordinates;
+}
+
+/** Several shapes for one paddock (e.g. split by a creek) as one MultiPolygon. */
+export function mergeBoundaries(bs: Boundary[]): Boundary {
+  if (bs.length === 1) return bs[0];
+  return { type: "MultiPolygon", coordinates: bs.flatMap(polygonsOf) };
+}
+
+/** Area of one ring on the sphere (spherical excess, as used by Turf and Google Maps), m². */
+function ringAreaM2(ring: Position[]) {
+  const n = ring.length;
+  if (n < 4) return 0;
+  let sum = 0;
+  for (let i = 0; i < n - 1; i++) {
+    const p1 = ring[i];
+    const p2 = ring[(i + 1) % (n - 1)];
+    const p3 = ring[(i + 2) % (n - 1)];
+    sum += (rad(p3[0]) - rad(p1[0])) * Math.sin(rad(p2[1]));
+  }
+  return Math.abs((sum * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+}
+
+export function boundaryAreaM2(b: Boundary) {
+  return polygonsOf(b).reduce(
+    (s, [outer, ...holes]) => s + ringAreaM2(outer) - holes.reduce((h, r) => h + ringAreaM2(r), 0),
+    0
+  );
+}
+
+export function boundaryAcres(b: Boundary) {
+  return Math.round((boundaryAreaM2(b) / M2_PER_ACRE) * 100) / 100;
+}
+
+/** How far the typed acres are from the mapped ones, in % of the mapped (null = nothing to compare). */
+export function acreageDiffPct(typed: number | null | undefined, mapped: number | null | undefined) {
+  if (typed == null || mapped == null || !(Number(mapped) > 0)) return null;
+  return Math.round(((Number(typed) - Number(mapped)) / Number(mapped)) * 1000) / 10;
+}
+
+export function acreageMismatch(typed: number | null | undefined, mapped: number | null | undefined) {
+  const d = acreageDiffPct(typed, mapped);
+  return d !== null && Math.abs(d) > ACREAGE_TOLERANCE_PCT;
+}
+
+/* ───────────────── File parsing ───────────────── */
+
+function featureName(props: any): string | null {
+  const v = props?.name ?? props?.Name ?? props?.NAME ?? props?.paddock ?? props?.Paddock ?? null;
+  return v == null || String(v).trim() === "" ? null : String(v).trim();
+}
+
+/** FeatureCollection, Feature or bare geometry; non-polygon features are counted as skipped. */
+export function parseGeoJson(text: string): { shapes: ImportedShape[]; skipped: number } {
+  const json = JSON.parse(text);
+  const features: { name: string | null; geometry: any }[] =
+    json?.type === "FeatureCollection"
+      ? (json.features || []).map((f: any) => ({ name: featureName(f?.properties), geometry: f?.geometry }))
+      : json?.type === "Feature"
+      ? [{ name: featureName(json.properties), geometry: json.geometry }]
+      : [{ name: null, geometry: json }];
+
+  const shapes: ImportedShape[] = [];
+  let skipped = 0;
+  for (const f of features) {
+    const boundary = normalizeBoundary(f.geometry);
+    if (boundary) shapes.push({ name: f.name, boundary });
+    else skipped++;
+  }
+  return { shapes, skipped };
+}
+
+const tagRe = (tag: string, flags = "i") => new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, flags);
+const allTags = (xml: string, tag: string) => Array.from(xml.matchAll(tagRe(tag, "gi"))).map((m) => m[1]);
+const stripCdata = (s: string) => s.replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, "$1").trim();
+
+function kmlRing(block: string): any[] {
+  const coords = tagRe("coordinates").exec(block)?.[1] || "";
+  return coords
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((t) => t.split(",").map(Number));
+}
+
+/** Placemarks with Polygon (or MultiGeometry of polygons) from KML, as exported by Google Earth. */
+export function parseKml(text: string): { shapes: ImportedShape[]; skipped: number } {
+  const shapes: ImportedShape[] = [];
+  let skipped = 0;
+  for (const pm of allTags(text, "Placemark")) {
+    const nameRaw = tagRe("name").exec(pm)?.[1];
+    const name = nameRaw ? stripCdata(nameRaw) || null : null;
+    const polys = allTags(pm, "Polygon").map((poly) => [
+      kmlRing(tagRe("outerBoundaryIs").exec(poly)?.[1] || ""),
+      ...allTags(poly, "innerBoundaryIs").map(kmlRing),
+    ]);
+    const boundary = normalizeBoundary(
+      polys.length === 1 ? { type: "Polygon", coordinates: polys[0] } : { type: "MultiPolygon", coordinates: polys }
+    );
+    if (boundary) shapes.push({ name, boundary });
+    else skipped++;
+  }
+  return { shapes, skipped };
+}
+
+export function parseBoundaryFile(content: string, format: BoundaryFormat) {
+  return format === "kml" ? parseKml(content) : parseGeoJson(content);
+}
+
+/** Format from the file name (.kml, else GeoJSON). */
+export function boundaryFormatOf(filename: string): BoundaryFormat {
+  return filename.toLowerCase().endsWith(".kml") ? "kml" : "geojson";
+}
@@ -0,0 +1,113 @@
+import { addDays, daysBetween, isYmd } from "@/lib/dates";
+
+/** Actual graze / rest periods per paddock from agriops_graze_events. */
+
+export type GrazeEvent = {
+  id?: number;
+  tenant_id?: string;
+  paddock_id: number;
+  herd: string;
+  in_date: string;
+  out_date?: string | null;
+  head_count?: number | null;
+  pre_graze_dm_lb_ac?: number | null;
+  post_graze_dm_lb_ac?: number | null;
+  notes?: string | null;
+};
+
+export type RestStatus = {
+  /** a herd is in the paddock on asOf */
+  grazing: boolean;
+  last_in: string | null;
+  last_out: string | null;
+  /** days since the paddock was last emptied (null while grazed or never grazed) */
+  days_rested: number | null;
+  rest_days: number | null;
+  /** first date the rest target is met (null when never grazed or no target) */
+  ready_on: string | null;
+  /** the latest entry came before the rest target was met */
+  early_reentry: boolean;
+  /** ids of every event that started an early re-entry */
+  early_event_ids: number[];
+};
+
+/** Returns a message when the event is unusable, otherwise null. */
+export function validateGrazeEvent(e: Partial<GrazeEvent>): string | null {
+  if (!e.paddock_id) return "paddock_id is required";
+  if (!isYmd(e.in_date)) return "in_date (YYYY-MM-DD) is required";
+  if (e.out_date && !isYmd(e.out_date)) return "out_date must be YYYY-MM-DD";
+  if (e.out_date && e.out_date < e.in_date) return "out_date is before in_date";
+  if (e.head_count != null && (!Number.isInteger(Number(e.head_count)) || Number(e.head_count) < 0)) {
+    return "head_count must be a whole number";
+  }
+  for (const k of ["pre_graze_dm_lb_ac", "post_graze_dm_lb_ac"] as const) {
+    if (e[k] != null && !(Number(e[k]) >= 0)) return `${k} must be ≥ 0`;
+  }
+  return null;
+}
+
+/**
+ * Occupied periods of one paddock: overlapping or back-to-back events (two herds, or a herd
+ * split by a group move) merge into one period, so rest is only counted while the paddock is empty.
+ */
+function occupiedPeriods(events: GrazeEvent[], asOf: string) {
+  const sorted = events
+    .filter((e) => e.in_date <= asOf)
+    .sort((a, b) => a.in_date.localeCompare(b.in_date));
+  const periods: { in: string; out: string | null; first: GrazeEvent }[] = [];
+  for (const e of sorted) {
+    const out = e.out_date && e.out_date <= asOf ? e.out_date : null;
+    const last = periods[periods.length - 1];
+    if (last && (last.out === null || e.in_date <= last.out)) {
+      if (last.out !== null) last.out = out === null ? null : out > last.out ? out : last.out;
+    } else {
+      periods.push({ in: e.in_date, out, first: e });
+    }
+  }
+  return periods;
+}
+
+/** Rest status of one paddock on asOf, against its rest_days target. */
+export function restStatus(events: GrazeEvent[], rest_days: number | null | undefined, asOf: string): RestStatus {
+  const target = rest_days && rest_days > 0 ? Number(rest_days) : null;
+  const periods = occupiedPeriods(events, asOf);
+  const early_event_ids: number[] = [];
+  let latestEarly = false;
+  periods.forEach((p, i) => {
+    const prev = periods[i - 1];
+    const early = !!(target && prev?.out && daysBetween(prev.out, p.in) < target);
+    if (early && p.first.id) early_event_ids.push(p.first.id);
+    if (i === periods.length - 1) latestEarly = early;
+  });
+
+  const last = periods[periods.length - 1];
+  if (!last) {
+    return { grazing: false, last_in: null, last_out: null, days_rested: null, rest_days: target, ready_on: null, early_reentry: false, early_event_ids };
+  }
+  const grazing = last.out === null;
+  return {
+    grazing,
+    last_in: last.in,
+    last_out: last.out ?? periods[periods.length - 2]?.out ?? null,
+    days_rested: grazing ? null : daysBetween(last.out!, asOf),
+    rest_days: target,
+    ready_on: !grazing && target ? addDays(last.out!, target) : null,
+    early_reentry: latestEarly,
+    early_event_ids,
+  };
+}
+
+/** restStatus for every paddock; events may span paddocks. */
+export function restByPaddock(
+  paddocks: { id: number; rest_days?: number | null }[],
+  events: GrazeEvent[],
+  asOf: string
+): Map<number, RestStatus> {
+  const byPaddock = new Map<number, GrazeEvent[]>();
+  for (const e of events) {
+    const list = byPaddock.get(Number(e.paddock_id)) || [];
+    list.push(e);
+    byPaddock.set(Number(e.paddock_id), list);
+  }
+  return new Map(paddocks.map((p) => [p.id, restStatus(byPaddock.get(p.id) || [], p.rest_days, asOf)]));
+}
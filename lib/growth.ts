@@ -0,0 +1,72 @@
+import { addDays } from "@/lib/dates";
+
+/** Seasonal forage growth curves (lb DM/ac/day by month) and their integration over plan dates. */
+
+export type GrowthCurve = {
+  id?: number;
+  tenant_id?: string;
+  name: string;
+  zone?: string | null;
+  /** Jan..Dec, lb DM/ac/day */
+  monthly_rates: number[];
+  notes?: string | null;
+};
+
+export const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** Starting points for new curves; typical temperate-region shapes, edit to local data. */
+export const PRESET_CURVES: GrowthCurve[] = [
+  // spring flush, summer slump, smaller autumn peak
+  { name: "Cool-season grass", monthly_rates: [0, 2, 15, 45, 70, 50, 20, 15, 30, 30, 10, 0] },
+  // grows in the heat, dormant through the cool months
+  { name: "Warm-season grass", monthly_rates: [0, 0, 0, 10, 35, 60, 70, 65, 40, 10, 0, 0] },
+  { name: "Cool/warm mix", monthly_rates: [0, 1, 8, 28, 52, 55, 45, 40, 35, 20, 5, 0] },
+];
+
+export function validateGrowthCurve(c: Partial<GrowthCurve>): string | null {
+  if (!String(c.name || "").trim()) return "name is required";
+  if (!Array.isArray(c.monthly_rates) || c.monthly_rates.length !== 12) return "monthly_rates needs 12 values (Jan..Dec)";
+  if (c.monthly_rates.some((v) => !Number.isFinite(Number(v)) || Number(v) < 0)) return "monthly rates must be ≥ 0";
+  return null;
+}
+
+const midMonth = (y: number, m: number) => Date.UTC(y, m, 1) + ((Date.UTC(y, m + 1, 1) - Date.UTC(y, m, 1)) / 2);
+
+/**
+ * Rate on a date, interpolated linearly between mid-month values so the plan sees a smooth
+ * season rather than steps on the 1st of each month.
+ */
+export function dailyRate(curve: GrowthCurve, ymd: string): number {
+  const t = Date.parse(`${ymd}T12:00:00Z`);
+  const d = new Date(t);
+  const y = d.getUTCFullYear();
+  const m = d.getUTCMonth();
+  const here = midMonth(y, m);
+  const [m0, y0, m1, y1] = t < here ? [(m + 11) % 12, m === 0 ? y - 1 : y, m, y] : [m, y, (m + 1) % 12, m === 11 ? y + 1 : y];
+  const a = midMonth(y0, m0);
+  const b = midMonth(y1, m1);
+  const r0 = Number(curve.monthly_rates[m0]) || 0;
+  const r1 = Number(curve.monthly_rates[m1]) || 0;
+  return r0 + ((r1 - r0) * (t - a)) / (b - a);
+}
+
+/** Total lb DM/ac grown over `days` days starting on `start`. */
+export function growthOver(curve: GrowthCurve, start: string, days: number): number {
+  let total = 0;
+  for (let i = 0; i < days; i++) total += dailyRate(curve, addDays(start, i));
+  return total;
+}
+
+/** The paddock's own curve, else its zone's curve, else null (caller falls back to a flat rate). */
+export function curveForPaddock(
+  p: { growth_curve_id?: number | null; zone?: string | null },
+  curves: GrowthCurve[]
+): GrowthCurve | null {
+  if (p.growth_curve_id) {
+    const own = curves.find((c) => c.id === Number(p.growth_curve_id));
+    if (own) return own;
+  }
+  const zone = String(p.zone || "").trim().toLowerCase();
+  if (!zone) return null;
+  return curves.find((c) => String(c.zone || "").trim().toLowerCase() === zone) || null;
+}
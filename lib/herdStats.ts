@@ -0,0 +1,98 @@
+import { daysBetween } from "@/lib/dates";
+
+/** Planner herd figures from real animals: head count and latest weights projected by ADG. */
+
+export type HerdFilter = {
+  paddock_id?: number | null;
+  /** default "active"; off-farm statuses never count */
+  status?: string | null;
+  group_name?: string | null;
+};
+
+export type WeightRow = { animal_id: number; weigh_date: string; weight_lb: number };
+
+export type AnimalProjection = {
+  id: number;
+  tag: string;
+  latest_weight_lb: number | null;
+  latest_date: string | null;
+  /** lb/day between the earliest weight in the lookback window and the latest; null with one weight */
+  adg_lb_day: number | null;
+  /** null without a weight, or when the latest one is stale */
+  projected_lb: number | null;
+  /** latest weight is more than STALE_WEIGHT_DAYS before as_of, so it isn't projected */
+  stale: boolean;
+};
+
+export type HerdStats = {
+  as_of: string;
+  headcount: number;
+  weighed: number;
+  /** animals whose latest weight is too old to project; left out of the average like unweighed ones */
+  stale: number;
+  avg_weight_lb: number;
+  /** average of the ADGs used for projection (animals with two or more weights) */
+  avg_adg_lb_day: number | null;
+  animals: AnimalProjection[];
+};
+
+/** ADG is taken over at most this many days before the latest weight. */
+export const ADG_LOOKBACK_DAYS = 180;
+/**
+ * A latest weight older than this is not projected: a single weight would be held flat (a calf's
+ * birth weight counting as ~80 lb months later) and an ADG would be extrapolated too far.
+ */
+export const STALE_WEIGHT_DAYS = 120;
+
+export function projectWeights(
+  animals: { id: number; tag: string }[],
+  weights: WeightRow[],
+  asOf: string,
+  lookbackDays = ADG_LOOKBACK_DAYS
+): HerdStats {
+  const byAnimal = new Map<number, WeightRow[]>();
+  for (const w of weights) {
+    if (w.weigh_date > asOf || !(Number(w.weight_lb) > 0)) continue;
+    const list = byAnimal.get(Number(w.animal_id)) || [];
+    list.push(w);
+    byAnimal.set(Number(w.animal_id), list);
+  }
+
+  const rows: AnimalProjection[] = animals.map((a) => {
+    const list = (byAnimal.get(a.id) || []).sort((x, y) => x.weigh_date.localeCompare(y.weigh_date));
+    const latest = list[list.length - 1];
+    if (!latest) return { id: a.id, tag: a.tag, latest_weight_lb: null, latest_date: null, adg_lb_day: null, projected_lb: null, stale: false };
+
+    const base = list.find((w) => daysBetween(w.weigh_date, latest.weigh_date) <= lookbackDays && w.weigh_date < latest.weigh_date);
+    const adg = base
+      ? (Number(latest.weight_lb) - Number(base.weight_lb)) / daysBetween(base.weigh_date, latest.weigh_date)
+      : null;
+    // stale weights aren't projected, which caps the ADG horizon at STALE_WEIGHT_DAYS
+    const horizon = daysBetween(latest.weigh_date, asOf);
+    const stale = horizon > STALE_WEIGHT_DAYS;
+    const projected = Math.max(0, Number(latest.weight_lb) + (adg ?? 0) * horizon);
+    return {
+      id: a.id,
+      tag: a.tag,
+      latest_weight_lb: Number(latest.weight_lb),
+      latest_date: latest.weigh_date,
+      adg_lb_day: adg === null ? null : Math.round(adg * 100) / 100,
+      projected_lb: stale ? null : Math.round(projected),
+      stale,
+    };
+  });
+
+  const weighed = rows.filter((r) => r.projected_lb !== null);
+  const withAdg = weighed.filter((r) => r.adg_lb_day !== null);
+  return {
+    as_of: asOf,
+    headcount: rows.length,
+    weighed: weighed.length,
+    stale: rows.filter((r) => r.stale).length,
+    avg_weight_lb: weighed.length ? Math.round(weighed.reduce((s, r) => s + r.projected_lb!, 0) / weighed.length) : 0,
+    avg_adg_lb_day: withAdg.length
+      ? Math.round((withAdg.reduce((s, r) => s + r.adg_lb_day!, 0) / withAdg.length) * 100) / 100
+      : null,
+    animals: rows,
+  };
+}
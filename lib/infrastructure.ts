@@ -0,0 +1,90 @@
+import { AU_BODY_WEIGHT_LB } from "@/lib/animalUnits";
+
+/**
+ * Paddock infrastructure: water points, fence segments and gates, each on one paddock. The
+ * planner uses the water side to skip dry paddocks and to size daily water demand.
+ */
+
+export type InfraCategory = "water" | "fence" | "gate";
+
+export type InfraKind = "tank" | "trough" | "pond" | "permanent" | "temporary" | "electric" | "gate";
+
+export const INFRA_KINDS: { value: InfraKind; label: string; category: InfraCategory }[] = [
+  { value: "tank", label: "Tank", category: "water" },
+  { value: "trough", label: "Trough", category: "water" },
+  { value: "pond", label: "Pond / dam", category: "water" },
+  { value: "permanent", label: "Permanent fence", category: "fence" },
+  { value: "temporary", label: "Temporary fence", category: "fence" },
+  { value: "electric", label: "Electric fence", category: "fence" },
+  { value: "gate", label: "Gate", category: "gate" },
+];
+
+export type Infrastructure = {
+  id?: number;
+  tenant_id?: string;
+  paddock_id: number;
+  kind: InfraKind;
+  name?: string | null;
+  /** water points; null = not known (e.g. a pond) */
+  capacity_gal?: number | null;
+  /** fence segments */
+  length_ft?: number | null;
+  /** gates */
+  width_ft?: number | null;
+  /** gates: the paddock on the other side */
+  to_paddock_id?: number | null;
+  notes?: string | null;
+};
+
+export type PaddockWater = {
+  points: number;
+  /** summed over points with a known capacity */
+  capacity_gal: number;
+  /** points without a capacity on record */
+  unsized: number;
+};
+
+/** Typical cattle intake: ~1.5 gal per 100 lb body weight a day, more in heat or lactation. */
+export const DEFAULT_WATER_GAL_AU_DAY = 15;
+
+export function infraCategory(kind: InfraKind | string): InfraCategory | null {
+  return INFRA_KINDS.find((k) => k.value === kind)?.category ?? null;
+}
+
+export function validateInfrastructure(r: Partial<Infrastructure>): string | null {
+  if (!(Number(r.paddock_id) > 0)) return "paddock_id is required";
+  const category = infraCategory(String(r.kind));
+  if (!category) return `kind must be one of ${INFRA_KINDS.map((k) => k.value).join(", ")}`;
+  if (r.capacity_gal != null && !(Number(r.capacity_gal) >= 0)) return "capacity_gal must be ≥ 0";
+  if (r.length_ft != null && !(Number(r.length_ft) >= 0)) return "length_ft must be ≥ 0";
+  if (r.width_ft != null && !(Number(r.width_ft) >= 0)) return "width_ft must be ≥ 0";
+  if (r.to_paddock_id != null && Number(r.to_paddock_id) === Number(r.paddock_id)) {
+    return "a gate must lead to another paddock";
+  }
+  return null;
+}
+
+/** Water points and stored capacity per paddock; paddocks without any are absent. */
+export function waterByPaddock(items: Pick<Infrastructure, "paddock_id" | "kind" | "capacity_gal">[]) {
+  const out = new Map<number, PaddockWater>();
+  for (const it of items) {
+    if (infraCategory(it.kind) !== "water") continue;
+    const w = out.get(Number(it.paddock_id)) ?? { points: 0, capacity_gal: 0, unsized: 0 };
+    w.points++;
+    if (it.capacity_gal == null) w.unsized++;
+    else w.capacity_gal += Number(it.capacity_gal);
+    out.set(Number(it.paddock_id), w);
+  }
+  return out;
+}
+
+/** Herd drinking water a day, from its live weight in animal units. */
+export function waterDemandGalDay(headcount: number, avgWeightLb: number, galPerAuDay = DEFAULT_WATER_GAL_AU_DAY) {
+  return ((headcount * avgWeightLb) / AU_BODY_WEIGHT_LB) * galPerAuDay;
+}
+
+/** Days the paddock's stored water lasts the herd without refilling (null = unknown / no demand). */
+export function waterStorageDays(w: PaddockWater | null | undefined, demandGalDay: number) {
+  if (!w || w.unsized > 0 || !(demandGalDay > 0)) return null;
+  return w.capacity_gal / demandGalDay;
+}
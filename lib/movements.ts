@@ -0,0 +1,144 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Paddock movement log helpers shared by /api/cattle and /api/paddocks (pass a service-role client).
+ * agriops_cattle_movements is the source of truth; current_paddock_id / current_paddock on the
+ * animal are re-derived from it after every write.
+ */
+
+/** Statuses that mean the animal has left the farm (its log gets a move to "no paddock"); the movements migration backfill repeats this list. */
+export const OFF_FARM_STATUSES = ["sold", "dead", "culled", "processed"];
+
+export type MoveInput = {
+  animal_id: number;
+  to_paddock_id: number | null;
+  move_date: string;
+  reason?: string | null;
+};
+
+export type Movement = MoveInput & {
+  id: number;
+  tenant_id: string;
+  from_paddock_id: number | null;
+  created_at?: string;
+};
+
+/** Accepts a paddock id or name ("" / null = no paddock). */
+export async function resolvePaddock(
+  db: SupabaseClient,
+  tenant_id: string,
+  ref: { id?: any; name?: any }
+): Promise<{ id: number | null; name: string | null; error?: string }> {
+  if (ref.id) {
+    const { data, error } = await db
+      .from("agriops_paddocks")
+      .select("id, name")
+      .eq("tenant_id", tenant_id)
+      .eq("id", Number(ref.id))
+      .maybeSingle();
+    if (error) throw error;
+    return data ? { id: data.id, name: data.name } : { id: null, name: null, error: `Paddock ${ref.id} not found` };
+  }
+  const name = String(ref.name ?? "").trim();
+  if (!name) return { id: null, name: null };
+  const { data, error } = await db
+    .from("agriops_paddocks")
+    .select("id, name")
+    .eq("tenant_id", tenant_id)
+    .ilike("name", name.replace(/([%_\\])/g, "\\$1"));
+  if (error) throw error;
+  if (!data?.length) return { id: null, name: null, error: `Paddock "${name}" not found` };
+  return { id: data[0].id, name: data[0].name };
+}
+
+/** Latest movement per animal on or before a date (undefined = no movement yet). 200 ids per query, each paged. */
+export async function locationsOn(db: SupabaseClient, tenant_id: string, animal_ids: number[], on: string) {
+  const out = new Map<number, number | null>();
+  for (let i = 0; i < animal_ids.length; i += 200) {
+    for (let from = 0; ; from += 1000) {
+      const { data, error } = await db
+        .from("agriops_cattle_movements")
+        .select("animal_id, to_paddock_id, move_date, id")
+        .eq("tenant_id", tenant_id)
+        .in("animal_id", animal_ids.slice(i, i + 200))
+        .lte("move_date", on)
+        .order("move_date", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, from + 999);
+      if (error) throw error;
+      // ascending, so the last row seen per animal is its latest
+      for (const m of data || []) out.set(Number(m.animal_id), m.to_paddock_id ?? null);
+      if (!data || data.length < 1000) break;
+    }
+  }
+  return out;
+}
+
+/** Re-derives current_paddock_id / current_paddock from each animal's latest movement. */
+export async function syncCurrentPaddocks(db: SupabaseClient, tenant_id: string, animal_ids: number[]) {
+  if (!animal_ids.length) return;
+  const latest = await locationsOn(db, tenant_id, animal_ids, "9999-12-31");
+  const groups = new Map<number | null, number[]>();
+  for (const aid of Array.from(new Set(animal_ids))) {
+    const pid = latest.get(aid) ?? null; // no movements left → no paddock
+    const list = groups.get(pid) || [];
+    list.push(aid);
+    groups.set(pid, list);
+  }
+
+  const ids = Array.from(groups.keys()).filter((k): k is number => k !== null);
+  const names = new Map<number, string>();
+  if (ids.length) {
+    const { data, error } = await db.from("agriops_paddocks").select("id, name").eq("tenant_id", tenant_id).in("id", ids);
+    if (error) throw error;
+    for (const p of data || []) names.set(p.id, p.name);
+  }
+
+  for (const [pid, aids] of Array.from(groups.entries())) {
+    const { error } = await db
+      .from("agriops_cattle")
+      .update({ current_paddock_id: pid, current_paddock: pid ? names.get(pid) ?? null : null })
+      .eq("tenant_id", tenant_id)
+      .in("id", aids);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Writes movements (from_paddock_id is where the log places each animal on move_date, so
+ * back-dated moves chain correctly), skips no-op moves, then syncs the animals' current paddock.
+ */
+export async function recordMovements(db: SupabaseClient, tenant_id: string, moves: MoveInput[]) {
+  const byDate = new Map<string, MoveInput[]>();
+  for (const m of moves) {
+    const list = byDate.get(m.move_date) || [];
+    list.push(m);
+    byDate.set(m.move_date, list);
+  }
+
+  const rows: Omit<Movement, "id">[] = [];
+  for (const [date, list] of Array.from(byDate.entries())) {
+    const where = await locationsOn(db, tenant_id, list.map((m) => m.animal_id), date);
+    for (const m of list) {
+      const from = where.get(m.animal_id) ?? null;
+      if (from === m.to_paddock_id) continue;
+      rows.push({
+        tenant_id,
+        animal_id: m.animal_id,
+        from_paddock_id: from,
+        to_paddock_id: m.to_paddock_id,
+        move_date: m.move_date,
+        reason: m.reason ?? null,
+      });
+    }
+  }
+
+  let inserted: Movement[] = [];
+  for (let i = 0; i < rows.length; i += 500) {
+    const { data, error } = await db.from("agriops_cattle_movements").insert(rows.slice(i, i + 500)).select();
+    if (error) throw error;
+    inserted = inserted.concat((data || []) as Movement[]);
+  }
+  await syncCurrentPaddocks(db, tenant_id, Array.from(new Set(moves.map((m) => m.animal_id))));
+  return inserted;
+}
@@ -0,0 +1,205 @@
+/** Pedigree walking and inbreeding (Wright's path method) over agriops_cattle.dam_id / sire_id. */
+
+export type PedigreeAnimal = {
+  id: number;
+  tag: string;
+  name?: string | null;
+  sex?: string | null;
+  birth_date?: string | null;
+  status?: string | null;
+  dam_id?: number | null;
+  sire_id?: number | null;
+};
+
+export type PedigreeNode = {
+  id: number;
+  tag: string;
+  name?: string | null;
+  sex?: string | null;
+  birth_date?: string | null;
+  dam: PedigreeNode | null;
+  sire: PedigreeNode | null;
+};
+
+export type Descendant = PedigreeAnimal & { generation: number };
+
+export type CommonAncestor = { id: number; tag: string; contribution: number };
+
+export type MatingCheck = {
+  coefficient: number;
+  common_ancestors: CommonAncestor[];
+  level: "ok" | "warn" | "high";
+  message: string | null;
+};
+
+/** Offspring F at or above these levels is flagged (first cousins = 6.25 %, half sibs = 12.5 %). */
+export const INBREEDING_WARN = 0.0625;
+export const INBREEDING_HIGH = 0.125;
+
+export type PedigreeIndex = Map<number, PedigreeAnimal>;
+
+export function indexAnimals(rows: PedigreeAnimal[]): PedigreeIndex {
+  return new Map(rows.map((r) => [Number(r.id), r]));
+}
+
+/** Ancestor tree up to `depth` generations (depth 1 = parents only). */
+export function ancestorTree(index: PedigreeIndex, id: number, depth = 3): PedigreeNode | null {
+  const walk = (aid: number | null | undefined, d: number, seen: Set<number>): PedigreeNode | null => {
+    if (!aid) return null;
+    const a = index.get(Number(aid));
+    if (!a || seen.has(a.id)) return null;
+    const next = new Set(seen).add(a.id);
+    return {
+      id: a.id,
+      tag: a.tag,
+      name: a.name ?? null,
+      sex: a.sex ?? null,
+      birth_date: a.birth_date ?? null,
+      dam: d > 0 ? walk(a.dam_id, d - 1, next) : null,
+      sire: d > 0 ? walk(a.sire_id, d - 1, next) : null,
+    };
+  };
+  return walk(id, depth, new Set());
+}
+
+/** Offspring, grand-offspring, … breadth-first, up to `depth` generations. */
+export function descendants(index: PedigreeIndex, id: number, depth = 3): Descendant[] {
+  const children = new Map<number, PedigreeAnimal[]>();
+  index.forEach((a) => {
+    for (const p of [a.dam_id, a.sire_id]) {
+      if (!p) continue;
+      const list = children.get(Number(p)) || [];
+      list.push(a);
+      children.set(Number(p), list);
+    }
+  });
+
+  const out: Descendant[] = [];
+  const seen = new Set<number>([id]);
+  let frontier = [id];
+  for (let g = 1; g <= depth && frontier.length; g++) {
+    const next: number[] = [];
+    for (const pid of frontier) {
+      for (const c of children.get(pid) || []) {
+        if (seen.has(c.id)) continue;
+        seen.add(c.id);
+        out.push({ ...c, generation: g });
+        next.push(c.id);
+      }
+    }
+    frontier = next;
+  }
+  return out;
+}
+
+/** True when `ancestor` appears anywhere above `id` (used to refuse parentage cycles). */
+export function isAncestor(index: PedigreeIndex, ancestor: number, id: number): boolean {
+  const stack = [id];
+  const seen = new Set<number>();
+  while (stack.length) {
+    const a = index.get(stack.pop()!);
+    if (!a || seen.has(a.id)) continue;
+    seen.add(a.id);
+    for (const p of [a.dam_id, a.sire_id]) {
+      if (!p) continue;
+      if (Number(p) === ancestor) return true;
+      stack.push(Number(p));
+    }
+  }
+  return false;
+}
+
+/** Every upward path from `id` (inclusive) to each ancestor, as id lists, up to maxDepth generations. */
+function upwardPaths(index: PedigreeIndex, id: number, maxDepth: number): Map<number, number[][]> {
+  const out = new Map<number, number[][]>();
+  const walk = (aid: number, path: number[]) => {
+    const list = out.get(aid) || [];
+    list.push(path);
+    out.set(aid, list);
+    if (path.length > maxDepth) return;
+    const a = index.get(aid);
+    if (!a) return;
+    for (const p of [a.dam_id, a.sire_id]) {
+      if (p && !path.includes(Number(p))) walk(Number(p), [...path, Number(p)]);
+    }
+  };
+  walk(id, [id]);
+  return out;
+}
+
+/**
+ * Inbreeding coefficient of a (hypothetical) calf of sire × dam:
+ *   F = Σ over common ancestors A, over path pairs meeting only at A, of (1/2)^(n1 + n2 + 1) · (1 + F_A)
+ * where n1/n2 are the generations from sire/dam up to A. Pedigrees are cut at maxDepth.
+ */
+export function matingInbreeding(
+  index: PedigreeIndex,
+  sire_id: number,
+  dam_id: number,
+  maxDepth = 6,
+  memo = new Map<string, number>()
+): { coefficient: number; common_ancestors: CommonAncestor[] } {
+  const key = `${sire_id}x${dam_id}`;
+  const fromSire = upwardPaths(index, sire_id, maxDepth);
+  const fromDam = upwardPaths(index, dam_id, maxDepth);
+
+  let total = 0;
+  const common: CommonAncestor[] = [];
+  fromSire.forEach((sirePaths, ancestor) => {
+    const damPaths = fromDam.get(ancestor);
+    if (!damPaths) return;
+    const a = index.get(ancestor);
+    const fA =
+      a?.sire_id && a?.dam_id && maxDepth > 0
+        ? animalInbreeding(index, a, maxDepth - 1, memo)
+        : 0;
+    let contribution = 0;
+    for (const p1 of sirePaths) {
+      for (const p2 of damPaths) {
+        // the two paths may only meet at the common ancestor itself
+        const body1 = new Set(p1.slice(0, -1));
+        if (p2.slice(0, -1).some((x) => body1.has(x))) continue;
+        const n1 = p1.length - 1;
+        const n2 = p2.length - 1;
+        contribution += Math.pow(0.5, n1 + n2 + 1) * (1 + fA);
+      }
+    }
+    if (contribution > 0) {
+      total += contribution;
+      common.push({ id: ancestor, tag: a?.tag ?? String(ancestor), contribution });
+    }
+  });
+  memo.set(key, total);
+  common.sort((x, y) => y.contribution - x.contribution);
+  return { coefficient: total, common_ancestors: common };
+}
+
+/** F of an existing animal = F of its parents' mating. */
+export function animalInbreeding(index: PedigreeIndex, a: PedigreeAnimal, maxDepth = 6, memo = new Map<string, number>()): number {
+  if (!a.sire_id || !a.dam_id) return 0;
+  const key = `${a.sire_id}x${a.dam_id}`;
+  if (memo.has(key)) return memo.get(key)!;
+  memo.set(key, 0); // guards against malformed (cyclic) data
+  return matingInbreeding(index, Number(a.sire_id), Number(a.dam_id), maxDepth, memo).coefficient;
+}
+
+/** Inbreeding check for a planned mating, with a human-readable warning. */
+export function checkMating(index: PedigreeIndex, sire_id: number, dam_id: number): MatingCheck {
+  const { coefficient, common_ancestors } = matingInbreeding(index, sire_id, dam_id);
+  const sire = index.get(sire_id);
+  const dam = index.get(dam_id);
+  const pct = `${(coefficient * 100).toFixed(2)}%`;
+
+  let direct: string | null = null;
+  if (isAncestor(index, sire_id, dam_id)) direct = `${sire?.tag} is an ancestor of ${dam?.tag}`;
+  else if (isAncestor(index, dam_id, sire_id)) direct = `${dam?.tag} is an ancestor of ${sire?.tag}`;
+
+  const level: MatingCheck["level"] =
+    coefficient >= INBREEDING_HIGH || direct ? "high" : coefficient >= INBREEDING_WARN ? "warn" : "ok";
+  const via = common_ancestors.slice(0, 3).map((c) => c.tag).join(", ");
+  const message =
+    level === "ok"
+      ? null
+      : `Calf inbreeding ${pct}${direct ? ` — ${direct}` : ""}${via ? ` (common ancestors: ${via})` : ""}`;
+  return { coefficient, common_ancestors, level, message };
+}
@@ -0,0 +1,170 @@
+import { AUM_LB_DM, herdAu } from "@/lib/animalUnits";
+import { todayYmd } from "@/lib/dates";
+import type { ForageStanding } from "@/lib/forage";
+import type { RestStatus } from "@/lib/grazing";
+import { curveForPaddock, dailyRate, growthOver, type GrowthCurve } from "@/lib/growth";
+import type { HerdFilter } from "@/lib/herdStats";
+import { DEFAULT_WATER_GAL_AU_DAY, waterDemandGalDay, type PaddockWater } from "@/lib/infrastructure";
+import { planRotation, type RotationPlan } from "@/lib/rotation";
+
+/** GrazingPlanner maths shared by the live plan and the scenario comparison. */
+
+export type PlannerHerd = {
+  id?: number;
+  tenant_id: string;
+  name: string;
+  headcount: number;
+  avg_weight_lb: number;
+  intake_pct_bw: number;
+  notes?: string | null;
+  /** set when headcount / weight were built from cattle records */
+  cattle_filter?: HerdFilter | null;
+};
+
+export type PlannerSettings = {
+  days: number;
+  growth_dm_lb_ac_day: number;
+  residual_dm_lb_ac: number;
+  max_stay_days: number;
+  /** null = today */
+  start_date: string | null;
+  /** leave paddocks without a water point out of the plan */
+  require_water: boolean;
+  water_gal_au_day: number;
+};
+
+export type PlannerScenario = PlannerSettings & {
+  id?: number;
+  tenant_id: string;
+  name: string;
+  herd_id: number | null;
+  notes?: string | null;
+  /** embedded by /api/paddocks listScenarios */
+  herd?: PlannerHerd | null;
+};
+
+export type PlannerPaddock = {
+  id: number;
+  name: string;
+  acres: number | null;
+  forage_dm_lb_ac: number | null;
+  util_pct: number | null;
+  rest_days: number | null;
+  zone?: string | null;
+  growth_curve_id?: number | null;
+  rest?: RestStatus | null;
+  /** from forage samples (listWithCounts); wins over the typed forage_dm_lb_ac */
+  standing?: ForageStanding | null;
+  /** water points on the paddock (listWithCounts); null = none */
+  water?: PaddockWater | null;
+};
+
+export type PlanSummary = {
+  daily_need_lb_dm: number;
+  grazeable_lb_dm: number;
+  growth_lb_dm: number;
+  total_available_lb_dm: number;
+  coverage_days: number;
+  deficit_lb_dm: number;
+  /** animal units of the herd (1 AU = 1000 lb) */
+  herd_au: number;
+  /** herd AU over every planned acre */
+  au_per_ac: number;
+  /** AUM the herd needs over the horizon vs. AUM in total_available_lb_dm */
+  aum_demand: number;
+  aum_available: number;
+  /** herd drinking water a day */
+  water_gal_day: number;
+  /** left out of the plan for having no water point (require_water) */
+  dry_paddocks: { id: number; name: string }[];
+  plan: RotationPlan;
+};
+
+export const DEFAULT_SETTINGS: PlannerSettings = {
+  days: 30,
+  growth_dm_lb_ac_day: 35,
+  residual_dm_lb_ac: 1200,
+  max_stay_days: 0,
+  start_date: null,
+  require_water: false,
+  water_gal_au_day: DEFAULT_WATER_GAL_AU_DAY,
+};
+
+/** Measured-and-projected standing DM where samples exist, else the typed value. */
+export function paddockDm(p: Pick<PlannerPaddock, "forage_dm_lb_ac" | "standing">) {
+  return Number(p.standing?.dm_lb_ac ?? p.forage_dm_lb_ac ?? 0);
+}
+
+export function dailyNeedLbDm(herd: Pick<PlannerHerd, "headcount" | "avg_weight_lb" | "intake_pct_bw">) {
+  return herd.headcount * herd.avg_weight_lb * (herd.intake_pct_bw / 100);
+}
+
+/**
+ * Growth uses each paddock's seasonal curve (own, else its zone's) integrated over the plan dates;
+ * paddocks without one grow at the flat growth_dm_lb_ac_day.
+ */
+export function summarizePlan(
+  allPaddocks: PlannerPaddock[],
+  herd: PlannerHerd,
+  s: PlannerSettings,
+  curves: GrowthCurve[] = []
+): PlanSummary {
+  const dry = s.require_water ? allPaddocks.filter((p) => !p.water?.points) : [];
+  const paddocks = dry.length ? allPaddocks.filter((p) => !dry.includes(p)) : allPaddocks;
+  const need = dailyNeedLbDm(herd);
+  const start = s.start_date || todayYmd();
+  const curveOf = new Map(paddocks.map((p) => [p.id, curveForPaddock(p, curves)]));
+  const grazeable = paddocks.reduce((a, p) => {
+    const takeablePerAc = Math.max(0, paddockDm(p) - s.residual_dm_lb_ac) * (Number(p.util_pct ?? 0) / 100);
+    return a + takeablePerAc * Number(p.acres ?? 0);
+  }, 0);
+  const growth = paddocks.reduce((a, p) => {
+    const curve = curveOf.get(p.id);
+    const perAc = curve ? growthOver(curve, start, s.days) : s.growth_dm_lb_ac_day * s.days;
+    return a + Number(p.acres ?? 0) * perAc;
+  }, 0);
+  const total = grazeable + growth;
+  const au = herdAu(herd.headcount, herd.avg_weight_lb);
+  const acres = paddocks.reduce((a, p) => a + Number(p.acres ?? 0), 0);
+
+  // Ordered move calendar: rest_days respected, resting paddocks regrow, gaps reported as shortfall
+  const plan = planRotation(
+    paddocks.map((p) => ({
+      id: p.id,
+      name: p.name,
+      acres: Number(p.acres ?? 0),
+      standing_dm_lb_ac: paddockDm(p),
+      util_pct: Number(p.util_pct ?? 0),
+      rest_days: Number(p.rest_days ?? 0),
+      last_out: p.rest?.grazing ? null : p.rest?.last_out ?? null,
+      grazing: !!p.rest?.grazing,
+    })),
+    {
+      start,
+      days: s.days,
+      daily_need_lb_dm: need,
+      residual_lb_ac: s.residual_dm_lb_ac,
+      growth: (p, ymd) => {
+        const curve = curveOf.get(p.id);
+        return curve ? dailyRate(curve, ymd) : s.growth_dm_lb_ac_day;
+      },
+      max_stay_days: s.max_stay_days,
+    }
+  );
+
+  return {
+    daily_need_lb_dm: need,
+    grazeable_lb_dm: grazeable,
+    growth_lb_dm: growth,
+    total_available_lb_dm: total,
+    coverage_days: need > 0 ? total / need : 0,
+    deficit_lb_dm: Math.max(0, s.days * need - total),
+    herd_au: au,
+    au_per_ac: acres > 0 ? au / acres : 0,
+    aum_demand: (au * s.days) / 30,
+    aum_available: total / AUM_LB_DM,
+    water_gal_day: waterDemandGalDay(herd.headcount, herd.avg_weight_lb, s.water_gal_au_day ?? DEFAULT_WATER_GAL_AU_DAY),
+    dry_paddocks: dry.map((p) => ({ id: p.id, name: p.name })),
+    plan,
+  };
+}
@@ -0,0 +1,160 @@
+import { addDays } from "@/lib/dates";
+
+/**
+ * Day-by-day rotation sequencing for GrazingPlanner. The herd stays in a paddock while it still
+ * holds a full day's takeable DM, then moves to the rested paddock with the most takeable DM.
+ * Paddocks regrow every day they are not grazed; a paddock only re-opens rest_days after the herd
+ * left it. Days on which no paddock can feed the herd are reported as shortfall.
+ */
+
+export type RotationPaddock = {
+  id: number;
+  name: string;
+  acres: number;
+  /** standing DM on the start date */
+  standing_dm_lb_ac: number;
+  util_pct: number;
+  rest_days: number;
+  /** last day a herd left it (from the grazing log); null = rested long enough already */
+  last_out?: string | null;
+  /** a herd is in it on the start date: the plan starts here */
+  grazing?: boolean;
+};
+
+export type RotationInput = {
+  start: string;
+  days: number;
+  daily_need_lb_dm: number;
+  residual_lb_ac: number;
+  /** lb DM/ac/day for a paddock on a date */
+  growth: (p: RotationPaddock, ymd: string) => number;
+  /** forage stops accumulating at this standing DM */
+  ceiling_dm_lb_ac?: number;
+  /** leave a paddock after this many days even if forage remains (0 = no limit) */
+  max_stay_days?: number;
+};
+
+export type RotationStop = {
+  paddock_id: number;
+  name: string;
+  in_date: string;
+  /** move-out date (= next stop's in date) */
+  out_date: string;
+  days: number;
+  entry_dm_lb_ac: number;
+  exit_dm_lb_ac: number;
+  eaten_lb_dm: number;
+};
+
+export type Shortfall = { from: string; to: string; days: number; short_lb_dm: number };
+
+export type RotationPlan = {
+  stops: RotationStop[];
+  shortfalls: Shortfall[];
+  feasible: boolean;
+  short_lb_dm: number;
+  /** standing DM per paddock on the day after the horizon */
+  ending_dm_lb_ac: Record<number, number>;
+};
+
+export const DEFAULT_CEILING_DM_LB_AC = 4000;
+
+export function planRotation(paddocks: RotationPaddock[], input: RotationInput): RotationPlan {
+  const ceiling = input.ceiling_dm_lb_ac ?? DEFAULT_CEILING_DM_LB_AC;
+  const need = Math.max(0, input.daily_need_lb_dm);
+  const usable = paddocks.filter((p) => p.acres > 0);
+
+  const standing = new Map(usable.map((p) => [p.id, Math.max(0, p.standing_dm_lb_ac)]));
+  const readyOn = new Map(
+    usable.map((p) => [p.id, p.last_out && p.rest_days > 0 ? addDays(p.last_out, p.rest_days) : input.start])
+  );
+  const takeable = (p: RotationPaddock) =>
+    Math.max(0, standing.get(p.id)! - input.residual_lb_ac) * (p.util_pct / 100) * p.acres;
+
+  const stops: RotationStop[] = [];
+  const shortDays: { date: string; lb: number }[] = [];
+  // where the herd is; pool = DM it may still take there (util applies to the entry standing crop)
+  const at: { paddock: RotationPaddock | null; stop: RotationStop | null; pool: number } = {
+    paddock: null,
+    stop: null,
+    pool: 0,
+  };
+
+  const open = (p: RotationPaddock, date: string) => {
+    const dm = Math.round(standing.get(p.id)!);
+    at.paddock = p;
+    at.pool = takeable(p);
+    at.stop = { paddock_id: p.id, name: p.name, in_date: date, out_date: date, days: 0, entry_dm_lb_ac: dm, exit_dm_lb_ac: dm, eaten_lb_dm: 0 };
+    stops.push(at.stop);
+  };
+  const close = (date: string) => {
+    if (at.paddock) readyOn.set(at.paddock.id, addDays(date, Math.max(0, at.paddock.rest_days)));
+    at.paddock = null;
+    at.stop = null;
+    at.pool = 0;
+  };
+  const best = (date: string) =>
+    usable
+      .filter((p) => p.id !== at.paddock?.id && readyOn.get(p.id)! <= date && takeable(p) >= need)
+      .sort((a, b) => takeable(b) - takeable(a))[0];
+
+  const first = usable.find((p) => p.grazing);
+  if (first) open(first, input.start);
+
+  for (let d = 0; d < input.days; d++) {
+    const date = addDays(input.start, d);
+
+    if (need > 0) {
+      const overstay = !!(input.max_stay_days && at.stop && at.stop.days >= input.max_stay_days);
+      if (!at.paddock || at.pool < need || overstay) {
+        const next = best(date);
+        if (next) {
+          close(date);
+          open(next, date);
+        } else if (at.paddock && at.pool <= 0) {
+          close(date); // grazed out with nowhere rested to go: herd is off pasture
+        }
+      }
+    }
+
+    if (at.paddock && at.stop) {
+      const eat = Math.min(need, at.pool);
+      at.pool -= eat;
+      standing.set(at.paddock.id, standing.get(at.paddock.id)! - eat / at.paddock.acres);
+      at.stop.days += 1;
+      at.stop.out_date = addDays(date, 1);
+      at.stop.eaten_lb_dm += eat;
+      at.stop.exit_dm_lb_ac = Math.round(standing.get(at.paddock.id)!);
+      if (eat < need) shortDays.push({ date, lb: need - eat });
+    } else if (need > 0) {
+      shortDays.push({ date, lb: need });
+    }
+
+    // regrowth on every paddock the herd is not in
+    for (const p of usable) {
+      if (p.id === at.paddock?.id) continue;
+      const g = Math.max(0, input.growth(p, date));
+      standing.set(p.id, Math.min(ceiling, standing.get(p.id)! + g));
+    }
+  }
+
+  // contiguous shortfall days → ranges
+  const shortfalls: Shortfall[] = [];
+  for (const s of shortDays) {
+    const last = shortfalls[shortfalls.length - 1];
+    if (last && addDays(last.to, 1) === s.date) {
+      last.to = s.date;
+      last.days += 1;
+      last.short_lb_dm += s.lb;
+    } else {
+      shortfalls.push({ from: s.date, to: s.date, days: 1, short_lb_dm: s.lb });
+    }
+  }
+  shortfalls.forEach((s) => (s.short_lb_dm = Math.round(s.short_lb_dm)));
+  stops.forEach((s) => (s.eaten_lb_dm = Math.round(s.eaten_lb_dm)));
+
+  const ending_dm_lb_ac: Record<number, number> = {};
+  standing.forEach((v, id) => (ending_dm_lb_ac[id] = Math.round(v)));
+  const short_lb_dm = shortfalls.reduce((a, s) => a + s.short_lb_dm, 0);
+  return { stops, shortfalls, feasible: shortfalls.length === 0, short_lb_dm, ending_dm_lb_ac };
+}
@@ -0,0 +1,49 @@
+/**
+ * Saved seed mixes (agriops_seed_mixes / agriops_seed_mix_items via /api/care) and scaling a
+ * mix's per-acre rates into the seed to order for a seeding.
+ */
+
+export type SeedMix = {
+  id: number;
+  tenant_id?: string;
+  name: string;
+  notes?: string | null;
+};
+
+export type SeedMixItem = {
+  id?: number;
+  mix_id: number;
+  species: string;
+  lbs_per_ac: number;
+};
+
+/** Species line as stored on a paddock seeding record. */
+export type SeedingItem = { species: string; rate_lb_ac: number };
+
+export const toSeedingItems = (items: SeedMixItem[]): SeedingItem[] =>
+  items.map((it) => ({ species: it.species, rate_lb_ac: Number(it.lbs_per_ac || 0) }));
+
+export type SeedOrderLine = { species: string; rate_lb_ac: number; total_lb: number };
+
+export type SeedOrder = {
+  lines: SeedOrderLine[];
+  rate_lb_ac: number;
+  total_lb: number;
+};
+
+/** Each species' rate times the acres seeded; blank species and zero rates are left out. */
+export function seedOrder(items: SeedingItem[], acres: number | null | undefined): SeedOrder {
+  const ac = Number(acres) > 0 ? Number(acres) : 0;
+  const lines = items
+    .filter((it) => String(it.species || "").trim() && Number(it.rate_lb_ac) > 0)
+    .map((it) => ({
+      species: it.species.trim(),
+      rate_lb_ac: Number(it.rate_lb_ac),
+      total_lb: Math.round(Number(it.rate_lb_ac) * ac * 10) / 10,
+    }));
+  return {
+    lines,
+    rate_lb_ac: lines.reduce((s, l) => s + l.rate_lb_ac, 0),
+    total_lb: Math.round(lines.reduce((s, l) => s + l.total_lb, 0) * 10) / 10,
+  };
+}
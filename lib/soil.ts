@@ -0,0 +1,263 @@
+import { addDays, isYmd } from "@/lib/dates";
+
+/**
+ * Soil tests per paddock (optionally per sampling zone), lime and N-P-K recommendations against
+ * a crop target, and how much of a recommendation the amendments applied since then supplied.
+ * P and K are Mehlich-3 style ppm; rates are per acre (lime as 100% CCE ag lime).
+ */
+
+export type CropKey = "grass_pasture" | "grass_hay" | "legume_grass" | "alfalfa";
+
+export type CropTarget = {
+  value: CropKey;
+  label: string;
+  ph: number;
+  n_lb_ac: number;
+  /** critical soil levels: below them the rate builds the soil up */
+  p_ppm: number;
+  k_ppm: number;
+  /** yearly removal, applied while the soil is in the optimum range */
+  p2o5_maint_lb_ac: number;
+  k2o_maint_lb_ac: number;
+};
+
+export const CROP_TARGETS: CropTarget[] = [
+  { value: "grass_pasture", label: "Grass pasture", ph: 6.0, n_lb_ac: 80, p_ppm: 25, k_ppm: 120, p2o5_maint_lb_ac: 30, k2o_maint_lb_ac: 60 },
+  { value: "grass_hay", label: "Grass hay", ph: 6.0, n_lb_ac: 120, p_ppm: 30, k_ppm: 150, p2o5_maint_lb_ac: 45, k2o_maint_lb_ac: 120 },
+  { value: "legume_grass", label: "Legume-grass mix", ph: 6.5, n_lb_ac: 0, p_ppm: 30, k_ppm: 150, p2o5_maint_lb_ac: 40, k2o_maint_lb_ac: 120 },
+  { value: "alfalfa", label: "Alfalfa", ph: 6.8, n_lb_ac: 0, p_ppm: 35, k_ppm: 175, p2o5_maint_lb_ac: 50, k2o_maint_lb_ac: 200 },
+];
+
+export const DEFAULT_CROP: CropKey = "grass_pasture";
+
+/** lb of P2O5 / K2O that raise the soil test 1 ppm, spread over BUILD_YEARS. */
+export const P2O5_LB_PER_PPM = 18;
+export const K2O_LB_PER_PPM = 8;
+export const BUILD_YEARS = 4;
+
+/** Used for the lime rate when the lab reported no CEC. */
+export const DEFAULT_CEC = 10;
+
+/** Applied within this share of the recommendation counts as met. */
+export const MET_PCT = 90;
+
+/** How long a test governs applications when no newer test follows it. */
+export const TEST_VALID_DAYS = 365;
+
+export type SoilTest = {
+  id?: number;
+  tenant_id?: string;
+  paddock_id: number;
+  sample_date: string;
+  /** sampling zone within the paddock; "" = whole paddock */
+  zone?: string | null;
+  crop: CropKey;
+  lab?: string | null;
+  ph?: number | null;
+  p_ppm?: number | null;
+  k_ppm?: number | null;
+  om_pct?: number | null;
+  cec_meq?: number | null;
+  notes?: string | null;
+};
+
+export type NutrientLevel = "low" | "optimum" | "high";
+
+export type SoilRecommendation = {
+  lime_ton_ac: number;
+  n_lb_ac: number;
+  p2o5_lb_ac: number;
+  k2o_lb_ac: number;
+  p_level: NutrientLevel | null;
+  k_level: NutrientLevel | null;
+};
+
+/** What an amendment supplied per acre (see agriops_paddock_amendments). */
+export type AppliedNutrients = {
+  date_applied?: string | null;
+  n_lb_ac?: number | null;
+  p2o5_lb_ac?: number | null;
+  k2o_lb_ac?: number | null;
+  lime_ton_ac?: number | null;
+};
+
+export type NutrientKey = "lime_ton_ac" | "n_lb_ac" | "p2o5_lb_ac" | "k2o_lb_ac";
+
+export const NUTRIENTS: { key: NutrientKey; label: string }[] = [
+  { key: "lime_ton_ac", label: "Lime" },
+  { key: "n_lb_ac", label: "N" },
+  { key: "p2o5_lb_ac", label: "P₂O₅" },
+  { key: "k2o_lb_ac", label: "K₂O" },
+];
+
+export type ApplicationStatus = "not_needed" | "met" | "partial" | "not_applied";
+
+export type RecommendationCheck = {
+  from: string;
+  /** exclusive: the next test's date, or TEST_VALID_DAYS after this one */
+  to: string;
+  applied: Record<NutrientKey, number>;
+  status: Record<NutrientKey, ApplicationStatus>;
+};
+
+export const cropTarget = (crop: string | null | undefined) =>
+  CROP_TARGETS.find((c) => c.value === crop) ?? CROP_TARGETS.find((c) => c.value === DEFAULT_CROP)!;
+
+const round = (n: number, step: number) => Math.round(n / step) * step;
+
+function level(ppm: number | null | undefined, critical: number): NutrientLevel | null {
+  if (ppm == null) return null;
+  return ppm < critical ? "low" : ppm < critical * 1.5 ? "optimum" : "high";
+}
+
+/** Build-up share below the critical level plus maintenance; maintenance only in the optimum range. */
+function phosphateOrPotash(ppm: number | null | undefined, critical: number, maint: number, lbPerPpm: number) {
+  const l = level(ppm, critical);
+  if (l === null) return maint;
+  if (l === "high") return 0;
+  if (l === "optimum") return maint;
+  return maint + ((critical - Number(ppm)) * lbPerPpm) / BUILD_YEARS;
+}
+
+export function recommend(t: Pick<SoilTest, "crop" | "ph" | "p_ppm" | "k_ppm" | "cec_meq">): SoilRecommendation {
+  const c = cropTarget(t.crop);
+  // a 1-unit pH rise moves base saturation ~25%, and 1 meq/100 g over a 6-in acre (2 M lb) is
+  // 0.5 t CaCO3, so lime ≈ ΔpH × CEC / 8
+  const dPh = t.ph != null ? Math.max(0, c.ph - Number(t.ph)) : 0;
+  const cec = Number(t.cec_meq) > 0 ? Number(t.cec_meq) : DEFAULT_CEC;
+  return {
+    lime_ton_ac: round((dPh * cec) / 8, 0.25),
+    n_lb_ac: c.n_lb_ac,
+    p2o5_lb_ac: round(phosphateOrPotash(t.p_ppm, c.p_ppm, c.p2o5_maint_lb_ac, P2O5_LB_PER_PPM), 5),
+    k2o_lb_ac: round(phosphateOrPotash(t.k_ppm, c.k_ppm, c.k2o_maint_lb_ac, K2O_LB_PER_PPM), 5),
+    p_level: level(t.p_ppm, c.p_ppm),
+    k_level: level(t.k_ppm, c.k_ppm),
+  };
+}
+
+/** Amendments applied from the test date until the next test (or TEST_VALID_DAYS) against its recommendation. */
+export function checkApplied(
+  test: Pick<SoilTest, "sample_date">,
+  rec: SoilRecommendation,
+  amendments: AppliedNutrients[],
+  nextTestDate?: string | null
+): RecommendationCheck {
+  const from = test.sample_date;
+  const to = nextTestDate && nextTestDate > from ? nextTestDate : addDays(from, TEST_VALID_DAYS);
+  const inWindow = amendments.filter((a) => a.date_applied && a.date_applied >= from && a.date_applied < to);
+  const applied = {} as Record<NutrientKey, number>;
+  const status = {} as Record<NutrientKey, ApplicationStatus>;
+  for (const { key } of NUTRIENTS) {
+    applied[key] = inWindow.reduce((s, a) => s + Number(a[key] ?? 0), 0);
+    status[key] =
+      !(rec[key] > 0)
+        ? "not_needed"
+        : applied[key] >= (rec[key] * MET_PCT) / 100
+        ? "met"
+        : applied[key] > 0
+        ? "partial"
+        : "not_applied";
+  }
+  return { from, to, applied, status };
+}
+
+/** The next test of the same paddock and zone after `t`, if any. */
+export function nextTestDate(t: SoilTest, tests: SoilTest[]) {
+  return (
+    tests
+      .filter((o) => o.paddock_id === t.paddock_id && (o.zone || "") === (t.zone || "") && o.sample_date > t.sample_date)
+      .map((o) => o.sample_date)
+      .sort()[0] ?? null
+  );
+}
+
+export function validateSoilTest(t: Partial<SoilTest>): string | null {
+  if (!(Number(t.paddock_id) > 0)) return "paddock_id is required";
+  if (!isYmd(t.sample_date)) return `sample_date must be a YYYY-MM-DD date${t.sample_date ? ` (got "${t.sample_date}")` : ""}`;
+  if (!CROP_TARGETS.some((c) => c.value === t.crop)) return `crop must be one of ${CROP_TARGETS.map((c) => c.value).join(", ")}`;
+  if (t.ph != null && !(Number(t.ph) >= 3 && Number(t.ph) <= 10)) return "ph must be between 3 and 10";
+  for (const f of ["p_ppm", "k_ppm", "om_pct", "cec_meq"] as const) {
+    if (t[f] != null && !(Number(t[f]) >= 0)) return `${f} must be ≥ 0`;
+  }
+  if (t.om_pct != null && Number(t.om_pct) > 100) return "om_pct must be ≤ 100";
+  if ([t.ph, t.p_ppm, t.k_ppm, t.om_pct, t.cec_meq].every((v) => v == null)) return "at least one result is required";
+  return null;
+}
+
+/* ───────────────── Lab CSV import ───────────────── */
+
+export type SoilField = "paddock" | "sample_date" | "zone" | "crop" | "lab" | "ph" | "p_ppm" | "k_ppm" | "om_pct" | "cec_meq" | "notes";
+
+/** Compared after lower-casing and stripping everything but letters and digits (as in vitalsImport). */
+export const SOIL_COLUMN_ALIASES: Record<SoilField, string[]> = {
+  paddock: ["paddock", "paddockname", "field", "fieldname", "fieldid", "pasture", "location"],
+  sample_date: ["sampledate", "date", "datesampled", "samplingdate", "datecollected", "collected"],
+  zone: ["zone", "samplezone", "samplingzone", "grid", "gridcell", "subfield"],
+  crop: ["crop", "croptarget", "intendedcrop", "nextcrop"],
+  lab: ["lab", "laboratory", "labname"],
+  ph: ["ph", "soilph", "waterph", "phwater", "ph11"],
+  p_ppm: ["pppm", "p", "phosphorus", "phosphorusppm", "mehlichp", "mehlich3p", "m3p", "brayp", "brayp1", "olsenp"],
+  k_ppm: ["kppm", "k", "potassium", "potassiumppm", "mehlichk", "mehlich3k", "m3k"],
+  om_pct: ["ompct", "om", "organicmatter", "organicmatterpct", "som"],
+  cec_meq: ["cecmeq", "cec", "cecmeq100g", "cationexchangecapacity", "ecec"],
+  notes: ["notes", "note", "comment", "comments"],
+};
+
+const squash = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function resolveSoilColumns(columns: string[]): Partial<Record<SoilField, string>> {
+  const bySquash = new Map(columns.map((c) => [squash(c), c]));
+  const out: Partial<Record<SoilField, string>> = {};
+  for (const field of Object.keys(SOIL_COLUMN_ALIASES) as SoilField[]) {
+    const hit = SOIL_COLUMN_ALIASES[field].map((a) => bySquash.get(a)).find(Boolean);
+    if (hit) out[field] = hit;
+  }
+  return out;
+}
+
+/** yyyy-mm-dd, or US lab style m/d/yyyy; null for anything that isn't a real date (e.g. d/m/yyyy 25/03/2026). */
+function labDate(v: string): string | null {
+  if (isYmd(v)) return v;
+  const m = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(v);
+  const ymd = m ? `${m[3]}-${m[1].padStart(2, "0")}-${m[2].padStart(2, "0")}` : null;
+  return isYmd(ymd) ? ymd : null;
+}
+
+/** One lab row as a soil test (paddock still to be resolved from `paddock`). */
+export function mapSoilRow(
+  rec: Record<string, string>,
+  cols: Partial<Record<SoilField, string>>,
+  defaultCrop: CropKey = DEFAULT_CROP
+): { paddock: string | null; test: Omit<SoilTest, "paddock_id"> } {
+  const get = (f: SoilField) => {
+    const c = cols[f];
+    const v = c ? String(rec[c] ?? "").trim() : "";
+    return v === "" ? null : v;
+  };
+  // "<0.5" style detection limits are read as the limit
+  const num = (f: SoilField) => {
+    const v = get(f);
+    if (v === null) return null;
+    const n = Number(v.replace(/^[<>]\s*/, ""));
+    return Number.isFinite(n) ? n : null;
+  };
+  const cropRaw = get("crop");
+  const crop =
+    (cropRaw && CROP_TARGETS.find((c) => c.value === cropRaw || squash(c.label) === squash(cropRaw))?.value) || defaultCrop;
+  return {
+    paddock: get("paddock"),
+    test: {
+      // an unreadable date is kept as typed so the import reports it as invalid
+      sample_date: labDate(get("sample_date") || "") || get("sample_date") || "",
+      zone: get("zone") || "",
+      crop,
+      lab: get("lab"),
+      ph: num("ph"),
+      p_ppm: num("p_ppm"),
+      k_ppm: num("k_ppm"),
+      om_pct: num("om_pct"),
+      cec_meq: num("cec_meq"),
+      notes: get("notes"),
+    },
+  };
+}
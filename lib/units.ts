@@ -0,0 +1,132 @@
+/**
+ * Display-unit conversion. The database keeps one canonical unit per column (lb, acres, lb/ac,
+ * °C, kg for ration DMI …); screens, PDFs and CSVs convert at the edge with these helpers.
+ */
+
+export type UnitSystem = "imperial" | "metric";
+
+export const UNIT_SYSTEMS: { value: UnitSystem; label: string }[] = [
+  { value: "imperial", label: "Imperial (lb, ac, °F)" },
+  { value: "metric", label: "Metric (kg, ha, °C)" },
+];
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = "imperial";
+
+/** Quantity kinds, named after their canonical (stored) unit. */
+export type Quantity =
+  | "lb"
+  | "kg"
+  | "ton"
+  | "ac"
+  | "lb_ac"
+  | "ton_ac"
+  | "gal_ac"
+  | "lb_ac_day"
+  | "lb_day"
+  | "sqft"
+  | "gal"
+  | "ft"
+  | "temp_c"
+  | "temp_c_delta"
+  | "per_ton"
+  | "per_gal"
+  | "per_ac"
+  | "au_ac";
+
+type Spec = {
+  imperial: string;
+  metric: string;
+  /** system the database stores */
+  canonical: UnitSystem;
+  /** metric value = imperial value × factor (affine for temperature) */
+  factor: number;
+  offset?: number;
+};
+
+const LB_KG = 0.45359237;
+const AC_HA = 0.40468564224;
+
+const SPECS: Record<Quantity, Spec> = {
+  lb: { imperial: "lb", metric: "kg", canonical: "imperial", factor: LB_KG },
+  kg: { imperial: "lb", metric: "kg", canonical: "metric", factor: LB_KG },
+  // short ton (2000 lb) ↔ tonne
+  ton: { imperial: "ton", metric: "t", canonical: "imperial", factor: (2000 * LB_KG) / 1000 },
+  ac: { imperial: "ac", metric: "ha", canonical: "imperial", factor: AC_HA },
+  lb_ac: { imperial: "lb/ac", metric: "kg/ha", canonical: "imperial", factor: LB_KG / AC_HA },
+  ton_ac: { imperial: "ton/ac", metric: "t/ha", canonical: "imperial", factor: (2000 * LB_KG) / 1000 / AC_HA },
+  gal_ac: { imperial: "gal/ac", metric: "L/ha", canonical: "imperial", factor: 3.785411784 / AC_HA },
+  lb_ac_day: { imperial: "lb/ac/day", metric: "kg/ha/day", canonical: "imperial", factor: LB_KG / AC_HA },
+  lb_day: { imperial: "lb/day", metric: "kg/day", canonical: "imperial", factor: LB_KG },
+  sqft: { imperial: "sq ft", metric: "m²", canonical: "imperial", factor: 0.09290304 },
+  gal: { imperial: "gal", metric: "L", canonical: "imperial", factor: 3.785411784 },
+  ft: { imperial: "ft", metric: "m", canonical: "imperial", factor: 0.3048 },
+  // °F = °C × 9/5 + 32, written imperial → metric
+  temp_c: { imperial: "°F", metric: "°C", canonical: "metric", factor: 5 / 9, offset: -32 },
+  temp_c_delta: { imperial: "°F", metric: "°C", canonical: "metric", factor: 5 / 9 },
+  // prices per unit: metric price = imperial price ÷ size ratio
+  per_ton: { imperial: "$/ton", metric: "$/t", canonical: "imperial", factor: 1000 / (2000 * LB_KG) },
+  per_gal: { imperial: "$/gal", metric: "$/L", canonical: "imperial", factor: 1 / 3.785411784 },
+  per_ac: { imperial: "$/ac", metric: "$/ha", canonical: "imperial", factor: 1 / AC_HA },
+  au_ac: { imperial: "AU/ac", metric: "AU/ha", canonical: "imperial", factor: 1 / AC_HA },
+};
+
+const toMetric = (s: Spec, v: number) => (v + (s.offset ?? 0)) * s.factor;
+const toImperial = (s: Spec, v: number) => v / s.factor - (s.offset ?? 0);
+
+/** Stored value → the number shown in `system`. */
+export function toDisplay(q: Quantity, v: number, system: UnitSystem): number {
+  const s = SPECS[q];
+  if (s.canonical === system) return v;
+  return system === "metric" ? toMetric(s, v) : toImperial(s, v);
+}
+
+/** Number entered in `system` → the value to store. */
+export function fromDisplay(q: Quantity, v: number, system: UnitSystem): number {
+  const s = SPECS[q];
+  if (s.canonical === system) return v;
+  return system === "metric" ? toImperial(s, v) : toMetric(s, v);
+}
+
+export function unitLabel(q: Quantity, system: UnitSystem): string {
+  return SPECS[q][system];
+}
+
+export function isUnitSystem(v: unknown): v is UnitSystem {
+  return v === "imperial" || v === "metric";
+}
+
+/** Bound helpers for one system, as handed to components by useUnits. */
+export type Units = {
+  system: UnitSystem;
+  label: (q: Quantity) => string;
+  /** stored → shown; null/undefined stay null */
+  show: (q: Quantity, v: number | null | undefined) => number | null;
+  /** shown → stored */
+  store: (q: Quantity, v: number | null | undefined) => number | null;
+  /** formatted number only, for cells under a head() column */
+  num: (q: Quantity, v: number | null | undefined, digits?: number) => string;
+  /** formatted with unit, e.g. "1,250 kg/ha" */
+  fmt: (q: Quantity, v: number | null | undefined, digits?: number) => string;
+  /** CSV / table header, e.g. "Weight (kg)" */
+  head: (title: string, q: Quantity) => string;
+};
+
+export function unitsFor(system: UnitSystem): Units {
+  const show = (q: Quantity, v: number | null | undefined) =>
+    v === null || v === undefined || !Number.isFinite(Number(v)) ? null : toDisplay(q, Number(v), system);
+  const store = (q: Quantity, v: number | null | undefined) =>
+    v === null || v === undefined || !Number.isFinite(Number(v)) ? null : fromDisplay(q, Number(v), system);
+  const num = (q: Quantity, v: number | null | undefined, digits = 0) => {
+    const n = show(q, v);
+    return n === null ? "—" : new Intl.NumberFormat(undefined, { maximumFractionDigits: digits }).format(n);
+  };
+  return {
+    system,
+    label: (q) => unitLabel(q, system),
+    show,
+    store,
+    num,
+    fmt: (q, v, digits = 0) => (show(q, v) === null ? "—" : `${num(q, v, digits)} ${unitLabel(q, system)}`),
+    head: (title, q) => `${title} (${unitLabel(q, system)})`,
+  };
+}
@@ -0,0 +1,140 @@
+import { isYmd } from "@/lib/dates";
+
+/** Unified vitals model (agriops_vitals). Canonical units are part of each field name. */
+
+export type VitalsRow = {
+  id?: number;
+  tenant_id: string;
+  animal_id: number;
+  measure_time: string;        // ISO timestamp
+  reading_date?: string;       // yyyy-mm-dd, derived by the database from measure_time
+  temp_c: number | null;
+  heart_rate_bpm: number | null;
+  respiration_rate_bpm: number | null;
+  rumination_min: number | null;
+  steps: number | null;
+  bcs: number | null;
+  notes: string | null;
+  source: string;
+};
+
+export type VitalField = "temp_c" | "heart_rate_bpm" | "respiration_rate_bpm" | "rumination_min" | "steps" | "bcs";
+
+/** Display metadata plus the plausible range each reading must fall within. */
+export const VITAL_FIELDS: Record<VitalField, { label: string; unit: string; min: number; max: number }> = {
+  temp_c: { label: "Temperature", unit: "°C", min: 30, max: 45 },
+  heart_rate_bpm: { label: "Heart rate", unit: "bpm", min: 20, max: 250 },
+  respiration_rate_bpm: { label: "Respiration", unit: "breaths/min", min: 5, max: 150 },
+  rumination_min: { label: "Rumination", unit: "min/day", min: 0, max: 1440 },
+  steps: { label: "Steps", unit: "steps/day", min: 0, max: 100000 },
+  bcs: { label: "BCS", unit: "1–9", min: 1, max: 9 },
+};
+
+/**
+ * Typical adult-cattle reference ranges, used to shade charts (not for alerting — that is
+ * what agriops_alert_rules is for). Steps have no herd-independent norm and are left out.
+ */
+export const NORMAL_RANGES: Partial<Record<VitalField, { low: number; high: number }>> = {
+  temp_c: { low: 38.0, high: 39.3 },
+  heart_rate_bpm: { low: 48, high: 84 },
+  respiration_rate_bpm: { low: 26, high: 50 },
+  rumination_min: { low: 400, high: 600 },
+  bcs: { low: 5, high: 6 },
+};
+
+export const fToC = (f: number) => Math.round(((f - 32) * 5) / 9 * 100) / 100;
+
+function num(v: any): number | null {
+  if (v === undefined || v === null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Maps any accepted input shape onto canonical fields. Accepts:
+ *  - canonical:  temp_c, heart_rate_bpm, respiration_rate_bpm, rumination_min, steps, bcs
+ *  - °F input:   temp_f
+ *  - legacy /api/vitals: temperature (+ optional temperature_unit "C" | "F"), heart_rate, respiration_rate
+ * Only keys present in the input are returned, so the result also works as an update patch.
+ */
+export function normalizeVitalFields(input: Record<string, any>): { fields: Partial<Record<VitalField, number | null>>; error?: string } {
+  const fields: Partial<Record<VitalField, number | null>> = {};
+  const has = (k: string) => input[k] !== undefined;
+
+  if (has("temp_c")) fields.temp_c = num(input.temp_c);
+  else if (has("temp_f")) fields.temp_c = num(input.temp_f) === null ? null : fToC(num(input.temp_f)!);
+  else if (has("temperature")) {
+    const t = num(input.temperature);
+    const unit = String(input.temperature_unit || "").toUpperCase();
+    // legacy clients sent °F (e.g. 101.3) without a unit; no live cow is above 45 °C
+    fields.temp_c = t === null ? null : unit === "F" || (unit !== "C" && t > 45) ? fToC(t) : t;
+  }
+  if (has("heart_rate_bpm")) fields.heart_rate_bpm = num(input.heart_rate_bpm);
+  else if (has("heart_rate")) fields.heart_rate_bpm = num(input.heart_rate);
+  if (has("respiration_rate_bpm")) fields.respiration_rate_bpm = num(input.respiration_rate_bpm);
+  else if (has("respiration_rate")) fields.respiration_rate_bpm = num(input.respiration_rate);
+  if (has("rumination_min")) fields.rumination_min = num(input.rumination_min);
+  if (has("steps")) fields.steps = num(input.steps);
+  if (has("bcs")) fields.bcs = num(input.bcs);
+
+  for (const [k, v] of Object.entries(fields) as [VitalField, number | null][]) {
+    const f = VITAL_FIELDS[k];
+    if (v !== null && (v < f.min || v > f.max)) {
+      return { fields, error: `${k} must be between ${f.min} and ${f.max} ${f.unit}` };
+    }
+  }
+  return { fields };
+}
+
+/**
+ * yyyy-mm-dd readings are stored at noon UTC so the derived reading_date matches.
+ * Returns "" for an unparseable timestamp or a reading_date that isn't a real yyyy-mm-dd date.
+ */
+export function measureTimeFrom(input: Record<string, any>): string {
+  if (input.measure_time) {
+    const t = Date.parse(input.measure_time);
+    return Number.isNaN(t) ? "" : new Date(t).toISOString();
+  }
+  if (input.reading_date) {
+    const d = String(input.reading_date).slice(0, 10);
+    return isYmd(d) ? `${d}T12:00:00.000Z` : "";
+  }
+  return new Date().toISOString();
+}
+
+/** Builds a full insert row, or an error message. */
+export function buildVitalsRow(
+  tenant_id: string,
+  animal_id: number,
+  input: Record<string, any>,
+  source = "manual"
+): { row?: Omit<VitalsRow, "id" | "reading_date">; error?: string } {
+  const { fields, error } = normalizeVitalFields(input);
+  if (error) return { error };
+  if (Object.values(fields).every((v) => v === null || v === undefined)) {
+    return { error: `At least one of ${Object.keys(VITAL_FIELDS).join(", ")} is required` };
+  }
+  const measure_time = measureTimeFrom(input);
+  if (!measure_time) {
+    return {
+      error: input.measure_time
+        ? "measure_time is not a valid date"
+        : `reading_date must be a YYYY-MM-DD date (got "${input.reading_date}")`,
+    };
+  }
+  return {
+    row: {
+      tenant_id,
+      animal_id,
+      measure_time,
+      temp_c: fields.temp_c ?? null,
+      heart_rate_bpm: fields.heart_rate_bpm ?? null,
+      respiration_rate_bpm: fields.respiration_rate_bpm ?? null,
+      rumination_min: fields.rumination_min ?? null,
+      steps: fields.steps ?? null,
+      bcs: fields.bcs ?? null,
+      notes: input.notes ?? null,
+      source,
+    },
+  };
+}
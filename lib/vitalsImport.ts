@@ -0,0 +1,146 @@
+/**
+ * Parsing and column mapping for collar / bolus exports (see /api/vitals/import).
+ * Vendors name their columns differently, so each of our fields has a list of known aliases;
+ * callers can override any of them with an explicit { field: "Device Column" } mapping.
+ */
+
+export type ImportField =
+  | "eid"
+  | "tag"
+  | "measure_time"
+  | "date"
+  | "time"
+  | "temp_c"
+  | "temp_f"
+  | "temperature"
+  | "heart_rate_bpm"
+  | "respiration_rate_bpm"
+  | "rumination_min"
+  | "steps"
+  | "bcs"
+  | "notes";
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+/** Compared after lower-casing and stripping everything but letters and digits. */
+export const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  eid: ["eid", "rfid", "electronicid", "animaleid", "transponder", "isonumber", "boluseid"],
+  tag: ["tag", "visualtag", "vid", "tagnumber", "cowid", "cownumber", "animalnumber", "animaltag"],
+  measure_time: ["measuretime", "timestamp", "datetime", "readingtime", "recordedat", "timeutc"],
+  date: ["date", "readingdate", "day"],
+  time: ["time", "hour"],
+  temp_c: ["tempc", "temperaturec", "bodytempc", "bodytemperature", "reticulartemp", "rumentemp", "rumentemperature"],
+  temp_f: ["tempf", "temperaturef", "bodytempf"],
+  temperature: ["temperature", "temp", "bodytemp"],
+  heart_rate_bpm: ["heartratebpm", "heartrate", "hr", "pulse"],
+  respiration_rate_bpm: ["respirationratebpm", "respirationrate", "respiration", "rr"],
+  rumination_min: ["ruminationmin", "rumination", "ruminationtime", "ruminationminutes", "rumminday"],
+  steps: ["steps", "stepcount", "activity", "activitysteps"],
+  bcs: ["bcs", "bodyconditionscore"],
+  notes: ["notes", "note", "comment", "comments"],
+};
+
+const squash = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Minimal RFC 4180 reader: quoted fields, doubled quotes, commas/newlines inside quotes. */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^﻿/, "");
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") { row.push(cell); cell = ""; }
+    else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell); cell = "";
+      if (row.some((v) => v.trim() !== "")) rows.push(row);
+      row = [];
+    } else cell += c;
+  }
+  row.push(cell);
+  if (row.some((v) => v.trim() !== "")) rows.push(row);
+
+  const [header, ...body] = rows;
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  return body.map((cols) => Object.fromEntries(keys.map((k, i) => [k, (cols[i] ?? "").trim()])));
+}
+
+/** Accepts a JSON array, or an object wrapping one under readings/records/data. */
+export function parseJsonRecords(input: any): Record<string, any>[] {
+  const v = typeof input === "string" ? JSON.parse(input) : input;
+  const arr = Array.isArray(v) ? v : v?.readings ?? v?.records ?? v?.data;
+  if (!Array.isArray(arr)) throw new Error("JSON must be an array of readings (or { readings: [...] })");
+  return arr.filter((r) => r && typeof r === "object");
+}
+
+/** Explicitly mapped columns that the file doesn't have, e.g. `temp_c → "Tmep"`. */
+export function unknownMappedColumns(columns: string[], overrides: ColumnMapping = {}): string[] {
+  return (Object.entries(overrides) as [ImportField, string | undefined][])
+    .filter(([, c]) => c && !columns.includes(c))
+    .map(([field, c]) => `${field} → "${c}"`);
+}
+
+/** Resolves which device column feeds each field, given the columns actually present. */
+export function resolveColumns(columns: string[], overrides: ColumnMapping = {}): ColumnMapping {
+  const bySquash = new Map(columns.map((c) => [squash(c), c]));
+  const out: ColumnMapping = {};
+  for (const field of Object.keys(COLUMN_ALIASES) as ImportField[]) {
+    const explicit = overrides[field];
+    if (explicit) {
+      if (columns.includes(explicit)) out[field] = explicit;
+      continue;
+    }
+    const hit = COLUMN_ALIASES[field].map((a) => bySquash.get(squash(a))).find(Boolean);
+    if (hit) out[field] = hit;
+  }
+  return out;
+}
+
+export type MappedReading = {
+  eid: string | null;
+  tag: string | null;
+  /** Shape accepted by buildVitalsRow (canonical names, temp_f or legacy temperature). */
+  vitals: Record<string, any>;
+};
+
+/** Maps one device record through the resolved columns. */
+export function mapReading(rec: Record<string, any>, cols: ColumnMapping): MappedReading {
+  const get = (f: ImportField) => {
+    const c = cols[f];
+    const v = c ? rec[c] : undefined;
+    return v === undefined || v === null || String(v).trim() === "" ? undefined : String(v).trim();
+  };
+
+  const vitals: Record<string, any> = {};
+  const ts = get("measure_time");
+  const date = get("date");
+  if (ts) vitals.measure_time = ts;
+  else if (date && get("time")) vitals.measure_time = `${date} ${get("time")}`;
+  else if (date) vitals.reading_date = date;
+
+  const temp_c = get("temp_c");
+  const temp_f = get("temp_f");
+  if (temp_c !== undefined) vitals.temp_c = temp_c;
+  else if (temp_f !== undefined) vitals.temp_f = temp_f;
+  else if (get("temperature") !== undefined) vitals.temperature = get("temperature");
+
+  for (const f of ["heart_rate_bpm", "respiration_rate_bpm", "rumination_min", "steps", "bcs"] as const) {
+    const v = get(f);
+    // some exports write thousands separators ("1,200 steps")
+    if (v !== undefined) vitals[f] = /^\d{1,3}(,\d{3})+(\.\d+)?$/.test(v) ? v.replace(/,/g, "") : v;
+  }
+  if (get("notes") !== undefined) vitals.notes = get("notes");
+
+  return { eid: get("eid") ?? null, tag: get("tag") ?? null, vitals };
+}
+
+export const importKey = (source: string, animal_id: number, measure_time: string) =>
+  `${source}:${animal_id}:${measure_time}`;
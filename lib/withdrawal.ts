@@ -0,0 +1,86 @@
+import { addDays } from "@/lib/dates";
+
+/** Drug withdrawal math shared by /api/cattle and /api/care. */
+
+export type WithdrawalProduct = {
+  id: number;
+  name: string;
+  meat_withdrawal_days: number | null;
+  milk_withdrawal_days: number | null;
+};
+
+export type WithdrawalTreatment = {
+  id?: number;
+  treat_date: string;
+  product?: string | null;
+  product_id?: number | null;
+  meat_clear_date?: string | null;
+  milk_clear_date?: string | null;
+};
+
+export type WithdrawalStatus = {
+  as_of: string;
+  meat_clear_date: string | null;
+  milk_clear_date: string | null;
+  meat_active: boolean;
+  milk_active: boolean;
+  /** Treatments whose meat withdrawal has not ended on as_of */
+  blocking: (WithdrawalTreatment & { meat_clear_date: string })[];
+};
+
+/** Catalog lookup by id, falling back to a case-insensitive name match. */
+export function findProduct(
+  products: WithdrawalProduct[],
+  product_id?: number | null,
+  name?: string | null
+) {
+  if (product_id) {
+    const byId = products.find((p) => p.id === product_id);
+    if (byId) return byId;
+  }
+  const key = (name || "").trim().toLowerCase();
+  return key ? products.find((p) => p.name.trim().toLowerCase() === key) || null : null;
+}
+
+/** Clear dates for one treatment: the animal may go to slaughter / milk ships on or after these. */
+export function clearDates(treat_date: string, product: WithdrawalProduct | null) {
+  const meat = Number(product?.meat_withdrawal_days ?? 0);
+  const milk = Number(product?.milk_withdrawal_days ?? 0);
+  return {
+    meat_clear_date: meat > 0 ? addDays(treat_date, meat) : null,
+    milk_clear_date: milk > 0 ? addDays(treat_date, milk) : null,
+  };
+}
+
+/**
+ * Rolls an animal's treatments up into one status for a date.
+ * Treatments written before the catalog existed have no stored clear dates,
+ * so those are computed from the catalog on the fly.
+ */
+export function withdrawalStatus(
+  treatments: WithdrawalTreatment[],
+  products: WithdrawalProduct[],
+  as_of: string
+): WithdrawalStatus {
+  let meat: string | null = null;
+  let milk: string | null = null;
+  const blocking: WithdrawalStatus["blocking"] = [];
+
+  for (const t of treatments) {
+    const computed = clearDates(t.treat_date, findProduct(products, t.product_id, t.product));
+    const meat_clear = t.meat_clear_date ?? computed.meat_clear_date;
+    const milk_clear = t.milk_clear_date ?? computed.milk_clear_date;
+    if (meat_clear && (!meat || meat_clear > meat)) meat = meat_clear;
+    if (milk_clear && (!milk || milk_clear > milk)) milk = milk_clear;
+    if (meat_clear && meat_clear > as_of) blocking.push({ ...t, meat_clear_date: meat_clear });
+  }
+
+  return {
+    as_of,
+    meat_clear_date: meat,
+    milk_clear_date: milk,
+    meat_active: !!meat && meat > as_of,
+    milk_active: !!milk && milk > as_of,
+    blocking,
+  };
+}
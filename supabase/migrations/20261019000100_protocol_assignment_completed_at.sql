@@ -0,0 +1,4 @@
+-- /api/care updateProtocolAssignment stamps when an assignment is completed (null otherwise).
+
+alter table agriops_protocol_assignments
+  add column if not exists completed_at timestamptz;
@@ -0,0 +1,34 @@
+-- Protocol assignments & per-animal treatment plans
+-- Protocol steps become objects: { label, day, product, dose } (plain strings are still read as day 0).
+
+alter table agriops_protocol_assignments
+  add column if not exists scope text not null default 'animal'
+    check (scope in ('animal', 'paddock', 'herd'));
+
+alter table agriops_protocol_assignments
+  drop constraint if exists agriops_protocol_assignments_status_check;
+alter table agriops_protocol_assignments
+  add constraint agriops_protocol_assignments_status_check
+    check (status in ('pending', 'in_progress', 'completed', 'skipped'));
+
+create table if not exists agriops_protocol_tasks (
+  id            bigserial primary key,
+  tenant_id     text not null,
+  assignment_id bigint not null references agriops_protocol_assignments(id) on delete cascade,
+  animal_id     bigint not null references agriops_cattle(id) on delete cascade,
+  step_index    int not null,
+  label         text not null,
+  product       text,
+  dose          text,
+  due_date      date not null,
+  status        text not null default 'pending'
+                  check (status in ('pending', 'completed', 'skipped')),
+  done_date     date,
+  treatment_id  bigint references agriops_cattle_treatments(id) on delete set null,
+  notes         text,
+  created_at    timestamptz not null default now(),
+  unique (assignment_id, step_index)
+);
+
+create index if not exists agriops_protocol_tasks_due_idx
+  on agriops_protocol_tasks (tenant_id, status, due_date);
@@ -0,0 +1,21 @@
+-- Drug withdrawal tracking: product catalog + per-treatment clear dates
+
+create table if not exists agriops_vet_products (
+  id                   bigserial primary key,
+  tenant_id            text not null,
+  name                 text not null,
+  active_ingredient    text,
+  meat_withdrawal_days int not null default 0 check (meat_withdrawal_days >= 0),
+  milk_withdrawal_days int not null default 0 check (milk_withdrawal_days >= 0),
+  notes                text,
+  created_at           timestamptz not null default now(),
+  unique (tenant_id, name)
+);
+
+alter table agriops_cattle_treatments
+  add column if not exists product_id      bigint references agriops_vet_products(id) on delete set null,
+  add column if not exists meat_clear_date date,
+  add column if not exists milk_clear_date date;
+
+alter table agriops_cattle_processing
+  add column if not exists withdrawal_override_reason text;
@@ -0,0 +1,41 @@
+-- Per-tenant vitals alert rules + alert de-duplication
+
+create table if not exists agriops_alert_rules (
+  id          bigserial primary key,
+  tenant_id   text not null,
+  name        text not null,                 -- also the alert "type"
+  metric      text not null check (metric in ('temp_c', 'rumination_min', 'steps', 'bcs', 'weight_lb')),
+  kind        text not null check (kind in ('threshold', 'rate_of_change', 'missing')),
+  operator    text check (operator in ('gt', 'gte', 'lt', 'lte', 'drop', 'rise')),
+  threshold   numeric,
+  window_days int check (window_days > 0),
+  severity    text not null default 'warn' check (severity in ('info', 'warn', 'high')),
+  enabled     boolean not null default true,
+  created_at  timestamptz not null default now(),
+  unique (tenant_id, name)
+);
+
+alter table agriops_alerts
+  add column if not exists rule_id      bigint references agriops_alert_rules(id) on delete set null,
+  add column if not exists last_seen_at timestamptz,
+  add column if not exists occurrences  int not null default 1,
+  -- date of the reading that last triggered it; rules only fire again on a later reading
+  add column if not exists last_reading_date date;
+
+-- Collapse duplicates raised by the old browser-side rules, keeping the newest open alert
+update agriops_alerts a
+   set resolved_at = now()
+ where a.resolved_at is null
+   and exists (
+     select 1 from agriops_alerts b
+      where b.tenant_id = a.tenant_id
+        and b.animal_id = a.animal_id
+        and b.type = a.type
+        and b.resolved_at is null
+        and b.id > a.id
+   );
+
+-- At most one open alert per animal and type
+create unique index if not exists agriops_alerts_open_uniq
+  on agriops_alerts (tenant_id, animal_id, type)
+  where resolved_at is null;
@@ -0,0 +1,59 @@
+-- One vitals model for /api/vitals and the Care "Monitoring" tab.
+-- Canonical units live in the column names: temp_c (°C), heart_rate_bpm, respiration_rate_bpm,
+-- rumination_min (min/day), steps (count/day), bcs (1–9 score).
+-- measure_time stays the key; reading_date is derived from it for daily charts and rules.
+
+alter table agriops_vitals
+  add column if not exists temp_c               numeric,
+  add column if not exists heart_rate_bpm       numeric,
+  add column if not exists respiration_rate_bpm numeric,
+  add column if not exists rumination_min       numeric,
+  add column if not exists steps                numeric,
+  add column if not exists bcs                  numeric check (bcs between 1 and 9),
+  add column if not exists source               text not null default 'manual';
+
+alter table agriops_vitals
+  alter column measure_time set default now();
+
+alter table agriops_vitals
+  add column if not exists reading_date date
+    generated always as ((measure_time at time zone 'UTC')::date) stored;
+
+-- 1) Rows written by the old /api/vitals shape. "temperature" had no unit; values above 45
+--    can only be °F for cattle, everything else is taken as °C.
+update agriops_vitals
+   set temp_c = case when temperature > 45 then round(((temperature - 32) * 5 / 9)::numeric, 2)
+                     else temperature end
+ where temp_c is null and temperature is not null;
+
+update agriops_vitals
+   set heart_rate_bpm = coalesce(heart_rate_bpm, heart_rate),
+       respiration_rate_bpm = coalesce(respiration_rate_bpm, respiration_rate)
+ where heart_rate is not null or respiration_rate is not null;
+
+comment on column agriops_vitals.temperature is 'DEPRECATED: unit-less legacy column, use temp_c';
+comment on column agriops_vitals.heart_rate is 'DEPRECATED: use heart_rate_bpm';
+comment on column agriops_vitals.respiration_rate is 'DEPRECATED: use respiration_rate_bpm';
+
+-- 2) Rows written by /api/care logVitals (daily readings keyed by reading_date).
+--    Noon UTC keeps the derived reading_date equal to the original date.
+do $$
+begin
+  if to_regclass('public.agriops_health_vitals') is not null then
+    insert into agriops_vitals
+      (tenant_id, animal_id, measure_time, temp_c, rumination_min, steps, bcs, notes, source)
+    select tenant_id, animal_id, (reading_date::timestamp + interval '12 hours') at time zone 'UTC',
+           temp_c, rumination_min, steps, bcs, notes, 'care'
+      from agriops_health_vitals;
+    alter table agriops_health_vitals rename to agriops_health_vitals_migrated;
+  end if;
+end $$;
+
+create index if not exists agriops_vitals_animal_time_idx
+  on agriops_vitals (tenant_id, animal_id, measure_time desc);
+
+-- Heart and respiration rate are now available to alert rules
+alter table agriops_alert_rules drop constraint if exists agriops_alert_rules_metric_check;
+alter table agriops_alert_rules
+  add constraint agriops_alert_rules_metric_check
+    check (metric in ('temp_c', 'heart_rate_bpm', 'respiration_rate_bpm', 'rumination_min', 'steps', 'bcs', 'weight_lb'));
@@ -0,0 +1,17 @@
+-- Bulk vitals import from collar / bolus exports (/api/vitals/import).
+
+-- Electronic ID (ISO 11784 RFID) so sensor exports can be matched without a visual tag.
+alter table agriops_cattle
+  add column if not exists eid text;
+
+create unique index if not exists agriops_cattle_tenant_eid_key
+  on agriops_cattle (tenant_id, eid) where eid is not null;
+
+-- Natural key of an imported reading: "<source>:<animal_id>:<measure_time>".
+-- Re-uploading the same file upserts onto the same rows instead of duplicating them.
+-- Manually entered rows leave it null (nulls never conflict).
+alter table agriops_vitals
+  add column if not exists import_key text;
+
+create unique index if not exists agriops_vitals_tenant_import_key
+  on agriops_vitals (tenant_id, import_key);
@@ -0,0 +1,14 @@
+-- Parentage on agriops_cattle. Parents are ordinary animal rows of the same tenant (AI sires
+-- can be entered as animals with status 'reference'). Cycles are rejected by /api/cattle.
+
+alter table agriops_cattle
+  add column if not exists dam_id  bigint references agriops_cattle(id) on delete set null,
+  add column if not exists sire_id bigint references agriops_cattle(id) on delete set null;
+
+alter table agriops_cattle drop constraint if exists agriops_cattle_parent_not_self;
+alter table agriops_cattle
+  add constraint agriops_cattle_parent_not_self
+    check ((dam_id is null or dam_id <> id) and (sire_id is null or sire_id <> id));
+
+create index if not exists agriops_cattle_dam_idx  on agriops_cattle (tenant_id, dam_id)  where dam_id is not null;
+create index if not exists agriops_cattle_sire_idx on agriops_cattle (tenant_id, sire_id) where sire_id is not null;
@@ -0,0 +1,31 @@
+-- Breeding & calving records. One row per event; the columns used depend on event_type:
+--   exposure   : bull_id, event_date (bull in) .. exposure_end (bull out)
+--   ai         : bull_id (if the sire is on file) and/or semen_straw, technician
+--   preg_check : preg_result, days_bred (estimated days pregnant on event_date)
+--   calving    : calf_id (created by /api/cattle addBreedingEvent), calving_ease, calf_status
+
+create table if not exists agriops_breeding_events (
+  id            bigserial primary key,
+  tenant_id     text not null,
+  cow_id        bigint not null references agriops_cattle(id) on delete cascade,
+  event_type    text not null check (event_type in ('exposure', 'ai', 'preg_check', 'calving')),
+  event_date    date not null,
+  bull_id       bigint references agriops_cattle(id) on delete set null,
+  semen_straw   text,
+  exposure_end  date,
+  technician    text,
+  preg_result   text check (preg_result in ('pregnant', 'open', 'recheck')),
+  days_bred     int check (days_bred between 0 and 300),
+  calf_id       bigint references agriops_cattle(id) on delete set null,
+  calving_ease  int check (calving_ease between 1 and 5),
+  calf_status   text check (calf_status in ('alive', 'stillborn', 'died')),
+  notes         text,
+  created_at    timestamptz not null default now(),
+  check (exposure_end is null or exposure_end >= event_date),
+  check (event_type <> 'preg_check' or preg_result is not null)
+);
+
+create index if not exists agriops_breeding_events_cow_idx
+  on agriops_breeding_events (tenant_id, cow_id, event_date);
+create index if not exists agriops_breeding_events_date_idx
+  on agriops_breeding_events (tenant_id, event_type, event_date);
@@ -0,0 +1,60 @@
+-- Paddock movement log. agriops_cattle.current_paddock_id is now a real FK and always equals the
+-- to_paddock_id of the animal's latest movement; current_paddock (text) is kept in sync with the
+-- paddock name for older readers only.
+
+alter table agriops_cattle
+  add column if not exists current_paddock_id bigint references agriops_paddocks(id) on delete set null;
+
+comment on column agriops_cattle.current_paddock is 'DEPRECATED: mirror of agriops_paddocks.name for current_paddock_id';
+
+create table if not exists agriops_cattle_movements (
+  id              bigserial primary key,
+  tenant_id       text not null,
+  animal_id       bigint not null references agriops_cattle(id) on delete cascade,
+  from_paddock_id bigint references agriops_paddocks(id) on delete set null,
+  to_paddock_id   bigint references agriops_paddocks(id) on delete set null, -- null = left the farm
+  move_date       date not null,
+  reason          text,
+  created_at      timestamptz not null default now()
+);
+
+create index if not exists agriops_cattle_movements_animal_idx
+  on agriops_cattle_movements (tenant_id, animal_id, move_date desc, id desc);
+create index if not exists agriops_cattle_movements_paddock_idx
+  on agriops_cattle_movements (tenant_id, to_paddock_id, move_date);
+
+-- Backfill: match the free-text paddock to a paddock of the same tenant by name. Animals already
+-- off the farm (lib/movements OFF_FARM_STATUSES) are left out so they never count toward a paddock.
+update agriops_cattle c
+   set current_paddock_id = p.id
+  from agriops_paddocks p
+ where c.current_paddock_id is null
+   and c.current_paddock is not null
+   and lower(coalesce(c.status, '')) not in ('sold', 'dead', 'culled', 'processed')
+   and p.tenant_id = c.tenant_id
+   and lower(trim(p.name)) = lower(trim(c.current_paddock));
+
+-- Their placement date is unknown, so the log starts today for existing animals
+insert into agriops_cattle_movements (tenant_id, animal_id, from_paddock_id, to_paddock_id, move_date, reason)
+select c.tenant_id, c.id, null, c.current_paddock_id, current_date, 'initial placement'
+  from agriops_cattle c
+ where c.current_paddock_id is not null
+   and lower(coalesce(c.status, '')) not in ('sold', 'dead', 'culled', 'processed')
+   and not exists (select 1 from agriops_cattle_movements m where m.animal_id = c.id);
+
+-- Head count per paddock on a date: each animal counts where its latest movement on or
+-- before that date put it.
+create or replace function agriops_paddock_head_counts(p_tenant_id text, p_as_of date)
+returns table (paddock_id bigint, head_count bigint)
+language sql stable as $$
+  select latest.to_paddock_id, count(*)
+    from (
+      select distinct on (m.animal_id) m.animal_id, m.to_paddock_id
+        from agriops_cattle_movements m
+       where m.tenant_id = p_tenant_id
+         and m.move_date <= p_as_of
+       order by m.animal_id, m.move_date desc, m.id desc
+    ) latest
+   where latest.to_paddock_id is not null
+   group by latest.to_paddock_id;
+$$;
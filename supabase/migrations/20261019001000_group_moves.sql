@@ -0,0 +1,143 @@
+-- Grazing events (one row per herd occupying a paddock) and an atomic group move that writes the
+-- movement log, re-syncs current_paddock(_id) and opens/closes grazing events in one transaction.
+
+create table if not exists agriops_graze_events (
+  id                  bigserial primary key,
+  tenant_id           text not null,
+  paddock_id          bigint not null references agriops_paddocks(id) on delete cascade,
+  herd                text not null default 'Herd',
+  in_date             date not null,
+  out_date            date, -- null = still grazing
+  head_count          integer,
+  pre_graze_dm_lb_ac  numeric,
+  post_graze_dm_lb_ac numeric,
+  notes               text,
+  created_at          timestamptz not null default now(),
+  constraint agriops_graze_events_dates_chk check (out_date is null or out_date >= in_date)
+);
+
+create index if not exists agriops_graze_events_paddock_idx
+  on agriops_graze_events (tenant_id, paddock_id, in_date desc);
+
+-- Moves either everything in p_from_paddock_id on p_move_date or the listed animals (or both:
+-- the listed animals that are in that paddock) to p_to_paddock_id.
+--   destination: the herd's open grazing event there gains the head, otherwise a new one opens
+--   each source left empty: every open event there closes; with no open event on record, a closed
+--                one is written from the animals' arrival
+--   each source still grazed: the herd's open event stays open and loses the head that moved, so
+--                rest days only start once the paddock is empty
+create or replace function agriops_move_group(
+  p_tenant_id           text,
+  p_to_paddock_id       bigint,
+  p_move_date           date,
+  p_from_paddock_id     bigint default null,
+  p_animal_ids          bigint[] default null,
+  p_herd                text default null,
+  p_reason              text default null,
+  p_pre_graze_dm_lb_ac  numeric default null,
+  p_post_graze_dm_lb_ac numeric default null
+)
+returns jsonb
+language plpgsql as $$
+declare
+  v_herd    text := coalesce(nullif(trim(p_herd), ''), 'Herd');
+  v_ids     bigint[];
+  v_sources bigint[];
+  v_moved   integer;
+  v_src     bigint;
+  v_left    bigint;
+  v_from_n  integer;
+  v_in_date date;
+begin
+  if p_from_paddock_id is null and p_animal_ids is null then
+    raise exception 'Give a source paddock or a list of animals';
+  end if;
+  if not exists (select 1 from agriops_paddocks where tenant_id = p_tenant_id and id = p_to_paddock_id) then
+    raise exception 'Destination paddock % not found', p_to_paddock_id;
+  end if;
+
+  with loc as (
+    select c.id as animal_id,
+           (select m.to_paddock_id
+              from agriops_cattle_movements m
+             where m.tenant_id = p_tenant_id and m.animal_id = c.id and m.move_date <= p_move_date
+             order by m.move_date desc, m.id desc
+             limit 1) as from_paddock_id
+      from agriops_cattle c
+     where c.tenant_id = p_tenant_id
+       and (p_animal_ids is null or c.id = any (p_animal_ids))
+  ), ins as (
+    insert into agriops_cattle_movements (tenant_id, animal_id, from_paddock_id, to_paddock_id, move_date, reason)
+    select p_tenant_id, loc.animal_id, loc.from_paddock_id, p_to_paddock_id, p_move_date, p_reason
+      from loc
+     where (p_from_paddock_id is null or loc.from_paddock_id = p_from_paddock_id)
+       and loc.from_paddock_id is distinct from p_to_paddock_id
+    returning animal_id, from_paddock_id
+  )
+  select coalesce(array_agg(animal_id), '{}'),
+         coalesce(array_agg(distinct from_paddock_id) filter (where from_paddock_id is not null), '{}'),
+         count(*)
+    into v_ids, v_sources, v_moved
+    from ins;
+
+  if v_moved = 0 then
+    return jsonb_build_object('moved', 0, 'animal_ids', '[]'::jsonb, 'from_paddock_ids', '[]'::jsonb);
+  end if;
+
+  -- current paddock follows each animal's latest movement (a back-dated move may not be latest)
+  update agriops_cattle c
+     set current_paddock_id = l.to_paddock_id,
+         current_paddock    = p.name
+    from (select distinct on (m.animal_id) m.animal_id, m.to_paddock_id
+            from agriops_cattle_movements m
+           where m.tenant_id = p_tenant_id and m.animal_id = any (v_ids)
+           order by m.animal_id, m.move_date desc, m.id desc) l
+    left join agriops_paddocks p on p.id = l.to_paddock_id
+   where c.id = l.animal_id;
+
+  update agriops_graze_events
+     set head_count = coalesce(head_count, 0) + v_moved,
+         pre_graze_dm_lb_ac = coalesce(pre_graze_dm_lb_ac, p_pre_graze_dm_lb_ac)
+   where tenant_id = p_tenant_id and paddock_id = p_to_paddock_id and herd = v_herd
+     and out_date is null and in_date <= p_move_date;
+  if not found then
+    insert into agriops_graze_events (tenant_id, paddock_id, herd, in_date, head_count, pre_graze_dm_lb_ac)
+    values (p_tenant_id, p_to_paddock_id, v_herd, p_move_date, v_moved, p_pre_graze_dm_lb_ac);
+  end if;
+
+  foreach v_src in array v_sources loop
+    select coalesce(sum(h.head_count), 0) into v_left
+      from agriops_paddock_head_counts(p_tenant_id, p_move_date) h
+     where h.paddock_id = v_src;
+
+    if v_left > 0 then
+      select count(*) into v_from_n
+        from agriops_cattle_movements m
+       where m.tenant_id = p_tenant_id and m.animal_id = any (v_ids)
+         and m.from_paddock_id = v_src and m.to_paddock_id = p_to_paddock_id and m.move_date = p_move_date;
+      update agriops_graze_events
+         set head_count = case when head_count is null then null else greatest(head_count - v_from_n, 0) end
+       where tenant_id = p_tenant_id and paddock_id = v_src and herd = v_herd
+         and out_date is null and in_date <= p_move_date;
+      continue;
+    end if;
+
+    update agriops_graze_events
+       set out_date = p_move_date,
+           post_graze_dm_lb_ac = coalesce(p_post_graze_dm_lb_ac, post_graze_dm_lb_ac)
+     where tenant_id = p_tenant_id and paddock_id = v_src
+       and out_date is null and in_date <= p_move_date;
+
+    if not found then
+      select count(distinct m.animal_id), max(m.move_date) into v_from_n, v_in_date
+        from agriops_cattle_movements m
+       where m.tenant_id = p_tenant_id and m.animal_id = any (v_ids)
+         and m.to_paddock_id = v_src and m.move_date <= p_move_date;
+      insert into agriops_graze_events (tenant_id, paddock_id, herd, in_date, out_date, head_count, post_graze_dm_lb_ac)
+      values (p_tenant_id, v_src, v_herd, coalesce(v_in_date, p_move_date), p_move_date, v_from_n, p_post_graze_dm_lb_ac);
+    end if;
+  end loop;
+
+  return jsonb_build_object('moved', v_moved, 'animal_ids', to_jsonb(v_ids), 'from_paddock_ids', to_jsonb(v_sources));
+end;
+$$;
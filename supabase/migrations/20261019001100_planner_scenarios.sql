@@ -0,0 +1,35 @@
+-- Saved herds and named GrazingPlanner scenarios per tenant. A scenario is the planner inputs
+-- (herd + horizon/growth/residual/stay); paddock forage always comes from agriops_paddocks.
+
+create table if not exists agriops_herds (
+  id             bigserial primary key,
+  tenant_id      text not null,
+  name           text not null,
+  headcount      integer not null default 0 check (headcount >= 0),
+  avg_weight_lb  numeric not null default 0 check (avg_weight_lb >= 0),
+  intake_pct_bw  numeric not null default 2.6 check (intake_pct_bw >= 0),
+  notes          text,
+  created_at     timestamptz not null default now(),
+  updated_at     timestamptz not null default now()
+);
+
+create unique index if not exists agriops_herds_name_uniq
+  on agriops_herds (tenant_id, lower(name));
+
+create table if not exists agriops_planner_scenarios (
+  id                   bigserial primary key,
+  tenant_id            text not null,
+  name                 text not null,
+  herd_id              bigint references agriops_herds(id) on delete set null,
+  days                 integer not null default 30 check (days between 1 and 730),
+  growth_dm_lb_ac_day  numeric not null default 35,
+  residual_dm_lb_ac    numeric not null default 1200,
+  max_stay_days        integer not null default 0 check (max_stay_days >= 0),
+  start_date           date, -- null = plan from today
+  notes                text,
+  created_at           timestamptz not null default now(),
+  updated_at           timestamptz not null default now()
+);
+
+create unique index if not exists agriops_planner_scenarios_name_uniq
+  on agriops_planner_scenarios (tenant_id, lower(name));
@@ -0,0 +1,13 @@
+-- Custom management groups on animals (e.g. "2026 heifers") and the cattle filter a planner herd
+-- was built from, so a saved herd can be refreshed from current records.
+
+alter table agriops_cattle
+  add column if not exists group_name text;
+
+create index if not exists agriops_cattle_group_idx
+  on agriops_cattle (tenant_id, lower(group_name))
+  where group_name is not null;
+
+-- { paddock_id?, status?, group_name? } as accepted by /api/cattle herdStats
+alter table agriops_herds
+  add column if not exists cattle_filter jsonb;
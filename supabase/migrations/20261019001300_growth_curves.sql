@@ -0,0 +1,22 @@
+-- Seasonal forage growth: 12 monthly rates (lb DM/ac/day, Jan..Dec) per curve. A paddock uses its
+-- own growth_curve_id, else the curve assigned to its zone, else the planner's flat growth rate.
+
+create table if not exists agriops_growth_curves (
+  id            bigserial primary key,
+  tenant_id     text not null,
+  name          text not null,
+  zone          text, -- paddocks in this zone use the curve unless they name another
+  monthly_rates numeric[] not null check (array_length(monthly_rates, 1) = 12),
+  notes         text,
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now()
+);
+
+create unique index if not exists agriops_growth_curves_name_uniq
+  on agriops_growth_curves (tenant_id, lower(name));
+create unique index if not exists agriops_growth_curves_zone_uniq
+  on agriops_growth_curves (tenant_id, lower(zone))
+  where zone is not null;
+
+alter table agriops_paddocks
+  add column if not exists growth_curve_id bigint references agriops_growth_curves(id) on delete set null;
@@ -0,0 +1,23 @@
+-- Dated forage measurements per paddock. dm_lb_ac is computed by /api/paddocks from the method's
+-- inputs (plate clicks × calibration, clip dry weight over quadrat area, or a visual estimate) and
+-- kept so the standing-DM projection never has to re-derive it.
+
+create table if not exists agriops_forage_samples (
+  id                bigserial primary key,
+  tenant_id         text not null,
+  paddock_id        bigint not null references agriops_paddocks(id) on delete cascade,
+  sample_date       date not null,
+  method            text not null check (method in ('plate', 'clip', 'visual')),
+  readings          integer, -- plate drops or quadrats averaged into this sample
+  plate_clicks      numeric, -- mean compressed height, meter clicks
+  calib_slope       numeric, -- lb DM/ac per click
+  calib_intercept   numeric, -- lb DM/ac
+  quadrat_area_sqft numeric,
+  dry_weight_g      numeric, -- mean oven-dry weight per quadrat
+  dm_lb_ac          numeric not null check (dm_lb_ac >= 0),
+  notes             text,
+  created_at        timestamptz not null default now()
+);
+
+create index if not exists agriops_forage_samples_paddock_idx
+  on agriops_forage_samples (tenant_id, paddock_id, sample_date desc);
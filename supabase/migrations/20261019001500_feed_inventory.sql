@@ -0,0 +1,25 @@
+-- Stored feed (hay, silage, supplements) by lot. GrazingPlanner feeds the rotation's shortfall
+-- days from these lots in feed order and prices whatever is left to buy.
+
+create table if not exists agriops_feed_lots (
+  id             bigserial primary key,
+  tenant_id      text not null,
+  name           text not null,
+  kind           text not null default 'hay'
+                 check (kind in ('hay', 'baleage', 'silage', 'grain', 'supplement')),
+  units_on_hand  numeric not null default 0 check (units_on_hand >= 0), -- bales, tons, bags …
+  unit_label     text not null default 'bale',
+  unit_weight_lb numeric not null check (unit_weight_lb > 0),           -- as fed
+  dm_pct         numeric not null check (dm_pct > 0 and dm_pct <= 100),
+  cost_per_unit  numeric not null default 0 check (cost_per_unit >= 0),
+  waste_pct      numeric check (waste_pct >= 0 and waste_pct < 100),    -- null = default for the kind
+  received_date  date,
+  feed_by        date,    -- spoils / must be used by
+  priority       integer, -- lower feeds first; overrides the automatic order
+  notes          text,
+  created_at     timestamptz not null default now(),
+  updated_at     timestamptz not null default now()
+);
+
+create unique index if not exists agriops_feed_lots_name_uniq
+  on agriops_feed_lots (tenant_id, lower(name));
@@ -0,0 +1,8 @@
+-- Per-tenant preferences. unit_system only changes what screens, PDFs and CSVs show; every
+-- measurement column keeps its canonical unit (lb, acres, lb/ac, °C …).
+
+create table if not exists agriops_tenant_settings (
+  tenant_id   text primary key,
+  unit_system text not null default 'imperial' check (unit_system in ('imperial', 'metric')),
+  updated_at  timestamptz not null default now()
+);
@@ -0,0 +1,8 @@
+-- Paddock boundaries: a GeoJSON Polygon / MultiPolygon in WGS84 ([lon, lat]), imported from
+-- GeoJSON or KML. boundary_acres is computed from it on save (spherical area); the typed
+-- acres column stays as entered and is flagged in the UI when the two disagree.
+
+alter table agriops_paddocks
+  add column if not exists boundary jsonb
+    check (boundary is null or boundary->>'type' in ('Polygon', 'MultiPolygon')),
+  add column if not exists boundary_acres numeric;
@@ -0,0 +1,26 @@
+-- Paddock infrastructure registry: water points (tank, trough, pond), fence segments (permanent,
+-- temporary, electric) and gates, each on one paddock. Kind-specific measures are nullable.
+-- Planner scenarios can leave out paddocks without water and size the herd's daily water.
+
+create table if not exists agriops_infrastructure (
+  id            bigserial primary key,
+  tenant_id     text not null,
+  paddock_id    bigint not null references agriops_paddocks(id) on delete cascade,
+  kind          text not null
+                check (kind in ('tank', 'trough', 'pond', 'permanent', 'temporary', 'electric', 'gate')),
+  name          text,
+  capacity_gal  numeric check (capacity_gal >= 0), -- water points
+  length_ft     numeric check (length_ft >= 0),    -- fence segments
+  width_ft      numeric check (width_ft >= 0),     -- gates
+  to_paddock_id bigint references agriops_paddocks(id) on delete set null, -- gates
+  notes         text,
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now()
+);
+
+create index if not exists agriops_infrastructure_paddock_idx
+  on agriops_infrastructure (tenant_id, paddock_id);
+
+alter table agriops_planner_scenarios
+  add column if not exists require_water boolean not null default false,
+  add column if not exists water_gal_au_day numeric not null default 15 check (water_gal_au_day >= 0);
@@ -0,0 +1,32 @@
+-- Dated soil tests per paddock, optionally per sampling zone ('' = whole paddock), entered by hand
+-- or imported from lab CSVs. Recommendations are computed from them in lib/soil against the crop
+-- target; re-importing a file replaces the same paddock / date / zone rather than duplicating it.
+
+create table if not exists agriops_soil_tests (
+  id          bigserial primary key,
+  tenant_id   text not null,
+  paddock_id  bigint not null references agriops_paddocks(id) on delete cascade,
+  sample_date date not null,
+  zone        text not null default '',
+  crop        text not null default 'grass_pasture'
+              check (crop in ('grass_pasture', 'grass_hay', 'legume_grass', 'alfalfa')),
+  lab         text,
+  ph          numeric check (ph between 3 and 10),
+  p_ppm       numeric check (p_ppm >= 0),   -- Mehlich-3 style
+  k_ppm       numeric check (k_ppm >= 0),
+  om_pct      numeric check (om_pct between 0 and 100),
+  cec_meq     numeric check (cec_meq >= 0), -- meq/100 g
+  notes       text,
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now()
+);
+
+create unique index if not exists agriops_soil_tests_uniq
+  on agriops_soil_tests (tenant_id, paddock_id, sample_date, zone);
+
+-- What each amendment supplied per acre, so applications can be checked against the latest test.
+alter table agriops_paddock_amendments
+  add column if not exists n_lb_ac     numeric check (n_lb_ac >= 0),
+  add column if not exists p2o5_lb_ac  numeric check (p2o5_lb_ac >= 0),
+  add column if not exists k2o_lb_ac   numeric check (k2o_lb_ac >= 0),
+  add column if not exists lime_ton_ac numeric check (lime_ton_ac >= 0); -- 100% CCE equivalent
@@ -0,0 +1,32 @@
+-- Amendment product catalog (fertilizer grade, lime CCE, liquid weight, price) and structured
+-- application rates. /api/paddocks fills an amendment's n/p2o5/k2o/lime and cost_per_ac from its
+-- product and rate; the free-text product and rate columns are kept for older records.
+
+create table if not exists agriops_amendment_products (
+  id          bigserial primary key,
+  tenant_id   text not null,
+  name        text not null,
+  kind        text not null default 'fertilizer'
+              check (kind in ('fertilizer', 'lime', 'manure', 'other')),
+  form        text not null default 'dry' check (form in ('dry', 'liquid')),
+  n_pct       numeric not null default 0 check (n_pct between 0 and 100),
+  p2o5_pct    numeric not null default 0 check (p2o5_pct between 0 and 100),
+  k2o_pct     numeric not null default 0 check (k2o_pct between 0 and 100),
+  cce_pct     numeric check (cce_pct > 0 and cce_pct <= 200),
+  lb_per_gal  numeric check (lb_per_gal > 0), -- liquids
+  price       numeric check (price >= 0),     -- $ per ton (dry) or per gallon (liquid)
+  notes       text,
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now()
+);
+
+create unique index if not exists agriops_amendment_products_name_uniq
+  on agriops_amendment_products (tenant_id, lower(name));
+
+alter table agriops_paddock_amendments
+  add column if not exists product_id  bigint references agriops_amendment_products(id) on delete set null,
+  add column if not exists rate_value  numeric check (rate_value >= 0),
+  add column if not exists rate_unit   text check (rate_unit in ('lb_ac', 'ton_ac', 'gal_ac')),
+  add column if not exists method      text
+    check (method in ('broadcast', 'topdress', 'banded', 'incorporated', 'injected', 'foliar')),
+  add column if not exists cost_per_ac numeric check (cost_per_ac >= 0);